@@ -37,6 +37,7 @@ import {
   MessageCircle,
 } from "lucide-react";
 import { authOptions } from "@/lib/auth";
+import { getContinueLearningItems } from "@/lib/resume";
 
 interface ReviewType {
   _id: string;
@@ -106,6 +107,7 @@ type DashboardProgressRow = {
   breakdown?: { lessons?: unknown };
   isComplete?: boolean;
   videoProgress?: unknown;
+  videoWatchDetails?: unknown;
 };
 
 export default async function StudentDashboard() {
@@ -181,6 +183,13 @@ export default async function StudentDashboard() {
   const estimatedHours =
     totalWatchSeconds > 0 ? Math.round((totalWatchSeconds / 3600) * 10) / 10 : 0;
 
+  const courseNames = new Map(
+    enrolledCourses.map((course: EnrolledCourseType) => [String(course._id), course.name])
+  );
+  const continueItems = (await getContinueLearningItems(progressRows)).filter((item) =>
+    courseNames.has(item.courseId)
+  );
+
   return (
     <div className="mx-auto max-w-7xl px-4 py-8 sm:px-6 lg:px-8">
       <div className="mb-8 rounded-2xl border border-border/70 bg-card/80 p-6 shadow-sm ring-1 ring-black/[0.03] backdrop-blur-sm dark:bg-card/50 dark:ring-white/[0.04] sm:p-8">
@@ -357,6 +366,37 @@ export default async function StudentDashboard() {
         </Link>
       </div>
 
+      {/* Continue Learning Rail */}
+      {continueItems.length > 0 && (
+        <div className="mb-8">
+          <h2 className="mb-4 text-xl font-bold tracking-tight sm:text-2xl">Continue learning</h2>
+          <div className="flex gap-4 overflow-x-auto pb-2">
+            {continueItems.map((item) => (
+              <Link key={`${item.courseId}-${item.videoId}`} href={item.href} className="block w-64 shrink-0">
+                <Card className="h-full border-border/70 transition-all hover:-translate-y-0.5 hover:border-primary/25 hover:shadow-md">
+                  <CardContent className="space-y-3 p-4">
+                    <div className="flex items-start gap-2">
+                      <PlayCircle className="mt-0.5 h-5 w-5 shrink-0 text-primary" />
+                      <div className="min-w-0">
+                        <p className="truncate font-semibold">{item.title}</p>
+                        <p className="truncate text-xs text-muted-foreground">
+                          {courseNames.get(item.courseId)}
+                        </p>
+                      </div>
+                    </div>
+                    <Progress value={item.percentWatched} className="h-1.5" />
+                    <p className="text-xs text-muted-foreground">
+                      {Math.round(item.percentWatched)}% watched ·{" "}
+                      {new Date(item.lastWatchedAt).toLocaleDateString()}
+                    </p>
+                  </CardContent>
+                </Card>
+              </Link>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Refund Requests Section */}
       {refundRequests.length > 0 && (
         <div className="mb-8">
@@ -513,12 +553,8 @@ export default async function StudentDashboard() {
                 100,
                 Math.round(Number(row?.percentageCompleted ?? 0) * 100) / 100
               );
-              const lastAccessed = row?.lastAccessedVideo
-                ? String(row.lastAccessedVideo)
-                : null;
-              const continueHref = lastAccessed
-                ? `/courses/${course._id}/learn/${lastAccessed}`
-                : `/courses/${course._id}/learn`;
+              // The learn page forwards to the unfinished video or next lesson
+              const continueHref = `/courses/${course._id}/learn`;
 
               // Check if there's a refund request for this course
               const courseRefundRequest = refundRequests.find(
@@ -0,0 +1,343 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Skeleton } from "@/components/ui/skeleton"
+import { AlertTriangle, MonitorPlay } from "lucide-react"
+
+type QualityFlag = "slow_startup" | "rebuffering" | "fatal_errors" | "start_failures"
+
+type QualitySummary = {
+  sessions: number
+  startFailurePercent: number
+  medianStartupMs: number | null
+  p90StartupMs: number | null
+  rebufferPercent: number
+  stallsPerSession: number
+  bitrateSwitchesPerSession: number
+  averageBitrateKbps: number | null
+  fatalErrorPercent: number
+  watchHours: number
+  flags: QualityFlag[]
+}
+
+type CourseQualityPayload = {
+  courseId: string
+  days: number
+  summary: QualitySummary
+  videos: (QualitySummary & { videoId: string; title: string })[]
+}
+
+type VideoQualityPayload = {
+  videoId: string
+  title: string
+  days: number
+  summary: QualitySummary
+  daily: (QualitySummary & { date: string })[]
+  errors: { type: string; details: string; count: number; lastSeen: string }[]
+  delivery: { delivery: string; sessions: number }[]
+}
+
+const FLAG_LABELS: Record<QualityFlag, string> = {
+  slow_startup: "Slow startup",
+  rebuffering: "Rebuffering",
+  fatal_errors: "Playback errors",
+  start_failures: "Fails to start",
+}
+
+const DELIVERY_LABELS: Record<string, string> = {
+  hls: "HLS (hls.js)",
+  native_hls: "HLS (native)",
+  progressive: "Progressive",
+}
+
+const WINDOWS = [7, 30, 90]
+
+function formatMs(value: number | null) {
+  if (value === null) return "—"
+  return value < 1000 ? `${value} ms` : `${(value / 1000).toFixed(1)} s`
+}
+
+function useJson<T>(url: string) {
+  const [data, setData] = useState<T | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    setLoading(true)
+    setError(null)
+    fetch(url)
+      .then(async (res) => {
+        if (!res.ok) {
+          const j = await res.json().catch(() => ({}))
+          throw new Error(j.error || "Failed to load")
+        }
+        setData(await res.json())
+      })
+      .catch((e) => {
+        setData(null)
+        setError(e instanceof Error ? e.message : "Failed to load")
+      })
+      .finally(() => setLoading(false))
+  }, [url])
+
+  return { data, loading, error }
+}
+
+function FlagBadges({ flags }: { flags: QualityFlag[] }) {
+  if (flags.length === 0) return null
+  return (
+    <div className="mt-1 flex flex-wrap gap-1">
+      {flags.map((flag) => (
+        <Badge key={flag} variant="destructive" className="gap-1">
+          <AlertTriangle className="h-3 w-3" />
+          {FLAG_LABELS[flag]}
+        </Badge>
+      ))}
+    </div>
+  )
+}
+
+function SummaryStat({ label, value, hint }: { label: string; value: string; hint?: string }) {
+  return (
+    <div className="rounded-md border p-3">
+      <p className="text-xs text-muted-foreground">{label}</p>
+      <p className="text-xl font-semibold tabular-nums">{value}</p>
+      {hint && <p className="text-xs text-muted-foreground">{hint}</p>}
+    </div>
+  )
+}
+
+function VideoPlaybackDetail({ courseId, videoId, days }: { courseId: string; videoId: string; days: number }) {
+  const { data, loading, error } = useJson<VideoQualityPayload>(
+    `/api/teacher/analytics/${courseId}/playback/${videoId}?days=${days}`
+  )
+
+  if (loading) return <Skeleton className="h-48 w-full" />
+
+  if (error) {
+    return (
+      <p className="text-sm text-destructive" role="alert">
+        {error}
+      </p>
+    )
+  }
+
+  if (!data) return null
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Playback quality — {data.title}</CardTitle>
+        <CardDescription>
+          {data.summary.sessions} session{data.summary.sessions === 1 ? "" : "s"} in the last {data.days} days
+          {data.delivery.length > 0 &&
+            ` (${data.delivery.map((d) => `${DELIVERY_LABELS[d.delivery] || d.delivery}: ${d.sessions}`).join(", ")})`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6 overflow-x-auto">
+        {data.daily.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No playback reports for this video yet.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Day</TableHead>
+                <TableHead className="text-right">Sessions</TableHead>
+                <TableHead className="text-right">Median startup</TableHead>
+                <TableHead className="text-right">Rebuffering</TableHead>
+                <TableHead className="text-right">Bitrate switches</TableHead>
+                <TableHead className="text-right">Avg bitrate</TableHead>
+                <TableHead className="text-right">Errors</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {data.daily.map((day) => (
+                <TableRow key={day.date}>
+                  <TableCell className="tabular-nums">{new Date(`${day.date}T00:00:00Z`).toLocaleDateString()}</TableCell>
+                  <TableCell className="text-right tabular-nums">{day.sessions}</TableCell>
+                  <TableCell className="text-right tabular-nums">{formatMs(day.medianStartupMs)}</TableCell>
+                  <TableCell className="text-right tabular-nums">{day.rebufferPercent}%</TableCell>
+                  <TableCell className="text-right tabular-nums">{day.bitrateSwitchesPerSession}</TableCell>
+                  <TableCell className="text-right tabular-nums">
+                    {day.averageBitrateKbps === null ? "—" : `${day.averageBitrateKbps} kbps`}
+                  </TableCell>
+                  <TableCell className="text-right tabular-nums">{day.fatalErrorPercent}%</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        {data.errors.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-sm font-medium">Fatal errors</p>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Details</TableHead>
+                  <TableHead className="text-right">Count</TableHead>
+                  <TableHead className="text-right">Last seen</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {data.errors.map((e) => (
+                  <TableRow key={`${e.type}:${e.details}`}>
+                    <TableCell className="font-mono text-xs">{e.type}</TableCell>
+                    <TableCell className="font-mono text-xs">{e.details || "—"}</TableCell>
+                    <TableCell className="text-right tabular-nums">{e.count}</TableCell>
+                    <TableCell className="text-right text-xs text-muted-foreground">
+                      {new Date(e.lastSeen).toLocaleString()}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+/** Delivery quality reported by students' players, per lesson video, with problem lessons flagged. */
+export function PlaybackQualityPanel({ courseId }: { courseId: string }) {
+  const [days, setDays] = useState(30)
+  const [detailVideoId, setDetailVideoId] = useState<string | null>(null)
+  const { data, loading, error } = useJson<CourseQualityPayload>(
+    `/api/teacher/analytics/${courseId}/playback?days=${days}`
+  )
+
+  useEffect(() => {
+    setDetailVideoId(null)
+  }, [courseId])
+
+  return (
+    <>
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle className="flex items-center gap-2">
+              <MonitorPlay className="h-5 w-5" />
+              Video delivery
+            </CardTitle>
+            <CardDescription>
+              Startup time, rebuffering, bitrate switches and playback errors as measured by students&apos; players
+            </CardDescription>
+          </div>
+          <Select value={String(days)} onValueChange={(value) => setDays(Number(value))}>
+            <SelectTrigger className="w-[140px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {WINDOWS.map((w) => (
+                <SelectItem key={w} value={String(w)}>
+                  Last {w} days
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </CardHeader>
+        <CardContent className="space-y-6 overflow-x-auto">
+          {loading && <Skeleton className="h-48 w-full" />}
+
+          {!loading && error && (
+            <p className="text-sm text-destructive" role="alert">
+              {error}
+            </p>
+          )}
+
+          {!loading && data && (
+            <>
+              <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-4">
+                <SummaryStat
+                  label="Sessions"
+                  value={String(data.summary.sessions)}
+                  hint={`${data.summary.watchHours} h watched`}
+                />
+                <SummaryStat
+                  label="Median startup"
+                  value={formatMs(data.summary.medianStartupMs)}
+                  hint={`p90 ${formatMs(data.summary.p90StartupMs)}`}
+                />
+                <SummaryStat
+                  label="Rebuffering"
+                  value={`${data.summary.rebufferPercent}%`}
+                  hint={`${data.summary.stallsPerSession} stalls per session`}
+                />
+                <SummaryStat
+                  label="Playback errors"
+                  value={`${data.summary.fatalErrorPercent}%`}
+                  hint={`${data.summary.startFailurePercent}% never started`}
+                />
+              </div>
+
+              {data.videos.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No videos in this course.</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Video</TableHead>
+                      <TableHead className="text-right">Sessions</TableHead>
+                      <TableHead className="text-right">Median startup</TableHead>
+                      <TableHead className="text-right">Rebuffering</TableHead>
+                      <TableHead className="text-right">Bitrate switches</TableHead>
+                      <TableHead className="text-right">Errors</TableHead>
+                      <TableHead className="text-right">Details</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {data.videos.map((v) => (
+                      <TableRow key={v.videoId} className="align-top">
+                        <TableCell className="max-w-xs">
+                          <p className="font-medium">{v.title}</p>
+                          <FlagBadges flags={v.flags} />
+                        </TableCell>
+                        <TableCell className="text-right tabular-nums">{v.sessions}</TableCell>
+                        <TableCell className="text-right tabular-nums">{formatMs(v.medianStartupMs)}</TableCell>
+                        <TableCell className="text-right tabular-nums">{v.rebufferPercent}%</TableCell>
+                        <TableCell className="text-right tabular-nums">{v.bitrateSwitchesPerSession}</TableCell>
+                        <TableCell className="text-right tabular-nums">{v.fatalErrorPercent}%</TableCell>
+                        <TableCell className="text-right">
+                          <Button
+                            size="sm"
+                            variant={detailVideoId === v.videoId ? "secondary" : "outline"}
+                            disabled={v.sessions === 0}
+                            onClick={() => setDetailVideoId(detailVideoId === v.videoId ? null : v.videoId)}
+                          >
+                            {detailVideoId === v.videoId ? "Hide" : "View"}
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      {detailVideoId && <VideoPlaybackDetail courseId={courseId} videoId={detailVideoId} days={days} />}
+    </>
+  )
+}
@@ -0,0 +1,192 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Skeleton } from "@/components/ui/skeleton"
+import { AlertTriangle, Download } from "lucide-react"
+
+type ItemAnalysisPayload = {
+  quizId: string
+  title: string
+  respondents: number
+  items: {
+    questionId: string
+    position: number
+    type: string
+    prompt: string
+    respondents: number
+    difficultyIndex: number | null
+    discriminationIndex: number | null
+    upperGroupCorrectPercent: number | null
+    options: { index: number; text: string; isCorrect: boolean; count: number; percent: number }[]
+    noAnswerCount: number
+    flags: ("top_scorers_wrong" | "negative_discrimination")[]
+  }[]
+}
+
+const FLAG_LABELS: Record<ItemAnalysisPayload["items"][number]["flags"][number], string> = {
+  top_scorers_wrong: "Top scorers miss this",
+  negative_discrimination: "Negative discrimination",
+}
+
+function csvEscape(value: string | number) {
+  return `"${String(value).replaceAll('"', '""')}"`
+}
+
+function formatIndex(value: number | null) {
+  return value === null ? "—" : value.toFixed(2)
+}
+
+export function QuizItemAnalysis({ courseId, quizId }: { courseId: string; quizId: string }) {
+  const [data, setData] = useState<ItemAnalysisPayload | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    setLoading(true)
+    setError(null)
+    fetch(`/api/teacher/analytics/${courseId}/quizzes/${quizId}`)
+      .then(async (res) => {
+        if (!res.ok) {
+          const j = await res.json().catch(() => ({}))
+          throw new Error(j.error || "Failed to load")
+        }
+        setData(await res.json())
+      })
+      .catch((e) => {
+        setData(null)
+        setError(e instanceof Error ? e.message : "Failed to load")
+      })
+      .finally(() => setLoading(false))
+  }, [courseId, quizId])
+
+  const exportCsv = () => {
+    if (!data) return
+    const rows: (string | number)[][] = [
+      ["position", "question", "type", "respondents", "difficulty_index", "discrimination_index", "upper_group_correct_percent", "option", "correct", "chosen_count", "chosen_percent", "flags"],
+    ]
+    data.items.forEach((item) => {
+      const base = [
+        item.position,
+        item.prompt,
+        item.type,
+        item.respondents,
+        formatIndex(item.difficultyIndex),
+        formatIndex(item.discriminationIndex),
+        item.upperGroupCorrectPercent ?? "",
+      ]
+      const flags = item.flags.join(" ")
+      if (item.options.length === 0) {
+        rows.push([...base, "", "", "", "", flags])
+        return
+      }
+      item.options.forEach((opt) => {
+        rows.push([...base, opt.text, opt.isCorrect ? "yes" : "no", opt.count, opt.percent, flags])
+      })
+    })
+    const csv = rows.map((r) => r.map(csvEscape).join(",")).join("\n")
+    const blob = new Blob([csv], { type: "text/csv;charset=utf-8;" })
+    const link = document.createElement("a")
+    link.href = URL.createObjectURL(blob)
+    link.setAttribute("download", `quiz-item-analysis-${data.quizId}.csv`)
+    document.body.appendChild(link)
+    link.click()
+    document.body.removeChild(link)
+  }
+
+  if (loading) return <Skeleton className="h-64 w-full" />
+
+  if (error) {
+    return (
+      <p className="text-sm text-destructive" role="alert">
+        {error}
+      </p>
+    )
+  }
+
+  if (!data) return null
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Item analysis — {data.title}</CardTitle>
+          <CardDescription>
+            First completed attempt of {data.respondents} student{data.respondents === 1 ? "" : "s"}. Difficulty is the
+            share of points earned; discrimination compares the top and bottom 27% of scorers.
+          </CardDescription>
+        </div>
+        <Button variant="outline" size="sm" onClick={exportCsv} disabled={data.items.length === 0}>
+          <Download className="mr-2 h-4 w-4" />
+          Export CSV
+        </Button>
+      </CardHeader>
+      <CardContent className="overflow-x-auto">
+        {data.respondents === 0 ? (
+          <p className="text-sm text-muted-foreground">No completed attempts yet.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-10">#</TableHead>
+                <TableHead>Question</TableHead>
+                <TableHead className="text-right">Responses</TableHead>
+                <TableHead className="text-right">Difficulty</TableHead>
+                <TableHead className="text-right">Discrimination</TableHead>
+                <TableHead>Answer choices</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {data.items.map((item) => (
+                <TableRow key={item.questionId} className="align-top">
+                  <TableCell className="tabular-nums">{item.position}</TableCell>
+                  <TableCell className="max-w-xs">
+                    <p className="font-medium">{item.prompt}</p>
+                    <div className="mt-1 flex flex-wrap gap-1">
+                      {item.flags.map((flag) => (
+                        <Badge key={flag} variant="destructive" className="gap-1">
+                          <AlertTriangle className="h-3 w-3" />
+                          {FLAG_LABELS[flag]}
+                        </Badge>
+                      ))}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-right tabular-nums">{item.respondents}</TableCell>
+                  <TableCell className="text-right tabular-nums">{formatIndex(item.difficultyIndex)}</TableCell>
+                  <TableCell className="text-right tabular-nums">{formatIndex(item.discriminationIndex)}</TableCell>
+                  <TableCell>
+                    {item.options.length === 0 ? (
+                      <span className="text-xs text-muted-foreground">Not a choice question</span>
+                    ) : (
+                      <ul className="space-y-1 text-xs">
+                        {item.options.map((opt) => (
+                          <li key={opt.index} className={opt.isCorrect ? "font-medium text-emerald-700" : ""}>
+                            {opt.text}: {opt.count} ({opt.percent}%)
+                            {opt.isCorrect ? " ✓" : ""}
+                          </li>
+                        ))}
+                        {item.noAnswerCount > 0 && (
+                          <li className="text-muted-foreground">No answer: {item.noAnswerCount}</li>
+                        )}
+                      </ul>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -20,6 +20,9 @@ import {
 import { Badge } from "@/components/ui/badge"
 import { Progress } from "@/components/ui/progress"
 import { Skeleton } from "@/components/ui/skeleton"
+import { Button } from "@/components/ui/button"
+import { QuizItemAnalysis } from "./quiz-item-analysis"
+import { PlaybackQualityPanel } from "./playback-quality"
 import { Users, GraduationCap, BarChart3, CheckCircle2, CircleDashed } from "lucide-react"
 
 type CourseOption = { id: string; name: string; isPublished: boolean }
@@ -54,6 +57,7 @@ export function TeacherAnalyticsClient({ courses }: { courses: CourseOption[] })
   const [data, setData] = useState<AnalyticsPayload | null>(null)
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  const [analysisQuizId, setAnalysisQuizId] = useState<string | null>(null)
 
   const load = useCallback(async (id: string) => {
     if (!id) return
@@ -75,6 +79,7 @@ export function TeacherAnalyticsClient({ courses }: { courses: CourseOption[] })
   }, [])
 
   useEffect(() => {
+    setAnalysisQuizId(null)
     if (courseId) load(courseId)
   }, [courseId, load])
 
@@ -244,6 +249,7 @@ export function TeacherAnalyticsClient({ courses }: { courses: CourseOption[] })
                       <TableHead className="text-right">Students</TableHead>
                       <TableHead className="text-right">Avg score</TableHead>
                       <TableHead className="text-right">Pass rate</TableHead>
+                      <TableHead className="text-right">Items</TableHead>
                     </TableRow>
                   </TableHeader>
                   <TableBody>
@@ -254,6 +260,16 @@ export function TeacherAnalyticsClient({ courses }: { courses: CourseOption[] })
                         <TableCell className="text-right tabular-nums">{q.uniqueStudents}</TableCell>
                         <TableCell className="text-right tabular-nums">{q.averageScorePercent}%</TableCell>
                         <TableCell className="text-right tabular-nums">{q.passRatePercent}%</TableCell>
+                        <TableCell className="text-right">
+                          <Button
+                            size="sm"
+                            variant={analysisQuizId === q.quizId ? "secondary" : "outline"}
+                            disabled={q.totalAttempts === 0}
+                            onClick={() => setAnalysisQuizId(analysisQuizId === q.quizId ? null : q.quizId)}
+                          >
+                            {analysisQuizId === q.quizId ? "Hide" : "Analyse"}
+                          </Button>
+                        </TableCell>
                       </TableRow>
                     ))}
                   </TableBody>
@@ -261,6 +277,10 @@ export function TeacherAnalyticsClient({ courses }: { courses: CourseOption[] })
               )}
             </CardContent>
           </Card>
+
+          {analysisQuizId && <QuizItemAnalysis courseId={data.courseId} quizId={analysisQuizId} />}
+
+          <PlaybackQualityPanel courseId={data.courseId} />
         </>
       )}
     </div>
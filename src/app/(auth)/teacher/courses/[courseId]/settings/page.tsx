@@ -0,0 +1,228 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { useParams } from "next/navigation";
+import { toast } from "sonner";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import PlaybackWatermarkSettings from "@/components/courses/playback-watermark-settings";
+
+type Weights = { lessons: number; quizzes: number; assignments: number };
+
+type Criteria = { minVideoWatchPercent: number; minAverageQuizScore: number };
+
+type SettingsItem = { _id: string; title: string; required: boolean; published?: boolean };
+
+type ItemKind = "videos" | "assignments" | "quizzes";
+
+const WEIGHT_LABELS: Record<keyof Weights, string> = {
+  lessons: "Videos",
+  quizzes: "Quizzes",
+  assignments: "Assignments",
+};
+
+const ITEM_LABELS: Record<ItemKind, string> = {
+  videos: "Videos",
+  assignments: "Assignments",
+  quizzes: "Quizzes",
+};
+
+export default function TeacherCourseSettingsPage() {
+  const params = useParams<{ courseId: string }>();
+  const courseId = params.courseId;
+  const [weights, setWeights] = useState<Weights>({ lessons: 40, quizzes: 30, assignments: 30 });
+  const [criteria, setCriteria] = useState<Criteria>({ minVideoWatchPercent: 80, minAverageQuizScore: 0 });
+  const [items, setItems] = useState<Record<ItemKind, SettingsItem[]>>({ videos: [], assignments: [], quizzes: [] });
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setLoading(true);
+    fetch(`/api/courses/${courseId}/progress-settings`)
+      .then(async (res) => {
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || "Failed to load settings");
+        setWeights(data.progressWeights);
+        setCriteria(data.completionCriteria);
+        setItems({ videos: data.videos, assignments: data.assignments, quizzes: data.quizzes });
+      })
+      .catch((e) => setError(e instanceof Error ? e.message : "Failed to load settings"))
+      .finally(() => setLoading(false));
+  }, [courseId]);
+
+  const weightTotal = weights.lessons + weights.quizzes + weights.assignments;
+
+  const toggleRequired = (kind: ItemKind, id: string) =>
+    setItems((prev) => ({
+      ...prev,
+      [kind]: prev[kind].map((item) => (item._id === id ? { ...item, required: !item.required } : item)),
+    }));
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const res = await fetch(`/api/courses/${courseId}/progress-settings`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          progressWeights: weights,
+          completionCriteria: {
+            ...criteria,
+            optionalVideos: items.videos.filter((v) => !v.required).map((v) => v._id),
+            optionalAssignments: items.assignments.filter((a) => !a.required).map((a) => a._id),
+          },
+          requiredQuizzes: items.quizzes.filter((q) => q.required).map((q) => q._id),
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Failed to save settings");
+      toast.success(data.message);
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : "Failed to save settings");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="container mx-auto px-4 py-10 space-y-6">
+      <div className="flex items-center justify-between gap-3">
+        <div>
+          <h1 className="text-3xl font-bold">Progress Settings</h1>
+          <p className="text-muted-foreground">
+            Decide how progress is weighted and what students need to complete the course.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button asChild variant="outline">
+            <Link href={`/teacher/courses/${courseId}/progress`}>Student progress</Link>
+          </Button>
+          <Button asChild variant="outline">
+            <Link href="/teacher/courses">Back</Link>
+          </Button>
+        </div>
+      </div>
+
+      {error && (
+        <Card>
+          <CardContent className="p-4 text-sm text-destructive">{error}</CardContent>
+        </Card>
+      )}
+
+      {loading ? (
+        <div className="text-sm text-muted-foreground">Loading…</div>
+      ) : (
+        <>
+          <Card>
+            <CardHeader>
+              <CardTitle>Weights</CardTitle>
+              <CardDescription>
+                Share of the overall percentage per activity type. Types the course has no required items for are
+                left out and the rest scaled to 100%.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="grid gap-4 md:grid-cols-3">
+              {(Object.keys(WEIGHT_LABELS) as (keyof Weights)[]).map((key) => (
+                <div key={key} className="space-y-1">
+                  <Label htmlFor={`weight-${key}`}>{WEIGHT_LABELS[key]}</Label>
+                  <Input
+                    id={`weight-${key}`}
+                    type="number"
+                    min={0}
+                    max={100}
+                    value={weights[key]}
+                    onChange={(e) => setWeights((prev) => ({ ...prev, [key]: Number(e.target.value) || 0 }))}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    {weightTotal > 0 ? `${((weights[key] / weightTotal) * 100).toFixed(1)}% of progress` : "—"}
+                  </p>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Completion rules</CardTitle>
+              <CardDescription>A course is complete once every required item meets these rules.</CardDescription>
+            </CardHeader>
+            <CardContent className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-1">
+                <Label htmlFor="min-watch">Minimum watched per video (%)</Label>
+                <Input
+                  id="min-watch"
+                  type="number"
+                  min={1}
+                  max={100}
+                  value={criteria.minVideoWatchPercent}
+                  onChange={(e) =>
+                    setCriteria((prev) => ({ ...prev, minVideoWatchPercent: Number(e.target.value) || 0 }))
+                  }
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="min-quiz">Minimum average quiz score (%)</Label>
+                <Input
+                  id="min-quiz"
+                  type="number"
+                  min={0}
+                  max={100}
+                  value={criteria.minAverageQuizScore}
+                  onChange={(e) =>
+                    setCriteria((prev) => ({ ...prev, minAverageQuizScore: Number(e.target.value) || 0 }))
+                  }
+                />
+                <p className="text-xs text-muted-foreground">Best score per required quiz; 0 turns the rule off.</p>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Required items</CardTitle>
+              <CardDescription>Optional items stay visible to students but do not count toward completion.</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              {(Object.keys(ITEM_LABELS) as ItemKind[]).map((kind) => (
+                <div key={kind} className="space-y-2">
+                  <h3 className="font-medium">{ITEM_LABELS[kind]}</h3>
+                  {items[kind].length === 0 ? (
+                    <p className="text-sm text-muted-foreground">None in this course.</p>
+                  ) : (
+                    items[kind].map((item) => (
+                      <label key={item._id} className="flex items-center gap-3 rounded border p-2 text-sm">
+                        <input
+                          type="checkbox"
+                          checked={item.required}
+                          onChange={() => toggleRequired(kind, item._id)}
+                        />
+                        <span className="flex-1 truncate">{item.title}</span>
+                        {item.published === false && <Badge variant="outline">Draft</Badge>}
+                        <Badge variant={item.required ? "default" : "secondary"}>
+                          {item.required ? "Required" : "Optional"}
+                        </Badge>
+                      </label>
+                    ))
+                  )}
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+
+          <div className="flex justify-end">
+            <Button onClick={handleSave} disabled={saving || weightTotal <= 0}>
+              {saving ? "Saving…" : "Save and recalculate"}
+            </Button>
+          </div>
+
+          <PlaybackWatermarkSettings courseId={courseId} />
+        </>
+      )}
+    </div>
+  );
+}
@@ -254,6 +254,11 @@ export default function TeacherCoursesPage() {
                     Progress
                   </Button>
                 </Link>
+                <Link href={`/teacher/courses/${course._id}/settings`}>
+                  <Button variant="outline" size="sm">
+                    Settings
+                  </Button>
+                </Link>
                 {/* Publish/Unpublish */}
                 <Button
                   variant="outline"
@@ -6,6 +6,7 @@ import { dbConnect } from "@/lib/dbConnect";
 import { Student } from "@/models/student";
 import { Teacher } from "@/models/teacher";
 import { Admin } from "@/models/admin";
+import { revokePlaybackTokens } from "@/lib/playback-tokens";
 
 export async function PUT(
   req: NextRequest,
@@ -61,6 +62,11 @@ export async function PUT(
       return NextResponse.json({ error: "User not found" }, { status: 404 });
     }
 
+    // Suspended users lose any video links they still hold
+    if (isBlocked) {
+      await revokePlaybackTokens(userId);
+    }
+
     return NextResponse.json({
       message: `User ${action}d successfully`,
       user: updatedUser,
@@ -0,0 +1,132 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { dbConnect } from "@/lib/dbConnect"
+import { Assignment, assignmentExtensionValidationSchema } from "@/models/assignment"
+import { Submission } from "@/models/submission"
+import { Course } from "@/models/course"
+import { getSubmissionVersions } from "@/lib/assignment-grading"
+import { applyLatePenalty, evaluateSubmissionTiming, type AssignmentForTiming } from "@/lib/assignment-late-policy"
+
+function toIdString(id: unknown) {
+  if (typeof id === "string") return id
+  if (id && typeof (id as { toString?: unknown }).toString === "function") return (id as { toString: () => string }).toString()
+  return ""
+}
+
+async function findOwnedAssignment(assignmentId: string, teacherId: string) {
+  const assignment = await Assignment.findById(assignmentId)
+  if (!assignment) return { error: NextResponse.json({ error: "Assignment not found" }, { status: 404 }) }
+  const course = await Course.findById(assignment.courseId).select("teacher").lean()
+  if (!course || course.teacher?.toString() !== teacherId) {
+    return { error: NextResponse.json({ error: "You can only manage your own assignments" }, { status: 403 }) }
+  }
+  return { assignment }
+}
+
+/**
+ * An extension changes what counts as late, so the student's current version is
+ * re-timed and, if already scored, its penalty re-applied.
+ */
+async function retimeStudentSubmission(assignment: AssignmentForTiming & { _id: unknown }, studentId: string) {
+  const submission = await Submission.findOne({ assignmentId: assignment._id, studentId })
+  if (!submission) return
+
+  const versions = getSubmissionVersions(submission.toObject())
+  const current = versions.find((v) => v.version === (submission.currentVersion || 1))
+  if (!current) return
+
+  // Already-submitted work stays accepted; only its late status and penalty can change
+  const { lateStatus, daysLate, penaltyPercent, dueDateApplied } = evaluateSubmissionTiming(
+    assignment,
+    studentId,
+    new Date(current.submittedAt)
+  )
+  const timing = { lateStatus, daysLate, penaltyPercent, dueDateApplied }
+  const rawGrade: number | undefined = submission.rawGrade ?? submission.grade
+  const grade = typeof rawGrade === "number" ? applyLatePenalty(rawGrade, timing.penaltyPercent) : undefined
+  submission.set({
+    ...timing,
+    rawGrade,
+    grade,
+    versions: versions.map((v) => (v === current ? { ...v, ...timing, rawGrade, grade } : v)),
+  })
+  await submission.save()
+}
+
+export async function POST(req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user || session.user.role !== "teacher") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const input = assignmentExtensionValidationSchema.parse(await req.json())
+    const dueDate = new Date(input.dueDate)
+    if (Number.isNaN(dueDate.getTime())) {
+      return NextResponse.json({ error: "Invalid due date" }, { status: 400 })
+    }
+
+    await dbConnect()
+
+    const { assignment, error } = await findOwnedAssignment(params.id, session.user.id)
+    if (error) return error
+
+    // One extension per student; granting again replaces it
+    const extensions = (assignment.extensions || []).filter(
+      (e: { studentId: unknown }) => toIdString(e.studentId) !== input.studentId
+    )
+    extensions.push({
+      studentId: input.studentId,
+      dueDate,
+      reason: input.reason,
+      grantedBy: session.user.id,
+      grantedAt: new Date(),
+    })
+    assignment.set({ extensions })
+    await assignment.save()
+
+    await retimeStudentSubmission(assignment.toObject(), input.studentId)
+
+    return NextResponse.json({ extensions: assignment.extensions })
+  } catch (error) {
+    if (error instanceof Error && error.name === "ZodError") {
+      return NextResponse.json({ error: "Invalid input data" }, { status: 400 })
+    }
+    console.error("Grant extension error:", error)
+    return NextResponse.json({ error: "Failed to grant extension" }, { status: 500 })
+  }
+}
+
+export async function DELETE(req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user || session.user.role !== "teacher") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const studentId = new URL(req.url).searchParams.get("studentId")
+    if (!studentId) {
+      return NextResponse.json({ error: "studentId required" }, { status: 400 })
+    }
+
+    await dbConnect()
+
+    const { assignment, error } = await findOwnedAssignment(params.id, session.user.id)
+    if (error) return error
+
+    assignment.set({
+      extensions: (assignment.extensions || []).filter(
+        (e: { studentId: unknown }) => toIdString(e.studentId) !== studentId
+      ),
+    })
+    await assignment.save()
+
+    await retimeStudentSubmission(assignment.toObject(), studentId)
+
+    return NextResponse.json({ extensions: assignment.extensions })
+  } catch (error) {
+    console.error("Revoke extension error:", error)
+    return NextResponse.json({ error: "Failed to revoke extension" }, { status: 500 })
+  }
+}
@@ -1,11 +1,27 @@
 import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
 import { dbConnect } from "@/lib/dbConnect"
 import { Submission } from "@/models/submission"
+import { Assignment } from "@/models/assignment"
+import { Course } from "@/models/course"
+import { getSubmissionVersions } from "@/lib/assignment-grading"
+import { applyLatePenalty } from "@/lib/assignment-late-policy"
+
+/**
+ * Marks every submission graded. Scored submissions get their late penalty
+ * re-applied from rawGrade, so the final grade always matches the recorded timing.
+ */
+export async function PATCH(req: NextRequest, { params }: { params: { id: string } }) {
+  const session = await getServerSession(authOptions)
+  if (!session?.user || session.user.role !== "teacher") {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
 
-export async function PATCH(req: NextRequest) {
   await dbConnect()
 
-  const { assignmentId } = await req.json()
+  const body = await req.json().catch(() => ({}))
+  const assignmentId = body?.assignmentId || params.id
 
   if (!assignmentId) {
     return NextResponse.json(
@@ -14,10 +30,30 @@ export async function PATCH(req: NextRequest) {
     )
   }
 
-  await Submission.updateMany(
-    { assignmentId },
-    { $set: { graded: true } }
-  )
+  const assignment = (await Assignment.findById(assignmentId).select("courseId").lean()) as {
+    courseId: unknown
+  } | null
+  if (!assignment) {
+    return NextResponse.json({ error: "Assignment not found" }, { status: 404 })
+  }
+
+  const course = await Course.findById(assignment.courseId).select("teacher").lean()
+  if (!course || course.teacher?.toString() !== session.user.id) {
+    return NextResponse.json({ error: "You can only grade submissions in your own courses" }, { status: 403 })
+  }
+
+  const submissions = await Submission.find({ assignmentId })
+  const gradedAt = new Date()
+  for (const submission of submissions) {
+    const rawGrade: number | undefined = submission.rawGrade ?? submission.grade
+    const grade = typeof rawGrade === "number" ? applyLatePenalty(rawGrade, submission.penaltyPercent ?? 0) : undefined
+    const gradeFields = { graded: true, rawGrade, grade, gradedAt: submission.gradedAt ?? gradedAt }
+    const versions = getSubmissionVersions(submission.toObject()).map((v) =>
+      v.version === (submission.currentVersion || 1) ? { ...v, ...gradeFields } : v
+    )
+    submission.set({ ...gradeFields, versions })
+    await submission.save()
+  }
 
-  return NextResponse.json({ message: "Updated successfully" })
-}
\ No newline at end of file
+  return NextResponse.json({ message: "Updated successfully", updated: submissions.length })
+}
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { dbConnect } from "@/lib/dbConnect"
+import { Assignment } from "@/models/assignment"
+import { PeerReview, peerReviewValidationSchema } from "@/models/peer-review"
+import { scoreRubric, type RubricCriterion } from "@/lib/assignment-grading"
+
+/** The assigned reviewer scores (or re-scores) the submission against the rubric. */
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: { id: string; reviewId: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user || session.user.role !== "student") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const input = peerReviewValidationSchema.parse(await req.json())
+
+    await dbConnect()
+
+    const review = await PeerReview.findOne({
+      _id: params.reviewId,
+      assignmentId: params.id,
+      reviewerId: session.user.id,
+    })
+    if (!review) {
+      return NextResponse.json({ error: "Review not found" }, { status: 404 })
+    }
+
+    const assignment = (await Assignment.findById(params.id).select("rubric").lean()) as {
+      rubric?: RubricCriterion[]
+    } | null
+    if (!assignment) {
+      return NextResponse.json({ error: "Assignment not found" }, { status: 404 })
+    }
+
+    const scored = scoreRubric(assignment.rubric || [], input.rubricScores)
+    if ("error" in scored) {
+      return NextResponse.json({ error: scored.error }, { status: 400 })
+    }
+
+    review.set({
+      status: "submitted",
+      rubricScores: input.rubricScores,
+      totalPoints: scored.total,
+      feedback: input.feedback,
+      submittedAt: new Date(),
+    })
+    await review.save()
+
+    return NextResponse.json({ message: "Review submitted", totalPoints: scored.total })
+  } catch (error) {
+    if (error instanceof Error && error.name === "ZodError") {
+      return NextResponse.json({ error: "Invalid input data" }, { status: 400 })
+    }
+    console.error("Submit peer review error:", error)
+    return NextResponse.json({ error: "Failed to submit review" }, { status: 500 })
+  }
+}
@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { dbConnect } from "@/lib/dbConnect"
+import { Assignment } from "@/models/assignment"
+import { Submission } from "@/models/submission"
+import { PeerReview, peerReviewFinalizeValidationSchema } from "@/models/peer-review"
+import { Course } from "@/models/course"
+import { notifyUser } from "@/lib/notifications"
+import { getSubmissionVersions, rubricMaxPoints, type RubricCriterion } from "@/lib/assignment-grading"
+import { applyLatePenalty } from "@/lib/assignment-late-policy"
+import { summarizePeerReviews } from "@/lib/peer-review"
+
+type AssignmentLean = {
+  _id: { toString: () => string }
+  courseId: { toString: () => string }
+  title?: string
+  rubric?: RubricCriterion[]
+}
+
+/**
+ * Teacher sets the final grade of a peer-reviewed submission: the peer consensus,
+ * or an override. Late penalties apply the same way as teacher grading.
+ */
+export async function POST(req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user || session.user.role !== "teacher") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const input = peerReviewFinalizeValidationSchema.parse(await req.json())
+
+    await dbConnect()
+
+    const assignment = (await Assignment.findById(params.id).lean()) as AssignmentLean | null
+    if (!assignment) {
+      return NextResponse.json({ error: "Assignment not found" }, { status: 404 })
+    }
+    const course = await Course.findById(assignment.courseId).select("teacher").lean()
+    if (!course || course.teacher?.toString() !== session.user.id) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 })
+    }
+
+    const submission = await Submission.findOne({ _id: input.submissionId, assignmentId: params.id })
+    if (!submission) {
+      return NextResponse.json({ error: "Submission not found" }, { status: 404 })
+    }
+
+    const maxPoints = rubricMaxPoints(assignment.rubric || [])
+    const reviews = await PeerReview.find({ submissionId: submission._id }).select("status totalPoints").lean()
+    const { consensusGrade } = summarizePeerReviews(reviews as { _id: unknown; status?: string; totalPoints?: number }[], maxPoints)
+
+    const rawGrade = input.grade ?? consensusGrade
+    if (typeof rawGrade !== "number") {
+      return NextResponse.json({ error: "No peer reviews submitted yet; enter a grade to override" }, { status: 400 })
+    }
+    if (rawGrade > maxPoints) {
+      return NextResponse.json({ error: `Grade cannot exceed ${maxPoints}` }, { status: 400 })
+    }
+
+    const penaltyPercent: number = submission.penaltyPercent ?? 0
+    const gradeFields = {
+      graded: true,
+      rawGrade,
+      grade: applyLatePenalty(rawGrade, penaltyPercent),
+      gradedAt: new Date(),
+    }
+    const versions = getSubmissionVersions(submission.toObject()).map((v) =>
+      v.version === (submission.currentVersion || 1) ? { ...v, ...gradeFields, gradedBy: session.user.id } : v
+    )
+    submission.set({
+      ...gradeFields,
+      maxGrade: maxPoints,
+      peerConsensusGrade: consensusGrade ?? undefined,
+      gradeSource: typeof input.grade === "number" ? "peer_override" : "peer_consensus",
+      versions,
+    })
+    await submission.save()
+
+    if (submission.studentId) {
+      await notifyUser({
+        userId: submission.studentId.toString(),
+        userRole: "student",
+        type: "assignment_graded",
+        title: `"${assignment.title || "Assignment"}" has been graded`,
+        body: `Score: ${gradeFields.grade}/${maxPoints}`,
+        link: `/courses/${assignment.courseId.toString()}`,
+        courseId: assignment.courseId.toString(),
+        data: { assignmentId: assignment._id.toString(), submissionId: submission._id.toString() },
+      }).catch((error) => console.error("Assignment graded notification error:", error))
+    }
+
+    return NextResponse.json({ message: "Grade saved", submission })
+  } catch (error) {
+    if (error instanceof Error && error.name === "ZodError") {
+      return NextResponse.json({ error: "Invalid input data" }, { status: 400 })
+    }
+    console.error("Finalize peer review error:", error)
+    return NextResponse.json({ error: "Failed to save grade" }, { status: 500 })
+  }
+}
@@ -0,0 +1,221 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { dbConnect } from "@/lib/dbConnect"
+import { Assignment } from "@/models/assignment"
+import { Submission } from "@/models/submission"
+import { PeerReview } from "@/models/peer-review"
+import { Course } from "@/models/course"
+import { Student } from "@/models/student"
+import { notifyMany } from "@/lib/notifications"
+import { rubricMaxPoints, type RubricCriterion } from "@/lib/assignment-grading"
+import { assignReviewers, summarizePeerReviews } from "@/lib/peer-review"
+
+function toIdString(id: unknown) {
+  if (typeof id === "string") return id
+  if (id && typeof (id as { toString?: unknown }).toString === "function") return (id as { toString: () => string }).toString()
+  return ""
+}
+
+type AssignmentLean = {
+  _id: unknown
+  courseId: unknown
+  title?: string
+  dueDate?: Date
+  rubric?: RubricCriterion[]
+  peerReview?: { enabled?: boolean; reviewsPerSubmission?: number; assignedAt?: Date }
+}
+
+type SubmissionLean = {
+  _id: unknown
+  studentId?: { _id?: unknown; name?: string } | unknown
+  fileUrl?: string
+  grade?: number
+  graded?: boolean
+  gradeSource?: string
+}
+
+type PeerReviewLean = {
+  _id: unknown
+  submissionId: unknown
+  reviewerId: { _id?: unknown; name?: string } | unknown
+  status?: string
+  rubricScores?: unknown[]
+  totalPoints?: number
+  feedback?: string
+  submittedAt?: Date
+}
+
+async function isCourseTeacher(courseId: unknown, teacherId: string) {
+  const course = await Course.findById(courseId).select("teacher").lean()
+  return !!course && course.teacher?.toString() === teacherId
+}
+
+/**
+ * Teachers get every submission with its reviews, consensus and outliers.
+ * Students get the anonymous submissions they must review and the reviews of their own work.
+ */
+export async function GET(_req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    await dbConnect()
+
+    const assignment = (await Assignment.findById(params.id).lean()) as AssignmentLean | null
+    if (!assignment || !assignment.peerReview?.enabled) {
+      return NextResponse.json({ error: "Peer review is not enabled for this assignment" }, { status: 404 })
+    }
+    const rubric = assignment.rubric || []
+
+    if (session.user.role === "teacher") {
+      if (!(await isCourseTeacher(assignment.courseId, session.user.id))) {
+        return NextResponse.json({ error: "Forbidden" }, { status: 403 })
+      }
+
+      const [submissions, reviews] = await Promise.all([
+        Submission.find({ assignmentId: params.id }).populate("studentId", "name").lean<SubmissionLean[]>(),
+        PeerReview.find({ assignmentId: params.id }).populate("reviewerId", "name").lean<PeerReviewLean[]>(),
+      ])
+      const maxPoints = rubricMaxPoints(rubric)
+
+      return NextResponse.json({
+        assignedAt: assignment.peerReview.assignedAt ?? null,
+        reviewsPerSubmission: assignment.peerReview.reviewsPerSubmission ?? 3,
+        maxPoints,
+        rubric,
+        submissions: submissions.map((sub) => {
+          const subReviews = reviews.filter((r) => toIdString(r.submissionId) === toIdString(sub._id))
+          const summary = summarizePeerReviews(subReviews, maxPoints)
+          return {
+            submissionId: toIdString(sub._id),
+            authorName: (sub.studentId as { name?: string } | undefined)?.name || "Student",
+            fileUrl: sub.fileUrl,
+            graded: !!sub.graded,
+            grade: sub.grade,
+            gradeSource: sub.gradeSource || "teacher",
+            ...summary,
+            reviews: subReviews.map((r) => ({
+              _id: toIdString(r._id),
+              reviewerName: (r.reviewerId as { name?: string } | undefined)?.name || "Student",
+              status: r.status,
+              totalPoints: r.totalPoints,
+              rubricScores: r.rubricScores || [],
+              feedback: r.feedback,
+              outlier: summary.outlierReviewIds.includes(toIdString(r._id)),
+            })),
+          }
+        }),
+      })
+    }
+
+    // Students: nothing that identifies the author or the reviewer
+    const mySubmission = (await Submission.findOne({ assignmentId: params.id, studentId: session.user.id })
+      .select("_id")
+      .lean()) as { _id: unknown } | null
+    const [toReview, received] = await Promise.all([
+      PeerReview.find({ assignmentId: params.id, reviewerId: session.user.id })
+        .populate("submissionId", "fileUrl")
+        .lean<PeerReviewLean[]>(),
+      mySubmission
+        ? PeerReview.find({ submissionId: mySubmission._id, status: "submitted" }).lean<PeerReviewLean[]>()
+        : Promise.resolve([] as PeerReviewLean[]),
+    ])
+
+    return NextResponse.json({
+      rubric,
+      toReview: toReview.map((r, i) => ({
+        _id: toIdString(r._id),
+        label: `Submission ${i + 1}`,
+        fileUrl: (r.submissionId as { fileUrl?: string } | undefined)?.fileUrl,
+        status: r.status,
+        rubricScores: r.rubricScores || [],
+        feedback: r.feedback,
+      })),
+      received: received.map((r) => ({
+        totalPoints: r.totalPoints,
+        rubricScores: r.rubricScores || [],
+        feedback: r.feedback,
+      })),
+    })
+  } catch (error) {
+    console.error("Fetch peer reviews error:", error)
+    return NextResponse.json({ error: "Failed to fetch peer reviews" }, { status: 500 })
+  }
+}
+
+/** Teacher action after the due date: assigns every submission to N anonymous reviewers. */
+export async function POST(_req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user || session.user.role !== "teacher") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    await dbConnect()
+
+    const assignment = await Assignment.findById(params.id)
+    if (!assignment || !assignment.peerReview?.enabled) {
+      return NextResponse.json({ error: "Peer review is not enabled for this assignment" }, { status: 404 })
+    }
+    if (!(await isCourseTeacher(assignment.courseId, session.user.id))) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 })
+    }
+    if (assignment.peerReview.assignedAt) {
+      return NextResponse.json({ error: "Peer reviewers have already been assigned" }, { status: 409 })
+    }
+    if (assignment.dueDate && new Date(assignment.dueDate).getTime() > Date.now()) {
+      return NextResponse.json({ error: "Peer review starts after the due date" }, { status: 400 })
+    }
+
+    const [submissions, students] = await Promise.all([
+      Submission.find({ assignmentId: params.id }).select("_id studentId").lean() as Promise<
+        { _id: unknown; studentId?: unknown }[]
+      >,
+      Student.find({ purchasedCourses: assignment.courseId }).select("_id").lean() as Promise<{ _id: unknown }[]>,
+    ])
+
+    const pairings = assignReviewers(
+      submissions
+        .filter((s) => s.studentId)
+        .map((s) => ({ submissionId: toIdString(s._id), authorId: toIdString(s.studentId) })),
+      students.map((s) => toIdString(s._id)),
+      assignment.peerReview.reviewsPerSubmission ?? 3
+    )
+    if (pairings.length === 0) {
+      return NextResponse.json({ error: "There are no submissions to review yet" }, { status: 400 })
+    }
+
+    await PeerReview.insertMany(
+      pairings.map((p) => ({
+        assignmentId: assignment._id,
+        submissionId: p.submissionId,
+        reviewerId: p.reviewerId,
+        authorId: p.authorId,
+        status: "assigned",
+      }))
+    )
+    assignment.set({ "peerReview.assignedAt": new Date() })
+    await assignment.save()
+
+    const reviewerIds = [...new Set(pairings.map((p) => p.reviewerId))]
+    await notifyMany(
+      reviewerIds.map((userId) => ({ userId, userRole: "student" as const })),
+      {
+        type: "peer_review_assigned",
+        title: `Peer review open for "${assignment.title || "Assignment"}"`,
+        body: "You have classmates' submissions to review.",
+        link: `/courses/${toIdString(assignment.courseId)}`,
+        courseId: toIdString(assignment.courseId),
+        data: { assignmentId: toIdString(assignment._id) },
+      }
+    ).catch((error) => console.error("Peer review notification error:", error))
+
+    return NextResponse.json({ assigned: pairings.length, reviewers: reviewerIds.length })
+  } catch (error) {
+    console.error("Assign peer reviews error:", error)
+    return NextResponse.json({ error: "Failed to assign peer reviews" }, { status: 500 })
+  }
+}
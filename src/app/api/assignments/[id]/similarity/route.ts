@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { dbConnect } from "@/lib/dbConnect"
+import { Assignment } from "@/models/assignment"
+import { Course } from "@/models/course"
+import { checkAssignmentSimilarity } from "@/lib/submission-similarity"
+
+/** Teacher action: (re)runs the similarity check over every submission of the assignment. */
+export async function POST(_req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user || session.user.role !== "teacher") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    await dbConnect()
+
+    const assignment = (await Assignment.findById(params.id).select("courseId").lean()) as {
+      courseId: unknown
+    } | null
+    if (!assignment) {
+      return NextResponse.json({ error: "Assignment not found" }, { status: 404 })
+    }
+
+    const course = await Course.findById(assignment.courseId).select("teacher").lean()
+    if (!course || course.teacher?.toString() !== session.user.id) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 })
+    }
+
+    const result = await checkAssignmentSimilarity(params.id)
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error("Similarity check error:", error)
+    return NextResponse.json({ error: "Failed to run similarity check" }, { status: 500 })
+  }
+}
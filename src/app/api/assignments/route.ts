@@ -1,6 +1,6 @@
 import { NextResponse } from "next/server"
 import { dbConnect } from "@/lib/dbConnect"
-import { Assignment } from "@/models/assignment"
+import { Assignment, assignmentValidationSchema } from "@/models/assignment"
 import { getServerSession } from "next-auth"
 import { authOptions } from "@/lib/auth"
 import mongoose from "mongoose"
@@ -19,11 +19,22 @@ export async function GET(req: Request) {
 
     await dbConnect()
 
-    const assignments = await Assignment.find({
-      courseId: new mongoose.Types.ObjectId(courseId),
-    }).sort({ createdAt: -1 })
+    const [assignments, course, session] = await Promise.all([
+      Assignment.find({ courseId: new mongoose.Types.ObjectId(courseId) }).sort({ createdAt: -1 }).lean(),
+      Course.findById(courseId).select("teacher").lean(),
+      getServerSession(authOptions),
+    ])
 
-    return NextResponse.json(assignments)
+    // Extensions name students and their reasons; only the course's teacher and admins see them
+    const canManage =
+      session?.user?.role === "admin" ||
+      (session?.user?.role === "teacher" && course?.teacher?.toString() === session.user.id)
+    if (canManage) return NextResponse.json(assignments)
+
+    return NextResponse.json(
+      // eslint-disable-next-line @typescript-eslint/no-unused-vars
+      assignments.map(({ extensions, ...assignment }) => assignment)
+    )
   } catch (error) {
     console.error("Fetch assignments error:", error)
     return NextResponse.json(
@@ -47,7 +58,7 @@ export async function POST(req: Request) {
       )
     }
 
-    const body = await req.json()
+    const body = assignmentValidationSchema.parse(await req.json())
     const course = await Course.findById(body.courseId).select("name teacher").lean()
 
     if (!course) {
@@ -67,6 +78,10 @@ export async function POST(req: Request) {
       description: body.description,
       dueDate: body.dueDate,
       fileUrl: body.fileUrl || null,
+      rubric: body.rubric,
+      resubmissionLimit: body.resubmissionLimit,
+      latePolicy: body.latePolicy,
+      peerReview: body.peerReview,
     })
 
     await notifyCourseStudents(body.courseId, {
@@ -78,6 +93,9 @@ export async function POST(req: Request) {
 
     return NextResponse.json(assignment)
   } catch (error) {
+    if (error instanceof Error && error.name === "ZodError") {
+      return NextResponse.json({ error: "Invalid input data" }, { status: 400 })
+    }
     console.error("Create assignment error:", error)
     return NextResponse.json(
       { error: "Failed to create assignment" },
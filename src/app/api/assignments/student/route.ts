@@ -4,6 +4,7 @@ import { authOptions } from "@/lib/auth"
 import { dbConnect } from "@/lib/dbConnect"
 import { Assignment } from "@/models/assignment"
 import { Submission } from "@/models/submission"
+import { evaluateSubmissionTiming, getEffectiveDueDate } from "@/lib/assignment-late-policy"
 
 export async function GET(req: NextRequest) {
   const session = await getServerSession(authOptions)
@@ -23,10 +24,24 @@ export async function GET(req: NextRequest) {
       const mySubmission = await Submission.findOne({
         assignmentId: a._id,
         studentId: session.user.id,
-      })
+      }).select("-similarity")
+
+      // Other students' extensions stay private; only this student's due date and window are sent
+      const assignment = a.toObject()
+      delete assignment.extensions
+      const timingNow = evaluateSubmissionTiming(a.toObject(), session.user.id, new Date())
 
       return {
-        ...a.toObject(),
+        ...assignment,
+        myDueDate: getEffectiveDueDate(a.toObject(), session.user.id),
+        hasExtension: (a.extensions || []).some(
+          (e: { studentId: unknown }) => String(e.studentId) === session.user.id
+        ),
+        submissionWindow: {
+          open: timingNow.accepted,
+          lateStatus: timingNow.lateStatus,
+          penaltyPercent: timingNow.penaltyPercent,
+        },
         mySubmission,
       }
     })
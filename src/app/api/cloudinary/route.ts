@@ -10,7 +10,6 @@ import {
 } from "@/lib/video-streaming"
 import { notifyCourseStudents } from "@/lib/notifications"
 import crypto from "crypto"
-import path from "path"
 
 // Configure Cloudinary
 cloudinary.config({
@@ -42,7 +41,7 @@ interface VideoDocument {
   position: number
   duration?: string
   isProcessed: boolean
-  processingStatus: 'pending' | 'processing' | 'completed' | 'failed'
+  processingStatus: 'pending' | 'queued' | 'processing' | 'completed' | 'failed' | 'cancelled'
   processingJobId?: string
   publicId: string
   width?: number
@@ -57,19 +56,6 @@ interface VideoDocument {
   availableQualities?: string[]
 }
 
-interface JobStatus {
-  status: 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled'
-  progress: number
-  startTime?: Date
-  error?: string
-  result?: {
-    hlsPlaylist?: string
-    thumbnails?: string[]
-    preview?: string
-    variants?: Array<{ name: string; path: string }>
-  }
-}
-
 export async function POST(req: Request) {
   try {
     const session = await getServerSession(authOptions)
@@ -188,14 +174,10 @@ export async function POST(req: Request) {
 
       // Start background video processing if enabled
       if (enableProcessing) {
-        // Generate unique processing job ID
-        const processingJobId = `${savedVideo._id}_${Date.now()}`
-
-        // Add to modern processing queue
-        await videoProcessingQueue.addJob(
-          processingJobId,
+        // Queue a persisted processing job; the worker updates the video when it finishes
+        const processingJobId = await videoProcessingQueue.addJob(
+          savedVideo._id.toString(),
           uploadResult.secure_url, // Use Cloudinary URL as input
-          path.join(process.cwd(), 'public', 'processed', savedVideo._id.toString()),
           {
             generateThumbnails,
             generatePreview,
@@ -203,37 +185,11 @@ export async function POST(req: Request) {
             previewDuration: 30,
             watermark: {
               enabled: false // Can be customized per upload
-            },
-            onProgress: (progress: number, stage: string) => {
-              console.log(`Processing ${processingJobId}: ${progress}% - ${stage}`)
             }
-          }
+          },
+          session.user.id
         )
 
-        // Update video document with processing job info
-        await Video.findByIdAndUpdate(savedVideo._id, {
-          processingJobId,
-          processingStatus: 'queued'
-        })
-
-        // Poll for processing completion and update video document
-        setTimeout(async () => {
-          try {
-            const jobStatus: JobStatus | null = videoProcessingQueue.getJobStatus(processingJobId)
-            if (jobStatus && jobStatus.status === 'completed' && jobStatus.result) {
-              await Video.findByIdAndUpdate(savedVideo._id, {
-                isProcessed: true,
-                hlsUrl: jobStatus.result.hlsPlaylist,
-                thumbnails: jobStatus.result.thumbnails,
-                preview: jobStatus.result.preview,
-                availableQualities: jobStatus.result.variants?.map((v) => v.name)
-              })
-            }
-          } catch (updateError) {
-            console.error('Error updating processed video:', updateError)
-          }
-        }, 10000) // Poll after 10 seconds
-
         return NextResponse.json({
           message: "Video uploaded and processing started",
           video: {
@@ -309,7 +265,7 @@ export async function GET(req: Request) {
 
     if (jobId) {
       // Check processing job status
-      const jobStatus: JobStatus | null = videoProcessingQueue.getJobStatus(jobId)
+      const jobStatus = await videoProcessingQueue.getJobStatus(jobId)
       
       if (!jobStatus) {
         return NextResponse.json({ 
@@ -363,7 +319,7 @@ export async function GET(req: Request) {
     let progress = 0
 
     if (video.processingJobId) {
-      const jobStatus: JobStatus | null = videoProcessingQueue.getJobStatus(video.processingJobId)
+      const jobStatus = await videoProcessingQueue.getJobStatus(video.processingJobId)
       if (jobStatus) {
         processingStatus = jobStatus.status
         progress = jobStatus.progress
@@ -420,7 +376,7 @@ export async function DELETE(req: Request) {
       return NextResponse.json({ message: "Permission denied" }, { status: 403 })
     }
 
-    const cancelled = videoProcessingQueue.cancelJob(jobId)
+    const cancelled = await videoProcessingQueue.cancelJob(jobId)
 
     if (cancelled) {
       return NextResponse.json({
@@ -0,0 +1,143 @@
+import { NextRequest, NextResponse } from "next/server"
+import type { Model } from "mongoose"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { dbConnect } from "@/lib/dbConnect"
+import { Course, curriculumValidationSchema } from "@/models/course"
+import { Video } from "@/models/video"
+import { Quiz } from "@/models/quiz"
+import { Assignment, type IAssignment } from "@/models/assignment"
+import { LiveClass, type ILiveClass } from "@/models/live-class"
+import { CourseProgress } from "@/models/course-progress"
+import {
+  getCourseCurriculum,
+  getCurriculumContentOptions,
+  getSectionProgress,
+  isLessonComplete,
+  loadLessonCompletion,
+  withoutMaterialLinks,
+} from "@/lib/curriculum"
+import { canWatchCourse } from "@/lib/video-access"
+
+function toIdString(id: unknown) {
+  if (typeof id === "string") return id
+  if (id && typeof (id as { toString?: unknown }).toString === "function") return (id as { toString: () => string }).toString()
+  return ""
+}
+
+/**
+ * Sections and lessons of the course, resolved against its current content.
+ * Anyone may see the outline; study material links are only sent to enrolled
+ * students, the course teacher and admins. Enrolled students also get which lessons
+ * they finished and per-section progress. The teacher sees unpublished quizzes,
+ * and `?options=1` adds the course content they can place in it.
+ */
+export async function GET(req: NextRequest, context: { params: Promise<{ courseId: string }> }) {
+  try {
+    const { courseId } = await context.params
+    await dbConnect()
+
+    const session = await getServerSession(authOptions)
+    const viewer = session?.user?.id ? { id: session.user.id, role: session.user.role } : null
+    const canOpenLessons = viewer ? await canWatchCourse(courseId, viewer) : false
+    const manages = canOpenLessons && viewer?.role !== "student"
+
+    const curriculum = await getCourseCurriculum(courseId, { includeUnpublished: manages })
+    if (!curriculum) {
+      return NextResponse.json({ error: "Course not found" }, { status: 404 })
+    }
+
+    if (manages) {
+      if (req.nextUrl.searchParams.get("options")) {
+        return NextResponse.json({ ...curriculum, options: await getCurriculumContentOptions(courseId) })
+      }
+      return NextResponse.json(curriculum)
+    }
+    if (!viewer || !canOpenLessons) {
+      return NextResponse.json(withoutMaterialLinks(courseId, curriculum))
+    }
+
+    const progress = await CourseProgress.findOne({ student: viewer.id, course: courseId }).lean()
+    const completion = await loadLessonCompletion(viewer.id, courseId, progress)
+    return NextResponse.json({
+      ...curriculum,
+      sectionProgress: getSectionProgress(curriculum.sections, completion),
+      completedLessonIds: curriculum.sections
+        .flatMap((s) => s.lessons)
+        .filter((lesson) => isLessonComplete(lesson, completion))
+        .map((lesson) => lesson._id),
+    })
+  } catch (error) {
+    console.error("Fetch curriculum error:", error)
+    return NextResponse.json({ error: "Failed to fetch curriculum" }, { status: 500 })
+  }
+}
+
+/** Teacher replaces the whole tree; every referenced item must belong to this course. */
+export async function PUT(req: NextRequest, context: { params: Promise<{ courseId: string }> }) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user || session.user.role !== "teacher") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { courseId } = await context.params
+    const { sections } = curriculumValidationSchema.parse(await req.json())
+
+    await dbConnect()
+
+    const course = await Course.findById(courseId)
+    if (!course) {
+      return NextResponse.json({ error: "Course not found" }, { status: 404 })
+    }
+    if (course.teacher?.toString() !== session.user.id) {
+      return NextResponse.json({ error: "You can only edit your own courses" }, { status: 403 })
+    }
+
+    const [videos, quizzes, assignments, liveClasses] = await Promise.all([
+      Video.find({ course: courseId }).select("_id").lean(),
+      Quiz.find({ course: courseId }).select("_id").lean(),
+      (Assignment as Model<IAssignment>).find({ courseId }).select("_id").lean(),
+      (LiveClass as Model<ILiveClass>).find({ course: courseId }).select("_id").lean(),
+    ])
+    const owned = {
+      video: new Set(videos.map((d) => toIdString(d._id))),
+      quiz: new Set(quizzes.map((d) => toIdString(d._id))),
+      assignment: new Set(assignments.map((d) => toIdString(d._id))),
+      live_class: new Set(liveClasses.map((d) => toIdString(d._id))),
+    }
+
+    const foreign = sections
+      .flatMap((s) => s.lessons)
+      .find((l) => l.type !== "material" && !owned[l.type].has(l.refId || ""))
+    if (foreign) {
+      return NextResponse.json({ error: `"${foreign.title}" does not belong to this course` }, { status: 400 })
+    }
+
+    course.set(
+      "curriculum",
+      sections.map((section) => ({
+        ...(section._id ? { _id: section._id } : {}),
+        title: section.title,
+        description: section.description,
+        lessons: section.lessons.map((lesson) => ({
+          ...(lesson._id ? { _id: lesson._id } : {}),
+          title: lesson.title,
+          type: lesson.type,
+          refId: lesson.type === "material" ? undefined : lesson.refId,
+          materialUrl: lesson.type === "material" ? lesson.materialUrl : undefined,
+        })),
+      }))
+    )
+    course.updatedAt = new Date()
+    await course.save()
+
+    return NextResponse.json(await getCourseCurriculum(courseId, { includeUnpublished: true }))
+  } catch (error) {
+    if (error instanceof Error && error.name === "ZodError") {
+      return NextResponse.json({ error: "Invalid input data" }, { status: 400 })
+    }
+    console.error("Update curriculum error:", error)
+    return NextResponse.json({ error: "Failed to update curriculum" }, { status: 500 })
+  }
+}
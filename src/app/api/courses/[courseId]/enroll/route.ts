@@ -4,6 +4,7 @@ import { authOptions } from "@/lib/auth"
 import { dbConnect } from "@/lib/dbConnect"
 import { Course } from "@/models/course"
 import { Student } from "@/models/student"
+import { recordEnrollment } from "@/lib/video-access"
 
 export async function POST(request: NextRequest) {
   try {
@@ -103,6 +104,8 @@ export async function POST(request: NextRequest) {
       $addToSet: { studentsPurchased: session.user.id },
     })
 
+    await recordEnrollment(session.user.id, courseId)
+
     return NextResponse.json(
       {
         message: "Successfully enrolled in course! Welcome to your learning journey.",
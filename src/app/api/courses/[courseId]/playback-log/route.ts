@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { dbConnect } from "@/lib/dbConnect"
+import { Course } from "@/models/course"
+import { Video } from "@/models/video"
+import { Student } from "@/models/student"
+import { PlaybackLog } from "@/models/playback-log"
+
+function toIdString(id: unknown) {
+  if (typeof id === "string") return id
+  if (id && typeof (id as { toString?: unknown }).toString === "function") return (id as { toString: () => string }).toString()
+  return ""
+}
+
+/**
+ * Who watched what and when, newest first. `code` finds the viewer behind the
+ * watermark on a leaked recording; `studentId` lists one student's viewings.
+ */
+export async function GET(req: NextRequest, context: { params: Promise<{ courseId: string }> }) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user || (session.user.role !== "teacher" && session.user.role !== "admin")) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { courseId } = await context.params
+    const code = req.nextUrl.searchParams.get("code")?.trim().toUpperCase()
+    const studentId = req.nextUrl.searchParams.get("studentId")
+
+    await dbConnect()
+
+    const course = await Course.findById(courseId).select("teacher").lean()
+    if (!course) {
+      return NextResponse.json({ error: "Course not found" }, { status: 404 })
+    }
+    if (session.user.role === "teacher" && toIdString(course.teacher) !== session.user.id) {
+      return NextResponse.json({ error: "You can only view your own courses" }, { status: 403 })
+    }
+
+    const filter: Record<string, unknown> = { course: courseId }
+    if (code) filter.watermarkCode = code
+    if (studentId) filter.user = studentId
+
+    const logs = await PlaybackLog.find(filter).sort({ createdAt: -1 }).limit(100).lean()
+
+    const [students, videos] = await Promise.all([
+      Student.find({ _id: { $in: logs.map((l) => l.user) } }).select("name email").lean(),
+      Video.find({ _id: { $in: logs.map((l) => l.video) } }).select("title").lean(),
+    ])
+    const studentById = new Map<string, { name?: string; email?: string }>(students.map((s) => [toIdString(s._id), s]))
+    const titleById = new Map<string, string>(videos.map((v) => [toIdString(v._id), v.title]))
+
+    return NextResponse.json({
+      logs: logs.map((log) => {
+        const student = studentById.get(toIdString(log.user))
+        return {
+          _id: toIdString(log._id),
+          watermarkCode: log.watermarkCode,
+          userId: toIdString(log.user),
+          userRole: log.userRole,
+          name: student?.name,
+          email: student?.email,
+          videoId: toIdString(log.video),
+          videoTitle: titleById.get(toIdString(log.video)) || "Deleted video",
+          ipAddress: log.ipAddress,
+          userAgent: log.userAgent,
+          watchedAt: log.createdAt,
+        }
+      }),
+    })
+  } catch (error) {
+    console.error("Fetch playback log error:", error)
+    return NextResponse.json({ error: "Failed to fetch playback log" }, { status: 500 })
+  }
+}
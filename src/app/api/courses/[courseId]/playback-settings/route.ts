@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { dbConnect } from "@/lib/dbConnect"
+import { Course, playbackSettingsValidationSchema } from "@/models/course"
+import { DEFAULT_PLAYBACK_WATERMARK } from "@/lib/playback-tokens"
+
+function toIdString(id: unknown) {
+  if (typeof id === "string") return id
+  if (id && typeof (id as { toString?: unknown }).toString === "function") return (id as { toString: () => string }).toString()
+  return ""
+}
+
+async function loadOwnedCourse(courseId: string, teacherId: string) {
+  const course = await Course.findById(courseId)
+  if (!course) return { error: NextResponse.json({ error: "Course not found" }, { status: 404 }) }
+  if (toIdString(course.teacher) !== teacherId) {
+    return { error: NextResponse.json({ error: "You can only configure your own courses" }, { status: 403 }) }
+  }
+  return { course }
+}
+
+/** The course's student watermark settings. */
+export async function GET(_req: NextRequest, context: { params: Promise<{ courseId: string }> }) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user || session.user.role !== "teacher") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { courseId } = await context.params
+    await dbConnect()
+
+    const { course, error } = await loadOwnedCourse(courseId, session.user.id)
+    if (error) return error
+
+    return NextResponse.json({
+      playbackWatermark: {
+        enabled: course.playbackWatermark?.enabled ?? DEFAULT_PLAYBACK_WATERMARK.enabled,
+        opacity: course.playbackWatermark?.opacity ?? DEFAULT_PLAYBACK_WATERMARK.opacity,
+      },
+    })
+  } catch (error) {
+    console.error("Fetch playback settings error:", error)
+    return NextResponse.json({ error: "Failed to fetch playback settings" }, { status: 500 })
+  }
+}
+
+/** Saves the watermark settings; they apply from each student's next page load. */
+export async function PUT(req: NextRequest, context: { params: Promise<{ courseId: string }> }) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user || session.user.role !== "teacher") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { courseId } = await context.params
+    const data = playbackSettingsValidationSchema.parse(await req.json())
+
+    await dbConnect()
+
+    const { course, error } = await loadOwnedCourse(courseId, session.user.id)
+    if (error) return error
+
+    course.set("playbackWatermark", data.playbackWatermark)
+    course.updatedAt = new Date()
+    await course.save()
+
+    return NextResponse.json({ message: "Playback settings saved", playbackWatermark: data.playbackWatermark })
+  } catch (error) {
+    if (error instanceof Error && error.name === "ZodError") {
+      return NextResponse.json({ error: "Invalid input data" }, { status: 400 })
+    }
+    console.error("Update playback settings error:", error)
+    return NextResponse.json({ error: "Failed to update playback settings" }, { status: 500 })
+  }
+}
@@ -0,0 +1,142 @@
+import { NextRequest, NextResponse } from "next/server"
+import type { Model } from "mongoose"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { dbConnect } from "@/lib/dbConnect"
+import { Course, progressSettingsValidationSchema } from "@/models/course"
+import { Video } from "@/models/video"
+import { Quiz } from "@/models/quiz"
+import { Assignment, type IAssignment } from "@/models/assignment"
+import { DEFAULT_WEIGHTS, getCompletionCriteria, recalculateCourseProgressForAll } from "@/lib/course-progress"
+
+function toIdString(id: unknown) {
+  if (typeof id === "string") return id
+  if (id && typeof (id as { toString?: unknown }).toString === "function") return (id as { toString: () => string }).toString()
+  return ""
+}
+
+async function loadOwnedCourse(courseId: string, teacherId: string) {
+  const course = await Course.findById(courseId)
+  if (!course) return { error: NextResponse.json({ error: "Course not found" }, { status: 404 }) }
+  if (toIdString(course.teacher) !== teacherId) {
+    return { error: NextResponse.json({ error: "You can only configure your own courses" }, { status: 403 }) }
+  }
+  return { course }
+}
+
+/** Current weights and completion rules, with every video, assignment and quiz marked required or optional. */
+export async function GET(_req: NextRequest, context: { params: Promise<{ courseId: string }> }) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user || session.user.role !== "teacher") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { courseId } = await context.params
+    await dbConnect()
+
+    const { course, error } = await loadOwnedCourse(courseId, session.user.id)
+    if (error) return error
+
+    const [videos, assignments, quizzes] = await Promise.all([
+      Video.find({ course: courseId }).select("title").sort({ position: 1 }).lean(),
+      (Assignment as Model<IAssignment>).find({ courseId }).select("title").sort({ createdAt: 1 }).lean(),
+      Quiz.find({ course: courseId }).select("title requiredForCertificate published").sort({ createdAt: 1 }).lean(),
+    ])
+
+    const criteria = getCompletionCriteria(course)
+
+    return NextResponse.json({
+      progressWeights: {
+        lessons: course.progressWeights?.lessons ?? DEFAULT_WEIGHTS.lessons,
+        quizzes: course.progressWeights?.quizzes ?? DEFAULT_WEIGHTS.quizzes,
+        assignments: course.progressWeights?.assignments ?? DEFAULT_WEIGHTS.assignments,
+      },
+      completionCriteria: {
+        minVideoWatchPercent: criteria.minVideoWatchPercent,
+        minAverageQuizScore: criteria.minAverageQuizScore,
+      },
+      videos: videos.map((v) => ({
+        _id: toIdString(v._id),
+        title: v.title,
+        required: !criteria.optionalVideos.has(toIdString(v._id)),
+      })),
+      assignments: assignments.map((a) => ({
+        _id: toIdString(a._id),
+        title: a.title,
+        required: !criteria.optionalAssignments.has(toIdString(a._id)),
+      })),
+      quizzes: quizzes.map((q) => ({
+        _id: toIdString(q._id),
+        title: q.title,
+        published: !!q.published,
+        required: q.requiredForCertificate !== false,
+      })),
+    })
+  } catch (error) {
+    console.error("Fetch progress settings error:", error)
+    return NextResponse.json({ error: "Failed to fetch progress settings" }, { status: 500 })
+  }
+}
+
+/** Saves the settings, then recalculates every enrolled student's progress in the background. */
+export async function PUT(req: NextRequest, context: { params: Promise<{ courseId: string }> }) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user || session.user.role !== "teacher") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { courseId } = await context.params
+    const data = progressSettingsValidationSchema.parse(await req.json())
+
+    await dbConnect()
+
+    const { course, error } = await loadOwnedCourse(courseId, session.user.id)
+    if (error) return error
+
+    const [videoCount, assignmentCount] = await Promise.all([
+      Video.countDocuments({ _id: { $in: data.completionCriteria.optionalVideos }, course: courseId }),
+      (Assignment as Model<IAssignment>).countDocuments({ _id: { $in: data.completionCriteria.optionalAssignments }, courseId }),
+    ])
+    if (
+      videoCount !== data.completionCriteria.optionalVideos.length ||
+      assignmentCount !== data.completionCriteria.optionalAssignments.length
+    ) {
+      return NextResponse.json({ error: "Optional items must belong to this course" }, { status: 400 })
+    }
+
+    course.set("progressWeights", data.progressWeights)
+    course.set("completionCriteria", data.completionCriteria)
+    course.updatedAt = new Date()
+    await course.save()
+
+    if (data.requiredQuizzes) {
+      await Promise.all([
+        Quiz.updateMany(
+          { course: courseId, _id: { $in: data.requiredQuizzes } },
+          { $set: { requiredForCertificate: true } }
+        ),
+        Quiz.updateMany(
+          { course: courseId, _id: { $nin: data.requiredQuizzes } },
+          { $set: { requiredForCertificate: false } }
+        ),
+      ])
+    }
+
+    recalculateCourseProgressForAll(courseId).catch((err) =>
+      console.error("Course progress recalculation error:", err)
+    )
+
+    return NextResponse.json({
+      message: "Progress settings saved. Student progress is being recalculated.",
+      enrolledStudents: (course.studentsPurchased || []).length,
+    })
+  } catch (error) {
+    if (error instanceof Error && error.name === "ZodError") {
+      return NextResponse.json({ error: "Invalid input data" }, { status: 400 })
+    }
+    console.error("Update progress settings error:", error)
+    return NextResponse.json({ error: "Failed to update progress settings" }, { status: 500 })
+  }
+}
@@ -6,6 +6,7 @@ import { Video } from "@/models/video";
 import { z } from "zod";
 import type mongoose from "mongoose";
 import { authOptions } from "@/lib/auth";
+import { canWatchCourse, getVideoLocks } from "@/lib/video-access";
 
 // Schema for course updates
 const courseUpdateSchema = z.object({
@@ -77,6 +78,8 @@ interface CourseResponse {
     duration?: string;
     createdAt: string | Date;
     updatedAt: string | Date;
+    isLocked: boolean;
+    unlockAt?: string;
   }>;
   createdAt: string | Date;
   updatedAt: string | Date;
@@ -111,6 +114,13 @@ export async function GET(
     }
 
     const videos = await Video.find({ course: courseId }).sort({ position: 1 }).lean<VideoDocument[]>();
+    const session = await getServerSession(authOptions);
+    const locks = await getVideoLocks(courseId, { id: session?.user?.id, role: session?.user?.role });
+    // Only the course's teacher and admins see source URLs; everyone else plays through signed tokens
+    const showSource =
+      session?.user?.role === "admin" ||
+      (session?.user?.role === "teacher" &&
+        (await canWatchCourse(courseId, { id: session.user.id, role: session.user.role })));
 
     const result: CourseResponse = {
       _id: course._id.toString(),
@@ -126,17 +136,22 @@ export async function GET(
       },
       imageUrl: course.imageUrl,
       isPublished: course.isPublished,
-      videos: videos.map((video: VideoDocument) => ({
-        _id: video._id.toString(),
-        title: video.title,
-        description: video.description,
-        url: video.url,
-        course: video.course.toString(),
-        position: video.position,
-        duration: video.duration,
-        createdAt: video.createdAt,
-        updatedAt: video.updatedAt,
-      })),
+      videos: videos.map((video: VideoDocument) => {
+        const lock = locks.get(video._id.toString());
+        return {
+          _id: video._id.toString(),
+          title: video.title,
+          description: video.description,
+          url: lock?.locked || !showSource ? "" : video.url,
+          course: video.course.toString(),
+          position: video.position,
+          duration: video.duration,
+          createdAt: video.createdAt,
+          updatedAt: video.updatedAt,
+          isLocked: !!lock?.locked,
+          unlockAt: lock?.unlockAt,
+        };
+      }),
       createdAt: course.createdAt,
       updatedAt: course.updatedAt,
       studentsPurchased: course.studentsPurchased?.map((id: string) => id.toString()),
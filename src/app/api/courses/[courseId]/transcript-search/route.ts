@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { dbConnect } from "@/lib/dbConnect"
+import { Course } from "@/models/course"
+import { Student } from "@/models/student"
+import { getVideoLocks } from "@/lib/video-access"
+import { searchCourseTranscripts } from "@/lib/transcripts"
+
+/** Searches the transcripts of every lesson the viewer can watch; `?q=` is the phrase. */
+export async function GET(req: NextRequest, { params }: { params: Promise<{ courseId: string }> }) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { courseId } = await params
+    const q = req.nextUrl.searchParams.get("q")?.trim() || ""
+    if (q.length < 2) {
+      return NextResponse.json({ error: "Search for at least 2 characters" }, { status: 400 })
+    }
+
+    await dbConnect()
+
+    const course = await Course.findById(courseId).select("teacher").lean()
+    if (!course) {
+      return NextResponse.json({ error: "Course not found" }, { status: 404 })
+    }
+
+    if (session.user.role === "student") {
+      const student = await Student.findById(session.user.id).select("purchasedCourses").lean()
+      const enrolled = (student?.purchasedCourses || []).some((id) => String(id) === courseId)
+      if (!enrolled) {
+        return NextResponse.json({ error: "Enroll in the course to search its lessons" }, { status: 403 })
+      }
+    } else if (session.user.role !== "admin" && String(course.teacher) !== session.user.id) {
+      return NextResponse.json({ error: "You do not have access to this course" }, { status: 403 })
+    }
+
+    const locks = await getVideoLocks(courseId, { id: session.user.id, role: session.user.role })
+    const videoIds = [...locks].filter(([, lock]) => !lock.locked).map(([videoId]) => videoId)
+
+    return NextResponse.json({ query: q, results: await searchCourseTranscripts(courseId, q, videoIds) })
+  } catch (error) {
+    console.error("Transcript search error:", error)
+    return NextResponse.json({ error: "Failed to search transcripts" }, { status: 500 })
+  }
+}
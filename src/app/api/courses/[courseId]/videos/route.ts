@@ -7,6 +7,7 @@ import { Course } from "@/models/course"
 import { videoStreamingService } from "@/lib/video-streaming"
 import { z } from "zod"
 import { notifyCourseStudents } from "@/lib/notifications"
+import { canWatchCourse, getVideoLocks, type VideoLock } from "@/lib/video-access"
 
 interface VideoResponse {
   _id: string
@@ -22,6 +23,7 @@ interface VideoResponse {
   bitrate?: number
   resolution?: string
   isProcessed?: boolean
+  lock: VideoLock
 }
 
 interface VideoLean {
@@ -221,26 +223,41 @@ export async function GET(request: NextRequest, { params }: { params: Promise<{
 
     await dbConnect()
 
-    const videos = await Video.find({ course: courseId }).sort({ position: 1 }).lean()
+    const session = await getServerSession(authOptions)
+    const [videos, locks] = await Promise.all([
+      Video.find({ course: courseId }).sort({ position: 1 }).lean(),
+      getVideoLocks(courseId, { id: session?.user?.id, role: session?.user?.role }),
+    ])
 
     const videosTyped: VideoLean[] = videos as VideoLean[]
 
+    // Locked videos are listed with their lock state but without playable URLs;
+    // only the course's teacher and admins see source URLs, everyone else plays through signed tokens
+    const showSource =
+      session?.user?.role === "admin" ||
+      (session?.user?.role === "teacher" &&
+        (await canWatchCourse(courseId, { id: session.user.id, role: session.user.role })))
     const response: VideosResponse = {
-      videos: videosTyped.map((video: VideoLean): VideoResponse => ({
-        _id: typeof video._id === "string" ? video._id : video._id.toString(),
-        title: video.title,
-        description: video.description,
-        url: video.url,
-        hlsUrl: video.hlsUrl,
-        duration: video.duration,
-        position: video.position,
-        course: typeof video.course === "string" ? video.course : video.course.toString(),
-        quality: video.quality,
-        bitrate: video.bitrate,
-        resolution: video.resolution,
-        isProcessed: video.isProcessed,
-        createdAt: video.createdAt,
-      })),
+      videos: videosTyped.map((video: VideoLean): VideoResponse => {
+        const id = typeof video._id === "string" ? video._id : video._id.toString()
+        const lock = locks.get(id) || { locked: false, missing: [] }
+        return {
+          _id: id,
+          title: video.title,
+          description: video.description,
+          url: lock.locked || !showSource ? "" : video.url,
+          hlsUrl: lock.locked || !showSource ? undefined : video.hlsUrl,
+          duration: video.duration,
+          position: video.position,
+          course: typeof video.course === "string" ? video.course : video.course.toString(),
+          quality: video.quality,
+          bitrate: video.bitrate,
+          resolution: video.resolution,
+          isProcessed: video.isProcessed,
+          createdAt: video.createdAt,
+          lock,
+        }
+      }),
     }
 
     return NextResponse.json(response)
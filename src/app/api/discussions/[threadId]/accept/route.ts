@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { dbConnect } from "@/lib/dbConnect"
+import { z } from "zod"
+import { DiscussionReply } from "@/models/discussion"
+import { loadThreadForViewer } from "@/lib/discussions"
+
+const acceptSchema = z.object({ replyId: z.string().min(1).nullable() })
+
+/** The asker (or the course teacher) marks one reply as the accepted answer; `replyId: null` clears it. */
+export async function POST(req: NextRequest, { params }: { params: Promise<{ threadId: string }> }) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { threadId } = await params
+    const { replyId } = acceptSchema.parse(await req.json())
+
+    await dbConnect()
+
+    const viewer = { id: session.user.id, role: session.user.role }
+    const result = await loadThreadForViewer(threadId, viewer)
+    if (!result.access) return NextResponse.json({ error: result.error }, { status: result.status })
+    const { thread, access } = result
+
+    if (String(thread.author) !== viewer.id && !access.isCourseTeacher) {
+      return NextResponse.json({ error: "Only the asker or the teacher can accept an answer" }, { status: 403 })
+    }
+
+    if (replyId) {
+      const exists = await DiscussionReply.exists({ _id: replyId, thread: thread._id })
+      if (!exists) {
+        return NextResponse.json({ error: "Reply not found" }, { status: 404 })
+      }
+    }
+
+    thread.set("acceptedReply", replyId || undefined)
+    await thread.save()
+
+    return NextResponse.json({ acceptedReply: replyId })
+  } catch (error) {
+    if (error instanceof Error && error.name === "ZodError") {
+      return NextResponse.json({ error: "Invalid input data" }, { status: 400 })
+    }
+    console.error("Accept answer error:", error)
+    return NextResponse.json({ error: "Failed to accept answer" }, { status: 500 })
+  }
+}
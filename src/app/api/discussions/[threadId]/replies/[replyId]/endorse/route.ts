@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { dbConnect } from "@/lib/dbConnect"
+import { DiscussionReply } from "@/models/discussion"
+import { loadThreadForViewer } from "@/lib/discussions"
+
+/** The course teacher endorses a reply, or withdraws the endorsement. */
+export async function POST(_req: NextRequest, { params }: { params: Promise<{ threadId: string; replyId: string }> }) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user || session.user.role !== "teacher") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { threadId, replyId } = await params
+    await dbConnect()
+
+    const viewer = { id: session.user.id, role: session.user.role }
+    const result = await loadThreadForViewer(threadId, viewer)
+    if (!result.access) return NextResponse.json({ error: result.error }, { status: result.status })
+    if (!result.access.isCourseTeacher) {
+      return NextResponse.json({ error: "Only the course teacher can endorse answers" }, { status: 403 })
+    }
+
+    const reply = await DiscussionReply.findOne({ _id: replyId, thread: threadId })
+    if (!reply) {
+      return NextResponse.json({ error: "Reply not found" }, { status: 404 })
+    }
+
+    const endorsed = !reply.endorsedBy
+    reply.set("endorsedBy", endorsed ? viewer.id : undefined)
+    reply.endorsedAt = endorsed ? new Date() : undefined
+    await reply.save()
+
+    return NextResponse.json({ endorsed })
+  } catch (error) {
+    console.error("Endorse reply error:", error)
+    return NextResponse.json({ error: "Failed to update endorsement" }, { status: 500 })
+  }
+}
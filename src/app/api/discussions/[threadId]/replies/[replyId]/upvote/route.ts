@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { dbConnect } from "@/lib/dbConnect"
+import { DiscussionReply } from "@/models/discussion"
+import { loadThreadForViewer, toggleUpvote } from "@/lib/discussions"
+
+/** Toggles the viewer's upvote on a reply. */
+export async function POST(_req: NextRequest, { params }: { params: Promise<{ threadId: string; replyId: string }> }) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { threadId, replyId } = await params
+    await dbConnect()
+
+    const viewer = { id: session.user.id, role: session.user.role }
+    const result = await loadThreadForViewer(threadId, viewer)
+    if (!result.access) return NextResponse.json({ error: result.error }, { status: result.status })
+
+    const reply = await DiscussionReply.findOne({ _id: replyId, thread: threadId })
+    if (!reply) {
+      return NextResponse.json({ error: "Reply not found" }, { status: 404 })
+    }
+
+    const vote = await toggleUpvote(DiscussionReply, reply, viewer.id)
+    if (vote.error) return NextResponse.json({ error: vote.error }, { status: vote.status })
+
+    return NextResponse.json(vote)
+  } catch (error) {
+    console.error("Upvote reply error:", error)
+    return NextResponse.json({ error: "Failed to update vote" }, { status: 500 })
+  }
+}
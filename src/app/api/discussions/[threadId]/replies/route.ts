@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { dbConnect } from "@/lib/dbConnect"
+import { DiscussionReply, DiscussionThread, discussionReplyValidationSchema } from "@/models/discussion"
+import { loadAuthorNames, loadThreadForViewer, notifyThreadParticipants, serializeReply } from "@/lib/discussions"
+
+export async function POST(req: NextRequest, { params }: { params: Promise<{ threadId: string }> }) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id || (session.user.role !== "student" && session.user.role !== "teacher")) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { threadId } = await params
+    const data = discussionReplyValidationSchema.parse(await req.json())
+
+    await dbConnect()
+
+    const viewer = { id: session.user.id, role: session.user.role }
+    const result = await loadThreadForViewer(threadId, viewer)
+    if (!result.access) return NextResponse.json({ error: result.error }, { status: result.status })
+    const { thread, access } = result
+
+    const reply = await DiscussionReply.create({
+      thread: thread._id,
+      author: viewer.id,
+      authorRole: viewer.role,
+      body: data.body,
+      videoTimestamp: thread.lessonType === "video" ? data.videoTimestamp : undefined,
+    })
+    await DiscussionThread.updateOne(
+      { _id: thread._id },
+      { $inc: { replyCount: 1 }, $set: { lastActivityAt: new Date() } }
+    )
+
+    const names = await loadAuthorNames([reply])
+    const serialized = serializeReply(reply, names, viewer.id)
+
+    notifyThreadParticipants(thread, serialized, access, viewer).catch(console.error)
+
+    return NextResponse.json({ reply: serialized }, { status: 201 })
+  } catch (error) {
+    if (error instanceof Error && error.name === "ZodError") {
+      return NextResponse.json({ error: "Invalid input data" }, { status: 400 })
+    }
+    console.error("Create discussion reply error:", error)
+    return NextResponse.json({ error: "Failed to post reply" }, { status: 500 })
+  }
+}
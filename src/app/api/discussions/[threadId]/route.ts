@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { dbConnect } from "@/lib/dbConnect"
+import { DiscussionReply } from "@/models/discussion"
+import {
+  loadAuthorNames,
+  loadThreadForViewer,
+  serializeReply,
+  serializeThread,
+  type ReplyDoc,
+} from "@/lib/discussions"
+
+/** A thread with its replies; the accepted answer first, then endorsed ones, then oldest first. */
+export async function GET(_req: NextRequest, { params }: { params: Promise<{ threadId: string }> }) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { threadId } = await params
+    await dbConnect()
+
+    const viewer = { id: session.user.id, role: session.user.role }
+    const result = await loadThreadForViewer(threadId, viewer)
+    if (!result.access) return NextResponse.json({ error: result.error }, { status: result.status })
+    const { thread, access } = result
+
+    const replies = await DiscussionReply.find({ thread: thread._id }).sort({ createdAt: 1 }).lean()
+    const names = await loadAuthorNames([thread, ...replies])
+    const accepted = thread.acceptedReply ? String(thread.acceptedReply) : null
+    const rank = (r: { _id: string; endorsed: boolean }) => (r._id === accepted ? 0 : r.endorsed ? 1 : 2)
+
+    return NextResponse.json({
+      thread: serializeThread(thread, names, viewer.id),
+      replies: replies
+        .map((r: ReplyDoc) => serializeReply(r, names, viewer.id))
+        .sort((a: { _id: string; endorsed: boolean }, b: { _id: string; endorsed: boolean }) => rank(a) - rank(b)),
+      canAccept: String(thread.author) === viewer.id || access.isCourseTeacher,
+      canEndorse: access.isCourseTeacher,
+    })
+  } catch (error) {
+    console.error("Fetch discussion thread error:", error)
+    return NextResponse.json({ error: "Failed to fetch thread" }, { status: 500 })
+  }
+}
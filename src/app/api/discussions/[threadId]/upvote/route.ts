@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { dbConnect } from "@/lib/dbConnect"
+import { DiscussionThread } from "@/models/discussion"
+import { loadThreadForViewer, toggleUpvote } from "@/lib/discussions"
+
+/** Toggles the viewer's upvote on the question. */
+export async function POST(_req: NextRequest, { params }: { params: Promise<{ threadId: string }> }) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { threadId } = await params
+    await dbConnect()
+
+    const viewer = { id: session.user.id, role: session.user.role }
+    const result = await loadThreadForViewer(threadId, viewer)
+    if (!result.access) return NextResponse.json({ error: result.error }, { status: result.status })
+
+    const vote = await toggleUpvote(DiscussionThread, result.thread, viewer.id)
+    if (vote.error) return NextResponse.json({ error: vote.error }, { status: vote.status })
+
+    return NextResponse.json(vote)
+  } catch (error) {
+    console.error("Upvote thread error:", error)
+    return NextResponse.json({ error: "Failed to update vote" }, { status: 500 })
+  }
+}
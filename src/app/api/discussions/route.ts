@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { dbConnect } from "@/lib/dbConnect"
+import { DISCUSSION_LESSON_TYPES, DiscussionThread, discussionThreadValidationSchema, type DiscussionLessonType } from "@/models/discussion"
+import { loadAuthorNames, notifyNewThread, resolveLessonAccess, serializeThread, type ThreadDoc } from "@/lib/discussions"
+
+/** Threads on one lesson: `?lessonType=video|assignment&lessonId=…&sort=recent|top`. */
+export async function GET(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const lessonType = req.nextUrl.searchParams.get("lessonType") as DiscussionLessonType | null
+    const lessonId = req.nextUrl.searchParams.get("lessonId")
+    const sort = req.nextUrl.searchParams.get("sort") === "top" ? "top" : "recent"
+    if (!lessonType || !DISCUSSION_LESSON_TYPES.includes(lessonType) || !lessonId) {
+      return NextResponse.json({ error: "lessonType and lessonId are required" }, { status: 400 })
+    }
+
+    await dbConnect()
+
+    const viewer = { id: session.user.id, role: session.user.role }
+    const { access, error, status } = await resolveLessonAccess(lessonType, lessonId, viewer)
+    if (!access) return NextResponse.json({ error }, { status })
+
+    const threads = await DiscussionThread.find({ lessonType, lessonId })
+      .sort({ lastActivityAt: -1 })
+      .limit(100)
+      .lean()
+    const names = await loadAuthorNames(threads)
+    const serialized = threads.map((t: ThreadDoc) => serializeThread(t, names, viewer.id))
+    if (sort === "top") {
+      serialized.sort(
+        (a: { upvoteCount: number }, b: { upvoteCount: number }) => b.upvoteCount - a.upvoteCount
+      )
+    }
+
+    return NextResponse.json({ threads: serialized, canModerate: access.isCourseTeacher })
+  } catch (error) {
+    console.error("Fetch discussions error:", error)
+    return NextResponse.json({ error: "Failed to fetch discussions" }, { status: 500 })
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id || (session.user.role !== "student" && session.user.role !== "teacher")) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const data = discussionThreadValidationSchema.parse(await req.json())
+
+    await dbConnect()
+
+    const viewer = { id: session.user.id, role: session.user.role }
+    const { access, error, status } = await resolveLessonAccess(data.lessonType, data.lessonId, viewer)
+    if (!access) return NextResponse.json({ error }, { status })
+
+    const thread = await DiscussionThread.create({
+      course: access.courseId,
+      lessonType: data.lessonType,
+      lessonId: data.lessonId,
+      author: viewer.id,
+      authorRole: viewer.role,
+      title: data.title,
+      body: data.body,
+      videoTimestamp: data.lessonType === "video" ? data.videoTimestamp : undefined,
+      lastActivityAt: new Date(),
+    })
+
+    notifyNewThread(thread, access, viewer).catch(console.error)
+
+    const names = await loadAuthorNames([thread])
+    return NextResponse.json({ thread: serializeThread(thread, names, viewer.id) }, { status: 201 })
+  } catch (error) {
+    if (error instanceof Error && error.name === "ZodError") {
+      return NextResponse.json({ error: "Invalid input data" }, { status: 400 })
+    }
+    console.error("Create discussion error:", error)
+    return NextResponse.json({ error: "Failed to post question" }, { status: 500 })
+  }
+}
@@ -0,0 +1,57 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { dbConnect } from "@/lib/dbConnect"
+import { QuizAttempt } from "@/models/QuizAttempt"
+import { isAttemptExpired } from "@/lib/quiz-attempts"
+
+function toIdString(id: unknown) {
+  if (typeof id === "string") return id
+  if (id && typeof (id as { toString?: unknown }).toString === "function") return (id as { toString: () => string }).toString()
+  return ""
+}
+
+/**
+ * Autosaves the open attempt's answers so the student can resume after a refresh.
+ * Answers are kept as sent (displayed option indexes) and graded only on submit.
+ */
+export async function PUT(req: Request, context: { params: Promise<{ quizId: string }> }) {
+  try {
+    const { quizId } = await context.params
+
+    const session = await getServerSession(authOptions)
+    if (!session?.user || session.user.role !== "student") {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 })
+    }
+
+    const body = await req.json()
+    if (!Array.isArray(body?.answers)) {
+      return NextResponse.json({ message: "answers must be an array" }, { status: 400 })
+    }
+
+    await dbConnect()
+
+    const attempt = await QuizAttempt.findOne({ quiz: quizId, student: session.user.id, status: "in_progress" })
+    if (!attempt) {
+      return NextResponse.json({ message: "No quiz attempt in progress" }, { status: 404 })
+    }
+    if (isAttemptExpired(attempt.deadlineAt)) {
+      return NextResponse.json({ message: "Time is up for this attempt" }, { status: 409 })
+    }
+
+    // Only questions drawn into this attempt are kept
+    const drawnIds = new Set((attempt.variant || []).map((v: { questionId: unknown }) => toIdString(v.questionId)))
+    const draftAnswers = (body.answers as { questionId?: unknown; answer?: unknown }[])
+      .filter((a) => typeof a?.questionId === "string" && (drawnIds.size === 0 || drawnIds.has(a.questionId)))
+      .map((a) => ({ questionId: a.questionId, answer: a.answer ?? null }))
+
+    const lastSavedAt = new Date()
+    attempt.set({ draftAnswers, lastSavedAt })
+    await attempt.save()
+
+    return NextResponse.json({ lastSavedAt, deadlineAt: attempt.deadlineAt, serverNow: lastSavedAt })
+  } catch (error) {
+    console.error("Quiz autosave error:", error)
+    return NextResponse.json({ message: "Server error" }, { status: 500 })
+  }
+}
@@ -17,6 +17,14 @@ type QuizLean = Record<string, unknown> & {
   course: unknown
   teacher?: unknown
   questions?: unknown[]
+  questionPools?: unknown[]
+}
+
+function drawnQuestionCount(quiz: QuizLean) {
+  const pools = (quiz.questionPools || []) as { questionIds?: unknown[]; drawCount?: number }[]
+  const pooled = pools.reduce((sum, p) => sum + (p.questionIds?.length ?? 0), 0)
+  const drawn = pools.reduce((sum, p) => sum + Math.min(p.drawCount ?? 0, p.questionIds?.length ?? 0), 0)
+  return (quiz.questions || []).length - pooled + drawn
 }
 
 function serializeQuizForStudent(quiz: QuizLean) {
@@ -32,21 +40,11 @@ function serializeQuizForStudent(quiz: QuizLean) {
     showAnswersAfterSubmission: quiz.showAnswersAfterSubmission,
     instantResults: quiz.instantResults,
     shuffleQuestions: quiz.shuffleQuestions,
+    shuffleOptions: quiz.shuffleOptions,
     published: !!quiz.published,
     requiredForCertificate: !!quiz.requiredForCertificate,
-    questions: (quiz.questions || []).map((q: unknown) => {
-      const qq = q as Record<string, unknown> & { _id: { toString: () => string } }
-      return {
-        _id: qq._id.toString(),
-        // Support both legacy schema (questionText) and newer schema (prompt)
-        type: (qq.type as string) || "multiple_choice",
-        prompt: (qq.prompt as string) || (qq.questionText as string) || "",
-        options: qq.options,
-        points: qq.points,
-        explanation: qq.explanation,
-        requiresManualGrading: qq.requiresManualGrading,
-      }
-    }),
+    // Questions are served per attempt by /start so pooled questions are not exposed
+    questionCount: drawnQuestionCount(quiz),
     createdAt: quiz.createdAt,
     updatedAt: quiz.updatedAt,
   }
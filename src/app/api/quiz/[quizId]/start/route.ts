@@ -0,0 +1,114 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { dbConnect } from "@/lib/dbConnect"
+import { Quiz } from "@/models/quiz"
+import { QuizAttempt } from "@/models/QuizAttempt"
+import { Student } from "@/models/student"
+import { drawQuizVariant, getVariantQuestions, serializeVariantQuestion } from "@/lib/quiz-variants"
+import { QUIZ_SUBMIT_GRACE_SECONDS, finalizeQuizAttempt, getAttemptDeadline, isAttemptExpired } from "@/lib/quiz-attempts"
+
+function toIdString(id: unknown) {
+  if (typeof id === "string") return id
+  if (id && typeof (id as { toString?: unknown }).toString === "function") return (id as { toString: () => string }).toString()
+  return ""
+}
+
+function isDuplicateKeyError(error: unknown) {
+  return !!error && typeof error === "object" && (error as { code?: unknown }).code === 11000
+}
+
+/**
+ * Starts (or resumes) the student's attempt. The variant is drawn once and kept on
+ * the attempt, so refreshing cannot re-roll questions or option order. The deadline
+ * is fixed here; an open attempt that ran out is auto-submitted from its draft.
+ */
+export async function POST(_req: Request, context: { params: Promise<{ quizId: string }> }) {
+  try {
+    const { quizId } = await context.params
+
+    const session = await getServerSession(authOptions)
+    if (!session?.user || session.user.role !== "student") {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 })
+    }
+
+    await dbConnect()
+
+    const quiz = await Quiz.findById(quizId).lean()
+    if (!quiz) return NextResponse.json({ message: "Quiz not found" }, { status: 404 })
+    if (!quiz.published) return NextResponse.json({ message: "Quiz is not published" }, { status: 403 })
+
+    const student = await Student.findById(session.user.id).lean()
+    if (!student) return NextResponse.json({ message: "Student not found" }, { status: 404 })
+
+    const isEnrolled = student.purchasedCourses?.map((id: unknown) => toIdString(id)).includes(toIdString(quiz.course))
+    if (!isEnrolled) {
+      return NextResponse.json({ message: "You are not enrolled in this course" }, { status: 403 })
+    }
+
+    const openFilter = { quiz: quizId, student: session.user.id, status: "in_progress" }
+    let attempt = await QuizAttempt.findOne(openFilter)
+
+    if (attempt && isAttemptExpired(attempt.deadlineAt)) {
+      await finalizeQuizAttempt(quiz, quizId, attempt, null)
+      attempt = null
+    }
+
+    if (!attempt) {
+      const previousAttemptsCount = await QuizAttempt.countDocuments({ quiz: quizId, student: session.user.id })
+      if (typeof quiz.attemptLimit === "number" && previousAttemptsCount >= quiz.attemptLimit) {
+        return NextResponse.json({ message: "Attempt limit reached for this quiz" }, { status: 400 })
+      }
+
+      const startedAt = new Date()
+      try {
+        attempt = await QuizAttempt.create({
+          quiz: quizId,
+          course: quiz.course,
+          student: session.user.id,
+          attemptNumber: previousAttemptsCount + 1,
+          status: "in_progress",
+          variant: drawQuizVariant(quiz),
+          startedAt,
+          deadlineAt: getAttemptDeadline(startedAt, quiz.timeLimitSeconds),
+          submittedAt: null,
+        })
+      } catch (error) {
+        // A parallel request created the same attempt number first; resume that one
+        if (!isDuplicateKeyError(error)) throw error
+        attempt = await QuizAttempt.findOne(openFilter)
+        if (!attempt) throw error
+      }
+    }
+
+    return NextResponse.json({
+      attempt: {
+        _id: attempt._id.toString(),
+        attemptNumber: attempt.attemptNumber,
+        status: attempt.status,
+        startedAt: attempt.startedAt,
+        deadlineAt: attempt.deadlineAt,
+        lastSavedAt: attempt.lastSavedAt,
+      },
+      // The client derives its countdown from deadlineAt relative to serverNow, not its own clock
+      serverNow: new Date(),
+      graceSeconds: QUIZ_SUBMIT_GRACE_SECONDS,
+      savedAnswers: (attempt.draftAnswers || []).map((d: { questionId: unknown; answer: unknown }) => ({
+        questionId: toIdString(d.questionId),
+        answer: d.answer,
+      })),
+      quiz: {
+        _id: toIdString(quiz._id),
+        title: quiz.title,
+        description: quiz.description,
+        timeLimitSeconds: quiz.timeLimitSeconds,
+        passingScorePercent: quiz.passingScorePercent,
+        attemptLimit: quiz.attemptLimit,
+      },
+      questions: getVariantQuestions(quiz, attempt.variant).map(serializeVariantQuestion),
+    })
+  } catch (error) {
+    console.error("Quiz start error:", error)
+    return NextResponse.json({ message: "Server error" }, { status: 500 })
+  }
+}
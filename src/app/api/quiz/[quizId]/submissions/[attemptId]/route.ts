@@ -0,0 +1,219 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { z } from "zod"
+import { authOptions } from "@/lib/auth"
+import { dbConnect } from "@/lib/dbConnect"
+import { Course } from "@/models/course"
+import { Quiz } from "@/models/quiz"
+import { QuizAttempt } from "@/models/QuizAttempt"
+import { getQuestionPrompt, getQuestionType } from "@/lib/quiz-grading"
+import { getVariantQuestions, type VariantEntry } from "@/lib/quiz-variants"
+import { recordGradedQuizAttempt } from "@/lib/quiz-progress"
+import { notifyUser } from "@/lib/notifications"
+
+function toIdString(id: unknown) {
+  if (typeof id === "string") return id
+  if (id && typeof (id as { toString?: unknown }).toString === "function") return (id as { toString: () => string }).toString()
+  return ""
+}
+
+type AttemptAnswer = {
+  questionId: unknown
+  answer: unknown
+  earnedPoints?: number
+  maxPoints?: number
+  needsManualGrading?: boolean
+  feedback?: string
+  gradedAt?: Date
+}
+
+type AttemptLean = {
+  _id: unknown
+  student: { _id: unknown; name?: string; email?: string } | null
+  attemptNumber: number
+  status: string
+  variant?: VariantEntry[]
+  answers?: AttemptAnswer[]
+  earnedPoints: number
+  maxPoints: number
+  scorePercent: number
+  passed: boolean
+  submittedAt?: Date
+  gradedAt?: Date
+}
+
+const manualGradeSchema = z.object({
+  grades: z
+    .array(
+      z.object({
+        questionId: z.string().min(1),
+        points: z.number().min(0),
+        feedback: z.string().max(2000).optional(),
+      })
+    )
+    .min(1, "At least one grade is required"),
+})
+
+async function loadQuizForGrader(quizId: string, user: { id: string; role: string }) {
+  const quiz = await Quiz.findById(quizId).lean()
+  if (!quiz) return { error: NextResponse.json({ error: "Quiz not found" }, { status: 404 }) }
+
+  if (user.role === "teacher") {
+    const course = await Course.findById(quiz.course).lean()
+    if (!course || course.teacher?.toString() !== user.id) {
+      return { error: NextResponse.json({ error: "Forbidden" }, { status: 403 }) }
+    }
+  }
+  return { quiz }
+}
+
+// GET - one attempt with its questions, for the grading view
+export async function GET(_req: NextRequest, context: { params: Promise<{ quizId: string; attemptId: string }> }) {
+  try {
+    const { quizId, attemptId } = await context.params
+
+    const session = await getServerSession(authOptions)
+    if (!session?.user || (session.user.role !== "teacher" && session.user.role !== "admin")) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    await dbConnect()
+
+    const loaded = await loadQuizForGrader(quizId, session.user)
+    if (loaded.error) return loaded.error
+
+    const attempt = (await QuizAttempt.findOne({ _id: attemptId, quiz: quizId })
+      .populate("student", "name email profileImage")
+      .lean()) as AttemptLean | null
+    if (!attempt) return NextResponse.json({ error: "Attempt not found" }, { status: 404 })
+
+    const answers = new Map(
+      (attempt.answers || []).map((a) => [toIdString(a.questionId), a])
+    )
+    const student = attempt.student
+
+    return NextResponse.json({
+      attempt: {
+        _id: toIdString(attempt._id),
+        student: student ? { _id: toIdString(student._id), name: student.name, email: student.email } : null,
+        attemptNumber: attempt.attemptNumber,
+        status: attempt.status,
+        earnedPoints: attempt.earnedPoints,
+        maxPoints: attempt.maxPoints,
+        scorePercent: attempt.scorePercent,
+        passed: attempt.passed,
+        submittedAt: attempt.submittedAt,
+        gradedAt: attempt.gradedAt,
+      },
+      // Same questions and option order the student saw; answers use original option indexes
+      questions: getVariantQuestions(loaded.quiz, attempt.variant).map(({ question: q, optionOrder }) => {
+        const qid = q._id.toString()
+        const a = answers.get(qid)
+        return {
+          questionId: qid,
+          type: getQuestionType(q),
+          prompt: getQuestionPrompt(q),
+          options: q.options,
+          optionOrder,
+          acceptedAnswers: q.acceptedAnswers,
+          answer: a?.answer ?? null,
+          earnedPoints: a?.earnedPoints ?? 0,
+          maxPoints: a?.maxPoints ?? (typeof q.points === "number" ? q.points : 1),
+          needsManualGrading: !!a?.needsManualGrading,
+          feedback: a?.feedback,
+        }
+      }),
+    })
+  } catch (error) {
+    console.error("Quiz attempt get error:", error)
+    return NextResponse.json({ error: "Server error" }, { status: 500 })
+  }
+}
+
+// PATCH - score answers by hand; finishing the last one completes the attempt
+export async function PATCH(req: NextRequest, context: { params: Promise<{ quizId: string; attemptId: string }> }) {
+  try {
+    const { quizId, attemptId } = await context.params
+
+    const session = await getServerSession(authOptions)
+    if (!session?.user || session.user.role !== "teacher") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    await dbConnect()
+
+    const loaded = await loadQuizForGrader(quizId, session.user)
+    if (loaded.error) return loaded.error
+    const quiz = loaded.quiz
+
+    const { grades } = manualGradeSchema.parse(await req.json())
+
+    const attempt = await QuizAttempt.findOne({ _id: attemptId, quiz: quizId })
+    if (!attempt) return NextResponse.json({ error: "Attempt not found" }, { status: 404 })
+    if (attempt.status !== "pending_manual_grading") {
+      return NextResponse.json({ error: "Attempt is not awaiting manual grading" }, { status: 400 })
+    }
+
+    const answers = attempt.answers as AttemptAnswer[]
+    const now = new Date()
+    for (const grade of grades) {
+      const answer = answers.find((a) => toIdString(a.questionId) === grade.questionId)
+      if (!answer || !answer.needsManualGrading) {
+        return NextResponse.json({ error: "Only manually graded questions can be scored" }, { status: 400 })
+      }
+      const max = answer.maxPoints ?? 0
+      if (grade.points > max) {
+        return NextResponse.json({ error: `Points cannot exceed ${max} for a question` }, { status: 400 })
+      }
+      answer.earnedPoints = grade.points
+      answer.feedback = grade.feedback
+      answer.gradedAt = now
+    }
+
+    const earnedPoints = answers.reduce((sum, a) => sum + (a.earnedPoints ?? 0), 0)
+    const maxPoints = answers.reduce((sum, a) => sum + (a.maxPoints ?? 0), 0)
+    const scorePercent = maxPoints > 0 ? Math.round((earnedPoints / maxPoints) * 10000) / 100 : 0
+    const isFullyGraded = answers.every((a) => !a.needsManualGrading || a.gradedAt)
+
+    attempt.earnedPoints = earnedPoints
+    attempt.maxPoints = maxPoints
+    attempt.scorePercent = scorePercent
+    attempt.markModified("answers")
+
+    if (isFullyGraded) {
+      const passingScorePercent = typeof quiz.passingScorePercent === "number" ? quiz.passingScorePercent : 60
+      attempt.passed = scorePercent >= passingScorePercent
+      attempt.status = "graded"
+      attempt.gradedAt = now
+      attempt.gradedBy = session.user.id
+    }
+
+    await attempt.save()
+
+    if (isFullyGraded) {
+      const studentId = toIdString(attempt.student)
+      const courseId = toIdString(quiz.course)
+
+      await recordGradedQuizAttempt(studentId, courseId, quizId, scorePercent, attempt.passed, attempt.submittedAt)
+
+      await notifyUser({
+        userId: studentId,
+        userRole: "student",
+        type: "quiz_graded",
+        title: `Your quiz "${quiz.title}" has been graded`,
+        body: `Score: ${scorePercent}% • ${attempt.passed ? "Passed" : "Not passed"}`,
+        link: `/courses/${courseId}`,
+        courseId,
+        data: { quizId, attemptId },
+      }).catch((error) => console.error("Quiz graded notification error:", error))
+    }
+
+    return NextResponse.json({ attempt: attempt.toJSON(), graded: isFullyGraded })
+  } catch (error) {
+    console.error("Quiz manual grade error:", error)
+    if (error instanceof Error && error.name === "ZodError") {
+      return NextResponse.json({ error: "Invalid input data" }, { status: 400 })
+    }
+    return NextResponse.json({ error: "Server error" }, { status: 500 })
+  }
+}
@@ -6,7 +6,7 @@ import { Course } from "@/models/course"
 import { Quiz } from "@/models/quiz"
 import { QuizAttempt } from "@/models/QuizAttempt"
 
-export async function GET(_req: NextRequest, { params }: { params: { quizId: string } }) {
+export async function GET(req: NextRequest, { params }: { params: { quizId: string } }) {
   try {
     const session = await getServerSession(authOptions)
     if (!session?.user || (session.user.role !== "teacher" && session.user.role !== "admin")) {
@@ -25,7 +25,11 @@ export async function GET(_req: NextRequest, { params }: { params: { quizId: str
       }
     }
 
-    const attempts = await QuizAttempt.find({ quiz: params.quizId })
+    // ?status=pending_manual_grading narrows the list to the grading queue
+    const status = new URL(req.url).searchParams.get("status")
+    const query: Record<string, unknown> = { quiz: params.quizId, status: status || { $ne: "in_progress" } }
+
+    const attempts = await QuizAttempt.find(query)
       .populate("student", "name email profileImage")
       .sort({ createdAt: -1 })
       .lean()
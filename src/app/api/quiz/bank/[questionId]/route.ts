@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { dbConnect } from "@/lib/dbConnect"
+import { Course } from "@/models/course"
+import { BankQuestion, bankQuestionValidationSchema } from "@/models/question-bank"
+
+async function findOwnedQuestion(questionId: string, teacherId: string) {
+  const question = await BankQuestion.findById(questionId)
+  if (!question) return { error: NextResponse.json({ error: "Question not found" }, { status: 404 }) }
+
+  const course = await Course.findById(question.course).lean()
+  if (!course || course.teacher?.toString() !== teacherId) {
+    return { error: NextResponse.json({ error: "Forbidden" }, { status: 403 }) }
+  }
+  return { question }
+}
+
+// PATCH - replace a bank question; quizzes keep the snapshot they were created with
+export async function PATCH(req: NextRequest, context: { params: Promise<{ questionId: string }> }) {
+  try {
+    const { questionId } = await context.params
+
+    const session = await getServerSession(authOptions)
+    if (!session?.user || session.user.role !== "teacher") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    await dbConnect()
+
+    const found = await findOwnedQuestion(questionId, session.user.id)
+    if (found.error) return found.error
+
+    const body = await req.json()
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    const { courseId, ...question } = bankQuestionValidationSchema.parse({
+      ...body,
+      courseId: found.question.course.toString(),
+    })
+
+    found.question.set(question)
+    await found.question.save()
+
+    return NextResponse.json({ question: found.question.toJSON() })
+  } catch (error) {
+    console.error("Question bank update error:", error)
+    if (error instanceof Error && error.name === "ZodError") {
+      return NextResponse.json({ error: "Invalid input data" }, { status: 400 })
+    }
+    return NextResponse.json({ error: "Server error" }, { status: 500 })
+  }
+}
+
+export async function DELETE(_req: NextRequest, context: { params: Promise<{ questionId: string }> }) {
+  try {
+    const { questionId } = await context.params
+
+    const session = await getServerSession(authOptions)
+    if (!session?.user || session.user.role !== "teacher") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    await dbConnect()
+
+    const found = await findOwnedQuestion(questionId, session.user.id)
+    if (found.error) return found.error
+
+    await found.question.deleteOne()
+
+    return NextResponse.json({ message: "Question deleted successfully" })
+  } catch (error) {
+    console.error("Question bank delete error:", error)
+    return NextResponse.json({ error: "Server error" }, { status: 500 })
+  }
+}
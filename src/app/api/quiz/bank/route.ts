@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { dbConnect } from "@/lib/dbConnect"
+import { Course } from "@/models/course"
+import { BankQuestion, bankQuestionValidationSchema } from "@/models/question-bank"
+
+// GET - list a course's question bank, optionally filtered by tag
+export async function GET(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user || session.user.role !== "teacher") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(req.url)
+    const courseId = searchParams.get("courseId")
+    const tag = searchParams.get("tag")?.trim().toLowerCase()
+    if (!courseId) return NextResponse.json({ error: "courseId is required" }, { status: 400 })
+
+    await dbConnect()
+
+    const course = await Course.findById(courseId).lean()
+    if (!course) return NextResponse.json({ error: "Course not found" }, { status: 404 })
+    if (course.teacher?.toString() !== session.user.id) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 })
+    }
+
+    const query: Record<string, unknown> = { course: courseId }
+    if (tag) query.tags = tag
+
+    const questions = await BankQuestion.find(query).sort({ createdAt: -1 }).lean()
+    const tags = await BankQuestion.distinct("tags", { course: courseId })
+
+    return NextResponse.json({
+      questions: questions.map((q: unknown) => {
+        const qq = q as Record<string, unknown> & { _id: { toString: () => string } }
+        return { ...qq, _id: qq._id.toString(), course: courseId }
+      }),
+      tags: (tags as string[]).sort(),
+    })
+  } catch (error) {
+    console.error("Question bank list error:", error)
+    return NextResponse.json({ error: "Server error" }, { status: 500 })
+  }
+}
+
+// POST - add a reusable question to the course bank
+export async function POST(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user || session.user.role !== "teacher") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    await dbConnect()
+
+    const { courseId, ...question } = bankQuestionValidationSchema.parse(await req.json())
+
+    const course = await Course.findById(courseId).lean()
+    if (!course) return NextResponse.json({ error: "Course not found" }, { status: 404 })
+    if (course.teacher?.toString() !== session.user.id) {
+      return NextResponse.json({ error: "You can only add questions to your own courses" }, { status: 403 })
+    }
+
+    const created = await BankQuestion.create({ ...question, course: courseId, teacher: session.user.id })
+
+    return NextResponse.json({ question: created.toJSON() }, { status: 201 })
+  } catch (error) {
+    console.error("Question bank create error:", error)
+    if (error instanceof Error && error.name === "ZodError") {
+      return NextResponse.json({ error: "Invalid input data" }, { status: 400 })
+    }
+    return NextResponse.json({ error: "Server error" }, { status: 500 })
+  }
+}
@@ -1,12 +1,23 @@
 import { NextRequest, NextResponse } from "next/server"
+import mongoose from "mongoose"
 import { getServerSession } from "next-auth"
 import { authOptions } from "@/lib/auth"
 import { dbConnect } from "@/lib/dbConnect"
 import { Course } from "@/models/course"
-import { Quiz, quizValidationSchema } from "@/models/quiz"
+import { Quiz, questionSchemaFields, quizValidationSchema } from "@/models/quiz"
 import { Student } from "@/models/student"
+import { BankQuestion } from "@/models/question-bank"
 import { notifyMany } from "@/lib/notifications"
 
+/** Copies a bank item's question fields into a quiz question snapshot. */
+function toQuizQuestion(bankQuestion: Record<string, unknown>) {
+  const question: Record<string, unknown> = { bankQuestion: bankQuestion._id }
+  for (const key of Object.keys(questionSchemaFields)) {
+    if (bankQuestion[key] !== undefined) question[key] = bankQuestion[key]
+  }
+  return question
+}
+
 export async function POST(req: NextRequest) {
   try {
     const session = await getServerSession(authOptions)
@@ -30,19 +41,62 @@ export async function POST(req: NextRequest) {
       return NextResponse.json({ error: "You can only create quizzes for your own courses" }, { status: 403 })
     }
 
+    // Pull requested bank questions (must belong to this course) in the order given
+    const bankQuestions = validated.bankQuestionIds.length
+      ? await BankQuestion.find({ _id: { $in: validated.bankQuestionIds }, course: courseId }).lean()
+      : []
+    if (bankQuestions.length !== new Set(validated.bankQuestionIds).size) {
+      return NextResponse.json({ error: "Some question bank items were not found in this course" }, { status: 400 })
+    }
+    const bankById = new Map<string, Record<string, unknown>>()
+    for (const q of bankQuestions as (Record<string, unknown> & { _id: { toString: () => string } })[]) {
+      bankById.set(q._id.toString(), q)
+    }
+
+    const questions: Record<string, unknown>[] = []
+    for (const { saveToBank, tags, ...question } of validated.questions) {
+      if (saveToBank) {
+        const saved = await BankQuestion.create({
+          ...question,
+          course: courseId,
+          teacher: session.user.id,
+          tags: tags || [],
+        })
+        questions.push({ ...question, bankQuestion: saved._id })
+      } else {
+        questions.push(question)
+      }
+    }
+    for (const id of validated.bankQuestionIds) {
+      const bankQuestion = bankById.get(id)
+      if (bankQuestion) questions.push(toQuizQuestion(bankQuestion))
+    }
+
+    // Pre-assign question ids so pools can reference them
+    questions.forEach((q) => {
+      q._id = new mongoose.Types.ObjectId()
+    })
+    const questionPools = validated.questionPools.map((pool) => ({
+      name: pool.name,
+      drawCount: pool.drawCount,
+      questionIds: pool.questionIndexes.map((idx) => questions[idx]._id),
+    }))
+
     // Map courseId -> course for Mongoose
     const quiz = await Quiz.create({
       course: courseId,
       teacher: session.user.id,
       title: validated.title,
       description: validated.description,
-      questions: validated.questions,
+      questions,
       timeLimitSeconds: validated.timeLimitSeconds,
       passingScorePercent: validated.passingScorePercent,
       attemptLimit: validated.attemptLimit,
       showAnswersAfterSubmission: validated.showAnswersAfterSubmission,
       instantResults: validated.instantResults,
       shuffleQuestions: validated.shuffleQuestions,
+      shuffleOptions: validated.shuffleOptions,
+      questionPools,
       published: validated.published, // <-- ensure we take value from frontend exactly
       requiredForCertificate: validated.requiredForCertificate,
     })
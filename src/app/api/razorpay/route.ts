@@ -2,6 +2,7 @@ import { NextResponse } from "next/server"
 import { getServerSession } from "next-auth/next"
 import dbConnect from "@/lib/dbConnect"
 import { Course } from "@/models/course"
+import { recordEnrollment } from "@/lib/video-access"
 import { Payment, paymentValidationSchema } from "@/models/payment"
 import { Coupon } from "@/models/coupon"
 import { Student } from "@/models/student"
@@ -308,6 +309,7 @@ export async function PUT(req: Request) {
     await Student.findByIdAndUpdate(orderUserId, {
       $addToSet: { purchasedCourses: orderCourseId }
     })
+    await recordEnrollment(String(orderUserId), String(orderCourseId))
 
     // Update course's students purchased and total revenue
     await Course.findByIdAndUpdate(orderCourseId, {
@@ -7,6 +7,7 @@ import { Payment } from "@/models/payment";
 import { Course } from "@/models/course";
 import { Student } from "@/models/student";
 import { RequestRefund } from "@/models/request-refund";
+import { revokePlaybackTokens } from "@/lib/playback-tokens";
 import { Teacher } from "@/models/teacher";
 import Razorpay from "razorpay";
 import { z } from "zod";
@@ -290,6 +291,7 @@ export async function POST(req: NextRequest) {
     await Student.findByIdAndUpdate(studentId, {
       $pull: { purchasedCourses: courseId }
     });
+    await revokePlaybackTokens(studentId, courseId);
 
     // 15. Remove student from course's purchased students and update revenue
     await Course.findByIdAndUpdate(courseId, {
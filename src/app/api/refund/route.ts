@@ -7,6 +7,7 @@ import { Payment } from "@/models/payment";
 import { Course } from "@/models/course";
 import { Student } from "@/models/student";
 import { RequestRefund } from "@/models/request-refund";
+import { revokePlaybackTokens } from "@/lib/playback-tokens";
 import Razorpay from "razorpay";
 
 interface RefundCourse {
@@ -200,6 +201,7 @@ export async function POST(req: NextRequest) {
     await Student.findByIdAndUpdate(studentId, {
       $pull: { purchasedCourses: courseId }
     });
+    await revokePlaybackTokens(studentId, courseId);
 
     // 14. Remove student from course's purchased students
     await Course.findByIdAndUpdate(courseId, {
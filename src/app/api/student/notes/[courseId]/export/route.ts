@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { dbConnect } from "@/lib/dbConnect"
+import { Course } from "@/models/course"
+import { buildNotesMarkdown, generateNotesPdfBuffer, loadCourseNotes } from "@/lib/video-notes"
+
+function exportFileName(courseName: string, extension: string) {
+  const slug = courseName.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "course"
+  return `${slug}-notes.${extension}`
+}
+
+/** All of the student's notes for a course as Markdown (`?format=md`, default) or PDF (`?format=pdf`). */
+export async function GET(req: NextRequest, { params }: { params: Promise<{ courseId: string }> }) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user || session.user.role !== "student") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { courseId } = await params
+    const format = req.nextUrl.searchParams.get("format") || "md"
+    if (format !== "md" && format !== "pdf") {
+      return NextResponse.json({ error: "Format must be md or pdf" }, { status: 400 })
+    }
+
+    await dbConnect()
+
+    const course = await Course.findById(courseId).select("name").lean()
+    if (!course) {
+      return NextResponse.json({ error: "Course not found" }, { status: 404 })
+    }
+
+    const groups = await loadCourseNotes(session.user.id, courseId)
+    const courseName = course.name || "Course"
+
+    if (format === "pdf") {
+      const pdf = await generateNotesPdfBuffer(courseName, groups)
+      return new NextResponse(new Uint8Array(pdf), {
+        headers: {
+          "Content-Type": "application/pdf",
+          "Content-Disposition": `attachment; filename="${exportFileName(courseName, "pdf")}"`,
+        },
+      })
+    }
+
+    return new NextResponse(buildNotesMarkdown(courseName, groups), {
+      headers: {
+        "Content-Type": "text/markdown; charset=utf-8",
+        "Content-Disposition": `attachment; filename="${exportFileName(courseName, "md")}"`,
+      },
+    })
+  } catch (error) {
+    console.error("Export notes error:", error)
+    return NextResponse.json({ error: "Failed to export notes" }, { status: 500 })
+  }
+}
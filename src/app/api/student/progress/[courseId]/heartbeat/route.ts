@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { dbConnect } from "@/lib/dbConnect"
+import { heartbeatValidationSchema } from "@/models/video-watch"
+import { recordHeartbeat } from "@/lib/watch-time"
+import { canWatchCourse, getVideoLock } from "@/lib/video-access"
+
+/**
+ * Player heartbeat: the segments played since the previous beat. Only unique
+ * seconds count toward a video's watched percentage and completion.
+ */
+export async function POST(req: NextRequest, { params }: { params: Promise<{ courseId: string }> }) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id || session.user.role !== "student") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { courseId } = await params
+    const beat = heartbeatValidationSchema.parse(await req.json())
+
+    await dbConnect()
+
+    const viewer = { id: session.user.id, role: session.user.role }
+    if (!(await canWatchCourse(courseId, viewer))) {
+      return NextResponse.json({ error: "You are not enrolled in this course" }, { status: 403 })
+    }
+
+    const lock = await getVideoLock(courseId, beat.videoId, viewer)
+    if (lock.locked) {
+      return NextResponse.json({ error: "This video is locked" }, { status: 403 })
+    }
+
+    const result = await recordHeartbeat(session.user.id, courseId, beat)
+    if (!result) {
+      return NextResponse.json({ error: "Video not found" }, { status: 404 })
+    }
+
+    return NextResponse.json({
+      percentWatched: result.watch.percentWatched,
+      uniqueSeconds: result.watch.uniqueSeconds,
+      completed: result.watch.completed,
+      percentageCompleted: result.progress?.percentageCompleted ?? 0,
+    })
+  } catch (error) {
+    if (error instanceof Error && error.name === "ZodError") {
+      return NextResponse.json({ error: "Invalid input data" }, { status: 400 })
+    }
+    console.error("Heartbeat error:", error)
+    return NextResponse.json({ error: "Failed to record watch time" }, { status: 500 })
+  }
+}
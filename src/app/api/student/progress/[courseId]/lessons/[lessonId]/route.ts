@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { dbConnect } from "@/lib/dbConnect"
+import { CourseProgress } from "@/models/course-progress"
+import { getCourseCurriculum } from "@/lib/curriculum"
+import { recalculateAndSaveCourseProgress } from "@/lib/course-progress"
+import { canWatchCourse } from "@/lib/video-access"
+
+/**
+ * Marks a study-material or live-class lesson done (POST) or not done (DELETE).
+ * Videos, quizzes and assignments complete through their own activity instead.
+ */
+async function setLessonCompleted(
+  context: { params: Promise<{ courseId: string; lessonId: string }> },
+  completed: boolean
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id || session.user.role !== "student") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { courseId, lessonId } = await context.params
+    await dbConnect()
+
+    if (!(await canWatchCourse(courseId, { id: session.user.id, role: session.user.role }))) {
+      return NextResponse.json({ error: "You are not enrolled in this course" }, { status: 403 })
+    }
+
+    const curriculum = await getCourseCurriculum(courseId)
+    const lesson = curriculum?.sections.flatMap((s) => s.lessons).find((l) => l._id === lessonId)
+    if (!lesson) {
+      return NextResponse.json({ error: "Lesson not found" }, { status: 404 })
+    }
+    if (lesson.type !== "material" && lesson.type !== "live_class") {
+      return NextResponse.json({ error: "This lesson completes automatically" }, { status: 400 })
+    }
+
+    await CourseProgress.updateOne(
+      { student: session.user.id, course: courseId },
+      completed ? { $addToSet: { completedLessons: lessonId } } : { $pull: { completedLessons: lessonId } },
+      { upsert: true }
+    )
+    const progress = await recalculateAndSaveCourseProgress(session.user.id, courseId)
+
+    return NextResponse.json({ sectionProgress: progress.sectionProgress })
+  } catch (error) {
+    console.error("Update lesson completion error:", error)
+    return NextResponse.json({ error: "Failed to update lesson" }, { status: 500 })
+  }
+}
+
+export async function POST(_req: NextRequest, context: { params: Promise<{ courseId: string; lessonId: string }> }) {
+  return setLessonCompleted(context, true)
+}
+
+export async function DELETE(_req: NextRequest, context: { params: Promise<{ courseId: string; lessonId: string }> }) {
+  return setLessonCompleted(context, false)
+}
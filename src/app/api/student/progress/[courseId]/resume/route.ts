@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { dbConnect } from "@/lib/dbConnect"
+import { getResumeTarget } from "@/lib/resume"
+
+/** Where the student left off: the unfinished last video, else the next incomplete lesson. */
+export async function GET(_req: NextRequest, { params }: { params: Promise<{ courseId: string }> }) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { courseId } = await params
+    await dbConnect()
+
+    const target = await getResumeTarget(courseId, { id: session.user.id, role: session.user.role })
+    return NextResponse.json({ target })
+  } catch (error) {
+    console.error("Resume target error:", error)
+    return NextResponse.json({ error: "Failed to find where you left off" }, { status: 500 })
+  }
+}
@@ -4,7 +4,6 @@ import { authOptions } from "@/lib/auth"
 import { dbConnect } from "@/lib/dbConnect"
 import { CourseProgress } from "@/models/course-progress"
 import { Video } from "@/models/video"
-import { recalculateAndSaveCourseProgress } from "@/lib/course-progress"
 
 function toIdString(id: unknown) {
   if (typeof id === "string") return id
@@ -142,6 +141,9 @@ return NextResponse.json({
   videoProgress: videoProgressObj,
   videoWatchDetails,
   breakdown: progressDoc?.breakdown ?? null,
+  averageQuizScore: progressDoc?.averageQuizScore ?? 0,
+  sectionProgress: progressDoc?.sectionProgress ?? [],
+  completedLessonIds: (progressDoc?.completedLessons || []).map((id: unknown) => String(id)),
   isCourseComplete: !!progressDoc?.isComplete,
   quizProgress,
   updatedAt: progressDoc?.updatedAt
@@ -157,6 +159,10 @@ return NextResponse.json({
     )
   }
 }
+/**
+ * Records which video the student opened last. Watch time and completion come
+ * only from player heartbeats (see ./heartbeat), not from a reported position.
+ */
 export async function POST(
   req: NextRequest,
   { params }: { params: Promise<{ courseId: string }> }
@@ -168,83 +174,29 @@ export async function POST(
     }
 
     const { courseId } = await params
-    const { videoId, currentTime, duration } = (await req.json()) as {
-      videoId?: string
-      currentTime?: number
-      duration?: number
-    }
+    const { videoId } = (await req.json()) as { videoId?: string }
 
-    if (!videoId || typeof currentTime !== "number") {
-      return NextResponse.json({ error: "videoId and currentTime are required" }, { status: 400 })
+    if (!videoId) {
+      return NextResponse.json({ error: "videoId is required" }, { status: 400 })
     }
 
     await dbConnect()
 
-    const progress =
-      (await (CourseProgress as any).findOne({
-        student: session.user.id,
-        course: courseId,
-      })) ||
-      new CourseProgress({
-        student: session.user.id,
-        course: courseId,
-        completedVideos: [],
-        submittedAssignments: [],
-        passedQuizzes: [],
-        quizProgress: [],
-        videoProgress: {},
-        videoWatchDetails: {},
-      })
-
-    const key = String(videoId)
-    const existingSeconds = Number(progress.videoProgress?.get?.(key) || 0)
-    const nextSeconds = Math.max(existingSeconds, Math.floor(currentTime))
-
-    if (progress.videoProgress?.set) {
-      progress.videoProgress.set(key, nextSeconds)
-    } else {
-      progress.videoProgress = { ...(progress.videoProgress || {}), [key]: nextSeconds }
-    }
-
-    const durationOk = typeof duration === "number" && duration > 0
-    const percentWatched = durationOk ? Math.min(100, Math.round((nextSeconds / duration) * 10000) / 100) : 0
-    const isCompletedByTime = durationOk && nextSeconds / duration >= 0.8
-
-    const prevDetails = ((progress.videoWatchDetails || {}) as Record<string, Record<string, unknown>>)[key] || {}
-    const nextDetails = {
-      percentWatched: Math.max(Number(prevDetails.percentWatched) || 0, percentWatched),
-      watchDurationSeconds: nextSeconds,
-      lastWatchedAt: new Date(),
-      completed: !!(prevDetails.completed || isCompletedByTime),
-    }
-    progress.videoWatchDetails = {
-      ...(typeof progress.videoWatchDetails === "object" && progress.videoWatchDetails !== null
-        ? progress.videoWatchDetails
-        : {}),
-      [key]: nextDetails,
-    }
-    progress.markModified("videoWatchDetails")
-
-    if (isCompletedByTime && !progress.completedVideos.some((id: unknown) => String(id) === key)) {
-      progress.completedVideos.push(key)
+    const video = await Video.exists({ _id: videoId, course: courseId })
+    if (!video) {
+      return NextResponse.json({ error: "Video not found" }, { status: 404 })
     }
-    progress.lastAccessedVideo = key
-progress.lastAccessedVideo = key
-progress.updatedAt = new Date()
-await progress.save()
 
-    const refreshed = await recalculateAndSaveCourseProgress(session.user.id, courseId)
+    const progress = await CourseProgress.findOneAndUpdate(
+      { student: session.user.id, course: courseId },
+      { $set: { lastAccessedVideo: videoId, updatedAt: new Date() } },
+      { upsert: true, new: true }
+    )
 
     return NextResponse.json({
       message: "Progress updated",
-      completedVideos: refreshed?.completedVideos?.length ?? progress.completedVideos.length,
-      percentageCompleted: refreshed?.percentageCompleted ?? 0,
-      videoMeta: {
-        percentWatched: nextDetails.percentWatched,
-        watchDurationSeconds: nextDetails.watchDurationSeconds,
-        lastWatchedAt: nextDetails.lastWatchedAt.toISOString(),
-        completed: nextDetails.completed || isCompletedByTime,
-      },
+      completedVideos: progress?.completedVideos?.length ?? 0,
+      percentageCompleted: progress?.percentageCompleted ?? 0,
     })
   } catch (error) {
     console.error("Error updating student progress:", error)
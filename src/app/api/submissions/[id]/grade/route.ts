@@ -1,23 +1,121 @@
 import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
 import { dbConnect } from "@/lib/dbConnect"
-import { Submission } from "@/models/submission"
+import { Submission, submissionGradeValidationSchema } from "@/models/submission"
+import { Assignment } from "@/models/assignment"
+import { Course } from "@/models/course"
+import { notifyUser } from "@/lib/notifications"
+import { getSubmissionVersions, scoreRubric, type RubricCriterion } from "@/lib/assignment-grading"
+import { applyLatePenalty } from "@/lib/assignment-late-policy"
 
+type AssignmentLean = {
+  _id: { toString: () => string }
+  courseId: { toString: () => string }
+  title?: string
+  rubric?: RubricCriterion[]
+}
+
+/**
+ * Grades the current version of a submission. With a rubric, every criterion must
+ * be scored and the grade is their sum; without one, `grade` is taken as given and
+ * an empty body just marks the submission graded (the old "Mark graded" action).
+ * Rubric scores, feedback and annotations left out of the body are kept as they are.
+ * The stored grade is after the late penalty; `rawGrade` keeps the score before it.
+ */
 export async function PATCH(
-  _req: NextRequest,
+  req: NextRequest,
   { params }: { params: { id: string } }
 ) {
   try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user || session.user.role !== "teacher") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const body = await req.json().catch(() => ({}))
+    const input = submissionGradeValidationSchema.parse(body ?? {})
+
     await dbConnect()
-    const updated = await Submission.findByIdAndUpdate(
-      params.id,
-      { $set: { graded: true } },
-      { new: true }
-    )
-    if (!updated) {
+
+    const submission = await Submission.findById(params.id)
+    if (!submission) {
       return NextResponse.json({ error: "Submission not found" }, { status: 404 })
     }
-    return NextResponse.json({ message: "Submission graded", submission: updated })
+
+    const assignment = (await Assignment.findById(submission.assignmentId).lean()) as AssignmentLean | null
+    if (!assignment) {
+      return NextResponse.json({ error: "Assignment not found" }, { status: 404 })
+    }
+
+    const course = await Course.findById(assignment.courseId).select("teacher name").lean()
+    if (!course || course.teacher?.toString() !== session.user.id) {
+      return NextResponse.json({ error: "You can only grade submissions in your own courses" }, { status: 403 })
+    }
+
+    const rubric = assignment.rubric || []
+    let rawGrade: number | undefined = submission.rawGrade ?? submission.grade
+    let maxGrade: number | undefined = submission.maxGrade
+    if (rubric.length > 0) {
+      if (!input.rubricScores?.length) {
+        return NextResponse.json({ error: "Score the assignment's rubric to grade it" }, { status: 400 })
+      }
+      const scored = scoreRubric(rubric, input.rubricScores)
+      if ("error" in scored) {
+        return NextResponse.json({ error: scored.error }, { status: 400 })
+      }
+      rawGrade = scored.total
+      maxGrade = scored.maxPoints
+    } else if (input.grade !== undefined) {
+      rawGrade = input.grade
+    }
+
+    // Late penalty was fixed when the version was submitted; it is applied on every (re)grade
+    const penaltyPercent: number = submission.penaltyPercent ?? 0
+    const grade = typeof rawGrade === "number" ? applyLatePenalty(rawGrade, penaltyPercent) : undefined
+
+    const gradedAt = new Date()
+    const gradeFields = {
+      graded: true,
+      rawGrade,
+      grade,
+      ...(input.rubricScores !== undefined ? { rubricScores: input.rubricScores } : {}),
+      ...(input.feedback !== undefined ? { feedback: input.feedback } : {}),
+      ...(input.annotations !== undefined ? { annotations: input.annotations } : {}),
+      gradedAt,
+    }
+
+    // The grade belongs to the version being looked at; earlier versions keep theirs
+    const versions = getSubmissionVersions(submission.toObject()).map((v) =>
+      v.version === (submission.currentVersion || 1) ? { ...v, ...gradeFields, gradedBy: session.user.id } : v
+    )
+
+    submission.set({ ...gradeFields, maxGrade, versions })
+    await submission.save()
+
+    if (submission.studentId) {
+      await notifyUser({
+        userId: submission.studentId.toString(),
+        userRole: "student",
+        type: "assignment_graded",
+        title: `"${assignment.title || "Assignment"}" has been graded`,
+        body:
+          typeof grade === "number"
+            ? `Score: ${grade}${typeof maxGrade === "number" ? `/${maxGrade}` : ""}${
+                penaltyPercent > 0 ? ` (includes ${penaltyPercent}% late penalty)` : ""
+              }`
+            : undefined,
+        link: `/courses/${assignment.courseId.toString()}`,
+        courseId: assignment.courseId.toString(),
+        data: { assignmentId: assignment._id.toString(), submissionId: submission._id.toString() },
+      }).catch((error) => console.error("Assignment graded notification error:", error))
+    }
+
+    return NextResponse.json({ message: "Submission graded", submission })
   } catch (error) {
+    if (error instanceof Error && error.name === "ZodError") {
+      return NextResponse.json({ error: "Invalid input data" }, { status: 400 })
+    }
     console.error("Error grading submission:", error)
     return NextResponse.json({ error: "Failed to grade submission" }, { status: 500 })
   }
@@ -4,7 +4,22 @@ import { authOptions } from "@/lib/auth"
 import { dbConnect } from "@/lib/dbConnect"
 import { Submission } from "@/models/submission"
 import { Assignment } from "@/models/assignment"
+import { Course } from "@/models/course"
+import { getSubmissionVersions } from "@/lib/assignment-grading"
+import { evaluateSubmissionTiming, type AssignmentForTiming } from "@/lib/assignment-late-policy"
+import { checkNewSubmissionSimilarity } from "@/lib/submission-similarity"
+import { isUploadedFileUrl } from "@/lib/uploads"
 
+// Downloads and compares the file in the background; the upload response does not wait for it
+function queueSimilarityCheck(submissionId: string) {
+  checkNewSubmissionSimilarity(submissionId).catch((error) => console.error("Similarity check error:", error))
+}
+
+/**
+ * Submits an assignment, or resubmits while `resubmissionLimit` allows. Each upload
+ * is kept as a version; the latest one is what gets graded. Timing is checked against
+ * the late policy and the student's extension, and recorded on the version.
+ */
 export async function POST(req: NextRequest) {
   const session = await getServerSession(authOptions)
   if (!session?.user) {
@@ -12,20 +27,82 @@ export async function POST(req: NextRequest) {
   }
 
   const { assignmentId, fileUrl } = await req.json()
+  if (!assignmentId || !fileUrl) {
+    return NextResponse.json({ error: "assignmentId and fileUrl are required" }, { status: 400 })
+  }
+  if (!isUploadedFileUrl(fileUrl)) {
+    return NextResponse.json({ error: "fileUrl must be a file uploaded to this site" }, { status: 400 })
+  }
 
   await dbConnect()
 
-  const submission = await Submission.create({
-    assignmentId,
-    studentId: session.user.id,
+  const assignment = (await Assignment.findById(assignmentId)
+    .select("resubmissionLimit dueDate latePolicy extensions")
+    .lean()) as (AssignmentForTiming & { resubmissionLimit?: number }) | null
+  if (!assignment) {
+    return NextResponse.json({ error: "Assignment not found" }, { status: 404 })
+  }
+
+  const submittedAt = new Date()
+  const { accepted, ...timing } = evaluateSubmissionTiming(assignment, session.user.id, submittedAt)
+  if (!accepted) {
+    return NextResponse.json({ error: "The deadline for this assignment has passed" }, { status: 400 })
+  }
+
+  const existing = await Submission.findOne({ assignmentId, studentId: session.user.id })
+  if (!existing) {
+    const submission = await Submission.create({
+      assignmentId,
+      studentId: session.user.id,
+      fileUrl,
+      graded: false,
+      ...timing,
+      currentVersion: 1,
+      versions: [{ version: 1, fileUrl, submittedAt, ...timing }],
+      similarity: { status: "pending" },
+    })
+    queueSimilarityCheck(submission._id.toString())
+    return NextResponse.json(submission)
+  }
+
+  const versions = getSubmissionVersions(existing.toObject())
+  const allowed = 1 + (assignment.resubmissionLimit ?? 0)
+  if (versions.length >= allowed) {
+    return NextResponse.json(
+      { error: allowed === 1 ? "Resubmissions are not allowed for this assignment" : `You can submit at most ${allowed} times` },
+      { status: 400 }
+    )
+  }
+
+  const version = versions.length + 1
+  // Top-level grade fields describe the current version, which is now ungraded
+  existing.set({
     fileUrl,
     graded: false,
+    rawGrade: undefined,
+    grade: undefined,
+    ...timing,
+    rubricScores: [],
+    feedback: undefined,
+    annotations: [],
+    gradedAt: undefined,
+    currentVersion: version,
+    versions: [...versions, { version, fileUrl, submittedAt, ...timing }],
+    similarity: { status: "pending" },
   })
+  await existing.save()
+  queueSimilarityCheck(existing._id.toString())
 
-  return NextResponse.json(submission)
+  return NextResponse.json(existing)
 }
+/** Every submission in a course, with authors and similarity reports; for its teacher and admins only. */
 export async function GET(req: Request) {
   try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user || (session.user.role !== "teacher" && session.user.role !== "admin")) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
     await dbConnect()
 
     const { searchParams } = new URL(req.url)
@@ -35,6 +112,13 @@ export async function GET(req: Request) {
       return NextResponse.json({ error: "CourseId required" }, { status: 400 })
     }
 
+    if (session.user.role === "teacher") {
+      const course = await Course.findById(courseId).select("teacher").lean()
+      if (!course || String(course.teacher) !== session.user.id) {
+        return NextResponse.json({ error: "You can only view submissions for your own courses" }, { status: 403 })
+      }
+    }
+
     // 1️⃣ Get assignments in this course
     const assignments = await Assignment.find({ courseId }).select("_id")
 
@@ -46,6 +130,8 @@ export async function GET(req: Request) {
     })
       .populate("studentId", "name email")
       .populate("assignmentId", "title")
+      .populate("similarity.matches.studentId", "name")
+      .populate("similarity.matches.assignmentId", "title")
       .lean()
 
     return NextResponse.json(submissions)
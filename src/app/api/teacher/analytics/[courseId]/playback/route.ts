@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { dbConnect } from "@/lib/dbConnect"
+import { getCoursePlaybackQuality, parseWindowDays } from "@/lib/playback-quality"
+
+export async function GET(req: NextRequest, context: { params: Promise<{ courseId: string }> }) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id || session.user.role !== "teacher") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { courseId } = await context.params
+    await dbConnect()
+
+    const data = await getCoursePlaybackQuality(session.user.id, courseId, parseWindowDays(req.nextUrl.searchParams.get("days")))
+    if (!data) {
+      return NextResponse.json({ error: "Course not found" }, { status: 404 })
+    }
+
+    return NextResponse.json(data)
+  } catch (error) {
+    console.error("Playback quality analytics error:", error)
+    return NextResponse.json({ error: "Failed to load playback quality" }, { status: 500 })
+  }
+}
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { dbConnect } from "@/lib/dbConnect"
+import { getQuizItemAnalysis } from "@/lib/quiz-item-analysis"
+
+export async function GET(_req: NextRequest, context: { params: Promise<{ courseId: string; quizId: string }> }) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id || session.user.role !== "teacher") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { courseId, quizId } = await context.params
+    await dbConnect()
+
+    const data = await getQuizItemAnalysis(session.user.id, courseId, quizId)
+    if (!data) {
+      return NextResponse.json({ error: "Quiz not found" }, { status: 404 })
+    }
+
+    return NextResponse.json(data)
+  } catch (error) {
+    console.error("Quiz item analysis error:", error)
+    return NextResponse.json({ error: "Failed to load item analysis" }, { status: 500 })
+  }
+}
@@ -0,0 +1,115 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { dbConnect } from "@/lib/dbConnect"
+import { VideoCaption, captionTrackUpdateSchema } from "@/models/video-caption"
+import { listCaptionTracks, serializeWebVtt, syncDefaultCaption } from "@/lib/captions"
+import { resolveVideoAccess } from "@/lib/video-access"
+import { syncVideoTranscript } from "@/lib/transcripts"
+
+type TrackContext = { params: Promise<{ id: string; language: string }> }
+
+/** The track as WebVTT for the player, or as JSON cues with `?format=json` for the editor. */
+export async function GET(req: NextRequest, { params }: TrackContext) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id, language } = await params
+    await dbConnect()
+
+    const access = await resolveVideoAccess(id, { id: session.user.id, role: session.user.role })
+    if (!access.video) return NextResponse.json({ error: access.error }, { status: access.status })
+
+    const track = await VideoCaption.findOne({ video: id, language: language })
+      .select("language label isDefault cues")
+      .lean()
+    if (!track) {
+      return NextResponse.json({ error: "Caption track not found" }, { status: 404 })
+    }
+
+    if (req.nextUrl.searchParams.get("format") === "json") {
+      return NextResponse.json({ track })
+    }
+
+    return new NextResponse(serializeWebVtt(track.cues || []), {
+      headers: { "Content-Type": "text/vtt; charset=utf-8", "Cache-Control": "private, max-age=60" },
+    })
+  } catch (error) {
+    console.error("Fetch caption track error:", error)
+    return NextResponse.json({ error: "Failed to fetch captions" }, { status: 500 })
+  }
+}
+
+/** Saves edits from the cue editor: label, default flag and/or the full cue list. */
+export async function PUT(req: NextRequest, { params }: TrackContext) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user || (session.user.role !== "teacher" && session.user.role !== "admin")) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id, language } = await params
+    const data = captionTrackUpdateSchema.parse(await req.json())
+
+    await dbConnect()
+
+    const access = await resolveVideoAccess(id, { id: session.user.id, role: session.user.role })
+    if (!access.video) return NextResponse.json({ error: access.error }, { status: access.status })
+    if (!access.canManage) {
+      return NextResponse.json({ error: "Only the course teacher can manage captions" }, { status: 403 })
+    }
+
+    const update: Record<string, unknown> = { updatedBy: session.user.id }
+    if (data.label !== undefined) update.label = data.label
+    if (data.isDefault !== undefined) update.isDefault = data.isDefault
+    if (data.cues) update.cues = [...data.cues].sort((a, b) => a.start - b.start)
+
+    const track = await VideoCaption.findOneAndUpdate({ video: id, language }, { $set: update }, { new: true })
+    if (!track) {
+      return NextResponse.json({ error: "Caption track not found" }, { status: 404 })
+    }
+    await syncDefaultCaption(id, data.isDefault ? language : undefined)
+    if (data.cues) await syncVideoTranscript(id)
+
+    return NextResponse.json({ message: "Captions saved", tracks: await listCaptionTracks(id) })
+  } catch (error) {
+    if (error instanceof Error && error.name === "ZodError") {
+      return NextResponse.json({ error: "Invalid input data" }, { status: 400 })
+    }
+    console.error("Update caption track error:", error)
+    return NextResponse.json({ error: "Failed to save captions" }, { status: 500 })
+  }
+}
+
+export async function DELETE(_req: NextRequest, { params }: TrackContext) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user || (session.user.role !== "teacher" && session.user.role !== "admin")) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id, language } = await params
+    await dbConnect()
+
+    const access = await resolveVideoAccess(id, { id: session.user.id, role: session.user.role })
+    if (!access.video) return NextResponse.json({ error: access.error }, { status: access.status })
+    if (!access.canManage) {
+      return NextResponse.json({ error: "Only the course teacher can manage captions" }, { status: 403 })
+    }
+
+    const result = await VideoCaption.deleteOne({ video: id, language: language })
+    if (result.deletedCount === 0) {
+      return NextResponse.json({ error: "Caption track not found" }, { status: 404 })
+    }
+    await syncDefaultCaption(id)
+    await syncVideoTranscript(id)
+
+    return NextResponse.json({ message: "Captions deleted", tracks: await listCaptionTracks(id) })
+  } catch (error) {
+    console.error("Delete caption track error:", error)
+    return NextResponse.json({ error: "Failed to delete captions" }, { status: 500 })
+  }
+}
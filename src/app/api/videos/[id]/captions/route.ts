@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { dbConnect } from "@/lib/dbConnect"
+import { VideoCaption, captionLanguageSchema } from "@/models/video-caption"
+import {
+  detectSubtitleFormat,
+  listCaptionTracks,
+  parseSubtitles,
+  syncDefaultCaption,
+} from "@/lib/captions"
+import { resolveVideoAccess } from "@/lib/video-access"
+import { syncVideoTranscript } from "@/lib/transcripts"
+
+const MAX_CAPTION_FILE_BYTES = 2 * 1024 * 1024
+
+/** Caption tracks available for a video. */
+export async function GET(_req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await params
+    await dbConnect()
+
+    const access = await resolveVideoAccess(id, { id: session.user.id, role: session.user.role })
+    if (!access.video) return NextResponse.json({ error: access.error }, { status: access.status })
+
+    return NextResponse.json({ tracks: await listCaptionTracks(id), canManage: access.canManage })
+  } catch (error) {
+    console.error("Fetch captions error:", error)
+    return NextResponse.json({ error: "Failed to fetch captions" }, { status: 500 })
+  }
+}
+
+/**
+ * Uploads an SRT or WebVTT file (multipart `file`, `language`, `label`, optional
+ * `isDefault`). SRT is converted to WebVTT; an existing track for the language is replaced.
+ */
+export async function POST(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user || (session.user.role !== "teacher" && session.user.role !== "admin")) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await params
+    const formData = await req.formData()
+    const file = formData.get("file")
+    const language = captionLanguageSchema.parse(formData.get("language"))
+    const label = String(formData.get("label") || "").trim() || language
+    const isDefault = formData.get("isDefault") === "true"
+
+    if (!(file instanceof File)) {
+      return NextResponse.json({ error: "A subtitle file is required" }, { status: 400 })
+    }
+    if (file.size > MAX_CAPTION_FILE_BYTES) {
+      return NextResponse.json({ error: "Subtitle files must be under 2 MB" }, { status: 400 })
+    }
+
+    await dbConnect()
+
+    const access = await resolveVideoAccess(id, { id: session.user.id, role: session.user.role })
+    if (!access.video) return NextResponse.json({ error: access.error }, { status: access.status })
+    if (!access.canManage) {
+      return NextResponse.json({ error: "Only the course teacher can manage captions" }, { status: 403 })
+    }
+
+    const text = await file.text()
+    const cues = parseSubtitles(text)
+    if (cues.length === 0) {
+      return NextResponse.json({ error: "No cues found. Upload a valid SRT or WebVTT file." }, { status: 400 })
+    }
+
+    await VideoCaption.findOneAndUpdate(
+      { video: id, language },
+      {
+        $set: {
+          label: label.slice(0, 60),
+          cues,
+          sourceFormat: detectSubtitleFormat(text, file.name),
+          updatedBy: session.user.id,
+          ...(isDefault ? { isDefault: true } : {}),
+        },
+      },
+      { upsert: true, new: true, setDefaultsOnInsert: true }
+    )
+    await syncDefaultCaption(id, isDefault ? language : undefined)
+    await syncVideoTranscript(id)
+
+    return NextResponse.json({ message: "Captions uploaded", cueCount: cues.length, tracks: await listCaptionTracks(id) })
+  } catch (error) {
+    if (error instanceof Error && error.name === "ZodError") {
+      return NextResponse.json({ error: "Invalid language code" }, { status: 400 })
+    }
+    console.error("Upload captions error:", error)
+    return NextResponse.json({ error: "Failed to upload captions" }, { status: 500 })
+  }
+}
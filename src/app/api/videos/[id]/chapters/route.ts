@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { dbConnect } from "@/lib/dbConnect"
+import { Video, videoChaptersSchema, type VideoChapter } from "@/models/video"
+import { resolveVideoAccess } from "@/lib/video-access"
+
+/** A video's chapters, in playback order. */
+export async function GET(_req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await params
+    await dbConnect()
+
+    const access = await resolveVideoAccess(id, { id: session.user.id, role: session.user.role })
+    if (!access.video) return NextResponse.json({ error: access.error }, { status: access.status })
+
+    const video = await Video.findById(id).select("chapters").lean()
+    return NextResponse.json({ chapters: video?.chapters || [], canManage: access.canManage })
+  } catch (error) {
+    console.error("Fetch chapters error:", error)
+    return NextResponse.json({ error: "Failed to fetch chapters" }, { status: 500 })
+  }
+}
+
+/** Replaces the chapter list; chapters are stored sorted by start time. */
+export async function PUT(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user || (session.user.role !== "teacher" && session.user.role !== "admin")) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await params
+    const { chapters } = videoChaptersSchema.parse(await req.json())
+
+    await dbConnect()
+
+    const access = await resolveVideoAccess(id, { id: session.user.id, role: session.user.role })
+    if (!access.video) return NextResponse.json({ error: access.error }, { status: access.status })
+    if (!access.canManage) {
+      return NextResponse.json({ error: "Only the course teacher can manage chapters" }, { status: 403 })
+    }
+
+    const sorted: VideoChapter[] = [...chapters].sort((a, b) => a.start - b.start)
+    await Video.updateOne({ _id: id }, { $set: { chapters: sorted } })
+
+    return NextResponse.json({ message: "Chapters saved", chapters: sorted })
+  } catch (error) {
+    if (error instanceof Error && error.name === "ZodError") {
+      return NextResponse.json({ error: "Invalid chapters" }, { status: 400 })
+    }
+    console.error("Update chapters error:", error)
+    return NextResponse.json({ error: "Failed to update chapters" }, { status: 500 })
+  }
+}
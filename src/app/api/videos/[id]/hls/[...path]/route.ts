@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { dbConnect } from "@/lib/dbConnect"
+import { Video } from "@/models/video"
+import { resolveVideoAccess } from "@/lib/video-access"
+import { verifyPlaybackToken } from "@/lib/playback-tokens"
+import { getVideoStorage, isSafeStorageKey } from "@/lib/video-storage"
+
+const STREAM_FILE = /\.(m3u8|ts|m4s)$/
+
+/** Carries the token onto every URI a playlist references, so hls.js sends it with each request. */
+function signPlaylist(playlist: string, token: string) {
+  const sign = (uri: string) => `${uri}${uri.includes("?") ? "&" : "?"}token=${encodeURIComponent(token)}`
+  return playlist
+    .split("\n")
+    .map((line) => {
+      const trimmed = line.trim()
+      if (!trimmed) return line
+      if (trimmed.startsWith("#")) return line.replace(/URI="([^"]+)"/g, (_, uri) => `URI="${sign(uri)}"`)
+      return sign(trimmed)
+    })
+    .join("\n")
+}
+
+/**
+ * Serves a processed video's HLS output from video storage. Playlists and
+ * segments need a signed playback token (`?token=` from `GET /api/videos/[id]`);
+ * thumbnails and the preview clip only need a session allowed to watch the video.
+ */
+export async function GET(req: NextRequest, { params }: { params: Promise<{ id: string; path: string[] }> }) {
+  try {
+    const { id, path } = await params
+    const relativePath = path.join("/")
+    if (!isSafeStorageKey(relativePath)) {
+      return NextResponse.json({ error: "Invalid path" }, { status: 400 })
+    }
+
+    await dbConnect()
+
+    const token = req.nextUrl.searchParams.get("token")
+    const isStreamFile = STREAM_FILE.test(relativePath)
+    if (isStreamFile) {
+      if (!(await verifyPlaybackToken(token, id))) {
+        return NextResponse.json({ error: "Playback link is invalid or has expired" }, { status: 403 })
+      }
+    } else {
+      const session = await getServerSession(authOptions)
+      if (!session?.user?.id) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+      }
+      const access = await resolveVideoAccess(id, { id: session.user.id, role: session.user.role })
+      if (!access.video) return NextResponse.json({ error: access.error }, { status: access.status })
+    }
+
+    const video = await Video.findById(id).select("hlsStorage").lean()
+    if (!video?.hlsStorage?.prefix) {
+      return NextResponse.json({ error: "This video has not been processed" }, { status: 404 })
+    }
+
+    const file = await getVideoStorage(video.hlsStorage.driver).read(`${video.hlsStorage.prefix}/${relativePath}`)
+    if (!file) {
+      return NextResponse.json({ error: "File not found" }, { status: 404 })
+    }
+
+    if (relativePath.endsWith(".m3u8")) {
+      const playlist = await new Response(file.body).text()
+      return new NextResponse(signPlaylist(playlist, token as string), {
+        headers: { "Content-Type": file.contentType, "Cache-Control": "private, no-store" },
+      })
+    }
+
+    return new NextResponse(file.body, {
+      headers: {
+        "Content-Type": file.contentType,
+        ...(file.size ? { "Content-Length": String(file.size) } : {}),
+        // Each processing run gets its own storage prefix, so files never change in place
+        "Cache-Control": "private, max-age=86400",
+      },
+    })
+  } catch (error) {
+    console.error("Serve HLS file error:", error)
+    return NextResponse.json({ error: "Failed to load video file" }, { status: 500 })
+  }
+}
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { dbConnect } from "@/lib/dbConnect"
+import { VideoNote, videoNoteUpdateSchema } from "@/models/video-note"
+
+type NoteContext = { params: Promise<{ id: string; noteId: string }> }
+
+export async function PATCH(req: NextRequest, { params }: NoteContext) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user || session.user.role !== "student") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id, noteId } = await params
+    const data = videoNoteUpdateSchema.parse(await req.json())
+
+    await dbConnect()
+
+    const note = await VideoNote.findOneAndUpdate(
+      { _id: noteId, video: id, student: session.user.id },
+      { $set: data },
+      { new: true }
+    )
+    if (!note) {
+      return NextResponse.json({ error: "Note not found" }, { status: 404 })
+    }
+
+    return NextResponse.json({ note })
+  } catch (error) {
+    if (error instanceof Error && error.name === "ZodError") {
+      return NextResponse.json({ error: "Invalid input data" }, { status: 400 })
+    }
+    console.error("Update note error:", error)
+    return NextResponse.json({ error: "Failed to update note" }, { status: 500 })
+  }
+}
+
+export async function DELETE(_req: NextRequest, { params }: NoteContext) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user || session.user.role !== "student") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id, noteId } = await params
+    await dbConnect()
+
+    const result = await VideoNote.deleteOne({ _id: noteId, video: id, student: session.user.id })
+    if (result.deletedCount === 0) {
+      return NextResponse.json({ error: "Note not found" }, { status: 404 })
+    }
+
+    return NextResponse.json({ message: "Note deleted" })
+  } catch (error) {
+    console.error("Delete note error:", error)
+    return NextResponse.json({ error: "Failed to delete note" }, { status: 500 })
+  }
+}
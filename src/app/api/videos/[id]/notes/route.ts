@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { dbConnect } from "@/lib/dbConnect"
+import { Video } from "@/models/video"
+import { Student } from "@/models/student"
+import { VideoNote, videoNoteValidationSchema } from "@/models/video-note"
+
+/** The video, if the student is enrolled in its course. */
+async function loadEnrolledVideo(videoId: string, studentId: string) {
+  const video = await Video.findById(videoId).select("course").lean()
+  if (!video) return { error: NextResponse.json({ error: "Video not found" }, { status: 404 }) }
+
+  const student = await Student.findById(studentId).select("purchasedCourses").lean()
+  const enrolled = (student?.purchasedCourses || []).some((id) => String(id) === String(video.course))
+  if (!enrolled) {
+    return { error: NextResponse.json({ error: "Enroll in the course to take notes" }, { status: 403 }) }
+  }
+  return { video }
+}
+
+/** The student's own notes on a video, in playback order. */
+export async function GET(_req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user || session.user.role !== "student") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await params
+    await dbConnect()
+
+    const notes = await VideoNote.find({ student: session.user.id, video: id })
+      .select("timestamp body createdAt updatedAt")
+      .sort({ timestamp: 1, createdAt: 1 })
+      .lean()
+
+    return NextResponse.json({ notes })
+  } catch (error) {
+    console.error("Fetch notes error:", error)
+    return NextResponse.json({ error: "Failed to fetch notes" }, { status: 500 })
+  }
+}
+
+export async function POST(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user || session.user.role !== "student") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await params
+    const data = videoNoteValidationSchema.parse(await req.json())
+
+    await dbConnect()
+
+    const { video, error } = await loadEnrolledVideo(id, session.user.id)
+    if (error) return error
+
+    const note = await VideoNote.create({
+      student: session.user.id,
+      course: video.course,
+      video: id,
+      timestamp: data.timestamp,
+      body: data.body,
+    })
+
+    return NextResponse.json({ note }, { status: 201 })
+  } catch (error) {
+    if (error instanceof Error && error.name === "ZodError") {
+      return NextResponse.json({ error: "Invalid input data" }, { status: 400 })
+    }
+    console.error("Create note error:", error)
+    return NextResponse.json({ error: "Failed to save note" }, { status: 500 })
+  }
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { dbConnect } from "@/lib/dbConnect"
+import { resolveVideoAccess } from "@/lib/video-access"
+import { recordPlaybackQualityReport } from "@/lib/playback-quality"
+import { playbackQualityReportSchema } from "@/models/playback-quality"
+
+/** Ingests the player's delivery metrics (startup, stalls, bitrate switches, fatal errors) for a session. */
+export async function POST(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await params
+    const report = playbackQualityReportSchema.parse(await req.json())
+
+    await dbConnect()
+
+    const viewer = { id: session.user.id, role: session.user.role }
+    const access = await resolveVideoAccess(id, viewer)
+    if (!access.video) return NextResponse.json({ error: access.error }, { status: access.status })
+
+    await recordPlaybackQualityReport(report, viewer, access.video, req.headers.get("user-agent") || undefined)
+
+    return NextResponse.json({ ok: true })
+  } catch (error) {
+    if (error instanceof Error && error.name === "ZodError") {
+      return NextResponse.json({ error: "Invalid playback report" }, { status: 400 })
+    }
+    // The session id already belongs to another viewer or video
+    if ((error as { code?: number })?.code === 11000) {
+      return NextResponse.json({ error: "Session conflict" }, { status: 409 })
+    }
+    console.error("Playback quality report error:", error)
+    return NextResponse.json({ error: "Failed to record playback report" }, { status: 500 })
+  }
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { dbConnect } from "@/lib/dbConnect"
+import { VideoQuestion, videoQuestionAnswerSchema } from "@/models/video-question"
+import { resolveVideoAccess } from "@/lib/video-access"
+import { recordVideoQuestionAnswer, type StoredVideoQuestion } from "@/lib/video-questions"
+import { recalculateAndSaveCourseProgress } from "@/lib/course-progress"
+
+/** Grades a student's answer; answering may be retried. */
+export async function POST(req: NextRequest, { params }: { params: Promise<{ id: string; questionId: string }> }) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user || session.user.role !== "student") {
+      return NextResponse.json({ error: "Only students can answer video questions" }, { status: 401 })
+    }
+
+    const { id, questionId } = await params
+    const { answer } = videoQuestionAnswerSchema.parse(await req.json())
+
+    await dbConnect()
+
+    const access = await resolveVideoAccess(id, { id: session.user.id, role: session.user.role })
+    if (!access.video) return NextResponse.json({ error: access.error }, { status: access.status })
+
+    const question = await VideoQuestion.findOne({ _id: questionId, video: id }).lean<StoredVideoQuestion>()
+    if (!question) {
+      return NextResponse.json({ error: "Question not found" }, { status: 404 })
+    }
+
+    const result = await recordVideoQuestionAnswer(question, session.user.id, answer)
+
+    if (question.countsTowardProgress) {
+      await recalculateAndSaveCourseProgress(session.user.id, String(question.course))
+    }
+
+    return NextResponse.json(result)
+  } catch (error) {
+    if (error instanceof Error && error.name === "ZodError") {
+      return NextResponse.json({ error: "Invalid answer" }, { status: 400 })
+    }
+    console.error("Answer video question error:", error)
+    return NextResponse.json({ error: "Failed to record answer" }, { status: 500 })
+  }
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { dbConnect } from "@/lib/dbConnect"
+import { VideoQuestion, VideoQuestionResponse } from "@/models/video-question"
+import { resolveVideoAccess } from "@/lib/video-access"
+import { recalculateCourseProgressForAll } from "@/lib/course-progress"
+
+/** Removes a question together with its recorded answers. */
+export async function DELETE(_req: NextRequest, { params }: { params: Promise<{ id: string; questionId: string }> }) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user || (session.user.role !== "teacher" && session.user.role !== "admin")) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id, questionId } = await params
+    await dbConnect()
+
+    const access = await resolveVideoAccess(id, { id: session.user.id, role: session.user.role })
+    if (!access.video) return NextResponse.json({ error: access.error }, { status: access.status })
+    if (!access.canManage) {
+      return NextResponse.json({ error: "Only the course teacher can manage video questions" }, { status: 403 })
+    }
+
+    const question = await VideoQuestion.findOneAndDelete({ _id: questionId, video: id })
+    if (!question) {
+      return NextResponse.json({ error: "Question not found" }, { status: 404 })
+    }
+    await VideoQuestionResponse.deleteMany({ question: questionId })
+
+    if (question.countsTowardProgress) {
+      recalculateCourseProgressForAll(String(access.video.course)).catch((err) =>
+        console.error("Course progress recalculation error:", err)
+      )
+    }
+
+    return NextResponse.json({ message: "Question deleted" })
+  } catch (error) {
+    console.error("Delete video question error:", error)
+    return NextResponse.json({ error: "Failed to delete video question" }, { status: 500 })
+  }
+}
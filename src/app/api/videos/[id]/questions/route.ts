@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import type { ZodError } from "zod"
+import { authOptions } from "@/lib/auth"
+import { dbConnect } from "@/lib/dbConnect"
+import { VideoQuestion, videoQuestionValidationSchema } from "@/models/video-question"
+import { resolveVideoAccess } from "@/lib/video-access"
+import { getVideoQuestionStats, listStudentVideoQuestions } from "@/lib/video-questions"
+import { recalculateCourseProgressForAll } from "@/lib/course-progress"
+
+/**
+ * In-video questions in playback order. Students get them without answer keys,
+ * with their own results; the teacher gets the full questions and response stats.
+ */
+export async function GET(_req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await params
+    await dbConnect()
+
+    const access = await resolveVideoAccess(id, { id: session.user.id, role: session.user.role })
+    if (!access.video) return NextResponse.json({ error: access.error }, { status: access.status })
+
+    if (!access.canManage) {
+      return NextResponse.json({ questions: await listStudentVideoQuestions(id, session.user.id), canManage: false })
+    }
+
+    const [questions, stats] = await Promise.all([
+      VideoQuestion.find({ video: id }).sort({ at: 1 }).lean(),
+      getVideoQuestionStats(id),
+    ])
+    return NextResponse.json({ questions, stats, canManage: true })
+  } catch (error) {
+    console.error("Fetch video questions error:", error)
+    return NextResponse.json({ error: "Failed to fetch video questions" }, { status: 500 })
+  }
+}
+
+/** Adds a question at a timestamp. */
+export async function POST(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user || (session.user.role !== "teacher" && session.user.role !== "admin")) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await params
+    const data = videoQuestionValidationSchema.parse(await req.json())
+
+    await dbConnect()
+
+    const access = await resolveVideoAccess(id, { id: session.user.id, role: session.user.role })
+    if (!access.video) return NextResponse.json({ error: access.error }, { status: access.status })
+    if (!access.canManage) {
+      return NextResponse.json({ error: "Only the course teacher can manage video questions" }, { status: 403 })
+    }
+
+    const question = await VideoQuestion.create({ ...data, video: id, course: access.video.course })
+
+    // A new required question reopens the video for everyone who already finished it
+    if (data.countsTowardProgress) {
+      recalculateCourseProgressForAll(String(access.video.course)).catch((err) =>
+        console.error("Course progress recalculation error:", err)
+      )
+    }
+
+    return NextResponse.json({ message: "Question added", question }, { status: 201 })
+  } catch (error) {
+    if (error instanceof Error && error.name === "ZodError") {
+      return NextResponse.json({ error: (error as ZodError).issues[0]?.message || "Invalid question" }, { status: 400 })
+    }
+    console.error("Create video question error:", error)
+    return NextResponse.json({ error: "Failed to create video question" }, { status: 500 })
+  }
+}
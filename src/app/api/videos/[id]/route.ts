@@ -2,7 +2,16 @@ import { NextRequest, NextResponse } from "next/server"
 import { getServerSession } from "next-auth"
 import { authOptions } from "@/lib/auth"
 import { dbConnect } from "@/lib/dbConnect"
-import { Video } from "@/models/video"
+import { Video, videoAccessRulesSchema } from "@/models/video"
+import { Quiz } from "@/models/quiz"
+import { Course } from "@/models/course"
+import { VideoCaption } from "@/models/video-caption"
+import { TranscriptSegment } from "@/models/transcript-segment"
+import { VideoQuestion, VideoQuestionResponse } from "@/models/video-question"
+import { PlaybackQuality } from "@/models/playback-quality"
+import { getVideoStorage, hlsStoragePrefix } from "@/lib/video-storage"
+import { canWatchCourse, getVideoLock, resolveVideoAccess } from "@/lib/video-access"
+import { issuePlaybackToken, playbackWatermarkFor, signedPlaybackUrls } from "@/lib/playback-tokens"
 import { v2 as cloudinary } from "cloudinary"
 
 cloudinary.config({
@@ -11,6 +20,80 @@ cloudinary.config({
   api_secret: process.env.CLOUDINARY_API_SECRET!,
 })
 
+// Storage locations stay server-side; viewers play through the signed URLs
+const SOURCE_FIELDS = new Set(["url", "hlsUrl", "hlsPlaylist", "variants", "publicId", "hlsStorage"])
+
+/* =========================================
+   GET → Single video, held to drip and prerequisite rules
+========================================= */
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    await dbConnect()
+
+    const video = await Video.findById(params.id).lean()
+
+    if (!video) {
+      return NextResponse.json({ error: "Video not found" }, { status: 404 })
+    }
+
+    const courseId = video.course.toString()
+
+    const viewer = { id: session.user.id, role: session.user.role }
+    if (!(await canWatchCourse(courseId, viewer))) {
+      return NextResponse.json(
+        { error: session.user.role === "student" ? "Enroll in the course to watch this video" : "Forbidden" },
+        { status: 403 }
+      )
+    }
+
+    const lock = await getVideoLock(courseId, params.id, viewer)
+
+    if (lock.locked) {
+      return NextResponse.json({ error: "This video is locked", lock }, { status: 403 })
+    }
+
+    // Viewers get signed, expiring playback URLs instead of the storage URLs
+    const grant = await issuePlaybackToken(
+      {
+        videoId: params.id,
+        courseId,
+        userId: session.user.id,
+        role: session.user.role,
+      },
+      { ipAddress: req.headers.get("x-forwarded-for"), userAgent: req.headers.get("user-agent") }
+    )
+    if (!grant) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 })
+    }
+    const { token, expiresAt, watermarkCode } = grant
+    const course = await Course.findById(courseId).select("playbackWatermark").lean()
+    const playback = {
+      ...signedPlaybackUrls(params.id, token, !!video.hlsStorage?.prefix),
+      token,
+      expiresAt,
+      watermark: playbackWatermarkFor(course, session.user, watermarkCode),
+    }
+
+    const details = Object.fromEntries(Object.entries(video).filter(([field]) => !SOURCE_FIELDS.has(field)))
+    return NextResponse.json({ video: details, lock, playback })
+
+  } catch (error) {
+    console.error("Video fetch error:", error)
+    return NextResponse.json({ error: "Failed to fetch video" }, { status: 500 })
+  }
+}
+
+
 /* =========================================
    PUT → Update metadata (and replace video if needed)
 ========================================= */
@@ -43,14 +126,46 @@ export async function PUT(
       position
     } = body
 
+    const rules = videoAccessRulesSchema.safeParse(body)
+    if (!rules.success) {
+      return NextResponse.json({ error: rules.error.errors[0]?.message || "Invalid release settings" }, { status: 400 })
+    }
+
+    // Only the course's teacher and admins may edit its videos
+    const access = await resolveVideoAccess(params.id, { id: session.user.id, role: session.user.role })
+    if (!access.video) {
+      return NextResponse.json({ error: access.error }, { status: access.status })
+    }
+    if (!access.canManage) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 })
+    }
+
     const video = await Video.findById(params.id)
 
     if (!video) {
       return NextResponse.json({ error: "Video not found" }, { status: 404 })
     }
 
+    // Prerequisites must be other items of the same course
+    const { release, prerequisites } = rules.data
+    if (prerequisites) {
+      const courseId = video.course.toString()
+      const videoIds = prerequisites.filter((p) => p.type === "video").map((p) => p.refId)
+      const quizIds = prerequisites.filter((p) => p.type === "quiz").map((p) => p.refId)
+      if (videoIds.includes(params.id)) {
+        return NextResponse.json({ error: "A video cannot be its own prerequisite" }, { status: 400 })
+      }
+      const [videoCount, quizCount] = await Promise.all([
+        Video.countDocuments({ _id: { $in: videoIds }, course: courseId }),
+        Quiz.countDocuments({ _id: { $in: quizIds }, course: courseId }),
+      ])
+      if (videoCount !== videoIds.length || quizCount !== quizIds.length) {
+        return NextResponse.json({ error: "Prerequisites must belong to this course" }, { status: 400 })
+      }
+    }
+
     // 🔥 If video replaced → delete old Cloudinary file
-  if (video.publicId) {
+  if (video.publicId && publicId && publicId !== video.publicId) {
   const oldPublicId: string = video.publicId;
 
   await cloudinary.uploader.destroy(oldPublicId, {
@@ -69,6 +184,8 @@ export async function PUT(
     video.format = format ?? video.format
     video.fileSize = fileSize ?? video.fileSize
     video.position = position ?? video.position
+    if (release) video.set("release", release)
+    if (prerequisites) video.set("prerequisites", prerequisites)
 
     await video.save()
 
@@ -111,8 +228,18 @@ export async function DELETE(
       })
     }
 
+    // Packaged HLS output from every processing run
+    if (video.hlsStorage?.driver) {
+      await getVideoStorage(video.hlsStorage.driver).deletePrefix(hlsStoragePrefix(params.id))
+    }
+
     // Delete from DB
     await Video.findByIdAndDelete(params.id)
+    await VideoCaption.deleteMany({ video: params.id })
+    await TranscriptSegment.deleteMany({ video: params.id })
+    await VideoQuestion.deleteMany({ video: params.id })
+    await VideoQuestionResponse.deleteMany({ video: params.id })
+    await PlaybackQuality.deleteMany({ video: params.id })
 
     return NextResponse.json({ success: true })
 
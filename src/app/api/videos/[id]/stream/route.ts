@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from "next/server"
+import { dbConnect } from "@/lib/dbConnect"
+import { Video } from "@/models/video"
+import { verifyPlaybackToken } from "@/lib/playback-tokens"
+import { isUploadedFileUrl } from "@/lib/uploads"
+
+// Forwarded both ways so seeking and resumed downloads work through the proxy
+const PASSTHROUGH_HEADERS = ["content-type", "content-length", "content-range", "accept-ranges", "last-modified", "etag"]
+
+/**
+ * Streams a video's source file for a signed playback token (`?token=`), so the
+ * storage URL itself is never handed to students. `?download=1` saves it as a file.
+ */
+export async function GET(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+    await dbConnect()
+
+    if (!(await verifyPlaybackToken(req.nextUrl.searchParams.get("token"), id))) {
+      return NextResponse.json({ error: "Playback link is invalid or has expired" }, { status: 403 })
+    }
+
+    const video = await Video.findById(id).select("url title").lean()
+    if (!video?.url) {
+      return NextResponse.json({ error: "Video not found" }, { status: 404 })
+    }
+    // The stored URL comes from teachers; only proxy files in our own upload storage
+    if (!isUploadedFileUrl(video.url)) {
+      return NextResponse.json({ error: "Video source is unavailable" }, { status: 502 })
+    }
+
+    const range = req.headers.get("range")
+    const upstream = await fetch(video.url, { headers: range ? { Range: range } : {}, redirect: "error" })
+    if (!upstream.ok || !upstream.body) {
+      return NextResponse.json({ error: "Video source is unavailable" }, { status: 502 })
+    }
+
+    const headers = new Headers({ "Cache-Control": "private, no-store" })
+    for (const name of PASSTHROUGH_HEADERS) {
+      const value = upstream.headers.get(name)
+      if (value) headers.set(name, value)
+    }
+    if (req.nextUrl.searchParams.get("download") === "1") {
+      const fileName = `${(video.title || "video").replace(/[^\w\- ]+/g, "").trim() || "video"}.mp4`
+      headers.set("Content-Disposition", `attachment; filename="${fileName}"`)
+    }
+
+    return new NextResponse(upstream.body, { status: upstream.status, headers })
+  } catch (error) {
+    console.error("Stream video error:", error)
+    return NextResponse.json({ error: "Failed to stream video" }, { status: 500 })
+  }
+}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { dbConnect } from "@/lib/dbConnect"
+import { resolveVideoAccess } from "@/lib/video-access"
+import { getVideoTranscript, searchVideoTranscript } from "@/lib/transcripts"
+
+/**
+ * The video's transcript built from its captions (`?lang=` picks the track,
+ * defaulting to the default one). With `?q=` only the matching moments are returned.
+ */
+export async function GET(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await params
+    const q = req.nextUrl.searchParams.get("q")?.trim() || ""
+    const lang = req.nextUrl.searchParams.get("lang")
+    await dbConnect()
+
+    const access = await resolveVideoAccess(id, { id: session.user.id, role: session.user.role })
+    if (!access.video) return NextResponse.json({ error: access.error }, { status: access.status })
+
+    const transcript = await getVideoTranscript(id, lang)
+    if (!q) return NextResponse.json(transcript)
+
+    return NextResponse.json({ language: transcript.language, query: q, hits: await searchVideoTranscript(id, q, lang) })
+  } catch (error) {
+    console.error("Fetch transcript error:", error)
+    return NextResponse.json({ error: "Failed to fetch transcript" }, { status: 500 })
+  }
+}
@@ -6,12 +6,11 @@ import { Video } from "@/models/video"
 import { 
   videoProcessingQueue
 } from "@/lib/video-streaming"
-import path from 'path'
-import crypto from 'crypto'
+import { hlsAssetUrl } from "@/lib/video-storage"
+import { resolveVideoAccess } from "@/lib/video-access"
 
 interface ProcessVideoRequest {
   videoId: string
-  cloudinaryUrl: string
   options?: {
     generateThumbnails?: boolean
     thumbnailCount?: number
@@ -31,7 +30,7 @@ interface VideoDocument {
   _id: string
   title: string
   url: string
-  processingStatus: 'pending' | 'processing' | 'completed' | 'failed'
+  processingStatus: 'pending' | 'queued' | 'processing' | 'completed' | 'failed' | 'cancelled'
   processingJobId?: string
   processingError?: string
   isProcessed: boolean
@@ -41,6 +40,16 @@ interface VideoDocument {
   availableQualities?: string[]
 }
 
+/** Only the course's teacher and admins may start, follow or cancel processing. */
+async function denyUnlessManager(videoId: string, user: { id: string; role: string }) {
+  const access = await resolveVideoAccess(videoId, user)
+  if (!access.video) return NextResponse.json({ error: access.error }, { status: access.status })
+  if (!access.canManage) {
+    return NextResponse.json({ error: "Only the course teacher can manage video processing" }, { status: 403 })
+  }
+  return null
+}
+
 export async function POST(request: NextRequest) {
   try {
     const session = await getServerSession(authOptions)
@@ -51,80 +60,56 @@ export async function POST(request: NextRequest) {
     await dbConnect()
 
     const body: ProcessVideoRequest = await request.json()
-    const { videoId, cloudinaryUrl, options = {} } = body
+    const { videoId, options = {} } = body
 
-    if (!videoId || !cloudinaryUrl) {
+    if (!videoId) {
       return NextResponse.json({ 
-        error: "Video ID and Cloudinary URL are required" 
+        error: "Video ID is required" 
       }, { status: 400 })
     }
 
     // Verify video exists and user has permission
+    const denied = await denyUnlessManager(videoId, session.user)
+    if (denied) return denied
+
     const video = await (Video as any).findById(videoId) as VideoDocument | null
     if (!video) {
       return NextResponse.json({ error: "Video not found" }, { status: 404 })
     }
+    if (!video.url) {
+      return NextResponse.json({ error: "Video has no uploaded file to process" }, { status: 400 })
+    }
 
     // Check if video is already being processed
-    if (video.processingStatus === 'processing') {
+    if (video.processingStatus === 'processing' || video.processingStatus === 'queued') {
       return NextResponse.json({ 
         error: "Video is already being processed" 
       }, { status: 400 })
     }
 
-    // Generate processing job ID
-    const processingId = crypto.randomBytes(16).toString('hex')
-    const outputDir = path.join(process.cwd(), 'public', 'videos', videoId)
-
     const processingOptions = {
       generateThumbnails: options.generateThumbnails !== false,
       thumbnailCount: options.thumbnailCount || 5,
       generatePreview: options.generatePreview !== false,
       previewDuration: options.previewDuration || 30,
       watermark: options.watermark || null,
-      onProgress: (progress: number, stage: string) => {
-        console.log(`Video ${videoId} processing: ${progress}% - ${stage}`)
-      }
     }
 
-    try {
-      // Start processing using the new FFmpeg implementation
-      await videoProcessingQueue.addJob(
-        processingId,
-        cloudinaryUrl,
-        outputDir,
-        processingOptions
-      )
-
-      // Update video record with processing status
-      await (Video as any).findByIdAndUpdate(videoId, {
-        processingStatus: 'processing',
-        processingJobId: processingId,
-        processingStartedAt: new Date()
-      })
-
-      return NextResponse.json({
-        success: true,
-        processingId,
-        status: 'processing',
-        message: 'Video processing started successfully'
-      })
-
-    } catch (processingError) {
-      console.error("Video processing failed:", processingError)
-      
-      // Update video status to failed
-      await (Video as any).findByIdAndUpdate(videoId, {
-        processingStatus: 'failed',
-        processingError: (processingError as Error).message,
-        processingCompletedAt: new Date()
-      })
+    // Persist the job; a worker picks it up and updates the video when done.
+    // The source is always the video's own upload, never a caller-supplied URL.
+    const processingId = await videoProcessingQueue.addJob(
+      videoId,
+      video.url,
+      processingOptions,
+      session.user.id
+    )
 
-      return NextResponse.json({ 
-        error: "Video processing failed",
-        details: (processingError as Error).message
-      }, { status: 500 })
-    }
+    return NextResponse.json({
+      success: true,
+      processingId,
+      status: 'queued',
+      message: 'Video processing queued'
+    })
   } catch (error) {
     console.error("API Error:", error)
     return NextResponse.json({ 
@@ -155,24 +140,24 @@ export async function GET(request: NextRequest) {
     await dbConnect()
 
     let video: VideoDocument | null = null
-    let jobStatus = null
+    let jobId = processingId
 
     if (videoId) {
-      video = await (Video as any).findById(videoId) as VideoDocument | null
+      const denied = await denyUnlessManager(videoId, session.user)
+      if (denied) return denied
+
+      video = await (Video as any).findById(videoId).lean() as VideoDocument | null
       if (!video) {
         return NextResponse.json(
           { error: 'Video not found' },
           { status: 404 }
         )
       }
-
-      if (video.processingJobId) {
-        jobStatus = videoProcessingQueue.getJobStatus(video.processingJobId)
-      }
-    } else if (processingId) {
-      jobStatus = videoProcessingQueue.getJobStatus(processingId)
+      jobId = video.processingJobId || null
     }
 
+    const jobStatus = jobId ? await videoProcessingQueue.getJobStatus(jobId) : null
+
     if (!jobStatus) {
       return NextResponse.json({
         status: 'not_found',
@@ -180,49 +165,37 @@ export async function GET(request: NextRequest) {
       })
     }
 
-    // If processing is completed, update video record
-    if (jobStatus.status === 'completed' && video && jobStatus.result) {
-      const result = jobStatus.result
-      
-      await (Video as any).findByIdAndUpdate(video._id, {
-        processingStatus: 'completed',
-        isProcessed: true,
-        hlsUrl: result.hlsPlaylist,
-        thumbnails: result.thumbnails,
-        preview: result.preview,
-        availableQualities: result.variants?.map((v: { name: string; bitrate: number; width: number; height: number }) => v.name),
-        processingCompletedAt: new Date()
-      })
-
-      return NextResponse.json({
-        status: 'completed',
-        progress: 100,
-        hlsUrl: result.hlsPlaylist,
-        thumbnails: result.thumbnails,
-        preview: result.preview,
-        qualities: result.variants.map((v: any) => ({
-          quality: v.name,
-          url: path.join('/videos', video._id.toString(), `${v.name}/index.m3u8`),
-          bitrate: v.bitrate,
-          resolution: `${v.width}x${v.height}`
-        }))
-      })
-    }
-
-    // If processing failed
-    if (jobStatus.status === 'error' && video) {
-      await Video.findByIdAndUpdate(video._id, {
-        processingStatus: 'failed',
-        processingError: jobStatus.error,
-        processingCompletedAt: new Date()
-      })
+    if (!videoId) {
+      const denied = await denyUnlessManager(jobStatus.videoId, session.user)
+      if (denied) return denied
     }
 
+    const result = jobStatus.result
     return NextResponse.json({
+      processingId: jobStatus.id,
+      videoId: jobStatus.videoId,
       status: jobStatus.status,
-      progress: jobStatus.progress || 0,
+      progress: jobStatus.progress,
+      stage: jobStatus.stage,
+      attempts: jobStatus.attempts,
+      maxAttempts: jobStatus.maxAttempts,
+      nextRunAt: jobStatus.nextRunAt,
       error: jobStatus.error,
-      startTime: jobStatus.startTime
+      startTime: jobStatus.startTime,
+      completedAt: jobStatus.completedAt,
+      ...(jobStatus.status === 'completed' && result
+        ? {
+            hlsUrl: result.hlsPlaylist,
+            thumbnails: result.thumbnails,
+            preview: result.preview,
+            qualities: (result.variants || []).map((v) => ({
+              quality: v.name,
+              url: hlsAssetUrl(jobStatus.videoId, `${v.name}/index.m3u8`),
+              bitrate: v.bitrate,
+              resolution: `${v.width}x${v.height}`
+            }))
+          }
+        : {})
     })
 
   } catch (error) {
@@ -255,11 +228,13 @@ export async function DELETE(request: NextRequest) {
 
     await dbConnect()
 
-    let video = null
     let targetProcessingId = processingId
 
     if (videoId) {
-      video = await Video.findById(videoId)
+      const denied = await denyUnlessManager(videoId, session.user)
+      if (denied) return denied
+
+      const video = await (Video as any).findById(videoId).select('processingJobId').lean()
       if (!video) {
         return NextResponse.json(
           { error: 'Video not found' },
@@ -267,7 +242,7 @@ export async function DELETE(request: NextRequest) {
         )
       }
 
-      targetProcessingId = video.processingId
+      targetProcessingId = video.processingJobId
     }
 
     if (!targetProcessingId) {
@@ -277,19 +252,24 @@ export async function DELETE(request: NextRequest) {
       )
     }
 
-    // Attempt to cancel the job
-    const cancelled = videoProcessingQueue.cancelJob(targetProcessingId)
-
-    if (video && cancelled) {
-      await Video.findByIdAndUpdate(video._id, {
-        processingStatus: 'cancelled',
-        processingCompletedAt: new Date()
-      })
+    if (!videoId) {
+      const job = await videoProcessingQueue.getJobStatus(targetProcessingId)
+      if (!job) {
+        return NextResponse.json(
+          { error: 'No processing job found' },
+          { status: 404 }
+        )
+      }
+      const denied = await denyUnlessManager(job.videoId, session.user)
+      if (denied) return denied
     }
 
+    // Queued jobs stop at once; running jobs are stopped by their worker within a minute
+    const cancelled = await videoProcessingQueue.cancelJob(targetProcessingId)
+
     return NextResponse.json({
       success: cancelled,
-      message: cancelled ? 'Processing cancelled' : 'Could not cancel processing (may be already completed)'
+      message: cancelled ? 'Processing cancellation requested' : 'Could not cancel processing (may be already finished)'
     })
 
   } catch (error) {
@@ -1,5 +1,6 @@
 
 import { notFound } from "next/navigation"
+import { headers } from "next/headers"
 import { getServerSession } from "next-auth/next"
 import Link from "next/link"
 import { Button } from "@/components/ui/button"
@@ -8,6 +9,7 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import {
   ChevronLeft,
   ChevronRight,
+  Lock,
   PlayCircle,
   CheckCircle,
   BookOpen,
@@ -47,8 +49,12 @@ import {
 import { dbConnect } from "@/lib/dbConnect"
 import { Course as CourseModel } from "@/models/course"
 import { Video as VideoModel } from "@/models/video"
-import { Student } from "@/models/student"
 import { CourseProgress } from "@/models/course-progress"
+import { getCourseCurriculum } from "@/lib/curriculum"
+import { canWatchCourse, getVideoLocks } from "@/lib/video-access"
+import { getResumePosition } from "@/lib/resume"
+import { listCaptionTracks } from "@/lib/captions"
+import { issuePlaybackToken, playbackWatermarkFor, signedPlaybackUrls } from "@/lib/playback-tokens"
 
 import LearnVideoClient from "@/components/video/learn-video-client"
 import type mongoose from "mongoose"
@@ -74,6 +80,9 @@ type VideoType = {
   title: string;
   description?: string;
   url: string;
+  hlsStorage?: { driver: string; prefix: string };
+  thumbnailTrack?: string;
+  chapters?: { title: string; start: number }[];
   course: string;
   position: number;
   duration?: string;
@@ -111,6 +120,7 @@ type CourseType = {
   level?: 'beginner' | 'intermediate' | 'advanced';
   certificate?: boolean;
   language?: string;
+  playbackWatermark?: { enabled: boolean; opacity: number };
 };
 
 type VideoAndCourseData = {
@@ -206,6 +216,7 @@ async function getVideoAndCourse(
         level: course.level || 'beginner',
         certificate: course.certificate || false,
         language: course.language || 'English',
+        playbackWatermark: course.playbackWatermark,
       },
       videos: videos.map(
         (v: VideoType): VideoType => ({
@@ -229,30 +240,17 @@ async function getVideoAndCourse(
   }
 }
 
-async function checkEnrollmentStatus(
-  courseId: string,
-  userId?: string,
- 
-
-): Promise<boolean> {
-  if (!userId) return false;
-
-  await dbConnect();
-
-  try {
-    const student = await (Student as any).findById(userId);
-    return student?.purchasedCourses?.includes(courseId) || false;
-  } catch (error) {
-    console.error("Error checking enrollment status:", error);
-    return false;
-  }
-}
-
 // --- Main Page ---
-export default async function LearnPage(
-   { params }: { params: Promise<{ courseId: string; videoId: string }> }
-) {
+export default async function LearnPage({
+  params,
+  searchParams,
+}: {
+  params: Promise<{ courseId: string; videoId: string }>;
+  searchParams: Promise<{ t?: string }>;
+}) {
   const { courseId, videoId } = await params;
+  // Transcript search links jump straight to the moment a phrase is spoken
+  const { t } = await searchParams;
   const session = await getServerSession(authOptions);
 
   if (!session?.user?.id) {
@@ -270,9 +268,11 @@ export default async function LearnPage(
     );
   }
 
-  const isEnrolled = await checkEnrollmentStatus(courseId, session.user.id); 
+  // Enrolled students, the course's own teacher and admins; blocked accounts are refused
+  await dbConnect();
+  const canWatch = await canWatchCourse(courseId, { id: session.user.id, role: session.user.role });
 
-  if (!isEnrolled && session.user.role !== "teacher") {
+  if (!canWatch) {
     return (
       <div className="container mx-auto px-4 py-12 text-center">
         <div className="max-w-md mx-auto">
@@ -295,7 +295,51 @@ export default async function LearnPage(
     notFound();
   }
 
-  const { currentVideo, videos, course, progress } = data;
+  const { currentVideo, course, progress } = data;
+
+  const locks = await getVideoLocks(courseId, { id: session.user.id, role: session.user.role });
+  const currentLock = locks.get(videoId);
+  const jumpTo = t ? Number(t) : NaN;
+  const startAt = currentLock?.locked
+    ? 0
+    : Number.isFinite(jumpTo) && jumpTo >= 0
+      ? jumpTo
+      : await getResumePosition(session.user.id, videoId);
+  const captionTracks = currentLock?.locked ? [] : await listCaptionTracks(videoId);
+  // The page never hands out storage URLs, only signed ones that expire and can be revoked
+  const requestHeaders = await headers();
+  const grant = currentLock?.locked
+    ? null
+    : await issuePlaybackToken(
+        {
+          videoId,
+          courseId,
+          userId: session.user.id,
+          role: session.user.role,
+        },
+        { ipAddress: requestHeaders.get("x-forwarded-for"), userAgent: requestHeaders.get("user-agent") }
+      );
+  const playback = grant ? signedPlaybackUrls(videoId, grant.token, !!currentVideo.hlsStorage?.prefix) : null;
+  const watermark = grant ? playbackWatermarkFor(course, session.user, grant.watermarkCode) : null;
+
+  // Group the sidebar by curriculum section; videos not placed in any section follow at the end
+  const curriculum = await getCourseCurriculum(courseId);
+  const videoById = new Map(data.videos.map((v) => [v._id, v]));
+  const videoGroups: { title: string | null; videos: typeof data.videos }[] = [];
+  if (curriculum?.structured) {
+    for (const section of curriculum.sections) {
+      const sectionVideos = section.lessons
+        .filter((l) => l.type === "video" && l.refId && videoById.has(l.refId))
+        .map((l) => videoById.get(l.refId as string)!);
+      if (sectionVideos.length > 0) videoGroups.push({ title: section.title, videos: sectionVideos });
+    }
+    const placed = new Set(videoGroups.flatMap((g) => g.videos.map((v) => v._id)));
+    const rest = data.videos.filter((v) => !placed.has(v._id));
+    if (rest.length > 0) videoGroups.push({ title: "More videos", videos: rest });
+  } else {
+    videoGroups.push({ title: null, videos: data.videos });
+  }
+  const videos = Array.from(new Map(videoGroups.flatMap((g) => g.videos).map((v) => [v._id, v])).values());
 
   const currentIndex = videos.findIndex((v) => v._id === videoId);
   const prevVideo = currentIndex > 0 ? videos[currentIndex - 1] : null;
@@ -315,6 +359,12 @@ export default async function LearnPage(
               >
                 ← Back to course
               </Link>
+              <Link
+                href={`/courses/${courseId}/learn?overview=1`}
+                className="text-sm text-muted-foreground hover:text-primary transition-colors"
+              >
+                Course overview
+              </Link>
               <Separator orientation="vertical" className="h-4" />
               <div>
                 <h1 className="text-sm font-medium text-muted-foreground">{course.name}</h1>
@@ -348,16 +398,31 @@ export default async function LearnPage(
           <div className="lg:col-span-3 space-y-6">
             {/* Video Player */}
             <div className="space-y-4">
-              <div className="aspect-video bg-black rounded-lg overflow-hidden shadow-lg">
-                {currentVideo.url ? (
-                 <LearnVideoClient
-                    src={currentVideo.url}
-                    title={currentVideo.title}
-                    poster={currentVideo.thumbnail}
-                    courseId={courseId}
-                    videoId={videoId}
-                  />
-                ) : (
+              {currentVideo.url || currentLock?.locked ? (
+                <LearnVideoClient
+                  src={playback?.src || ""}
+                  watermark={watermark}
+                  chapters={currentVideo.chapters}
+                  thumbnailTrack={currentVideo.thumbnailTrack}
+                  title={currentVideo.title}
+                  poster={currentVideo.thumbnail}
+                  courseId={courseId}
+                  videoId={videoId}
+                  lock={currentLock}
+                  startAt={startAt}
+                  showNotes={session.user.role === "student"}
+                  showQuestions={session.user.role === "student"}
+                  showDiscussion
+                  showTranscript={captionTracks.length > 0}
+                  captions={captionTracks.map((track) => ({
+                    src: track.src,
+                    srcLang: track.language,
+                    label: track.label,
+                    default: track.isDefault,
+                  }))}
+                />
+              ) : (
+                <div className="aspect-video bg-black rounded-lg overflow-hidden shadow-lg">
                   <div className="w-full h-full flex items-center justify-center text-white bg-muted">
                     <div className="text-center">
                       <Video className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
@@ -365,8 +430,8 @@ export default async function LearnPage(
                       <p className="text-sm text-muted-foreground">This video is currently unavailable</p>
                     </div>
                   </div>
-                )}
-              </div>
+                </div>
+              )}
 
               {/* Video Info */}
               <div className="space-y-4">
@@ -404,11 +469,9 @@ export default async function LearnPage(
                         <TooltipTrigger asChild>
                           
                         </TooltipTrigger>
+                        {playback && (
                         <a
-                        href={currentVideo.url.replace(
-                          "/upload/",
-                          "/upload/fl_attachment/"
-                        )}
+                        href={playback.downloadUrl}
                         download={`${currentVideo.title}.mp4`}
                         target="_blank"
                         rel="noopener noreferrer"
@@ -418,6 +481,7 @@ export default async function LearnPage(
                           Download
                         </Button>
                       </a>
+                        )}
                         </Tooltip>
                     </TooltipProvider>
                   </div>
@@ -540,7 +604,14 @@ export default async function LearnPage(
                 </div>
 
                 <div className="max-h-[600px] overflow-y-auto">
-                  {videos.map((video, index) => (
+                  {videoGroups.map((group) => (
+                    <div key={group.title ?? "all"}>
+                      {group.title && (
+                        <div className="px-4 py-2 text-xs font-semibold uppercase tracking-wide text-muted-foreground bg-muted/30">
+                          {group.title}
+                        </div>
+                      )}
+                  {group.videos.map((video) => (
                     <Link
                       key={video._id}
                       href={`/courses/${courseId}/learn/${video._id}`}
@@ -554,11 +625,13 @@ export default async function LearnPage(
                         <div className="flex-shrink-0">
                           {video.isCurrent ? (
                             <PlayCircle className="h-5 w-5 text-primary" />
+                          ) : locks.get(video._id)?.locked ? (
+                            <Lock className="h-5 w-5 text-muted-foreground" />
                           ) : progress.completedVideos.includes(video._id) ? (
                             <CheckCircle className="h-5 w-5 text-green-500" />
                           ) : (
                             <div className="w-5 h-5 rounded-full border-2 border-muted-foreground flex items-center justify-center">
-                              <span className="text-xs font-medium">{index + 1}</span>
+                              <span className="text-xs font-medium">{videos.indexOf(video) + 1}</span>
                             </div>
                           )}
                         </div>
@@ -578,6 +651,8 @@ export default async function LearnPage(
                       </div>
                     </Link>
                   ))}
+                    </div>
+                  ))}
                 </div>
               </Card>
 
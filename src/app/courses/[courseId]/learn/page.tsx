@@ -2,7 +2,7 @@
 
 import React, { useCallback, useEffect, useState } from 'react'
 import { useSession } from 'next-auth/react'
-import { useRouter,useParams } from 'next/navigation'
+import { useRouter,useParams, useSearchParams } from 'next/navigation'
 import Link from 'next/link'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
@@ -10,6 +10,13 @@ import { Badge } from '@/components/ui/badge'
 import { Progress } from '@/components/ui/progress'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { Skeleton } from '@/components/ui/skeleton'
+import {
+  CourseSyllabus,
+  type CurriculumLessonView,
+  type CurriculumSectionView,
+  type SectionProgressView,
+} from '@/components/courses/course-syllabus'
+import CourseTranscriptSearch from '@/components/courses/course-transcript-search'
 import {
   Play,
   CheckCircle,
@@ -49,6 +56,7 @@ interface Video {
   thumbnail?: string
   isCompleted?: boolean
   isLocked?: boolean
+  unlockAt?: string
   views?: number
   likes?: number
   difficulty?: 'beginner' | 'intermediate' | 'advanced'
@@ -85,6 +93,22 @@ interface CourseProgress {
   timeSpent: number
 }
 
+interface CurriculumData {
+  structured: boolean
+  sections: CurriculumSectionView[]
+  sectionProgress?: SectionProgressView[]
+  completedLessonIds?: string[]
+}
+
+interface ResumeTarget {
+  reason: 'in_progress' | 'next_lesson'
+  href: string
+  title: string
+  type: string
+  videoId?: string
+  position: number
+}
+
 interface CourseLearnPageProps {
   params: {
     courseId: string
@@ -96,17 +120,34 @@ export default function CourseLearnPage() {
   const router = useRouter()
     const params = useParams()
   const courseId = params.courseId as string
+  // ?overview=1 shows this page instead of jumping to where the student left off
+  const showOverview = useSearchParams().get('overview') === '1'
 
   const [course, setCourse] = useState<Course | null>(null)
   const [progress, setProgress] = useState<CourseProgress | null>(null)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [selectedSection, setSelectedSection] = useState<string>('overview')
+  const [curriculum, setCurriculum] = useState<CurriculumData | null>(null)
+  const [resumeTarget, setResumeTarget] = useState<ResumeTarget | null>(null)
 
   const fetchCourseData = useCallback(async () => {
+    let redirecting = false
     try {
       setLoading(true)
-      
+
+      const resumeResponse = await fetch(`/api/student/progress/${courseId}/resume`)
+      if (resumeResponse.ok) {
+        const { target } = (await resumeResponse.json()) as { target: ResumeTarget | null }
+        setResumeTarget(target)
+        // Videos open in the player; other lesson types are listed on this page
+        if (target?.type === 'video' && !showOverview) {
+          redirecting = true
+          router.replace(target.href)
+          return
+        }
+      }
+
       // Fetch course data
       const courseResponse = await fetch(`/api/courses/${courseId}`)
       if (!courseResponse.ok) {
@@ -122,13 +163,35 @@ export default function CourseLearnPage() {
         setProgress(progressData)
       }
 
+      const curriculumResponse = await fetch(`/api/courses/${courseId}/curriculum`)
+      if (curriculumResponse.ok) {
+        setCurriculum(await curriculumResponse.json())
+      }
+
     } catch (error) {
       console.error('Error fetching course data:', error)
       setError('Failed to load course data')
     } finally {
-      setLoading(false)
+      if (!redirecting) setLoading(false)
     }
-  }, [courseId])
+  }, [courseId, router, showOverview])
+
+  const handleToggleLesson = async (lesson: CurriculumLessonView, completed: boolean) => {
+    const response = await fetch(`/api/student/progress/${courseId}/lessons/${lesson._id}`, {
+      method: completed ? 'POST' : 'DELETE',
+    })
+    if (!response.ok) return
+    const { sectionProgress } = await response.json()
+    setCurriculum((prev) =>
+      prev && {
+        ...prev,
+        sectionProgress,
+        completedLessonIds: completed
+          ? [...(prev.completedLessonIds || []), lesson._id]
+          : (prev.completedLessonIds || []).filter((id) => id !== lesson._id),
+      }
+    )
+  }
 
   useEffect(() => {
     if (status === 'loading') return
@@ -146,7 +209,9 @@ export default function CourseLearnPage() {
   }
 
   const handleContinueWatching = () => {
-    if (progress?.lastAccessedVideo) {
+    if (resumeTarget) {
+      router.push(resumeTarget.href)
+    } else if (progress?.lastAccessedVideo) {
       router.push(`/courses/${courseId}/learn/${progress.lastAccessedVideo}`)
     } else if (course?.videos.length) {
       router.push(`/courses/${courseId}/learn/${course.videos[0]._id}`)
@@ -266,6 +331,8 @@ export default function CourseLearnPage() {
               </Card>
             )}
 
+            <CourseTranscriptSearch courseId={courseId} />
+
             {/* Course Content Tabs */}
             <Tabs value={selectedSection} onValueChange={setSelectedSection} className="w-full">
               <TabsList className="grid w-full grid-cols-4">
@@ -374,6 +441,20 @@ export default function CourseLearnPage() {
               </TabsContent>
 
               <TabsContent value="curriculum" className="space-y-4">
+                {curriculum?.structured && (
+                  <Card>
+                    <CardContent className="pt-6">
+                      <CourseSyllabus
+                        syllabus=""
+                        sections={curriculum.sections}
+                        sectionProgress={curriculum.sectionProgress}
+                        completedLessonIds={curriculum.completedLessonIds}
+                        canOpenLessons
+                        onToggleLesson={handleToggleLesson}
+                      />
+                    </CardContent>
+                  </Card>
+                )}
                 <Card>
                   <CardHeader>
                     <CardTitle>Course Curriculum</CardTitle>
@@ -429,6 +510,16 @@ export default function CourseLearnPage() {
                                     <Clock className="h-3 w-3" />
                                     <span>{video.duration}</span>
                                   </div>
+                                  {video.isLocked && (
+                                    <div className="flex items-center space-x-1">
+                                      <Lock className="h-3 w-3" />
+                                      <span>
+                                        {video.unlockAt
+                                          ? `Unlocks ${new Date(video.unlockAt).toLocaleDateString()}`
+                                          : 'Complete the prerequisites to unlock'}
+                                      </span>
+                                    </div>
+                                  )}
                                   {video.views && (
                                     <div className="flex items-center space-x-1">
                                       <Eye className="h-3 w-3" />
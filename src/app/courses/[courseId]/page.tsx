@@ -33,6 +33,10 @@ import { Video as VideoModel } from "@/models/video";
 import { Student } from "@/models/student";
 import { Review } from "@/models/review";
 import { CourseSyllabus } from "@/components/courses/course-syllabus";
+import { CurriculumEditor } from "@/components/courses/curriculum-editor";
+import { getCourseCurriculum, withoutMaterialLinks } from "@/lib/curriculum";
+import { getVideoLocks } from "@/lib/video-access";
+import type { ReleaseMode } from "@/models/video";
 import { CourseReviews } from "@/components/courses/course-review";
 import { EnrollmentSection } from "@/components/courses/enrollment-section";
 import { VideoUploadModal } from "@/components/teacher/video-upload-modal";
@@ -51,6 +55,9 @@ import { Separator } from "@/components/ui/separator";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import  EditVideoModal  from "@/components/video/EditVideoModal";
+import CaptionsManager from "@/components/video/captions-manager";
+import ChaptersManager from "@/components/video/chapters-manager";
+import VideoQuestionsManager from "@/components/video/video-questions-manager";
 import AssignmentSection from "@/components/assignment";
 import StudentAssignmentSection from "@/components/StudentAssignmentSection";
 import CourseQuizSection from "@/components/CourseQuizSection";
@@ -92,6 +99,8 @@ interface VideoData {
     url: string;
     type: 'pdf' | 'video' | 'link' | 'download';
   }[];
+  release?: { mode: ReleaseMode; date?: string; daysAfterEnrollment?: number };
+  prerequisites?: { type: 'video' | 'quiz'; refId: string }[];
 }
 
 interface ReviewStudent {
@@ -195,6 +204,8 @@ type ResultVideo = {
     url: string;
     type: 'pdf' | 'video' | 'link' | 'download';
   }[];
+  release?: { mode: ReleaseMode; date?: string; daysAfterEnrollment?: number };
+  prerequisites?: { type: 'video' | 'quiz'; refId: string }[];
 };
 
 interface CourseDetailPageProps {
@@ -292,6 +303,8 @@ async function getCourseDetails(
             url: string;
             type: 'pdf' | 'video' | 'link' | 'download';
           }[];
+          release?: { mode: ReleaseMode; date?: Date; daysAfterEnrollment?: number };
+          prerequisites?: { type: 'video' | 'quiz'; refId: mongoose.Types.ObjectId }[];
         }[]
       >();
 
@@ -328,6 +341,14 @@ async function getCourseDetails(
           thumbnail: video.thumbnail,
           isPreview: video.isPreview || false,
           resources: video.resources || [],
+          release: video.release
+            ? {
+                mode: video.release.mode,
+                date: video.release.date ? new Date(video.release.date).toISOString() : undefined,
+                daysAfterEnrollment: video.release.daysAfterEnrollment,
+              }
+            : undefined,
+          prerequisites: (video.prerequisites || []).map((p) => ({ type: p.type, refId: p.refId.toString() })),
         })
       ),
       studentsPurchased: course.studentsPurchased?.map(
@@ -490,6 +511,11 @@ export default async function CourseDetailPage(props: CourseDetailPageProps) {
     session?.user?.role === "teacher" &&
     (await checkTeacherOwnership(courseId, session?.user?.id));
   const reviews = await getCourseReviews(courseId);
+  const canOpenLessons = isEnrolled || !!isTeacher || session?.user?.role === "admin";
+  const storedCurriculum = await getCourseCurriculum(courseId);
+  const curriculum =
+    storedCurriculum && !canOpenLessons ? withoutMaterialLinks(courseId, storedCurriculum) : storedCurriculum;
+  const videoLocks = await getVideoLocks(courseId, { id: session?.user?.id, role: session?.user?.role });
 
   const totalVideos = course.videos?.length || 0;
   const totalDuration = course.duration || "Not specified";
@@ -750,6 +776,15 @@ export default async function CourseDetailPage(props: CourseDetailPageProps) {
               </TabsContent>
 
               <TabsContent value="curriculum" className="space-y-8 pt-6">
+                {curriculum?.structured && (
+                  <CourseSyllabus
+                    syllabus={course.syllabus || ""}
+                    sections={curriculum.sections}
+                    canOpenLessons={canOpenLessons}
+                  />
+                )}
+                {isTeacher && <CurriculumEditor courseId={courseId} />}
+
                 {/* Course Content */}
                 <div>
                   <div className="flex items-center justify-between mb-6">
@@ -828,6 +863,13 @@ export default async function CourseDetailPage(props: CourseDetailPageProps) {
                                   <PlayCircle className="h-4 w-4 mr-2" />
                                   Preview
                                 </Button>
+                              ) : isEnrolled && videoLocks.get(video._id)?.locked ? (
+                                <Button variant="outline" size="sm" disabled>
+                                  <Lock className="h-4 w-4 mr-2" />
+                                  {videoLocks.get(video._id)?.unlockAt
+                                    ? `Unlocks ${new Date(videoLocks.get(video._id)!.unlockAt!).toLocaleDateString()}`
+                                    : "Locked"}
+                                </Button>
                               ) : isEnrolled || session?.user?.role === "teacher" || session?.user?.role === "admin" ? (
                                 <Link href={`/courses/${courseId}/learn/${video._id}`}>
                                   <Button size="sm">
@@ -842,7 +884,12 @@ export default async function CourseDetailPage(props: CourseDetailPageProps) {
                                 </Button>
                               )}
                                 {(session?.user?.role === "teacher" || session?.user?.role === "admin") && (
-                                  <EditVideoModal video={video} />
+                                  <>
+                                    <EditVideoModal video={video} />
+                                    <CaptionsManager videoId={video._id} videoTitle={video.title} />
+                                    <ChaptersManager videoId={video._id} videoTitle={video.title} />
+                                    <VideoQuestionsManager videoId={video._id} videoTitle={video.title} />
+                                  </>
   )}
                             </div>
                           </div>
@@ -0,0 +1,114 @@
+"use client"
+
+import { useState } from "react"
+import { toast } from "sonner"
+import { Button } from "./ui/button"
+
+export type ExtensionItem = {
+  studentId: string
+  dueDate: string
+  reason?: string
+}
+
+export type CourseStudentOption = { studentId: string; name: string }
+
+export default function AssignmentExtensions({
+  assignmentId,
+  students,
+  extensions,
+  onChange,
+}: {
+  assignmentId: string
+  students: CourseStudentOption[]
+  extensions: ExtensionItem[]
+  onChange: () => void
+}) {
+  const [studentId, setStudentId] = useState("")
+  const [dueDate, setDueDate] = useState("")
+  const [reason, setReason] = useState("")
+  const [saving, setSaving] = useState(false)
+
+  const nameOf = (id: string) => students.find((s) => s.studentId === id)?.name || "Student"
+
+  const grant = async () => {
+    if (!studentId || !dueDate) {
+      toast.error("Pick a student and a new due date")
+      return
+    }
+    setSaving(true)
+    try {
+      const res = await fetch(`/api/assignments/${assignmentId}/extensions`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ studentId, dueDate: new Date(dueDate).toISOString(), reason: reason || undefined }),
+      })
+      const data = await res.json().catch(() => ({}))
+      if (!res.ok) {
+        toast.error(data?.error || "Failed to grant extension")
+        return
+      }
+      toast.success(`Extension granted to ${nameOf(studentId)}`)
+      setStudentId("")
+      setDueDate("")
+      setReason("")
+      onChange()
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const revoke = async (id: string) => {
+    const res = await fetch(`/api/assignments/${assignmentId}/extensions?studentId=${id}`, { method: "DELETE" })
+    if (!res.ok) {
+      toast.error("Failed to revoke extension")
+      return
+    }
+    toast.success("Extension revoked")
+    onChange()
+  }
+
+  return (
+    <div className="mt-3 space-y-2 text-sm">
+      {extensions.length > 0 && (
+        <ul className="space-y-1">
+          {extensions.map((e) => (
+            <li key={e.studentId} className="flex items-center justify-between gap-2 rounded border p-2">
+              <span>
+                {nameOf(e.studentId)} — due {new Date(e.dueDate).toLocaleString()}
+                {e.reason ? <span className="text-muted-foreground"> ({e.reason})</span> : null}
+              </span>
+              <Button size="sm" variant="ghost" onClick={() => revoke(e.studentId)}>
+                Revoke
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+      <div className="flex flex-wrap gap-2">
+        <select value={studentId} onChange={(e) => setStudentId(e.target.value)} className="border p-2 rounded">
+          <option value="">Select student</option>
+          {students.map((s) => (
+            <option key={s.studentId} value={s.studentId}>
+              {s.name}
+            </option>
+          ))}
+        </select>
+        <input
+          type="datetime-local"
+          value={dueDate}
+          onChange={(e) => setDueDate(e.target.value)}
+          className="border p-2 rounded"
+        />
+        <input
+          placeholder="Reason (optional)"
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          className="border p-2 rounded flex-1"
+        />
+        <Button size="sm" onClick={grant} disabled={saving}>
+          Grant extension
+        </Button>
+      </div>
+    </div>
+  )
+}
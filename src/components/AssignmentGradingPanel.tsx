@@ -0,0 +1,183 @@
+"use client"
+
+import { useState } from "react"
+import { toast } from "sonner"
+import { Button } from "./ui/button"
+import { Input } from "./ui/input"
+import { Label } from "./ui/label"
+import { Textarea } from "./ui/textarea"
+import type { AnnotationView, RubricCriterionView, RubricScoreView } from "./RubricBreakdown"
+
+type ScoreDraft = { levelId?: string; points: number | ""; comment: string }
+
+export default function AssignmentGradingPanel({
+  submissionId,
+  rubric,
+  initialScores,
+  initialFeedback,
+  initialAnnotations,
+  initialGrade,
+  onDone,
+}: {
+  submissionId: string
+  rubric: RubricCriterionView[]
+  initialScores?: RubricScoreView[]
+  initialFeedback?: string
+  initialAnnotations?: AnnotationView[]
+  initialGrade?: number
+  onDone: () => void
+}) {
+  const [scores, setScores] = useState<Record<string, ScoreDraft>>(() =>
+    Object.fromEntries(
+      rubric.map((c) => {
+        const existing = initialScores?.find((s) => s.criterionId === c._id)
+        return [c._id, { levelId: existing?.levelId, points: existing?.points ?? "", comment: existing?.comment || "" }]
+      })
+    )
+  )
+  const [grade, setGrade] = useState<number | "">(initialGrade ?? "")
+  const [feedback, setFeedback] = useState(initialFeedback || "")
+  const [annotations, setAnnotations] = useState<AnnotationView[]>(initialAnnotations || [])
+  const [saving, setSaving] = useState(false)
+
+  const updateScore = (criterionId: string, patch: Partial<ScoreDraft>) => {
+    setScores((prev) => ({ ...prev, [criterionId]: { ...prev[criterionId], ...patch } }))
+  }
+
+  const updateAnnotation = (index: number, patch: Partial<AnnotationView>) => {
+    setAnnotations((prev) => prev.map((a, i) => (i === index ? { ...a, ...patch } : a)))
+  }
+
+  const total = rubric.reduce((sum, c) => sum + (Number(scores[c._id]?.points) || 0), 0)
+  const max = rubric.reduce((sum, c) => sum + Math.max(0, ...c.levels.map((l) => l.points)), 0)
+
+  const save = async () => {
+    if (rubric.some((c) => scores[c._id]?.points === "")) {
+      toast.error("Score every criterion before saving")
+      return
+    }
+
+    setSaving(true)
+    try {
+      const res = await fetch(`/api/submissions/${submissionId}/grade`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          rubricScores: rubric.map((c) => ({
+            criterionId: c._id,
+            levelId: scores[c._id].levelId,
+            points: Number(scores[c._id].points),
+            comment: scores[c._id].comment || undefined,
+          })),
+          grade: rubric.length === 0 && grade !== "" ? Number(grade) : undefined,
+          feedback,
+          annotations: annotations.filter((a) => a.comment.trim()),
+        }),
+      })
+      const data = await res.json().catch(() => ({}))
+      if (!res.ok) {
+        toast.error(data?.error || "Failed to save grade")
+        return
+      }
+      toast.success("Submission graded")
+      onDone()
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="mt-3 space-y-4 rounded border bg-muted/10 p-3">
+      {rubric.map((criterion) => (
+        <div key={criterion._id} className="space-y-2">
+          <div>
+            <div className="font-medium">{criterion.title}</div>
+            {criterion.description && <div className="text-xs text-muted-foreground">{criterion.description}</div>}
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {criterion.levels.map((level) => (
+              <Button
+                key={level._id}
+                type="button"
+                size="sm"
+                variant={scores[criterion._id]?.levelId === level._id ? "default" : "outline"}
+                onClick={() => updateScore(criterion._id, { levelId: level._id, points: level.points })}
+              >
+                {level.label} ({level.points})
+              </Button>
+            ))}
+          </div>
+          <div className="grid gap-2 sm:grid-cols-4">
+            <Input
+              type="number"
+              min={0}
+              placeholder="Points"
+              value={scores[criterion._id]?.points ?? ""}
+              onChange={(e) =>
+                updateScore(criterion._id, {
+                  levelId: undefined,
+                  points: e.target.value === "" ? "" : Number(e.target.value),
+                })
+              }
+            />
+            <Input
+              className="sm:col-span-3"
+              placeholder="Comment on this criterion"
+              value={scores[criterion._id]?.comment ?? ""}
+              onChange={(e) => updateScore(criterion._id, { comment: e.target.value })}
+            />
+          </div>
+        </div>
+      ))}
+
+      {rubric.length === 0 ? (
+        <div className="space-y-1">
+          <Label>Grade</Label>
+          <Input type="number" min={0} value={grade} onChange={(e) => setGrade(e.target.value === "" ? "" : Number(e.target.value))} />
+        </div>
+      ) : (
+        <div className="text-sm font-medium">
+          Total: {total}/{max}
+        </div>
+      )}
+
+      <div className="space-y-1">
+        <Label>Overall feedback</Label>
+        <Textarea value={feedback} onChange={(e) => setFeedback(e.target.value)} placeholder="Feedback for the student" />
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label>Inline comments</Label>
+          <Button
+            type="button"
+            size="sm"
+            variant="ghost"
+            onClick={() => setAnnotations((prev) => [...prev, { location: "", quote: "", comment: "" }])}
+          >
+            Add comment
+          </Button>
+        </div>
+        {annotations.map((a, i) => (
+          <div key={a._id || i} className="grid gap-2 sm:grid-cols-6">
+            <Input placeholder="Where (p. 2)" value={a.location || ""} onChange={(e) => updateAnnotation(i, { location: e.target.value })} />
+            <Input
+              className="sm:col-span-2"
+              placeholder="Quoted text (optional)"
+              value={a.quote || ""}
+              onChange={(e) => updateAnnotation(i, { quote: e.target.value })}
+            />
+            <Input className="sm:col-span-2" placeholder="Comment" value={a.comment} onChange={(e) => updateAnnotation(i, { comment: e.target.value })} />
+            <Button type="button" size="sm" variant="ghost" onClick={() => setAnnotations((prev) => prev.filter((_, j) => j !== i))}>
+              Remove
+            </Button>
+          </div>
+        ))}
+      </div>
+
+      <Button onClick={save} disabled={saving}>
+        {saving ? "Saving..." : "Save grade"}
+      </Button>
+    </div>
+  )
+}
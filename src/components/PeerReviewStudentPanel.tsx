@@ -0,0 +1,200 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { toast } from "sonner"
+import { Button } from "./ui/button"
+import { Input } from "./ui/input"
+import { Textarea } from "./ui/textarea"
+import RubricBreakdown, { type RubricCriterionView, type RubricScoreView } from "./RubricBreakdown"
+
+type ReviewTask = {
+  _id: string
+  label: string
+  fileUrl?: string
+  status: "assigned" | "submitted"
+  rubricScores: RubricScoreView[]
+  feedback?: string
+}
+
+type ReceivedReview = {
+  totalPoints?: number
+  rubricScores: RubricScoreView[]
+  feedback?: string
+}
+
+type ScoreDraft = { levelId?: string; points: number; comment: string }
+
+function ReviewForm({
+  assignmentId,
+  task,
+  rubric,
+  onDone,
+}: {
+  assignmentId: string
+  task: ReviewTask
+  rubric: RubricCriterionView[]
+  onDone: () => void
+}) {
+  const [scores, setScores] = useState<Record<string, ScoreDraft | undefined>>(() =>
+    Object.fromEntries(
+      task.rubricScores.map((s) => [s.criterionId, { levelId: s.levelId, points: s.points, comment: s.comment || "" }])
+    )
+  )
+  const [feedback, setFeedback] = useState(task.feedback || "")
+  const [saving, setSaving] = useState(false)
+
+  const save = async () => {
+    if (rubric.some((c) => !scores[c._id])) {
+      toast.error("Choose a level for every criterion")
+      return
+    }
+
+    setSaving(true)
+    try {
+      const res = await fetch(`/api/assignments/${assignmentId}/peer-reviews/${task._id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          rubricScores: rubric.map((c) => ({
+            criterionId: c._id,
+            levelId: scores[c._id]?.levelId,
+            points: scores[c._id]?.points ?? 0,
+            comment: scores[c._id]?.comment || undefined,
+          })),
+          feedback: feedback || undefined,
+        }),
+      })
+      const data = await res.json().catch(() => ({}))
+      if (!res.ok) {
+        toast.error(data?.error || "Failed to submit review")
+        return
+      }
+      toast.success("Review submitted")
+      onDone()
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="mt-2 space-y-3">
+      {rubric.map((criterion) => (
+        <div key={criterion._id} className="space-y-1">
+          <div className="font-medium">{criterion.title}</div>
+          {criterion.description && <div className="text-xs text-muted-foreground">{criterion.description}</div>}
+          <div className="flex flex-wrap gap-2">
+            {criterion.levels.map((level) => (
+              <Button
+                key={level._id}
+                type="button"
+                size="sm"
+                variant={scores[criterion._id]?.levelId === level._id ? "default" : "outline"}
+                onClick={() =>
+                  setScores((prev) => ({
+                    ...prev,
+                    [criterion._id]: { levelId: level._id, points: level.points, comment: prev[criterion._id]?.comment || "" },
+                  }))
+                }
+              >
+                {level.label} ({level.points})
+              </Button>
+            ))}
+          </div>
+          <Input
+            placeholder="Comment on this criterion"
+            value={scores[criterion._id]?.comment ?? ""}
+            disabled={!scores[criterion._id]}
+            onChange={(e) =>
+              setScores((prev) => {
+                const current = prev[criterion._id]
+                return current ? { ...prev, [criterion._id]: { ...current, comment: e.target.value } } : prev
+              })
+            }
+          />
+        </div>
+      ))}
+      <Textarea value={feedback} onChange={(e) => setFeedback(e.target.value)} placeholder="Overall feedback for the author" />
+      <Button size="sm" onClick={save} disabled={saving}>
+        {saving ? "Submitting..." : task.status === "submitted" ? "Update review" : "Submit review"}
+      </Button>
+    </div>
+  )
+}
+
+/** Anonymous peer review for a student: submissions to review and feedback received. */
+export default function PeerReviewStudentPanel({ assignmentId }: { assignmentId: string }) {
+  const [rubric, setRubric] = useState<RubricCriterionView[]>([])
+  const [toReview, setToReview] = useState<ReviewTask[]>([])
+  const [received, setReceived] = useState<ReceivedReview[]>([])
+  const [openTask, setOpenTask] = useState<string | null>(null)
+
+  const fetchReviews = useCallback(async () => {
+    const res = await fetch(`/api/assignments/${assignmentId}/peer-reviews`)
+    if (!res.ok) return
+    const data = await res.json()
+    setRubric(data.rubric || [])
+    setToReview(data.toReview || [])
+    setReceived(data.received || [])
+  }, [assignmentId])
+
+  useEffect(() => {
+    fetchReviews()
+  }, [fetchReviews])
+
+  if (toReview.length === 0 && received.length === 0) return null
+
+  return (
+    <div className="mt-4 space-y-3 border-t pt-3">
+      {toReview.length > 0 && (
+        <div className="space-y-2">
+          <h3 className="font-medium">
+            Peer reviews to do ({toReview.filter((t) => t.status === "submitted").length}/{toReview.length} done)
+          </h3>
+          {toReview.map((task) => (
+            <div key={task._id} className="rounded border p-2 text-sm">
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="font-medium">{task.label}</span>
+                {task.fileUrl && (
+                  <a href={task.fileUrl} target="_blank" rel="noopener noreferrer" className="underline">
+                    View
+                  </a>
+                )}
+                <span className={task.status === "submitted" ? "text-green-600" : "text-yellow-600"}>
+                  {task.status === "submitted" ? "Submitted" : "To do"}
+                </span>
+                <Button size="sm" variant="ghost" onClick={() => setOpenTask(openTask === task._id ? null : task._id)}>
+                  {openTask === task._id ? "Close" : task.status === "submitted" ? "Edit" : "Review"}
+                </Button>
+              </div>
+              {openTask === task._id && (
+                <ReviewForm
+                  assignmentId={assignmentId}
+                  task={task}
+                  rubric={rubric}
+                  onDone={() => {
+                    setOpenTask(null)
+                    fetchReviews()
+                  }}
+                />
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {received.length > 0 && (
+        <details className="text-sm">
+          <summary className="cursor-pointer font-medium">Peer feedback on your work ({received.length})</summary>
+          <div className="mt-2 space-y-2">
+            {received.map((review, i) => (
+              <div key={i} className="rounded border p-2">
+                <div className="mb-1 font-medium">Reviewer {i + 1}</div>
+                <RubricBreakdown rubric={rubric} scores={review.rubricScores} feedback={review.feedback} />
+              </div>
+            ))}
+          </div>
+        </details>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,197 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { toast } from "sonner"
+import { Button } from "./ui/button"
+import { Input } from "./ui/input"
+import { Badge } from "./ui/badge"
+import RubricBreakdown, { type RubricCriterionView, type RubricScoreView } from "./RubricBreakdown"
+
+type PeerReviewRow = {
+  _id: string
+  reviewerName: string
+  status: "assigned" | "submitted"
+  totalPoints?: number
+  rubricScores: RubricScoreView[]
+  feedback?: string
+  outlier: boolean
+}
+
+type PeerSubmissionRow = {
+  submissionId: string
+  authorName: string
+  fileUrl?: string
+  graded: boolean
+  grade?: number
+  gradeSource: "teacher" | "peer_consensus" | "peer_override"
+  consensusGrade: number | null
+  submittedCount: number
+  assignedCount: number
+  reviews: PeerReviewRow[]
+}
+
+type PeerReviewOverview = {
+  assignedAt: string | null
+  reviewsPerSubmission: number
+  maxPoints: number
+  rubric: RubricCriterionView[]
+  submissions: PeerSubmissionRow[]
+}
+
+/** Teacher view of a peer-reviewed assignment: assign reviewers, inspect reviews, finalize grades. */
+export default function PeerReviewTeacherPanel({
+  assignmentId,
+  onGraded,
+}: {
+  assignmentId: string
+  onGraded: () => void
+}) {
+  const [data, setData] = useState<PeerReviewOverview | null>(null)
+  const [assigning, setAssigning] = useState(false)
+  const [overrides, setOverrides] = useState<Record<string, number | "">>({})
+  const [expanded, setExpanded] = useState<string | null>(null)
+
+  const fetchOverview = useCallback(async () => {
+    const res = await fetch(`/api/assignments/${assignmentId}/peer-reviews`)
+    if (res.ok) setData(await res.json())
+  }, [assignmentId])
+
+  useEffect(() => {
+    fetchOverview()
+  }, [fetchOverview])
+
+  const assign = async () => {
+    setAssigning(true)
+    try {
+      const res = await fetch(`/api/assignments/${assignmentId}/peer-reviews`, { method: "POST" })
+      const body = await res.json().catch(() => ({}))
+      if (!res.ok) {
+        toast.error(body?.error || "Failed to assign reviewers")
+        return
+      }
+      toast.success(`Assigned ${body.assigned} reviews to ${body.reviewers} students`)
+      await fetchOverview()
+    } finally {
+      setAssigning(false)
+    }
+  }
+
+  const finalize = async (submissionId: string, grade?: number) => {
+    const res = await fetch(`/api/assignments/${assignmentId}/peer-reviews/finalize`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ submissionId, grade }),
+    })
+    const body = await res.json().catch(() => ({}))
+    if (!res.ok) {
+      toast.error(body?.error || "Failed to save grade")
+      return
+    }
+    toast.success("Grade saved")
+    await fetchOverview()
+    onGraded()
+  }
+
+  if (!data) return null
+
+  return (
+    <div className="mt-3 space-y-3 rounded border bg-muted/10 p-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="text-sm">
+          <span className="font-medium">Peer review</span> · {data.reviewsPerSubmission} reviewers per submission
+          {data.assignedAt && (
+            <span className="text-muted-foreground"> · assigned {new Date(data.assignedAt).toLocaleString()}</span>
+          )}
+        </div>
+        {!data.assignedAt && (
+          <Button size="sm" onClick={assign} disabled={assigning}>
+            {assigning ? "Assigning..." : "Assign reviewers"}
+          </Button>
+        )}
+      </div>
+
+      {data.assignedAt &&
+        data.submissions.map((sub) => (
+          <div key={sub.submissionId} className="space-y-2 rounded border p-2">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <div className="text-sm">
+                <span className="font-medium">{sub.authorName}</span>
+                <span className="text-muted-foreground">
+                  {" "}
+                  · {sub.submittedCount}/{sub.assignedCount} reviews
+                  {sub.consensusGrade !== null && ` · consensus ${sub.consensusGrade}/${data.maxPoints}`}
+                </span>
+                {sub.graded && (
+                  <Badge variant="secondary" className="ml-2">
+                    {sub.grade}/{data.maxPoints} ({sub.gradeSource.replace("_", " ")})
+                  </Badge>
+                )}
+              </div>
+              <div className="flex flex-wrap items-center gap-2">
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={sub.consensusGrade === null}
+                  onClick={() => finalize(sub.submissionId)}
+                >
+                  Accept consensus
+                </Button>
+                <Input
+                  type="number"
+                  min={0}
+                  max={data.maxPoints}
+                  className="h-8 w-20"
+                  placeholder="Grade"
+                  value={overrides[sub.submissionId] ?? ""}
+                  onChange={(e) =>
+                    setOverrides((prev) => ({
+                      ...prev,
+                      [sub.submissionId]: e.target.value === "" ? "" : Number(e.target.value),
+                    }))
+                  }
+                />
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={overrides[sub.submissionId] === undefined || overrides[sub.submissionId] === ""}
+                  onClick={() => finalize(sub.submissionId, Number(overrides[sub.submissionId]))}
+                >
+                  Override
+                </Button>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => setExpanded(expanded === sub.submissionId ? null : sub.submissionId)}
+                >
+                  {expanded === sub.submissionId ? "Hide reviews" : "Reviews"}
+                </Button>
+              </div>
+            </div>
+
+            {expanded === sub.submissionId && (
+              <ul className="space-y-2">
+                {sub.reviews.map((r) => (
+                  <li key={r._id} className="rounded border p-2 text-sm">
+                    <div className="mb-1 flex items-center gap-2">
+                      <span className="font-medium">{r.reviewerName}</span>
+                      {r.status === "submitted" ? (
+                        <span className="tabular-nums">
+                          {r.totalPoints}/{data.maxPoints}
+                        </span>
+                      ) : (
+                        <span className="text-muted-foreground">Not submitted</span>
+                      )}
+                      {r.outlier && <Badge variant="destructive">Outlier</Badge>}
+                    </div>
+                    {r.status === "submitted" && (
+                      <RubricBreakdown rubric={data.rubric} scores={r.rubricScores} feedback={r.feedback} />
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        ))}
+    </div>
+  )
+}
@@ -0,0 +1,94 @@
+"use client"
+
+export type RubricCriterionView = {
+  _id: string
+  title: string
+  description?: string
+  levels: { _id: string; label: string; description?: string; points: number }[]
+}
+
+export type RubricScoreView = {
+  criterionId: string
+  levelId?: string
+  points: number
+  comment?: string
+}
+
+export type AnnotationView = {
+  _id?: string
+  location?: string
+  quote?: string
+  comment: string
+}
+
+/** Read-only view of a graded rubric: chosen level, points and comment per criterion. */
+export default function RubricBreakdown({
+  rubric,
+  scores,
+  feedback,
+  annotations,
+}: {
+  rubric: RubricCriterionView[]
+  scores?: RubricScoreView[]
+  feedback?: string
+  annotations?: AnnotationView[]
+}) {
+  const scoreByCriterion = new Map((scores || []).map((s) => [s.criterionId, s]))
+
+  return (
+    <div className="space-y-3">
+      {rubric.length > 0 && (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b text-left text-muted-foreground">
+              <th className="py-1 pr-2 font-medium">Criterion</th>
+              <th className="py-1 pr-2 font-medium">Level</th>
+              <th className="py-1 pr-2 text-right font-medium">Points</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rubric.map((criterion) => {
+              const score = scoreByCriterion.get(criterion._id)
+              const level = criterion.levels.find((l) => l._id === score?.levelId)
+              const max = Math.max(0, ...criterion.levels.map((l) => l.points))
+              return (
+                <tr key={criterion._id} className="border-b align-top last:border-0">
+                  <td className="py-1 pr-2">
+                    <div className="font-medium">{criterion.title}</div>
+                    {score?.comment && <div className="text-xs text-muted-foreground">{score.comment}</div>}
+                  </td>
+                  <td className="py-1 pr-2">{level?.label ?? "—"}</td>
+                  <td className="py-1 text-right tabular-nums">
+                    {score ? score.points : "—"}/{max}
+                  </td>
+                </tr>
+              )
+            })}
+          </tbody>
+        </table>
+      )}
+
+      {feedback && (
+        <div className="rounded border bg-muted/20 p-2 text-sm">
+          <span className="font-medium">Feedback: </span>
+          {feedback}
+        </div>
+      )}
+
+      {annotations && annotations.length > 0 && (
+        <div className="space-y-1">
+          <div className="text-sm font-medium">Comments on your file</div>
+          <ul className="space-y-1 text-sm">
+            {annotations.map((a, i) => (
+              <li key={a._id || i} className="rounded border p-2">
+                {a.location && <span className="mr-2 text-xs text-muted-foreground">{a.location}</span>}
+                {a.quote && <span className="mr-2 italic">“{a.quote}”</span>}
+                {a.comment}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  )
+}
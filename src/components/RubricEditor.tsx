@@ -0,0 +1,111 @@
+"use client"
+
+import { Button } from "./ui/button"
+import { Input } from "./ui/input"
+
+export type RubricDraft = {
+  title: string
+  description: string
+  levels: { label: string; points: number }[]
+}[]
+
+const newCriterion = (): RubricDraft[number] => ({
+  title: "",
+  description: "",
+  levels: [
+    { label: "Excellent", points: 3 },
+    { label: "Proficient", points: 2 },
+    { label: "Developing", points: 1 },
+    { label: "Missing", points: 0 },
+  ],
+})
+
+export default function RubricEditor({
+  value,
+  onChange,
+}: {
+  value: RubricDraft
+  onChange: (value: RubricDraft) => void
+}) {
+  const updateCriterion = (index: number, patch: Partial<RubricDraft[number]>) => {
+    onChange(value.map((c, i) => (i === index ? { ...c, ...patch } : c)))
+  }
+
+  const updateLevel = (cIndex: number, lIndex: number, patch: Partial<RubricDraft[number]["levels"][number]>) => {
+    const levels = value[cIndex].levels.map((l, i) => (i === lIndex ? { ...l, ...patch } : l))
+    updateCriterion(cIndex, { levels })
+  }
+
+  const total = value.reduce((sum, c) => sum + Math.max(0, ...c.levels.map((l) => l.points)), 0)
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium">Rubric {value.length > 0 ? `(${total} points)` : "(optional)"}</span>
+        <Button type="button" size="sm" variant="outline" onClick={() => onChange([...value, newCriterion()])}>
+          Add criterion
+        </Button>
+      </div>
+
+      {value.map((criterion, cIndex) => (
+        <div key={cIndex} className="space-y-2 rounded border p-3">
+          <div className="flex gap-2">
+            <Input
+              placeholder="Criterion (e.g. Analysis)"
+              value={criterion.title}
+              onChange={(e) => updateCriterion(cIndex, { title: e.target.value })}
+            />
+            <Button
+              type="button"
+              size="sm"
+              variant="ghost"
+              onClick={() => onChange(value.filter((_, i) => i !== cIndex))}
+            >
+              Remove
+            </Button>
+          </div>
+          <Input
+            placeholder="What this criterion looks for (optional)"
+            value={criterion.description}
+            onChange={(e) => updateCriterion(cIndex, { description: e.target.value })}
+          />
+          <div className="grid gap-2 sm:grid-cols-2">
+            {criterion.levels.map((level, lIndex) => (
+              <div key={lIndex} className="flex gap-2">
+                <Input
+                  placeholder="Level"
+                  value={level.label}
+                  onChange={(e) => updateLevel(cIndex, lIndex, { label: e.target.value })}
+                />
+                <Input
+                  type="number"
+                  min={0}
+                  className="w-20"
+                  value={level.points}
+                  onChange={(e) => updateLevel(cIndex, lIndex, { points: Number(e.target.value) })}
+                />
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="ghost"
+                  disabled={criterion.levels.length <= 1}
+                  onClick={() => updateCriterion(cIndex, { levels: criterion.levels.filter((_, i) => i !== lIndex) })}
+                >
+                  ✕
+                </Button>
+              </div>
+            ))}
+          </div>
+          <Button
+            type="button"
+            size="sm"
+            variant="ghost"
+            onClick={() => updateCriterion(cIndex, { levels: [...criterion.levels, { label: "", points: 0 }] })}
+          >
+            Add level
+          </Button>
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,75 @@
+"use client"
+
+export type SimilarityMatchView = {
+  submissionId?: string
+  studentId?: { name?: string } | string
+  assignmentId?: { title?: string } | string
+  source: "same_assignment" | "previous_run"
+  score: number
+  passages: { text: string; matchedText: string }[]
+}
+
+export type SimilarityView = {
+  status?: "pending" | "checked" | "unsupported" | "failed"
+  score?: number
+  checkedAt?: string
+  matches?: SimilarityMatchView[]
+}
+
+const nameOf = (value: SimilarityMatchView["studentId"]) =>
+  (typeof value === "object" && value?.name) || "Another student"
+
+const assignmentTitleOf = (value: SimilarityMatchView["assignmentId"]) =>
+  (typeof value === "object" && value?.title) || "an earlier assignment"
+
+/** Small colored label for the submission row: highest overlap with any other submission. */
+export function SimilarityBadge({ similarity }: { similarity?: SimilarityView }) {
+  if (!similarity?.status) return null
+
+  if (similarity.status !== "checked") {
+    const label = {
+      pending: "Similarity: checking…",
+      unsupported: "Similarity: unsupported file",
+      failed: "Similarity: check failed",
+    }[similarity.status]
+    return <span className="text-xs px-2 py-1 rounded bg-gray-100 text-gray-600">{label}</span>
+  }
+
+  const score = similarity.score ?? 0
+  const tone =
+    score >= 50 ? "bg-red-100 text-red-600" : score >= 20 ? "bg-yellow-100 text-yellow-700" : "bg-green-100 text-green-600"
+  return <span className={`text-xs px-2 py-1 rounded ${tone}`}>Similarity {score}%</span>
+}
+
+/** Matched submissions and the overlapping passages, side by side. */
+export default function SimilarityReport({ similarity }: { similarity?: SimilarityView }) {
+  if (similarity?.status !== "checked") return null
+
+  if (!similarity.matches || similarity.matches.length === 0) {
+    return <p className="text-sm text-muted-foreground">No significant overlap with other submissions.</p>
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="text-sm font-medium">Similarity report</div>
+      {similarity.matches.map((match, i) => (
+        <details key={match.submissionId || i} className="rounded border p-2 text-sm">
+          <summary className="cursor-pointer">
+            <span className="font-medium">{match.score}%</span> overlap with {nameOf(match.studentId)}
+            {match.source === "previous_run" && (
+              <span className="text-muted-foreground"> (earlier run: {assignmentTitleOf(match.assignmentId)})</span>
+            )}
+          </summary>
+          <ul className="mt-2 space-y-2">
+            {match.passages.map((passage, j) => (
+              <li key={j} className="grid gap-2 sm:grid-cols-2">
+                <blockquote className="rounded bg-red-50 p-2 text-xs">{passage.text}</blockquote>
+                <blockquote className="rounded bg-muted/30 p-2 text-xs">{passage.matchedText}</blockquote>
+              </li>
+            ))}
+          </ul>
+        </details>
+      ))}
+    </div>
+  )
+}
@@ -4,6 +4,17 @@ import { useCallback, useEffect, useState } from "react"
 import { toast } from "sonner"
 import { Button } from "./ui/button"
 import { Badge } from "./ui/badge"
+import RubricBreakdown, { type AnnotationView, type RubricCriterionView, type RubricScoreView } from "./RubricBreakdown"
+import PeerReviewStudentPanel from "./PeerReviewStudentPanel"
+import LessonDiscussion from "./courses/lesson-discussion"
+
+type SubmissionVersionInfo = {
+  version: number
+  fileUrl: string
+  submittedAt: string
+  graded?: boolean
+  grade?: number
+}
 
 type SubmissionInfo = {
   _id?: string
@@ -11,6 +22,16 @@ type SubmissionInfo = {
   graded?: boolean
   grade?: number
   score?: number
+  maxGrade?: number
+  rubricScores?: RubricScoreView[]
+  feedback?: string
+  annotations?: AnnotationView[]
+  currentVersion?: number
+  versions?: SubmissionVersionInfo[]
+  lateStatus?: "on_time" | "late"
+  daysLate?: number
+  penaltyPercent?: number
+  rawGrade?: number
 }
 
 type StudentAssignment = {
@@ -18,9 +39,29 @@ type StudentAssignment = {
   title: string
   dueDate: string
   fileUrl?: string
+  rubric?: RubricCriterionView[]
+  resubmissionLimit?: number
+  /** Due date after this student's extension, if any */
+  myDueDate?: string
+  hasExtension?: boolean
+  submissionWindow?: { open: boolean; lateStatus: "on_time" | "late"; penaltyPercent: number }
+  peerReview?: { enabled: boolean; assignedAt?: string }
   mySubmission?: SubmissionInfo | null
 }
 
+// Submissions from before version history count as one version
+const submissionCount = (a: StudentAssignment) =>
+  a.mySubmission ? Math.max(1, a.mySubmission.versions?.length ?? 0) : 0
+
+const dueDateOf = (a: StudentAssignment) => a.myDueDate || a.dueDate
+
+// The server decides from the late policy; fall back to the plain due date
+const isWindowOpen = (a: StudentAssignment) =>
+  a.submissionWindow ? a.submissionWindow.open : new Date(a.dueDate).getTime() > Date.now()
+
+const canResubmit = (a: StudentAssignment) =>
+  !!a.mySubmission && submissionCount(a) < 1 + (a.resubmissionLimit ?? 0)
+
 export default function StudentAssignmentSection({
   courseId,
 }: {
@@ -94,7 +135,7 @@ export default function StudentAssignmentSection({
       return
     }
 
-    await fetch("/api/submissions", {
+    const res = await fetch("/api/submissions", {
       method: "POST",
       headers: { "Content-Type": "application/json" },
       body: JSON.stringify({
@@ -105,6 +146,11 @@ export default function StudentAssignmentSection({
 
     setFile(null)
     setUploading(false)
+    if (!res.ok) {
+      const data = await res.json().catch(() => ({}))
+      toast.error(data?.error || "Failed to submit assignment")
+      return
+    }
     fetchAssignments()
     toast.success("Assignment submitted successfully!")
   }
@@ -145,12 +191,13 @@ export default function StudentAssignmentSection({
           {/* Title */}
           <h2 className="font-semibold text-lg">{a.title}</h2>
           <p className="text-sm text-gray-600">
-            Due: {new Date(a.dueDate).toLocaleString()}
+            Due: {new Date(dueDateOf(a)).toLocaleString()}
+            {a.hasExtension && " (extended)"}
           </p>
 
           {/* Countdown */}
           <p className="text-xs text-blue-600 mt-1">
-            ⏳ {getCountdown(a.dueDate)}
+            ⏳ {getCountdown(dueDateOf(a))}
           </p>
      
           {/* Assignment File */}
@@ -217,7 +264,9 @@ export default function StudentAssignmentSection({
                   }
                 }}
               >
-                Graded — Score: {a.mySubmission.score ?? "N/A"}
+                Graded — Score: {a.mySubmission.score ?? a.mySubmission.grade ?? "N/A"}
+                {a.mySubmission.maxGrade ? `/${a.mySubmission.maxGrade}` : ""}
+                {a.mySubmission.penaltyPercent ? ` (after ${a.mySubmission.penaltyPercent}% late penalty)` : ""}
               </Badge>
             ) : (
               <Badge
@@ -237,9 +286,89 @@ export default function StudentAssignmentSection({
             )}
           </div>
 
+          {a.mySubmission?.lateStatus === "late" && (
+            <p className="text-xs text-red-600 mt-2">
+              Submitted {a.mySubmission.daysLate} day(s) late
+              {a.mySubmission.penaltyPercent ? ` — ${a.mySubmission.penaltyPercent}% penalty applies` : ""}
+            </p>
+          )}
+
+          {/* Rubric & Feedback */}
+          {a.mySubmission?.graded ? (
+            <div className="mt-3">
+              <RubricBreakdown
+                rubric={a.rubric || []}
+                scores={a.mySubmission.rubricScores}
+                feedback={a.mySubmission.feedback}
+                annotations={a.mySubmission.annotations}
+              />
+            </div>
+          ) : (
+            a.rubric &&
+            a.rubric.length > 0 && (
+              <details className="mt-3 text-sm">
+                <summary className="cursor-pointer font-medium">Grading rubric</summary>
+                <ul className="mt-2 space-y-1">
+                  {a.rubric.map((c) => (
+                    <li key={c._id}>
+                      <span className="font-medium">{c.title}</span>
+                      <span className="text-muted-foreground">
+                        {" "}— {c.levels.map((l) => `${l.label} (${l.points})`).join(", ")}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </details>
+            )
+          )}
+
+          {/* Version History */}
+          {(a.mySubmission?.versions?.length ?? 0) > 1 && (
+            <details className="mt-3 text-sm">
+              <summary className="cursor-pointer font-medium">
+                Submission history ({a.mySubmission?.versions?.length} versions)
+              </summary>
+              <ul className="mt-2 space-y-1">
+                {[...(a.mySubmission?.versions || [])].reverse().map((v) => (
+                  <li key={v.version} className="flex flex-wrap items-center gap-2">
+                    <span>v{v.version}</span>
+                    <span className="text-muted-foreground">{new Date(v.submittedAt).toLocaleString()}</span>
+                    <a href={v.fileUrl} target="_blank" rel="noopener noreferrer" className="underline">
+                      View
+                    </a>
+                    {v.graded && typeof v.grade === "number" && <span>Score: {v.grade}</span>}
+                  </li>
+                ))}
+              </ul>
+            </details>
+          )}
+
+          {/* Peer Review */}
+          {a.peerReview?.enabled && a.peerReview.assignedAt && <PeerReviewStudentPanel assignmentId={a._id} />}
+
+          {/* Q&A */}
+          <details className="mt-4">
+            <summary className="cursor-pointer text-sm font-medium">Questions &amp; answers</summary>
+            <div className="mt-2">
+              <LessonDiscussion lessonType="assignment" lessonId={a._id} />
+            </div>
+          </details>
+
           {/* Submit Section */}
-          {!a.mySubmission && getCountdown(a.dueDate) !== "Deadline Passed" && (
+          {(!a.mySubmission || canResubmit(a)) && isWindowOpen(a) && (
             <div className="mt-4">
+              {a.submissionWindow?.lateStatus === "late" && (
+                <p className="text-xs text-red-600 mb-2">
+                  The due date has passed. Submitting now is marked late
+                  {a.submissionWindow.penaltyPercent ? ` with a ${a.submissionWindow.penaltyPercent}% penalty` : ""}.
+                </p>
+              )}
+              {a.mySubmission && (
+                <p className="text-xs text-muted-foreground mb-2">
+                  You can resubmit {1 + (a.resubmissionLimit ?? 0) - submissionCount(a)} more time(s). Your latest
+                  version is the one that gets graded.
+                </p>
+              )}
               <input
                 type="file"
                 onChange={e => setFile(e.target.files?.[0] || null)}
@@ -252,7 +381,7 @@ export default function StudentAssignmentSection({
                 variant="secondary"
              
               >
-                {uploading ? "Submitting..." : "Submit Assignment"}
+                {uploading ? "Submitting..." : a.mySubmission ? "Resubmit Assignment" : "Submit Assignment"}
               </Button>
             </div>
           )}
@@ -1,6 +1,6 @@
 "use client"
 
-import { useEffect, useState } from "react"
+import { useCallback, useEffect, useRef, useState } from "react"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"
@@ -8,51 +8,52 @@ import { Label } from "@/components/ui/label"
 import { Progress } from "@/components/ui/progress"
 import { Input } from "@/components/ui/input"
 
+type OrderingItem = { index: number; text: string }
+
+const AUTOSAVE_DELAY_MS = 1500
+
 export default function StudentQuiz({ quizId }: { quizId: string }) {
   const [quiz, setQuiz] = useState<any>(null)
   const [answers, setAnswers] = useState<Record<string, any>>({})
+  // Deadline translated to the local clock: deadlineAt - serverNow + local receipt time
+  const [deadlineMs, setDeadlineMs] = useState<number | null>(null)
   const [timeLeft, setTimeLeft] = useState(0)
   const [submitted, setSubmitted] = useState(false)
   const [result, setResult] = useState<any>(null)
+  const [startError, setStartError] = useState<string | null>(null)
+  const [lastSavedAt, setLastSavedAt] = useState<Date | null>(null)
+  const dirty = useRef(false)
 
+  // Starting returns this student's drawn variant (resumes an open attempt)
   useEffect(() => {
-    fetch(`/api/quiz/${quizId}`)
-      .then((res) => res.json())
-      .then((data) => {
-        setQuiz(data)
+    fetch(`/api/quiz/${quizId}/start`, { method: "POST" })
+      .then(async (res) => {
+        const data = await res.json().catch(() => null)
+        if (!res.ok) {
+          setStartError(data?.message || "Failed to start quiz")
+          return
+        }
+        setQuiz({ ...data.quiz, questions: data.questions })
         const initial: Record<string, any> = {}
         ;(data.questions || []).forEach((q: any) => {
-          initial[q._id] = null
+          // Ordering starts from the shuffled order the server sent
+          initial[q._id] = q.type === "ordering" ? (q.orderingItems || []).map((item: OrderingItem) => item.index) : null
+        })
+        ;(data.savedAnswers || []).forEach((saved: { questionId: string; answer: unknown }) => {
+          if (saved.questionId in initial && saved.answer !== null) initial[saved.questionId] = saved.answer
         })
         setAnswers(initial)
-        console.log(data)
-        setTimeLeft(typeof data.timeLimitSeconds === "number" ? data.timeLimitSeconds : 0)
-      })
-  }, [quizId])
-
-  // ⏳ TIMER
-  useEffect(() => {
-    if (!timeLeft || submitted) return
-
-    const interval = setInterval(() => {
-      setTimeLeft((prev) => {
-        if (prev <= 1) {
-          clearInterval(interval)
-          handleSubmit()
-          return 0
+        if (data.attempt?.lastSavedAt) setLastSavedAt(new Date(data.attempt.lastSavedAt))
+        if (data.attempt?.deadlineAt) {
+          const offset = new Date(data.serverNow).getTime() - Date.now()
+          const localDeadline = new Date(data.attempt.deadlineAt).getTime() - offset
+          setDeadlineMs(localDeadline)
+          setTimeLeft(Math.max(0, Math.ceil((localDeadline - Date.now()) / 1000)))
         }
-        return prev - 1
       })
-    }, 1000)
-
-    return () => clearInterval(interval)
-  }, [timeLeft, submitted])
-
-  const setAnswer = (questionId: string, value: any) => {
-    setAnswers((prev) => ({ ...prev, [questionId]: value }))
-  }
+  }, [quizId])
 
-  const handleSubmit = async () => {
+  const handleSubmit = useCallback(async () => {
     if (submitted) return
 
     const res = await fetch(`/api/quiz/${quizId}/submit`, {
@@ -74,6 +75,73 @@ export default function StudentQuiz({ quizId }: { quizId: string }) {
 
     setSubmitted(true)
     setResult(data)
+  }, [answers, quizId, submitted])
+
+  // The interval reads the latest submit handler without restarting every render
+  const submitRef = useRef(handleSubmit)
+  useEffect(() => {
+    submitRef.current = handleSubmit
+  }, [handleSubmit])
+
+  // ⏳ TIMER (server deadline)
+  useEffect(() => {
+    if (deadlineMs === null || submitted) return
+
+    const interval = setInterval(() => {
+      const remaining = Math.max(0, Math.ceil((deadlineMs - Date.now()) / 1000))
+      setTimeLeft(remaining)
+      if (remaining === 0) {
+        clearInterval(interval)
+        submitRef.current()
+      }
+    }, 1000)
+
+    return () => clearInterval(interval)
+  }, [deadlineMs, submitted])
+
+  // 💾 AUTOSAVE after answers settle
+  useEffect(() => {
+    if (!dirty.current || submitted) return
+
+    const timeout = setTimeout(async () => {
+      const res = await fetch(`/api/quiz/${quizId}/answers`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          answers: Object.entries(answers).map(([questionId, answer]) => ({ questionId, answer })),
+        }),
+      }).catch(() => null)
+      if (!res?.ok) return
+      const data = await res.json().catch(() => null)
+      if (data?.lastSavedAt) setLastSavedAt(new Date(data.lastSavedAt))
+    }, AUTOSAVE_DELAY_MS)
+
+    return () => clearTimeout(timeout)
+  }, [answers, quizId, submitted])
+
+  const setAnswer = (questionId: string, value: any) => {
+    dirty.current = true
+    setAnswers((prev) => ({ ...prev, [questionId]: value }))
+  }
+
+  const toggleMultiSelect = (questionId: string, optionIndex: number) => {
+    const current: number[] = Array.isArray(answers[questionId]) ? answers[questionId] : []
+    setAnswer(
+      questionId,
+      current.includes(optionIndex) ? current.filter((i) => i !== optionIndex) : [...current, optionIndex]
+    )
+  }
+
+  const moveOrderingItem = (questionId: string, position: number, direction: -1 | 1) => {
+    const order: number[] = [...(answers[questionId] || [])]
+    const target = position + direction
+    if (target < 0 || target >= order.length) return
+    ;[order[position], order[target]] = [order[target], order[position]]
+    setAnswer(questionId, order)
+  }
+
+  if (startError) {
+    return <p className="text-sm text-muted-foreground">{startError}</p>
   }
 
   if (!quiz || !quiz.questions) {
@@ -100,6 +168,9 @@ export default function StudentQuiz({ quizId }: { quizId: string }) {
           ) : (
             <div className="text-sm text-muted-foreground">No time limit</div>
           )}
+          {lastSavedAt && !submitted && (
+            <div className="text-xs text-muted-foreground">Answers saved at {lastSavedAt.toLocaleTimeString()}</div>
+          )}
         </CardHeader>
       </Card>
 
@@ -147,6 +218,66 @@ export default function StudentQuiz({ quizId }: { quizId: string }) {
               </RadioGroup>
             )}
 
+            {q.type === "multi_select" && (
+              <div className="space-y-2">
+                <p className="text-sm text-muted-foreground">Select all that apply.</p>
+                {(q.options || []).map((opt: string, i: number) => (
+                  <div key={i} className="flex items-center space-x-2">
+                    <input
+                      type="checkbox"
+                      id={`${q._id}-${i}`}
+                      disabled={submitted}
+                      checked={Array.isArray(answers[q._id]) && answers[q._id].includes(i)}
+                      onChange={() => toggleMultiSelect(q._id, i)}
+                      className="h-4 w-4"
+                    />
+                    <Label htmlFor={`${q._id}-${i}`}>{opt}</Label>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {q.type === "numeric" && (
+              <Input
+                type="number"
+                step="any"
+                disabled={submitted}
+                value={typeof answers[q._id] === "number" ? answers[q._id] : ""}
+                placeholder="Your answer"
+                onChange={(e) => setAnswer(q._id, e.target.value === "" ? null : Number(e.target.value))}
+              />
+            )}
+
+            {q.type === "ordering" && (
+              <div className="space-y-2">
+                <p className="text-sm text-muted-foreground">Arrange the items in the correct order.</p>
+                {((answers[q._id] || []) as number[]).map((itemIndex, position, order) => (
+                  <div key={itemIndex} className="flex items-center gap-2 rounded-md border p-2">
+                    <span className="w-5 text-sm text-muted-foreground">{position + 1}.</span>
+                    <span className="flex-1">
+                      {(q.orderingItems || []).find((item: OrderingItem) => item.index === itemIndex)?.text}
+                    </span>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      disabled={submitted || position === 0}
+                      onClick={() => moveOrderingItem(q._id, position, -1)}
+                    >
+                      Up
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      disabled={submitted || position === order.length - 1}
+                      onClick={() => moveOrderingItem(q._id, position, 1)}
+                    >
+                      Down
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+
             {q.type === "short_answer" && (
               <Input
                 disabled={submitted}
@@ -155,6 +286,10 @@ export default function StudentQuiz({ quizId }: { quizId: string }) {
                 onChange={(e) => setAnswer(q._id, e.target.value)}
               />
             )}
+
+            {result?.explanations?.[q._id] && (
+              <p className="rounded-md bg-muted p-3 text-sm text-muted-foreground">{result.explanations[q._id]}</p>
+            )}
           </CardContent>
         </Card>
       ))}
@@ -170,7 +305,17 @@ export default function StudentQuiz({ quizId }: { quizId: string }) {
         <Card>
           <CardContent className="text-center p-6">
             ✅ Quiz submitted
-            {result?.attempt && (
+            {result?.autoSubmitted && (
+              <div className="mt-3 text-sm text-muted-foreground">
+                Time ran out, so your last saved answers were submitted.
+              </div>
+            )}
+            {result?.attempt?.status === "pending_manual_grading" && (
+              <div className="mt-3 text-sm text-muted-foreground">
+                Some answers need teacher review. You&apos;ll be notified when your score is final.
+              </div>
+            )}
+            {result?.attempt && result.attempt.status !== "pending_manual_grading" && (
               <div className="mt-3 text-sm text-muted-foreground">
                 Score: {result.attempt.scorePercent}% ({result.attempt.earnedPoints}/{result.attempt.maxPoints}){" "}
                 {result.attempt.passed ? "• Passed" : "• Not passed"}
@@ -1,19 +1,107 @@
 "use client"
 
-import { useState } from "react"
+import { useCallback, useEffect, useState } from "react"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
 import { toast } from "sonner"
-import { quizValidationSchema } from "@/models/quiz"
+import { quizValidationSchema, type QuestionKind } from "@/models/quiz"
 
-type MultipleChoiceQuestionDraft = {
-  type: "multiple_choice"
-  questionText: string
-  options: [string, string, string, string]
-  correctAnswerIndex: 0 | 1 | 2 | 3
+const QUESTION_TYPE_LABELS: Record<QuestionKind, string> = {
+  multiple_choice: "Multiple choice",
+  multi_select: "Multi-select",
+  true_false: "True / False",
+  numeric: "Numeric range",
+  short_answer: "Short answer",
+  ordering: "Ordering",
+}
+
+type QuestionDraft = {
+  type: QuestionKind
+  prompt: string
+  options: string[]
+  correctOptionIndex: number
+  correctOptionIndexes: number[]
+  correctBoolean: boolean
+  numericMin: number | ""
+  numericMax: number | ""
+  acceptedAnswersText: string
+  requiresManualGrading: boolean
   points: number
+  saveToBank: boolean
+  tagsText: string
+}
+
+/** Pool draft; questions are keyed "q:<index>" (inline) or "b:<bankId>" */
+type PoolDraft = {
+  name: string
+  drawCount: number
+  keys: string[]
+}
+
+type BankQuestionSummary = {
+  _id: string
+  type?: QuestionKind
+  prompt: string
+  points?: number
+  tags?: string[]
+}
+
+const splitList = (value: string) =>
+  value
+    .split(",")
+    .map((v) => v.trim())
+    .filter(Boolean)
+
+const newQuestion = (): QuestionDraft => ({
+  type: "multiple_choice",
+  prompt: "",
+  options: ["", "", "", ""],
+  correctOptionIndex: 0,
+  correctOptionIndexes: [],
+  correctBoolean: true,
+  numericMin: "",
+  numericMax: "",
+  acceptedAnswersText: "",
+  requiresManualGrading: false,
+  points: 1,
+  saveToBank: false,
+  tagsText: "",
+})
+
+// Map an editor draft onto the API question shape for its type
+function toQuestionPayload(q: QuestionDraft) {
+  const base = {
+    type: q.type,
+    prompt: q.prompt,
+    points: q.points,
+    saveToBank: q.saveToBank || undefined,
+    tags: q.saveToBank ? splitList(q.tagsText).map((t) => t.toLowerCase()) : undefined,
+  }
+  switch (q.type) {
+    case "multiple_choice":
+      return { ...base, options: q.options, correctOptionIndex: q.correctOptionIndex }
+    case "multi_select":
+      return { ...base, options: q.options, correctOptionIndexes: q.correctOptionIndexes }
+    case "true_false":
+      return { ...base, correctBoolean: q.correctBoolean }
+    case "numeric":
+      return {
+        ...base,
+        numericMin: q.numericMin === "" ? undefined : Number(q.numericMin),
+        numericMax: q.numericMax === "" ? undefined : Number(q.numericMax),
+      }
+    case "short_answer":
+      return {
+        ...base,
+        acceptedAnswers: splitList(q.acceptedAnswersText),
+        requiresManualGrading: q.requiresManualGrading,
+      }
+    case "ordering":
+      return { ...base, options: q.options }
+  }
 }
 
 export default function TeacherQuizManager({ courseId }: { courseId: string }) {
@@ -23,33 +111,44 @@ export default function TeacherQuizManager({ courseId }: { courseId: string }) {
   const [passingScorePercent, setPassingScorePercent] = useState<number>(60)
   const [attemptLimit, setAttemptLimit] = useState<number | "">("")
   const [published, setPublished] = useState(false)
-  const [questions, setQuestions] = useState<MultipleChoiceQuestionDraft[]>([])
+  const [questions, setQuestions] = useState<QuestionDraft[]>([])
+  const [shuffleQuestions, setShuffleQuestions] = useState(false)
+  const [shuffleOptions, setShuffleOptions] = useState(false)
+  const [pools, setPools] = useState<PoolDraft[]>([])
+
+  const [bankQuestions, setBankQuestions] = useState<BankQuestionSummary[]>([])
+  const [bankTags, setBankTags] = useState<string[]>([])
+  const [bankTag, setBankTag] = useState("")
+  const [selectedBankIds, setSelectedBankIds] = useState<string[]>([])
+
+  const loadBank = useCallback(async () => {
+    const params = new URLSearchParams({ courseId })
+    if (bankTag) params.set("tag", bankTag)
+    const res = await fetch(`/api/quiz/bank?${params.toString()}`)
+    if (!res.ok) return
+    const data = await res.json()
+    setBankQuestions(data?.questions || [])
+    setBankTags(data?.tags || [])
+  }, [courseId, bankTag])
+
+  useEffect(() => {
+    loadBank()
+  }, [loadBank])
 
   // Add a new question
   const addQuestion = () => {
-    setQuestions((prev) => [
-      ...prev,
-      {
-        type: "multiple_choice",
-        questionText: "",
-        options: ["", "", "", ""] as [string, string, string, string],
-        correctAnswerIndex: 0,
-        points: 1,
-      },
-    ])
+    setQuestions((prev) => [...prev, newQuestion()])
   }
 
   // Remove the last question
   const cancelLastQuestion = () => {
+    const removedKey = `q:${questions.length - 1}`
     setQuestions((prev) => prev.slice(0, -1))
+    setPools((prev) => prev.map((p) => ({ ...p, keys: p.keys.filter((k) => k !== removedKey) })))
   }
 
   // Update question fields
-  const updateQuestion = <K extends keyof MultipleChoiceQuestionDraft>(
-    index: number,
-    field: K,
-    value: MultipleChoiceQuestionDraft[K]
-  ) => {
+  const updateQuestion = <K extends keyof QuestionDraft>(index: number, field: K, value: QuestionDraft[K]) => {
     setQuestions((prev) => {
       const updated = [...prev]
       updated[index] = { ...updated[index], [field]: value }
@@ -57,17 +156,87 @@ export default function TeacherQuizManager({ courseId }: { courseId: string }) {
     })
   }
 
+  // Switching type resets the answer key; ordering and choice types keep their options
+  const changeType = (index: number, type: QuestionKind) => {
+    setQuestions((prev) => {
+      const updated = [...prev]
+      updated[index] = { ...newQuestion(), prompt: prev[index].prompt, points: prev[index].points, type }
+      return updated
+    })
+  }
+
   // Update question option
   const updateOption = (qIndex: number, optIndex: number, value: string) => {
     setQuestions((prev) => {
       const updated = [...prev]
-      const opts = [...updated[qIndex].options] as [string, string, string, string]
-      opts[optIndex as 0 | 1 | 2 | 3] = value
+      const opts = [...updated[qIndex].options]
+      opts[optIndex] = value
       updated[qIndex] = { ...updated[qIndex], options: opts }
       return updated
     })
   }
 
+  const addOption = (qIndex: number) => {
+    setQuestions((prev) => {
+      const updated = [...prev]
+      updated[qIndex] = { ...updated[qIndex], options: [...updated[qIndex].options, ""] }
+      return updated
+    })
+  }
+
+  const removeOption = (qIndex: number, optIndex: number) => {
+    setQuestions((prev) => {
+      const updated = [...prev]
+      const q = updated[qIndex]
+      updated[qIndex] = {
+        ...q,
+        options: q.options.filter((_, i) => i !== optIndex),
+        correctOptionIndex: q.correctOptionIndex === optIndex ? 0 : q.correctOptionIndex - (q.correctOptionIndex > optIndex ? 1 : 0),
+        correctOptionIndexes: q.correctOptionIndexes
+          .filter((i) => i !== optIndex)
+          .map((i) => (i > optIndex ? i - 1 : i)),
+      }
+      return updated
+    })
+  }
+
+  const toggleCorrectOption = (qIndex: number, optIndex: number) => {
+    const current = questions[qIndex].correctOptionIndexes
+    updateQuestion(
+      qIndex,
+      "correctOptionIndexes",
+      current.includes(optIndex) ? current.filter((i) => i !== optIndex) : [...current, optIndex].sort((a, b) => a - b)
+    )
+  }
+
+  const toggleBankQuestion = (id: string) => {
+    if (selectedBankIds.includes(id)) {
+      setPools((prev) => prev.map((p) => ({ ...p, keys: p.keys.filter((k) => k !== `b:${id}`) })))
+    }
+    setSelectedBankIds((prev) => (prev.includes(id) ? prev.filter((x) => x !== id) : [...prev, id]))
+  }
+
+  // Questions that can be placed in a pool, in payload order (inline first, then bank)
+  const poolCandidates = [
+    ...questions.map((q, i) => ({ key: `q:${i}`, label: `Q${i + 1}: ${q.prompt || "Untitled question"}` })),
+    ...selectedBankIds.map((id) => ({
+      key: `b:${id}`,
+      label: `Bank: ${bankQuestions.find((bq) => bq._id === id)?.prompt || "Question"}`,
+    })),
+  ]
+
+  const updatePool = (index: number, patch: Partial<PoolDraft>) => {
+    setPools((prev) => prev.map((p, i) => (i === index ? { ...p, ...patch } : p)))
+  }
+
+  const togglePoolQuestion = (index: number, key: string) => {
+    const pool = pools[index]
+    updatePool(index, { keys: pool.keys.includes(key) ? pool.keys.filter((k) => k !== key) : [...pool.keys, key] })
+  }
+
+  const poolKeyToIndex = (key: string) =>
+    key.startsWith("q:") ? Number(key.slice(2)) : questions.length + selectedBankIds.indexOf(key.slice(2))
+
   // Handle form submission
   const handleSubmit = async () => {
     if (!title.trim()) {
@@ -75,7 +244,7 @@ export default function TeacherQuizManager({ courseId }: { courseId: string }) {
       return
     }
 
-    if (questions.length === 0) {
+    if (questions.length === 0 && selectedBankIds.length === 0) {
       toast.error("Add at least one question")
       return
     }
@@ -85,23 +254,29 @@ export default function TeacherQuizManager({ courseId }: { courseId: string }) {
       courseId,
       title,
       description: description || undefined,
-      questions,
+      questions: questions.map(toQuestionPayload),
+      bankQuestionIds: selectedBankIds,
+      questionPools: pools.map((p) => ({
+        name: p.name || undefined,
+        drawCount: p.drawCount,
+        questionIndexes: p.keys.map(poolKeyToIndex),
+      })),
       timeLimitSeconds: timeLimitMinutes === "" ? undefined : Number(timeLimitMinutes) * 60,
       passingScorePercent,
       attemptLimit: attemptLimit === "" ? undefined : Number(attemptLimit),
       published,
       instantResults: true,
       showAnswersAfterSubmission: false,
-      shuffleQuestions: false,
+      shuffleQuestions,
+      shuffleOptions,
       requiredForCertificate: true,
     }
 
     // Frontend validation
-    const validation = quizValidationSchema.safeParse({ ...payload, course: courseId })
+    const validation = quizValidationSchema.safeParse(payload)
 
     if (!validation.success) {
-     
-      toast.error("All feilds are must be required")
+      toast.error(validation.error.issues[0]?.message || "All feilds are must be required")
       return
     }
 
@@ -126,6 +301,11 @@ export default function TeacherQuizManager({ courseId }: { courseId: string }) {
       setPassingScorePercent(60)
       setPublished(false)
       setQuestions([])
+      setSelectedBankIds([])
+      setPools([])
+      setShuffleQuestions(false)
+      setShuffleOptions(false)
+      if (questions.some((q) => q.saveToBank)) loadBank()
 
       toast.success("Quiz created successfully!")
     } catch (error) {
@@ -190,6 +370,17 @@ export default function TeacherQuizManager({ courseId }: { courseId: string }) {
           </div>
         </div>
 
+        <div className="flex flex-wrap gap-6">
+          <label className="flex items-center gap-2 text-sm">
+            <input type="checkbox" checked={shuffleQuestions} onChange={(e) => setShuffleQuestions(e.target.checked)} className="h-4 w-4" />
+            Shuffle question order
+          </label>
+          <label className="flex items-center gap-2 text-sm">
+            <input type="checkbox" checked={shuffleOptions} onChange={(e) => setShuffleOptions(e.target.checked)} className="h-4 w-4" />
+            Shuffle answer options
+          </label>
+        </div>
+
         <div className="space-y-4">
           {questions.map((q, index) => (
             <Card key={index}>
@@ -197,40 +388,162 @@ export default function TeacherQuizManager({ courseId }: { courseId: string }) {
                 <CardTitle className="text-base">Question {index + 1}</CardTitle>
               </CardHeader>
               <CardContent className="space-y-3">
-                <Input
-                  value={q.questionText}
-                  placeholder="Question prompt"
-                  onChange={(e) => updateQuestion(index, "questionText", e.target.value)}
-                />
-
-                <div className="grid gap-2 md:grid-cols-2">
-                  {q.options.map((opt, i) => (
+                <div className="grid gap-4 md:grid-cols-3">
+                  <div className="space-y-2 md:col-span-2">
+                    <Label>Prompt</Label>
                     <Input
-                      key={i}
-                      value={opt}
-                      placeholder={`Option ${i + 1}`}
-                      onChange={(e) => updateOption(index, i, e.target.value)}
+                      value={q.prompt}
+                      placeholder="Question prompt"
+                      onChange={(e) => updateQuestion(index, "prompt", e.target.value)}
                     />
-                  ))}
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Type</Label>
+                    <select
+                      className="w-full border rounded-md h-10 px-3 bg-background"
+                      value={q.type}
+                      onChange={(e) => changeType(index, e.target.value as QuestionKind)}
+                    >
+                      {(Object.keys(QUESTION_TYPE_LABELS) as QuestionKind[]).map((type) => (
+                        <option key={type} value={type}>
+                          {QUESTION_TYPE_LABELS[type]}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
                 </div>
 
-                <div className="grid gap-4 md:grid-cols-2">
+                {(q.type === "multiple_choice" || q.type === "multi_select" || q.type === "ordering") && (
+                  <div className="space-y-2">
+                    {q.type === "ordering" && (
+                      <p className="text-sm text-muted-foreground">Enter the items in the correct order; students see them shuffled.</p>
+                    )}
+                    {q.type === "multi_select" && (
+                      <p className="text-sm text-muted-foreground">Tick every correct option.</p>
+                    )}
+                    <div className="grid gap-2 md:grid-cols-2">
+                      {q.options.map((opt, i) => (
+                        <div key={i} className="flex items-center gap-2">
+                          {q.type === "multiple_choice" && (
+                            <input
+                              type="radio"
+                              name={`correct-${index}`}
+                              checked={q.correctOptionIndex === i}
+                              onChange={() => updateQuestion(index, "correctOptionIndex", i)}
+                              className="h-4 w-4"
+                            />
+                          )}
+                          {q.type === "multi_select" && (
+                            <input
+                              type="checkbox"
+                              checked={q.correctOptionIndexes.includes(i)}
+                              onChange={() => toggleCorrectOption(index, i)}
+                              className="h-4 w-4"
+                            />
+                          )}
+                          {q.type === "ordering" && <span className="w-5 text-sm text-muted-foreground">{i + 1}.</span>}
+                          <Input
+                            value={opt}
+                            placeholder={q.type === "ordering" ? `Item ${i + 1}` : `Option ${i + 1}`}
+                            onChange={(e) => updateOption(index, i, e.target.value)}
+                          />
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => removeOption(index, i)}
+                            disabled={q.options.length <= 2}
+                          >
+                            Remove
+                          </Button>
+                        </div>
+                      ))}
+                    </div>
+                    <Button type="button" variant="outline" size="sm" onClick={() => addOption(index)}>
+                      Add {q.type === "ordering" ? "item" : "option"}
+                    </Button>
+                  </div>
+                )}
+
+                {q.type === "true_false" && (
                   <div className="space-y-2">
-                    <Label>Correct option</Label>
+                    <Label>Correct answer</Label>
                     <select
                       className="w-full border rounded-md h-10 px-3 bg-background"
-                      value={q.correctAnswerIndex}
-                      onChange={(e) => updateQuestion(index, "correctAnswerIndex", Number(e.target.value) as 0 | 1 | 2 | 3)}
+                      value={String(q.correctBoolean)}
+                      onChange={(e) => updateQuestion(index, "correctBoolean", e.target.value === "true")}
                     >
-                      <option value={0}>Option 1</option>
-                      <option value={1}>Option 2</option>
-                      <option value={2}>Option 3</option>
-                      <option value={3}>Option 4</option>
+                      <option value="true">True</option>
+                      <option value="false">False</option>
                     </select>
                   </div>
+                )}
+
+                {q.type === "numeric" && (
+                  <div className="grid gap-4 md:grid-cols-2">
+                    <div className="space-y-2">
+                      <Label>Minimum accepted</Label>
+                      <Input
+                        type="number"
+                        value={q.numericMin}
+                        onChange={(e) => updateQuestion(index, "numericMin", e.target.value === "" ? "" : Number(e.target.value))}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label>Maximum accepted</Label>
+                      <Input
+                        type="number"
+                        value={q.numericMax}
+                        onChange={(e) => updateQuestion(index, "numericMax", e.target.value === "" ? "" : Number(e.target.value))}
+                      />
+                    </div>
+                  </div>
+                )}
+
+                {q.type === "short_answer" && (
+                  <div className="space-y-2">
+                    <Label>Accepted answers (comma separated)</Label>
+                    <Input
+                      value={q.acceptedAnswersText}
+                      placeholder="e.g. photosynthesis, photo-synthesis"
+                      disabled={q.requiresManualGrading}
+                      onChange={(e) => updateQuestion(index, "acceptedAnswersText", e.target.value)}
+                    />
+                    <div className="flex items-center gap-2">
+                      <input
+                        type="checkbox"
+                        checked={q.requiresManualGrading}
+                        onChange={(e) => updateQuestion(index, "requiresManualGrading", e.target.checked)}
+                        className="h-4 w-4"
+                      />
+                      <span className="text-sm text-muted-foreground">Grade manually</span>
+                    </div>
+                  </div>
+                )}
+
+                <div className="grid gap-4 md:grid-cols-2">
                   <div className="space-y-2">
                     <Label>Points</Label>
-                    <Input type="number" min={0} value={q.points} onChange={(e) => updateQuestion(index, "points", Number(e.target.value))} />
+                    <Input type="number" min={1} value={q.points} onChange={(e) => updateQuestion(index, "points", Number(e.target.value))} />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Question bank</Label>
+                    <div className="flex items-center gap-2">
+                      <input
+                        type="checkbox"
+                        checked={q.saveToBank}
+                        onChange={(e) => updateQuestion(index, "saveToBank", e.target.checked)}
+                        className="h-4 w-4"
+                      />
+                      <span className="text-sm text-muted-foreground">Save for reuse</span>
+                    </div>
+                    {q.saveToBank && (
+                      <Input
+                        value={q.tagsText}
+                        placeholder="Tags, e.g. week-1, algebra"
+                        onChange={(e) => updateQuestion(index, "tagsText", e.target.value)}
+                      />
+                    )}
                   </div>
                 </div>
               </CardContent>
@@ -238,12 +551,127 @@ export default function TeacherQuizManager({ courseId }: { courseId: string }) {
           ))}
         </div>
 
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center justify-between gap-4 text-base">
+              <span>Question bank</span>
+              <select
+                className="border rounded-md h-9 px-3 bg-background text-sm font-normal"
+                value={bankTag}
+                onChange={(e) => setBankTag(e.target.value)}
+              >
+                <option value="">All tags</option>
+                {bankTags.map((tag) => (
+                  <option key={tag} value={tag}>
+                    {tag}
+                  </option>
+                ))}
+              </select>
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {bankQuestions.length === 0 ? (
+              <div className="text-sm text-muted-foreground">No saved questions yet.</div>
+            ) : (
+              bankQuestions.map((bq) => (
+                <label key={bq._id} className="flex items-start gap-2 rounded-md border p-2">
+                  <input
+                    type="checkbox"
+                    checked={selectedBankIds.includes(bq._id)}
+                    onChange={() => toggleBankQuestion(bq._id)}
+                    className="mt-1 h-4 w-4"
+                  />
+                  <div className="min-w-0 space-y-1">
+                    <div className="text-sm">{bq.prompt}</div>
+                    <div className="flex flex-wrap gap-1">
+                      <Badge variant="secondary">{QUESTION_TYPE_LABELS[bq.type || "multiple_choice"]}</Badge>
+                      <Badge variant="outline">{bq.points ?? 1} pt</Badge>
+                      {(bq.tags || []).map((tag) => (
+                        <Badge key={tag} variant="outline">
+                          {tag}
+                        </Badge>
+                      ))}
+                    </div>
+                  </div>
+                </label>
+              ))
+            )}
+            {selectedBankIds.length > 0 && (
+              <div className="text-sm text-muted-foreground">{selectedBankIds.length} bank question(s) will be added.</div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center justify-between gap-4 text-base">
+              <span>Random pools</span>
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => setPools((prev) => [...prev, { name: "", drawCount: 1, keys: [] }])}
+                disabled={poolCandidates.length === 0}
+              >
+                Add pool
+              </Button>
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="text-sm text-muted-foreground">
+              Each student gets a random draw from every pool. Questions outside pools are always asked.
+            </div>
+            {pools.map((pool, index) => (
+              <div key={index} className="space-y-3 rounded-md border p-3">
+                <div className="grid gap-4 md:grid-cols-3">
+                  <div className="space-y-2 md:col-span-2">
+                    <Label>Pool name</Label>
+                    <Input value={pool.name} placeholder={`Pool ${index + 1}`} onChange={(e) => updatePool(index, { name: e.target.value })} />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Draw {pool.drawCount} of {pool.keys.length}</Label>
+                    <Input
+                      type="number"
+                      min={1}
+                      max={Math.max(1, pool.keys.length)}
+                      value={pool.drawCount}
+                      onChange={(e) => updatePool(index, { drawCount: Number(e.target.value) })}
+                    />
+                  </div>
+                </div>
+                <div className="grid gap-1 md:grid-cols-2">
+                  {poolCandidates.map((c) => {
+                    const inOtherPool = pools.some((p, i) => i !== index && p.keys.includes(c.key))
+                    return (
+                      <label key={c.key} className={`flex items-center gap-2 text-sm ${inOtherPool ? "opacity-50" : ""}`}>
+                        <input
+                          type="checkbox"
+                          checked={pool.keys.includes(c.key)}
+                          disabled={inOtherPool}
+                          onChange={() => togglePoolQuestion(index, c.key)}
+                          className="h-4 w-4"
+                        />
+                        <span className="truncate">{c.label}</span>
+                      </label>
+                    )
+                  })}
+                </div>
+                <Button type="button" variant="ghost" size="sm" onClick={() => setPools((prev) => prev.filter((_, i) => i !== index))}>
+                  Remove pool
+                </Button>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+
         <div className="flex gap-2">
           <Button type="button" variant="secondary" onClick={addQuestion}>Add question</Button>
           <Button type="button" variant="outline" onClick={cancelLastQuestion} disabled={questions.length === 0}>Cancel</Button>
-          <Button type="button" onClick={handleSubmit} disabled={!title || questions.length === 0}>Save quiz</Button>
+          <Button type="button" onClick={handleSubmit} disabled={!title || (questions.length === 0 && selectedBankIds.length === 0)}>
+            Save quiz
+          </Button>
         </div>
       </CardContent>
     </Card>
   )
-}
\ No newline at end of file
+}
@@ -1,40 +1,219 @@
 "use client"
 
-import { useEffect, useState } from "react"
+import { useCallback, useEffect, useState } from "react"
+import { toast } from "sonner"
 import { Card,CardHeader,CardTitle,CardContent } from "./ui/card"
+import { Badge } from "./ui/badge"
+import { Button } from "./ui/button"
+import { Input } from "./ui/input"
+import { Label } from "./ui/label"
+import { Textarea } from "./ui/textarea"
 
 type QuizSubmission = {
   _id: string
   student?: { name?: string }
+  status?: "submitted" | "pending_manual_grading" | "graded"
   scorePercent?: number
   earnedPoints?: number
   maxPoints?: number
   passed?: boolean
+  submittedAt?: string
+}
+
+type GradingQuestion = {
+  questionId: string
+  type: string
+  prompt: string
+  acceptedAnswers?: string[]
+  answer: unknown
+  earnedPoints: number
+  maxPoints: number
+  needsManualGrading: boolean
+  feedback?: string
+}
+
+type GradeDraft = { points: number | ""; feedback: string }
+
+function formatAnswer(answer: unknown) {
+  if (answer === null || answer === undefined || answer === "") return "No answer"
+  if (Array.isArray(answer)) return answer.join(", ")
+  return String(answer)
+}
+
+function GradingPanel({
+  quizId,
+  attemptId,
+  onDone,
+}: {
+  quizId: string
+  attemptId: string
+  onDone: () => void
+}) {
+  const [questions, setQuestions] = useState<GradingQuestion[]>([])
+  const [drafts, setDrafts] = useState<Record<string, GradeDraft>>({})
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    fetch(`/api/quiz/${quizId}/submissions/${attemptId}`)
+      .then((res) => res.json())
+      .then((data) => {
+        const manual = ((data.questions || []) as GradingQuestion[]).filter((q) => q.needsManualGrading)
+        setQuestions(manual)
+        setDrafts(
+          Object.fromEntries(manual.map((q) => [q.questionId, { points: "", feedback: q.feedback || "" }]))
+        )
+      })
+  }, [quizId, attemptId])
+
+  const updateDraft = (questionId: string, patch: Partial<GradeDraft>) => {
+    setDrafts((prev) => ({ ...prev, [questionId]: { ...prev[questionId], ...patch } }))
+  }
+
+  const submitGrades = async () => {
+    const grades = questions
+      .filter((q) => drafts[q.questionId]?.points !== "")
+      .map((q) => ({
+        questionId: q.questionId,
+        points: Number(drafts[q.questionId].points),
+        feedback: drafts[q.questionId].feedback || undefined,
+      }))
+    if (grades.length === 0) {
+      toast.error("Enter points for at least one answer")
+      return
+    }
+
+    setSaving(true)
+    try {
+      const res = await fetch(`/api/quiz/${quizId}/submissions/${attemptId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ grades }),
+      })
+      const data = await res.json().catch(() => ({}))
+      if (!res.ok) {
+        toast.error(data?.error || "Failed to save grades")
+        return
+      }
+      toast.success(data.graded ? "Attempt graded" : "Grades saved")
+      onDone()
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="space-y-4 border-t pt-4">
+      {questions.map((q) => (
+        <div key={q.questionId} className="space-y-2 rounded-md border p-3">
+          <div className="font-medium">{q.prompt}</div>
+          <div className="text-sm">
+            <span className="text-muted-foreground">Answer: </span>
+            {formatAnswer(q.answer)}
+          </div>
+          {q.acceptedAnswers && q.acceptedAnswers.length > 0 && (
+            <div className="text-xs text-muted-foreground">Reference: {q.acceptedAnswers.join(", ")}</div>
+          )}
+          <div className="grid gap-3 md:grid-cols-4">
+            <div className="space-y-1">
+              <Label>Points (max {q.maxPoints})</Label>
+              <Input
+                type="number"
+                min={0}
+                max={q.maxPoints}
+                value={drafts[q.questionId]?.points ?? ""}
+                onChange={(e) =>
+                  updateDraft(q.questionId, { points: e.target.value === "" ? "" : Number(e.target.value) })
+                }
+              />
+            </div>
+            <div className="space-y-1 md:col-span-3">
+              <Label>Comment</Label>
+              <Textarea
+                value={drafts[q.questionId]?.feedback ?? ""}
+                placeholder="Feedback for the student"
+                onChange={(e) => updateDraft(q.questionId, { feedback: e.target.value })}
+              />
+            </div>
+          </div>
+        </div>
+      ))}
+      <Button onClick={submitGrades} disabled={saving || questions.length === 0}>
+        {saving ? "Saving..." : "Save grades"}
+      </Button>
+    </div>
+  )
 }
 
 export default function TeacherQuizSubmissions({ quizId }: { quizId: string }) {
   const [submissions, setSubmissions] = useState<QuizSubmission[]>([])
+  const [gradingId, setGradingId] = useState<string | null>(null)
 
-  useEffect(() => {
+  const refresh = useCallback(() => {
     fetch(`/api/quiz/${quizId}/submissions`)
       .then((res) => res.json())
       .then((data) => setSubmissions(data.submissions || []))
   }, [quizId])
 
+  useEffect(() => {
+    refresh()
+  }, [refresh])
+
+  const pending = submissions.filter((sub) => sub.status === "pending_manual_grading")
+  const others = submissions.filter((sub) => sub.status !== "pending_manual_grading")
+
   return (
-    <div>
+    <div className="space-y-4">
+      {pending.length > 0 && (
+        <div className="space-y-3">
+          <h2 className="font-medium">Grading queue ({pending.length})</h2>
+          {pending.map((sub) => (
+            <Card key={sub._id}>
+              <CardHeader>
+                <CardTitle className="flex items-center justify-between gap-3 text-base">
+                  <span>{sub.student?.name || "Unknown student"}</span>
+                  <Button
+                    size="sm"
+                    variant={gradingId === sub._id ? "ghost" : "default"}
+                    onClick={() => setGradingId(gradingId === sub._id ? null : sub._id)}
+                  >
+                    {gradingId === sub._id ? "Close" : "Grade"}
+                  </Button>
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="text-sm text-muted-foreground">
+                  Auto-graded so far: {sub.earnedPoints ?? 0}/{sub.maxPoints ?? 0}
+                  {sub.submittedAt ? ` • Submitted ${new Date(sub.submittedAt).toLocaleString()}` : ""}
+                </div>
+                {gradingId === sub._id && (
+                  <GradingPanel
+                    quizId={quizId}
+                    attemptId={sub._id}
+                    onDone={() => {
+                      setGradingId(null)
+                      refresh()
+                    }}
+                  />
+                )}
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
       <h2>Student Submissions</h2>
 
-      {submissions.map((sub) => (
+      {others.map((sub) => (
        <Card key={sub._id}>
   <CardHeader>
     <CardTitle>{sub.student?.name || "Unknown student"}</CardTitle>
   </CardHeader>
   <CardContent>
     Score: {sub.scorePercent ?? 0}% ({sub.earnedPoints ?? 0}/{sub.maxPoints ?? 0}) {sub.passed ? "• Passed" : ""}
+    {sub.status === "graded" && <Badge variant="outline" className="ml-2">Graded</Badge>}
   </CardContent>
 </Card>
       ))}
     </div>
   )
-}
\ No newline at end of file
+}
@@ -5,13 +5,58 @@ import Link from "next/link"
 import { Button } from "./ui/button"
 import { Badge } from "./ui/badge"
 import { toast } from "sonner"
+import RubricEditor, { type RubricDraft } from "./RubricEditor"
+import AssignmentGradingPanel from "./AssignmentGradingPanel"
+import AssignmentExtensions, { type CourseStudentOption, type ExtensionItem } from "./AssignmentExtensions"
+import LessonDiscussion from "./courses/lesson-discussion"
+import PeerReviewTeacherPanel from "./PeerReviewTeacherPanel"
+import SimilarityReport, { SimilarityBadge, type SimilarityView } from "./SimilarityReport"
+import type { AnnotationView, RubricCriterionView, RubricScoreView } from "./RubricBreakdown"
 
 type SubmissionItem = {
   _id: string
   fileUrl: string
   graded?: boolean
+  grade?: number
+  maxGrade?: number
+  rubricScores?: RubricScoreView[]
+  feedback?: string
+  annotations?: AnnotationView[]
+  currentVersion?: number
+  lateStatus?: "on_time" | "late"
+  daysLate?: number
+  penaltyPercent?: number
+  rawGrade?: number
   studentId?: { name?: string }
   assignmentId?: { _id?: string } | string
+  similarity?: SimilarityView
+}
+
+type LatePolicyDraft = {
+  mode: "hard_close" | "penalty" | "grace"
+  penaltyPercentPerDay: number
+  maxPenaltyPercent: number
+  graceHours: number
+}
+
+const defaultLatePolicy = (): LatePolicyDraft => ({
+  mode: "hard_close",
+  penaltyPercentPerDay: 10,
+  maxPenaltyPercent: 100,
+  graceHours: 24,
+})
+
+const describeLatePolicy = (policy?: LatePolicyDraft) => {
+  switch (policy?.mode ?? "penalty") {
+    case "penalty":
+      return policy?.penaltyPercentPerDay
+        ? `Late work accepted: -${policy.penaltyPercentPerDay}% per day (max ${policy.maxPenaltyPercent}%)`
+        : "Late work accepted without penalty"
+    case "grace":
+      return `Late work accepted for ${policy?.graceHours}h without penalty`
+    default:
+      return "Closes at the due date"
+  }
 }
 
 type AssignmentItem = {
@@ -20,6 +65,11 @@ type AssignmentItem = {
   description?: string
   dueDate: string
   fileUrl?: string
+  rubric?: RubricCriterionView[]
+  resubmissionLimit?: number
+  latePolicy?: LatePolicyDraft
+  extensions?: ExtensionItem[]
+  peerReview?: { enabled: boolean; reviewsPerSubmission: number; assignedAt?: string }
   mySubmission?: SubmissionItem
   submissions?: SubmissionItem[]
 }
@@ -38,6 +88,17 @@ export default function AssignmentSection({
   const [file, setFile] = useState<File | null>(null)
   const [uploading, setUploading] = useState(false)
   const [uploadProgress, setUploadProgress] = useState(0)
+  const [rubric, setRubric] = useState<RubricDraft>([])
+  const [resubmissionLimit, setResubmissionLimit] = useState(0)
+  const [gradingId, setGradingId] = useState<string | null>(null)
+  const [latePolicy, setLatePolicy] = useState<LatePolicyDraft>(defaultLatePolicy)
+  const [students, setStudents] = useState<CourseStudentOption[]>([])
+  const [extensionsFor, setExtensionsFor] = useState<string | null>(null)
+  const [peerReviewEnabled, setPeerReviewEnabled] = useState(false)
+  const [reviewsPerSubmission, setReviewsPerSubmission] = useState(3)
+  const [peerReviewFor, setPeerReviewFor] = useState<string | null>(null)
+  const [discussionFor, setDiscussionFor] = useState<string | null>(null)
+  const [checkingSimilarity, setCheckingSimilarity] = useState<string | null>(null)
 
   // ✅ Fetch assignments + submissions
   const fetchAssignments = useCallback(async () => {
@@ -86,6 +147,15 @@ export default function AssignmentSection({
     fetchAssignments()
   }, [fetchAssignments])
 
+  // Enrolled students, for granting extensions
+  useEffect(() => {
+    if (!isTeacher) return
+    fetch(`/api/teacher/progress/${courseId}`)
+      .then((res) => (res.ok ? res.json() : { students: [] }))
+      .then((data) => setStudents(data.students || []))
+      .catch(() => setStudents([]))
+  }, [courseId, isTeacher])
+
   // ✅ Upload file to Cloudinary
 const uploadFileToCloud = async (): Promise<string | null> => {
   if (!file) return null
@@ -144,7 +214,7 @@ const uploadFileToCloud = async (): Promise<string | null> => {
       if (file) {
         fileUrl = await uploadFileToCloud()
       }
-      await fetch("/api/assignments", {
+      const res = await fetch("/api/assignments", {
         
         method: "POST",
         headers: { "Content-Type": "application/json" },
@@ -154,14 +224,28 @@ const uploadFileToCloud = async (): Promise<string | null> => {
           description,
           dueDate,
           fileUrl,
+          rubric: rubric.map((c) => ({ ...c, description: c.description || undefined })),
+          resubmissionLimit,
+          latePolicy,
+          peerReview: { enabled: peerReviewEnabled, reviewsPerSubmission },
         }),
       })
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}))
+        toast.error(data?.error || "Failed to create assignment")
+        return
+      }
 
       setTitle("")
       setDescription("")
       setDueDate("")
       setFile(null)
       setUploadProgress(0)
+      setRubric([])
+      setResubmissionLimit(0)
+      setLatePolicy(defaultLatePolicy())
+      setPeerReviewEnabled(false)
+      setReviewsPerSubmission(3)
 
       await fetchAssignments()
     } catch (error) {
@@ -172,6 +256,22 @@ const uploadFileToCloud = async (): Promise<string | null> => {
     }
   }
 
+  const runSimilarityCheck = async (assignmentId: string) => {
+    setCheckingSimilarity(assignmentId)
+    try {
+      const res = await fetch(`/api/assignments/${assignmentId}/similarity`, { method: "POST" })
+      const data = await res.json().catch(() => ({}))
+      if (!res.ok) {
+        toast.error(data?.error || "Failed to run similarity check")
+        return
+      }
+      toast.success(`Checked ${data.checked} of ${data.total} submissions`)
+      await fetchAssignments()
+    } finally {
+      setCheckingSimilarity(null)
+    }
+  }
+
   return (
     <div className="p-6">
       <h1 className="text-xl font-semibold mb-4">Assignments</h1>
@@ -206,6 +306,95 @@ const uploadFileToCloud = async (): Promise<string | null> => {
             className="border p-2 w-full mb-2"
           />
 
+          <label className="flex items-center gap-2 text-sm mb-2">
+            Resubmissions allowed
+            <input
+              type="number"
+              min={0}
+              value={resubmissionLimit}
+              onChange={e => setResubmissionLimit(Math.max(0, Number(e.target.value)))}
+              className="border p-1 w-20"
+            />
+          </label>
+
+          <div className="flex flex-wrap items-center gap-2 text-sm mb-2">
+            <span>After the due date</span>
+            <select
+              value={latePolicy.mode}
+              onChange={e => setLatePolicy({ ...latePolicy, mode: e.target.value as LatePolicyDraft["mode"] })}
+              className="border p-1"
+            >
+              <option value="hard_close">Close submissions</option>
+              <option value="penalty">Accept with penalty</option>
+              <option value="grace">Accept during a grace window</option>
+            </select>
+            {latePolicy.mode === "penalty" && (
+              <>
+                <input
+                  type="number"
+                  min={0}
+                  max={100}
+                  value={latePolicy.penaltyPercentPerDay}
+                  onChange={e => setLatePolicy({ ...latePolicy, penaltyPercentPerDay: Number(e.target.value) })}
+                  className="border p-1 w-16"
+                />
+                <span>% per day, up to</span>
+                <input
+                  type="number"
+                  min={0}
+                  max={100}
+                  value={latePolicy.maxPenaltyPercent}
+                  onChange={e => setLatePolicy({ ...latePolicy, maxPenaltyPercent: Number(e.target.value) })}
+                  className="border p-1 w-16"
+                />
+                <span>%</span>
+              </>
+            )}
+            {latePolicy.mode === "grace" && (
+              <>
+                <input
+                  type="number"
+                  min={0}
+                  value={latePolicy.graceHours}
+                  onChange={e => setLatePolicy({ ...latePolicy, graceHours: Number(e.target.value) })}
+                  className="border p-1 w-16"
+                />
+                <span>hours</span>
+              </>
+            )}
+          </div>
+
+          <div className="mb-3">
+            <RubricEditor value={rubric} onChange={setRubric} />
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2 text-sm mb-3">
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={peerReviewEnabled}
+                onChange={e => setPeerReviewEnabled(e.target.checked)}
+              />
+              Peer review after the due date
+            </label>
+            {peerReviewEnabled && (
+              <>
+                <input
+                  type="number"
+                  min={1}
+                  max={10}
+                  value={reviewsPerSubmission}
+                  onChange={e => setReviewsPerSubmission(Math.max(1, Number(e.target.value)))}
+                  className="border p-1 w-16"
+                />
+                <span>reviewers per submission</span>
+                {rubric.length === 0 && (
+                  <span className="text-xs text-red-600">Peer review needs a rubric</span>
+                )}
+              </>
+            )}
+          </div>
+
           <Button onClick={createAssignment} disabled={uploading}>
             {uploading ? "Uploading..." : "Create Assignment"}
           </Button>
@@ -233,6 +422,9 @@ const uploadFileToCloud = async (): Promise<string | null> => {
               <p className="text-sm text-gray-600">
                 Due: {new Date(a.dueDate).toLocaleString()}
               </p>
+              {isTeacher && (
+                <p className="text-xs text-muted-foreground">{describeLatePolicy(a.latePolicy)}</p>
+              )}
 
               {a.fileUrl && (
                 <div className="mt-3 flex flex-wrap items-center gap-2 rounded border bg-muted/20 p-2">
@@ -287,6 +479,57 @@ const uploadFileToCloud = async (): Promise<string | null> => {
             )}
           </div>
 
+          {/* ⏰ Extensions */}
+          {isTeacher && (
+            <div className="mt-3">
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => setExtensionsFor(extensionsFor === a._id ? null : a._id)}
+              >
+                Extensions ({a.extensions?.length ?? 0})
+              </Button>
+              {extensionsFor === a._id && (
+                <AssignmentExtensions
+                  assignmentId={a._id}
+                  students={students}
+                  extensions={a.extensions || []}
+                  onChange={fetchAssignments}
+                />
+              )}
+            </div>
+          )}
+
+          {/* 🤝 Peer review */}
+          {isTeacher && a.peerReview?.enabled && (
+            <div className="mt-3">
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => setPeerReviewFor(peerReviewFor === a._id ? null : a._id)}
+              >
+                Peer review{a.peerReview.assignedAt ? "" : " (not assigned)"}
+              </Button>
+              {peerReviewFor === a._id && (
+                <PeerReviewTeacherPanel assignmentId={a._id} onGraded={fetchAssignments} />
+              )}
+            </div>
+          )}
+
+          {/* Q&A */}
+          {isTeacher && (
+            <div className="mt-3">
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => setDiscussionFor(discussionFor === a._id ? null : a._id)}
+              >
+                Questions &amp; answers
+              </Button>
+              {discussionFor === a._id && <LessonDiscussion lessonType="assignment" lessonId={a._id} />}
+            </div>
+          )}
+
           {/* 🏷 Badge */}
          {isTeacher && (
   <div className="mt-3">
@@ -325,7 +568,17 @@ const uploadFileToCloud = async (): Promise<string | null> => {
           {/* 👨‍🏫 Submissions */}
           {isTeacher && a.submissions?.length > 0 && (
             <div className="mt-4 border-t pt-3">
-              <h3 className="font-medium mb-2">Submissions</h3>
+              <div className="flex items-center justify-between mb-2">
+                <h3 className="font-medium">Submissions</h3>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  disabled={checkingSimilarity === a._id}
+                  onClick={() => runSimilarityCheck(a._id)}
+                >
+                  {checkingSimilarity === a._id ? "Checking..." : "Check similarity"}
+                </Button>
+              </div>
 
               {a.submissions.map((sub) => (
                 <div
@@ -353,6 +606,15 @@ const uploadFileToCloud = async (): Promise<string | null> => {
                   </div>
 
                   <div className="flex items-center gap-2">
+                    <SimilarityBadge similarity={sub.similarity} />
+                    {sub.lateStatus === "late" && (
+                      <span className="text-xs px-2 py-1 rounded bg-red-100 text-red-600">
+                        Late {sub.daysLate}d{sub.penaltyPercent ? ` (-${sub.penaltyPercent}%)` : ""}
+                      </span>
+                    )}
+                    {(sub.currentVersion ?? 1) > 1 && (
+                      <span className="text-xs text-muted-foreground">v{sub.currentVersion}</span>
+                    )}
                     <span
                       className={`text-xs px-2 py-1 rounded ${
                         sub.graded
@@ -360,26 +622,43 @@ const uploadFileToCloud = async (): Promise<string | null> => {
                           : "bg-yellow-100 text-yellow-600"
                       }`}
                     >
-                      {sub.graded ? "Graded" : "Waiting for Grade"}
+                      {sub.graded
+                        ? `Graded${typeof sub.grade === "number" ? ` — ${sub.grade}${sub.maxGrade ? `/${sub.maxGrade}` : ""}` : ""}${
+                            typeof sub.rawGrade === "number" && sub.rawGrade !== sub.grade ? ` (raw ${sub.rawGrade})` : ""
+                          }`
+                        : "Waiting for Grade"}
                     </span>
-                    {!sub.graded && (
-                      <Button
-                        size="sm"
-                        variant="outline"
-                        onClick={async () => {
-                          await fetch(`/api/submissions/${sub._id}/grade`, {
-                            method: "PATCH",
-                          })
-                          toast.success("Submission marked graded")
-                          fetchAssignments()
-                        }}
-                      >
-                        Mark Graded
-                      </Button>
-                    )}
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => setGradingId(gradingId === sub._id ? null : sub._id)}
+                    >
+                      {gradingId === sub._id ? "Close" : sub.graded ? "Edit Grade" : "Grade"}
+                    </Button>
                   </div>
                 </div>
               ))}
+              {(a.submissions || [])
+                .filter((sub) => sub._id === gradingId)
+                .map((sub) => (
+                  <div key={sub._id}>
+                    <AssignmentGradingPanel
+                      submissionId={sub._id}
+                      rubric={a.rubric || []}
+                      initialScores={sub.rubricScores}
+                      initialFeedback={sub.feedback}
+                      initialAnnotations={sub.annotations}
+                      initialGrade={sub.grade}
+                      onDone={() => {
+                        setGradingId(null)
+                        fetchAssignments()
+                      }}
+                    />
+                    <div className="mt-3">
+                      <SimilarityReport similarity={sub.similarity} />
+                    </div>
+                  </div>
+                ))}
             </div>
           )}
         </div>
@@ -1,17 +1,130 @@
 "use client"
 
 import { useState } from "react"
+import Link from "next/link"
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion"
-import { BookOpen } from "lucide-react"
+import { Progress } from "@/components/ui/progress"
+import { BookOpen, CheckCircle, ClipboardCheck, FilePen, FileText, PlayCircle, Radio } from "lucide-react"
 
 interface SyllabusWeek {
   title: string
   items: string[]
 }
 
+export type CurriculumLessonView = {
+  _id: string
+  title: string
+  type: "video" | "material" | "quiz" | "assignment" | "live_class"
+  href: string
+  detail?: string
+}
+
+export type CurriculumSectionView = {
+  _id: string
+  title: string
+  description?: string
+  lessons: CurriculumLessonView[]
+}
+
+export type SectionProgressView = {
+  sectionId: string
+  completed: number
+  total: number
+  percent: number
+}
+
 interface CourseSyllabusProps {
   syllabus: string
   formattedSyllabus?: string
+  /** Curriculum tree; when present it replaces the parsed syllabus text */
+  sections?: CurriculumSectionView[]
+  sectionProgress?: SectionProgressView[]
+  completedLessonIds?: string[]
+  /** Lessons are links only for learners who can open them */
+  canOpenLessons?: boolean
+  /** Study material and live classes are ticked off by hand */
+  onToggleLesson?: (lesson: CurriculumLessonView, completed: boolean) => void
+}
+
+const LESSON_ICONS = {
+  video: PlayCircle,
+  material: FileText,
+  quiz: ClipboardCheck,
+  assignment: FilePen,
+  live_class: Radio,
+}
+
+function CurriculumTree({
+  sections,
+  sectionProgress,
+  completedLessonIds,
+  canOpenLessons,
+  onToggleLesson,
+}: Required<Pick<CourseSyllabusProps, "sections">> & Omit<CourseSyllabusProps, "syllabus" | "formattedSyllabus" | "sections">) {
+  const completed = new Set(completedLessonIds || [])
+  const progressBySection = new Map((sectionProgress || []).map((p) => [p.sectionId, p]))
+
+  return (
+    <Accordion type="multiple" defaultValue={sections.slice(0, 1).map((s) => s._id)} className="w-full">
+      {sections.map((section, index) => {
+        const progress = progressBySection.get(section._id)
+        return (
+          <AccordionItem key={section._id} value={section._id}>
+            <AccordionTrigger className="text-left">
+              <div className="flex flex-1 items-center gap-2 pr-4">
+                <div className="bg-primary/10 text-primary rounded-full w-8 h-8 flex items-center justify-center text-sm font-medium">
+                  {index + 1}
+                </div>
+                <span className="font-medium">{section.title}</span>
+                <span className="ml-auto text-xs text-muted-foreground">
+                  {progress ? `${progress.completed}/${progress.total} done` : `${section.lessons.length} lessons`}
+                </span>
+              </div>
+            </AccordionTrigger>
+            <AccordionContent>
+              <div className="pl-10 space-y-2">
+                {section.description && <p className="text-sm text-muted-foreground">{section.description}</p>}
+                {progress && <Progress value={progress.percent} className="h-1.5" />}
+                {section.lessons.map((lesson) => {
+                  const Icon = completed.has(lesson._id) ? CheckCircle : LESSON_ICONS[lesson.type]
+                  const manual = lesson.type === "material" || lesson.type === "live_class"
+                  return (
+                    <div key={lesson._id} className="flex items-center gap-2 text-sm">
+                      <Icon
+                        className={`h-4 w-4 flex-shrink-0 ${completed.has(lesson._id) ? "text-green-500" : "text-muted-foreground"}`}
+                      />
+                      {canOpenLessons ? (
+                        <Link
+                          href={lesson.href}
+                          target={lesson.type === "material" ? "_blank" : undefined}
+                          className="hover:text-primary hover:underline"
+                        >
+                          {lesson.title}
+                        </Link>
+                      ) : (
+                        <span>{lesson.title}</span>
+                      )}
+                      {lesson.detail && <span className="text-xs text-muted-foreground">{lesson.detail}</span>}
+                      {onToggleLesson && manual && (
+                        <button
+                          type="button"
+                          className="ml-auto text-xs text-primary hover:underline"
+                          onClick={() => onToggleLesson(lesson, !completed.has(lesson._id))}
+                        >
+                          {completed.has(lesson._id) ? "Mark as not done" : "Mark as done"}
+                        </button>
+                      )}
+                    </div>
+                  )
+                })}
+                {section.lessons.length === 0 && <p className="text-sm text-muted-foreground">No lessons yet.</p>}
+              </div>
+            </AccordionContent>
+          </AccordionItem>
+        )
+      })}
+    </Accordion>
+  )
 }
 
 // Helper function to parse syllabus string into SyllabusWeek[]
@@ -50,7 +163,7 @@ function parseSyllabus(syllabus: string): SyllabusWeek[] {
   return parsedWeeks.length > 0 ? parsedWeeks : [{ title: "Course Content", items: [syllabus] }]
 }
 
-export function CourseSyllabus({ syllabus, formattedSyllabus }: CourseSyllabusProps) {
+export function CourseSyllabus({ syllabus, formattedSyllabus, sections, ...treeProps }: CourseSyllabusProps) {
   // Remove setWeeks to fix the eslint error
   const [weeks] = useState<SyllabusWeek[]>(() => {
     if (formattedSyllabus) {
@@ -105,30 +218,34 @@ export function CourseSyllabus({ syllabus, formattedSyllabus }: CourseSyllabusPr
         <h3 className="text-xl font-semibold">Course Syllabus</h3>
       </div>
 
-      <Accordion type="single" collapsible className="w-full">
-        {weeks.map((week, index) => (
-          <AccordionItem key={week.title} value={`week-${index}`}>
-            <AccordionTrigger className="text-left">
-              <div className="flex items-center gap-2">
-                <div className="bg-primary/10 text-primary rounded-full w-8 h-8 flex items-center justify-center text-sm font-medium">
-                  {index + 1}
-                </div>
-                <span className="font-medium">{week.title}</span>
-              </div>
-            </AccordionTrigger>
-            <AccordionContent>
-              <div className="pl-10 space-y-2">
-                {week.items.map((item) => (
-                  <div key={item} className="flex items-start gap-2">
-                    <div className="w-1.5 h-1.5 rounded-full bg-primary mt-2 flex-shrink-0" />
-                    <p className="text-sm text-muted-foreground">{item}</p>
+      {sections && sections.length > 0 ? (
+        <CurriculumTree sections={sections} {...treeProps} />
+      ) : (
+        <Accordion type="single" collapsible className="w-full">
+          {weeks.map((week, index) => (
+            <AccordionItem key={week.title} value={`week-${index}`}>
+              <AccordionTrigger className="text-left">
+                <div className="flex items-center gap-2">
+                  <div className="bg-primary/10 text-primary rounded-full w-8 h-8 flex items-center justify-center text-sm font-medium">
+                    {index + 1}
                   </div>
-                ))}
-              </div>
-            </AccordionContent>
-          </AccordionItem>
-        ))}
-      </Accordion>
+                  <span className="font-medium">{week.title}</span>
+                </div>
+              </AccordionTrigger>
+              <AccordionContent>
+                <div className="pl-10 space-y-2">
+                  {week.items.map((item) => (
+                    <div key={item} className="flex items-start gap-2">
+                      <div className="w-1.5 h-1.5 rounded-full bg-primary mt-2 flex-shrink-0" />
+                      <p className="text-sm text-muted-foreground">{item}</p>
+                    </div>
+                  ))}
+                </div>
+              </AccordionContent>
+            </AccordionItem>
+          ))}
+        </Accordion>
+      )}
     </div>
   )
 }
\ No newline at end of file
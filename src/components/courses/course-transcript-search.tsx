@@ -0,0 +1,85 @@
+"use client"
+
+import { useState } from "react"
+import Link from "next/link"
+import { toast } from "sonner"
+import { Loader2, Search } from "lucide-react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { formatTimestamp } from "@/lib/utils"
+
+type VideoHits = {
+  videoId: string
+  title: string
+  hits: { start: number; end: number; text: string }[]
+}
+
+/** Searches what is said across all of the course's lessons and links to each moment. */
+export default function CourseTranscriptSearch({ courseId }: { courseId: string }) {
+  const [query, setQuery] = useState("")
+  const [results, setResults] = useState<VideoHits[] | null>(null)
+  const [searching, setSearching] = useState(false)
+
+  const handleSearch = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (query.trim().length < 2) return
+    setSearching(true)
+    try {
+      const res = await fetch(`/api/courses/${courseId}/transcript-search?q=${encodeURIComponent(query.trim())}`)
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || "Search failed")
+      setResults(data.results)
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : "Search failed")
+    } finally {
+      setSearching(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Search className="h-5 w-5" />
+          Search lessons
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <form onSubmit={handleSearch} className="flex gap-2">
+          <Input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Find where a topic is mentioned"
+          />
+          <Button type="submit" disabled={searching || query.trim().length < 2}>
+            {searching ? <Loader2 className="h-4 w-4 animate-spin" /> : "Search"}
+          </Button>
+        </form>
+
+        {results &&
+          (results.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No lesson mentions that.</p>
+          ) : (
+            <div className="space-y-4">
+              {results.map((video) => (
+                <div key={video.videoId} className="space-y-1">
+                  <p className="text-sm font-medium">{video.title}</p>
+                  {video.hits.map((hit, index) => (
+                    <Link
+                      key={`${hit.start}-${index}`}
+                      href={`/courses/${courseId}/learn/${video.videoId}?t=${Math.floor(hit.start)}`}
+                      className="flex gap-3 rounded px-2 py-1 text-sm hover:bg-muted"
+                    >
+                      <span className="w-14 shrink-0 font-mono text-xs text-primary">{formatTimestamp(hit.start)}</span>
+                      <span className="text-muted-foreground">{hit.text}</span>
+                    </Link>
+                  ))}
+                </div>
+              ))}
+            </div>
+          ))}
+      </CardContent>
+    </Card>
+  )
+}
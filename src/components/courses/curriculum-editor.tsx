@@ -0,0 +1,301 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { toast } from "sonner";
+import { ArrowDown, ArrowUp, ListTree, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+
+type LessonType = "video" | "material" | "quiz" | "assignment" | "live_class";
+
+interface DraftLesson {
+  _id?: string;
+  title: string;
+  type: LessonType;
+  refId?: string;
+  materialUrl?: string;
+}
+
+interface DraftSection {
+  _id?: string;
+  title: string;
+  description?: string;
+  lessons: DraftLesson[];
+}
+
+interface ContentOption {
+  type: Exclude<LessonType, "material">;
+  refId: string;
+  title: string;
+}
+
+interface StudyMaterial {
+  name: string;
+  url: string;
+}
+
+const LESSON_TYPE_LABELS: Record<LessonType, string> = {
+  video: "Video",
+  material: "Study material",
+  quiz: "Quiz",
+  assignment: "Assignment",
+  live_class: "Live class",
+};
+
+function move<T>(list: T[], index: number, offset: number) {
+  const target = index + offset;
+  if (target < 0 || target >= list.length) return list;
+  const next = [...list];
+  [next[index], next[target]] = [next[target], next[index]];
+  return next;
+}
+
+export function CurriculumEditor({ courseId }: { courseId: string }) {
+  const router = useRouter();
+  const [sections, setSections] = useState<DraftSection[]>([]);
+  const [options, setOptions] = useState<ContentOption[]>([]);
+  const [materials, setMaterials] = useState<StudyMaterial[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    Promise.all([
+      fetch(`/api/courses/${courseId}/curriculum?options=1`).then((res) => res.json()),
+      fetch(`/api/courses/${courseId}/study-material/list`).then((res) => res.json()),
+    ])
+      .then(([curriculum, materialList]) => {
+        setOptions(curriculum.options || []);
+        setMaterials(materialList.files || []);
+        // The unstructured fallback is a preview only; start the editor from it without ids
+        setSections(
+          (curriculum.sections || []).map((s: DraftSection) => ({
+            _id: curriculum.structured ? s._id : undefined,
+            title: s.title,
+            description: s.description || "",
+            lessons: s.lessons.map((l) => ({
+              _id: curriculum.structured ? l._id : undefined,
+              title: l.title,
+              type: l.type,
+              refId: l.refId,
+              materialUrl: l.materialUrl,
+            })),
+          }))
+        );
+      })
+      .catch(() => toast.error("Failed to load curriculum"))
+      .finally(() => setLoading(false));
+  }, [courseId]);
+
+  const updateSection = (index: number, patch: Partial<DraftSection>) =>
+    setSections((prev) => prev.map((s, i) => (i === index ? { ...s, ...patch } : s)));
+
+  const updateLesson = (sectionIndex: number, lessonIndex: number, patch: Partial<DraftLesson>) =>
+    setSections((prev) =>
+      prev.map((s, i) =>
+        i === sectionIndex
+          ? { ...s, lessons: s.lessons.map((l, j) => (j === lessonIndex ? { ...l, ...patch } : l)) }
+          : s
+      )
+    );
+
+  const pickContent = (sectionIndex: number, lessonIndex: number, lesson: DraftLesson, value: string) => {
+    if (lesson.type === "material") {
+      const material = materials.find((m) => m.url === value);
+      updateLesson(sectionIndex, lessonIndex, {
+        materialUrl: value,
+        title: lesson.title || material?.name || "",
+      });
+      return;
+    }
+    const option = options.find((o) => o.type === lesson.type && o.refId === value);
+    updateLesson(sectionIndex, lessonIndex, { refId: value, title: lesson.title || option?.title || "" });
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const res = await fetch(`/api/courses/${courseId}/curriculum`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ sections }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Failed to save curriculum");
+      toast.success("Curriculum saved");
+      router.refresh();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to save curriculum");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return <p className="text-sm text-muted-foreground">Loading curriculum...</p>;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ListTree className="h-5 w-5" />
+          Curriculum
+        </CardTitle>
+        <CardDescription>
+          Group videos, study material, quizzes, assignments and live classes into ordered sections.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {sections.map((section, sectionIndex) => (
+          <div key={section._id || `new-${sectionIndex}`} className="border rounded-lg p-4 space-y-3">
+            <div className="flex items-center gap-2">
+              <Input
+                value={section.title}
+                placeholder={`Section ${sectionIndex + 1} title`}
+                onChange={(e) => updateSection(sectionIndex, { title: e.target.value })}
+              />
+              <Button
+                variant="ghost"
+                size="icon"
+                disabled={sectionIndex === 0}
+                onClick={() => setSections((prev) => move(prev, sectionIndex, -1))}
+              >
+                <ArrowUp className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                disabled={sectionIndex === sections.length - 1}
+                onClick={() => setSections((prev) => move(prev, sectionIndex, 1))}
+              >
+                <ArrowDown className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => setSections((prev) => prev.filter((_, i) => i !== sectionIndex))}
+              >
+                <Trash2 className="h-4 w-4 text-destructive" />
+              </Button>
+            </div>
+            <Textarea
+              value={section.description || ""}
+              placeholder="Description (optional)"
+              rows={2}
+              onChange={(e) => updateSection(sectionIndex, { description: e.target.value })}
+            />
+
+            <div className="space-y-2 pl-4 border-l">
+              {section.lessons.map((lesson, lessonIndex) => {
+                const choices =
+                  lesson.type === "material"
+                    ? materials.map((m) => ({ value: m.url, label: m.name }))
+                    : options.filter((o) => o.type === lesson.type).map((o) => ({ value: o.refId, label: o.title }));
+                return (
+                  <div key={lesson._id || `new-${lessonIndex}`} className="flex flex-wrap items-center gap-2">
+                    <Select
+                      value={lesson.type}
+                      onValueChange={(value) =>
+                        updateLesson(sectionIndex, lessonIndex, {
+                          type: value as LessonType,
+                          refId: undefined,
+                          materialUrl: undefined,
+                        })
+                      }
+                    >
+                      <SelectTrigger className="w-36">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(LESSON_TYPE_LABELS).map(([value, label]) => (
+                          <SelectItem key={value} value={value}>
+                            {label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Select
+                      value={(lesson.type === "material" ? lesson.materialUrl : lesson.refId) || ""}
+                      onValueChange={(value) => pickContent(sectionIndex, lessonIndex, lesson, value)}
+                    >
+                      <SelectTrigger className="w-56">
+                        <SelectValue placeholder={choices.length ? "Choose content" : "Nothing to choose yet"} />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {choices.map((choice) => (
+                          <SelectItem key={choice.value} value={choice.value}>
+                            {choice.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Input
+                      className="flex-1 min-w-40"
+                      value={lesson.title}
+                      placeholder="Lesson title"
+                      onChange={(e) => updateLesson(sectionIndex, lessonIndex, { title: e.target.value })}
+                    />
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      disabled={lessonIndex === 0}
+                      onClick={() => updateSection(sectionIndex, { lessons: move(section.lessons, lessonIndex, -1) })}
+                    >
+                      <ArrowUp className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      disabled={lessonIndex === section.lessons.length - 1}
+                      onClick={() => updateSection(sectionIndex, { lessons: move(section.lessons, lessonIndex, 1) })}
+                    >
+                      <ArrowDown className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() =>
+                        updateSection(sectionIndex, { lessons: section.lessons.filter((_, j) => j !== lessonIndex) })
+                      }
+                    >
+                      <Trash2 className="h-4 w-4 text-destructive" />
+                    </Button>
+                  </div>
+                );
+              })}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() =>
+                  updateSection(sectionIndex, {
+                    lessons: [...section.lessons, { title: "", type: "video" }],
+                  })
+                }
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                Add lesson
+              </Button>
+            </div>
+          </div>
+        ))}
+
+        <div className="flex items-center justify-between">
+          <Button
+            variant="outline"
+            onClick={() => setSections((prev) => [...prev, { title: "", description: "", lessons: [] }])}
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Add section
+          </Button>
+          <Button onClick={handleSave} disabled={saving}>
+            {saving ? "Saving..." : "Save curriculum"}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,402 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import ReactMarkdown from "react-markdown"
+import remarkGfm from "remark-gfm"
+import { toast } from "sonner"
+import { ArrowLeft, BadgeCheck, CheckCircle2, Clock, MessageSquare, ThumbsUp } from "lucide-react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Textarea } from "@/components/ui/textarea"
+import { getSocket } from "@/lib/socket-client"
+import { formatTimestamp } from "@/lib/utils"
+
+type Author = { _id: string; name: string; role: "student" | "teacher" }
+
+type Post = {
+  _id: string
+  author: Author
+  body: string
+  videoTimestamp?: number
+  upvoteCount: number
+  upvoted: boolean
+  isMine: boolean
+  createdAt: string
+}
+
+type Thread = Post & {
+  title: string
+  acceptedReply: string | null
+  replyCount: number
+  lastActivityAt: string
+}
+
+type Reply = Post & { thread: string; endorsed: boolean }
+
+type ThreadDetail = { thread: Thread; replies: Reply[]; canAccept: boolean; canEndorse: boolean }
+
+interface LessonDiscussionProps {
+  lessonType: "video" | "assignment"
+  lessonId: string
+  /** Video lessons only: lets posts reference the current playback time */
+  getCurrentTime?: () => number
+  onSeek?: (time: number) => void
+}
+
+async function postJson(url: string, body?: unknown) {
+  const res = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  })
+  const data = await res.json()
+  if (!res.ok) throw new Error(data.error || "Request failed")
+  return data
+}
+
+export default function LessonDiscussion({ lessonType, lessonId, getCurrentTime, onSeek }: LessonDiscussionProps) {
+  const [threads, setThreads] = useState<Thread[]>([])
+  const [sort, setSort] = useState<"recent" | "top">("recent")
+  const [open, setOpen] = useState<ThreadDetail | null>(null)
+  const [asking, setAsking] = useState(false)
+  const [title, setTitle] = useState("")
+  const [body, setBody] = useState("")
+  const [replyBody, setReplyBody] = useState("")
+  const [attachTime, setAttachTime] = useState(false)
+  const [posting, setPosting] = useState(false)
+
+  const fetchThreads = useCallback(async () => {
+    const res = await fetch(`/api/discussions?lessonType=${lessonType}&lessonId=${lessonId}&sort=${sort}`)
+    const data = await res.json()
+    if (!res.ok) return toast.error(data.error || "Failed to load questions")
+    setThreads(data.threads)
+  }, [lessonType, lessonId, sort])
+
+  useEffect(() => {
+    fetchThreads()
+  }, [fetchThreads])
+
+  const openThread = async (threadId: string) => {
+    const res = await fetch(`/api/discussions/${threadId}`)
+    const data = await res.json()
+    if (!res.ok) return toast.error(data.error || "Failed to load thread")
+    setOpen(data)
+    setReplyBody("")
+    setAttachTime(false)
+  }
+
+  // Replies from other participants arrive over the socket
+  useEffect(() => {
+    const socket = getSocket()
+    const handleReply = (reply: Reply) => {
+      setOpen((prev) =>
+        prev && prev.thread._id === reply.thread && !prev.replies.some((r) => r._id === reply._id)
+          ? { ...prev, replies: [...prev.replies, { ...reply, isMine: false, upvoted: false }] }
+          : prev
+      )
+      setThreads((prev) => prev.map((t) => (t._id === reply.thread ? { ...t, replyCount: t.replyCount + 1 } : t)))
+    }
+    socket.on("discussion:reply", handleReply)
+    return () => {
+      socket.off("discussion:reply", handleReply)
+    }
+  }, [])
+
+  const currentTime = () => (attachTime && getCurrentTime ? Math.floor(getCurrentTime()) : undefined)
+
+  const handleAsk = async () => {
+    setPosting(true)
+    try {
+      const data = await postJson("/api/discussions", {
+        lessonType,
+        lessonId,
+        title,
+        body,
+        videoTimestamp: currentTime(),
+      })
+      setThreads((prev) => [data.thread, ...prev])
+      setTitle("")
+      setBody("")
+      setAsking(false)
+      setAttachTime(false)
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : "Failed to post question")
+    } finally {
+      setPosting(false)
+    }
+  }
+
+  const handleReply = async () => {
+    if (!open) return
+    setPosting(true)
+    try {
+      const data = await postJson(`/api/discussions/${open.thread._id}/replies`, {
+        body: replyBody,
+        videoTimestamp: currentTime(),
+      })
+      setOpen({ ...open, replies: [...open.replies, data.reply] })
+      setThreads((prev) =>
+        prev.map((t) => (t._id === open.thread._id ? { ...t, replyCount: t.replyCount + 1 } : t))
+      )
+      setReplyBody("")
+      setAttachTime(false)
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : "Failed to post reply")
+    } finally {
+      setPosting(false)
+    }
+  }
+
+  const handleUpvoteThread = async (thread: Thread) => {
+    try {
+      const vote = await postJson(`/api/discussions/${thread._id}/upvote`)
+      const apply = (t: Thread) => (t._id === thread._id ? { ...t, ...vote } : t)
+      setThreads((prev) => prev.map(apply))
+      setOpen((prev) => prev && { ...prev, thread: apply(prev.thread) })
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : "Failed to update vote")
+    }
+  }
+
+  const handleUpvoteReply = async (reply: Reply) => {
+    if (!open) return
+    try {
+      const vote = await postJson(`/api/discussions/${open.thread._id}/replies/${reply._id}/upvote`)
+      setOpen({ ...open, replies: open.replies.map((r) => (r._id === reply._id ? { ...r, ...vote } : r)) })
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : "Failed to update vote")
+    }
+  }
+
+  const handleAccept = async (reply: Reply) => {
+    if (!open) return
+    const replyId = open.thread.acceptedReply === reply._id ? null : reply._id
+    try {
+      await postJson(`/api/discussions/${open.thread._id}/accept`, { replyId })
+      const apply = (t: Thread) => (t._id === open.thread._id ? { ...t, acceptedReply: replyId } : t)
+      setOpen({ ...open, thread: apply(open.thread) })
+      setThreads((prev) => prev.map(apply))
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : "Failed to accept answer")
+    }
+  }
+
+  const handleEndorse = async (reply: Reply) => {
+    if (!open) return
+    try {
+      const { endorsed } = await postJson(`/api/discussions/${open.thread._id}/replies/${reply._id}/endorse`)
+      setOpen({ ...open, replies: open.replies.map((r) => (r._id === reply._id ? { ...r, endorsed } : r)) })
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : "Failed to update endorsement")
+    }
+  }
+
+  const timestampLink = (time?: number) =>
+    typeof time === "number" && (
+      <button
+        type="button"
+        className="inline-flex items-center gap-1 text-xs font-medium text-primary hover:underline disabled:no-underline"
+        onClick={() => onSeek?.(time)}
+        disabled={!onSeek}
+      >
+        <Clock className="h-3 w-3" />
+        {formatTimestamp(time)}
+      </button>
+    )
+
+  const byline = (post: Post) => (
+    <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+      <span className="font-medium text-foreground">{post.author.name}</span>
+      {post.author.role === "teacher" && <Badge variant="secondary">Instructor</Badge>}
+      <span>{new Date(post.createdAt).toLocaleDateString()}</span>
+      {timestampLink(post.videoTimestamp)}
+    </div>
+  )
+
+  const upvoteButton = (post: Post, onClick: () => void) => (
+    <Button variant={post.upvoted ? "secondary" : "ghost"} size="sm" onClick={onClick} disabled={post.isMine}>
+      <ThumbsUp className="h-3 w-3 mr-1" />
+      {post.upvoteCount}
+    </Button>
+  )
+
+  const timeToggle = getCurrentTime && lessonType === "video" && (
+    <label className="flex items-center gap-2 text-xs text-muted-foreground">
+      <input type="checkbox" checked={attachTime} onChange={(e) => setAttachTime(e.target.checked)} />
+      Reference the current video time
+    </label>
+  )
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <MessageSquare className="h-5 w-5" />
+          Questions &amp; answers
+        </CardTitle>
+        {!open && (
+          <div className="flex items-center gap-2">
+            <select
+              className="rounded border bg-background px-2 py-1 text-sm"
+              value={sort}
+              onChange={(e) => setSort(e.target.value as "recent" | "top")}
+            >
+              <option value="recent">Recent</option>
+              <option value="top">Top</option>
+            </select>
+            <Button size="sm" onClick={() => setAsking((v) => !v)}>
+              {asking ? "Cancel" : "Ask a question"}
+            </Button>
+          </div>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {open ? (
+          <div className="space-y-4">
+            <Button variant="ghost" size="sm" onClick={() => setOpen(null)}>
+              <ArrowLeft className="h-4 w-4 mr-1" />
+              All questions
+            </Button>
+
+            <div className="space-y-2">
+              <div className="flex items-start justify-between gap-2">
+                <h3 className="font-semibold">{open.thread.title}</h3>
+                {upvoteButton(open.thread, () => handleUpvoteThread(open.thread))}
+              </div>
+              {byline(open.thread)}
+              <div className="prose prose-sm max-w-none">
+                <ReactMarkdown remarkPlugins={[remarkGfm]}>{open.thread.body}</ReactMarkdown>
+              </div>
+            </div>
+
+            <ul className="space-y-3">
+              {open.replies.map((reply) => {
+                const accepted = open.thread.acceptedReply === reply._id
+                return (
+                  <li
+                    key={reply._id}
+                    className={`rounded-lg border p-3 space-y-2 ${accepted ? "border-green-500 bg-green-50/50" : ""}`}
+                  >
+                    <div className="flex items-start justify-between gap-2">
+                      {byline(reply)}
+                      <div className="flex items-center gap-1">
+                        {accepted && (
+                          <Badge className="bg-green-600">
+                            <CheckCircle2 className="h-3 w-3 mr-1" />
+                            Accepted
+                          </Badge>
+                        )}
+                        {reply.endorsed && (
+                          <Badge variant="outline">
+                            <BadgeCheck className="h-3 w-3 mr-1" />
+                            Instructor endorsed
+                          </Badge>
+                        )}
+                      </div>
+                    </div>
+                    <div className="prose prose-sm max-w-none">
+                      <ReactMarkdown remarkPlugins={[remarkGfm]}>{reply.body}</ReactMarkdown>
+                    </div>
+                    <div className="flex items-center gap-1">
+                      {upvoteButton(reply, () => handleUpvoteReply(reply))}
+                      {open.canAccept && (
+                        <Button variant="ghost" size="sm" onClick={() => handleAccept(reply)}>
+                          {accepted ? "Unaccept" : "Accept answer"}
+                        </Button>
+                      )}
+                      {open.canEndorse && (
+                        <Button variant="ghost" size="sm" onClick={() => handleEndorse(reply)}>
+                          {reply.endorsed ? "Remove endorsement" : "Endorse"}
+                        </Button>
+                      )}
+                    </div>
+                  </li>
+                )
+              })}
+            </ul>
+
+            <div className="space-y-2">
+              <Textarea
+                value={replyBody}
+                placeholder="Write a reply (Markdown supported)…"
+                onChange={(e) => setReplyBody(e.target.value)}
+                rows={3}
+              />
+              <div className="flex items-center justify-between">
+                {timeToggle || <span />}
+                <Button size="sm" onClick={handleReply} disabled={posting || !replyBody.trim()}>
+                  {posting ? "Posting…" : "Reply"}
+                </Button>
+              </div>
+            </div>
+          </div>
+        ) : (
+          <>
+            {asking && (
+              <div className="space-y-2 rounded-lg border p-3">
+                <Input value={title} placeholder="Question title" onChange={(e) => setTitle(e.target.value)} />
+                <Textarea
+                  value={body}
+                  placeholder="Describe your question (Markdown supported)…"
+                  onChange={(e) => setBody(e.target.value)}
+                  rows={4}
+                />
+                <div className="flex items-center justify-between">
+                  {timeToggle || <span />}
+                  <Button size="sm" onClick={handleAsk} disabled={posting || title.trim().length < 3 || !body.trim()}>
+                    {posting ? "Posting…" : "Post question"}
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            {threads.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No questions yet. Be the first to ask.</p>
+            ) : (
+              <ul className="space-y-2">
+                {threads.map((thread) => (
+                  <li key={thread._id}>
+                    <button
+                      type="button"
+                      className="w-full rounded-lg border p-3 text-left transition-colors hover:bg-muted/50"
+                      onClick={() => openThread(thread._id)}
+                    >
+                      <div className="flex items-start justify-between gap-2">
+                        <span className="font-medium">{thread.title}</span>
+                        {thread.acceptedReply && (
+                          <Badge className="bg-green-600 shrink-0">
+                            <CheckCircle2 className="h-3 w-3 mr-1" />
+                            Answered
+                          </Badge>
+                        )}
+                      </div>
+                      <div className="mt-1 flex flex-wrap items-center gap-3 text-xs text-muted-foreground">
+                        <span>{thread.author.name}</span>
+                        <span className="flex items-center gap-1">
+                          <ThumbsUp className="h-3 w-3" />
+                          {thread.upvoteCount}
+                        </span>
+                        <span className="flex items-center gap-1">
+                          <MessageSquare className="h-3 w-3" />
+                          {thread.replyCount}
+                        </span>
+                        {typeof thread.videoTimestamp === "number" && (
+                          <span className="flex items-center gap-1">
+                            <Clock className="h-3 w-3" />
+                            {formatTimestamp(thread.videoTimestamp)}
+                          </span>
+                        )}
+                      </div>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
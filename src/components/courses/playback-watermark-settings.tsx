@@ -0,0 +1,145 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { toast } from "sonner"
+import { Loader2, Search } from "lucide-react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Slider } from "@/components/ui/slider"
+
+type Watermark = { enabled: boolean; opacity: number }
+
+type LogEntry = {
+  _id: string
+  watermarkCode: string
+  userId: string
+  name?: string
+  email?: string
+  videoTitle: string
+  ipAddress?: string
+  watchedAt: string
+}
+
+/** Student watermark settings plus a lookup from a recording's watermark code to the viewer. */
+export default function PlaybackWatermarkSettings({ courseId }: { courseId: string }) {
+  const [watermark, setWatermark] = useState<Watermark>({ enabled: true, opacity: 0.25 })
+  const [saving, setSaving] = useState(false)
+  const [code, setCode] = useState("")
+  const [logs, setLogs] = useState<LogEntry[] | null>(null)
+  const [searching, setSearching] = useState(false)
+
+  useEffect(() => {
+    fetch(`/api/courses/${courseId}/playback-settings`)
+      .then(async (res) => {
+        const data = await res.json()
+        if (!res.ok) throw new Error(data.error || "Failed to load playback settings")
+        setWatermark(data.playbackWatermark)
+      })
+      .catch((e) => toast.error(e instanceof Error ? e.message : "Failed to load playback settings"))
+  }, [courseId])
+
+  const handleSave = async () => {
+    setSaving(true)
+    try {
+      const res = await fetch(`/api/courses/${courseId}/playback-settings`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ playbackWatermark: watermark }),
+      })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || "Failed to save playback settings")
+      toast.success(data.message)
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : "Failed to save playback settings")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleLookup = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!code.trim()) return
+    setSearching(true)
+    try {
+      const res = await fetch(`/api/courses/${courseId}/playback-log?code=${encodeURIComponent(code.trim())}`)
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || "Lookup failed")
+      setLogs(data.logs)
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : "Lookup failed")
+    } finally {
+      setSearching(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Playback watermark</CardTitle>
+        <CardDescription>
+          Students see their email and a viewing code drifting over the video, so a screen recording can be traced
+          back to them.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <label className="flex items-center gap-3 text-sm">
+          <input
+            type="checkbox"
+            checked={watermark.enabled}
+            onChange={(e) => setWatermark((prev) => ({ ...prev, enabled: e.target.checked }))}
+          />
+          Show watermark to students
+        </label>
+        <div className="space-y-2">
+          <Label>Opacity ({Math.round(watermark.opacity * 100)}%)</Label>
+          <Slider
+            value={[watermark.opacity]}
+            min={0.05}
+            max={1}
+            step={0.05}
+            disabled={!watermark.enabled}
+            onValueChange={(value) => setWatermark((prev) => ({ ...prev, opacity: value[0] }))}
+          />
+        </div>
+        <div className="flex justify-end">
+          <Button onClick={handleSave} disabled={saving}>
+            {saving ? "Saving…" : "Save watermark"}
+          </Button>
+        </div>
+
+        <form onSubmit={handleLookup} className="space-y-2">
+          <Label htmlFor="watermark-code">Trace a recording</Label>
+          <div className="flex gap-2">
+            <Input
+              id="watermark-code"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              placeholder="Code shown in the watermark, e.g. 3F9A0C12"
+            />
+            <Button type="submit" variant="outline" disabled={searching || !code.trim()}>
+              {searching ? <Loader2 className="h-4 w-4 animate-spin" /> : <Search className="h-4 w-4" />}
+            </Button>
+          </div>
+        </form>
+        {logs &&
+          (logs.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No viewing matches that code.</p>
+          ) : (
+            <div className="space-y-2">
+              {logs.map((log) => (
+                <div key={log._id} className="rounded border p-2 text-sm">
+                  <p className="font-medium">{log.name ? `${log.name} (${log.email})` : log.userId}</p>
+                  <p className="text-muted-foreground">
+                    {log.videoTitle} · {new Date(log.watchedAt).toLocaleString()}
+                    {log.ipAddress && ` · ${log.ipAddress}`}
+                  </p>
+                </div>
+              ))}
+            </div>
+          ))}
+      </CardContent>
+    </Card>
+  )
+}
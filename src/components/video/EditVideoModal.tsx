@@ -12,6 +12,8 @@ import {
   DialogTrigger,
   DialogClose,
 } from "@/components/ui/dialog"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Label } from "@/components/ui/label"
 import { Loader2, X } from "lucide-react"
 import { toast } from "sonner"
 import { useRouter } from "next/navigation"
@@ -27,6 +29,29 @@ interface Video {
   height?: number
   format?: string
   fileSize?: number
+  course?: string
+  release?: { mode: ReleaseMode; date?: string; daysAfterEnrollment?: number }
+  prerequisites?: Prerequisite[]
+}
+
+type ReleaseMode = "immediate" | "date" | "after_enrollment"
+
+interface Prerequisite {
+  type: "video" | "quiz"
+  refId: string
+}
+
+interface ContentOption {
+  type: string
+  refId: string
+  title: string
+}
+
+// datetime-local inputs want local time without a zone suffix
+function toLocalInput(iso?: string) {
+  if (!iso) return ""
+  const date = new Date(iso)
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16)
 }
 
 
@@ -40,14 +65,41 @@ export default function EditVideoModal({ video }: EditVideoModalProps) {
   const [description, setDescription] = useState(video.description || "")
   const [videoFile, setVideoFile] = useState<File | null>(null)
   const [loading, setLoading] = useState(false)
+  const [releaseMode, setReleaseMode] = useState<ReleaseMode>(video.release?.mode || "immediate")
+  const [releaseDate, setReleaseDate] = useState(toLocalInput(video.release?.date))
+  const [releaseDays, setReleaseDays] = useState(String(video.release?.daysAfterEnrollment ?? 7))
+  const [prerequisites, setPrerequisites] = useState<Prerequisite[]>(video.prerequisites || [])
+  const [options, setOptions] = useState<ContentOption[]>([])
   const router = useRouter()
 
   // Update state if video changes dynamically
   useEffect(() => {
     setTitle(video.title)
     setDescription(video.description || "")
+    setReleaseMode(video.release?.mode || "immediate")
+    setReleaseDate(toLocalInput(video.release?.date))
+    setReleaseDays(String(video.release?.daysAfterEnrollment ?? 7))
+    setPrerequisites(video.prerequisites || [])
   }, [video])
 
+  // Other videos and quizzes of the course that can gate this one
+  useEffect(() => {
+    if (!open || !video.course) return
+    fetch(`/api/courses/${video.course}/curriculum?options=1`)
+      .then((res) => res.json())
+      .then((data) =>
+        setOptions(
+          (data.options || []).filter(
+            (o: ContentOption) => (o.type === "video" && o.refId !== video._id) || o.type === "quiz"
+          )
+        )
+      )
+      .catch(() => setOptions([]))
+  }, [open, video.course, video._id])
+
+  const optionTitle = (p: Prerequisite) =>
+    options.find((o) => o.type === p.type && o.refId === p.refId)?.title || (p.type === "quiz" ? "Quiz" : "Video")
+
   // Upload to Cloudinary
   const uploadToCloudinary = async (file: File) => {
     const formData = new FormData()
@@ -103,10 +155,19 @@ export default function EditVideoModal({ video }: EditVideoModalProps) {
           videoUrl: newUrl,
           publicId: newPublicId,
           ...metadata,
+          release: {
+            mode: releaseMode,
+            date: releaseMode === "date" && releaseDate ? new Date(releaseDate).toISOString() : undefined,
+            daysAfterEnrollment: releaseMode === "after_enrollment" ? Number(releaseDays) || 0 : undefined,
+          },
+          prerequisites,
         }),
       })
 
-      if (!res.ok) throw new Error("Failed to update video")
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}))
+        throw new Error(data.error || "Failed to update video")
+      }
       toast.success("Video updated successfully")
       router.refresh()
       setOpen(false)
@@ -167,6 +228,70 @@ export default function EditVideoModal({ video }: EditVideoModalProps) {
               setVideoFile(e.target.files ? e.target.files[0] : null)
             }
           />
+
+          <div className="space-y-2">
+            <Label>Release</Label>
+            <Select value={releaseMode} onValueChange={(value) => setReleaseMode(value as ReleaseMode)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="immediate">Available immediately</SelectItem>
+                <SelectItem value="date">On a fixed date</SelectItem>
+                <SelectItem value="after_enrollment">Days after enrollment</SelectItem>
+              </SelectContent>
+            </Select>
+            {releaseMode === "date" && (
+              <Input type="datetime-local" value={releaseDate} onChange={(e) => setReleaseDate(e.target.value)} />
+            )}
+            {releaseMode === "after_enrollment" && (
+              <Input
+                type="number"
+                min={0}
+                value={releaseDays}
+                onChange={(e) => setReleaseDays(e.target.value)}
+                placeholder="Days after enrollment"
+              />
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label>Prerequisites</Label>
+            {prerequisites.map((p) => (
+              <div key={`${p.type}-${p.refId}`} className="flex items-center justify-between text-sm border rounded px-2 py-1">
+                <span>
+                  {p.type === "quiz" ? "Pass" : "Watch"} &ldquo;{optionTitle(p)}&rdquo;
+                </span>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => setPrerequisites((prev) => prev.filter((x) => x !== p))}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <Select
+              value=""
+              onValueChange={(value) => {
+                const [type, refId] = value.split(":") as [Prerequisite["type"], string]
+                setPrerequisites((prev) =>
+                  prev.some((p) => p.type === type && p.refId === refId) ? prev : [...prev, { type, refId }]
+                )
+              }}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Add a prerequisite" />
+              </SelectTrigger>
+              <SelectContent>
+                {options.map((o) => (
+                  <SelectItem key={`${o.type}:${o.refId}`} value={`${o.type}:${o.refId}`}>
+                    {o.type === "quiz" ? "Pass quiz" : "Watch"}: {o.title}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
           <div className="flex gap-2 justify-end mt-4">
             <Button variant="outline" onClick={handleDelete} disabled={loading}>
               Delete
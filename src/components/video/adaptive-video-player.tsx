@@ -1,16 +1,121 @@
 'use client'
 
-import React, { useRef, useEffect, useState } from 'react'
+import React, { useRef, useEffect, useState, useImperativeHandle } from 'react'
 import Hls from 'hls.js'
 import { Button } from '@/components/ui/button'
 import { Slider } from '@/components/ui/slider'
-import { Play, Pause, Volume2, VolumeX, Settings, Maximize } from 'lucide-react'
+import { Play, Pause, Volume2, VolumeX, Settings, Maximize, Captions } from 'lucide-react'
 import {
   DropdownMenu,
   DropdownMenuContent,
   DropdownMenuItem,
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu'
+import VideoQuestionOverlay, {
+  type PlayerQuestion,
+  type QuestionAnswerResult,
+} from '@/components/video/video-question-overlay'
+
+export interface PlaybackHeartbeat {
+  /** Ranges played continuously since the previous heartbeat; seeks start a new range */
+  segments: { start: number; end: number }[]
+  position: number
+  duration: number
+}
+
+/**
+ * Delivery quality of one player session (one load of one source). Totals are
+ * running totals for the session; `fatalErrors` only lists errors since the last report.
+ */
+export interface PlaybackQualityReport {
+  sessionId: string
+  delivery: 'hls' | 'native_hls' | 'progressive'
+  /** From pressing play to the first frame; null until playback has started */
+  startupMs: number | null
+  watchMs: number
+  /** Stalls after startup; buffering caused by seeking doesn't count */
+  rebufferMs: number
+  rebufferCount: number
+  bitrateSwitches: number
+  /** Bitrate of the rendition playing, in bits per second */
+  bitrate: number | null
+  fatalErrors: { type: string; details: string }[]
+}
+
+type QualityCollector = {
+  report: Omit<PlaybackQualityReport, 'fatalErrors'>
+  errors: PlaybackQualityReport['fatalErrors']
+  playRequestedAt: number | null
+  playingSince: number | null
+  stalledSince: number | null
+  changed: boolean
+}
+
+function deliveryFor(src: string): PlaybackQualityReport['delivery'] {
+  if (!/\.m3u8(\?|$)/.test(src)) return 'progressive'
+  return Hls.isSupported() ? 'hls' : 'native_hls'
+}
+
+function newSessionId() {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') return crypto.randomUUID()
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 12)}`
+}
+
+function noteFatalError(quality: QualityCollector | null, type: string, details: string) {
+  if (!quality) return
+  quality.errors.push({ type, details: details.slice(0, 200) })
+  quality.changed = true
+}
+
+/** Imperative controls for callers that drive playback, e.g. jumping to a note */
+export interface AdaptiveVideoPlayerHandle {
+  seek: (time: number) => void
+  getCurrentTime: () => number
+}
+
+export interface CaptionTrackSource {
+  src: string // WebVTT URL
+  srcLang: string
+  label: string
+  default?: boolean
+}
+
+export interface PlayerChapter {
+  title: string
+  start: number // seconds
+}
+
+type SpriteTile = { url: string; x: number; y: number; w: number; h: number }
+
+/** Viewer-identifying text drawn over the picture to discourage screen recording */
+export interface PlaybackWatermark {
+  text: string
+  opacity: number // 0-1
+}
+
+const WATERMARK_MOVE_MS = 15000
+
+// Jumps to a random spot inside the frame so it can't simply be cropped or blurred out
+function MovingWatermark({ text, opacity }: PlaybackWatermark) {
+  const [position, setPosition] = useState({ top: 10, left: 10 })
+
+  useEffect(() => {
+    const move = () => setPosition({ top: 5 + Math.random() * 80, left: 5 + Math.random() * 60 })
+    move()
+    const timer = window.setInterval(move, WATERMARK_MOVE_MS)
+    return () => window.clearInterval(timer)
+  }, [])
+
+  return (
+    <div
+      aria-hidden
+      className="pointer-events-none select-none absolute z-10 whitespace-nowrap text-sm font-medium text-white transition-all duration-1000"
+      style={{ top: `${position.top}%`, left: `${position.left}%`, opacity, textShadow: '0 0 2px rgba(0,0,0,0.8)' }}
+    >
+      {text}
+    </div>
+  )
+}
 
 interface AdaptiveVideoPlayerProps {
   src: string // HLS master playlist URL
@@ -22,6 +127,21 @@ interface AdaptiveVideoPlayerProps {
   onTimeUpdate?: (currentTime: number) => void
   onDurationChange?: (duration: number) => void
   onEnded?: () => void
+  onHeartbeat?: (beat: PlaybackHeartbeat, options: { keepalive: boolean }) => void
+  heartbeatIntervalMs?: number
+  onQualityReport?: (report: PlaybackQualityReport, options: { keepalive: boolean }) => void
+  qualityReportIntervalMs?: number
+  /** Position in seconds to start from once the video has loaded */
+  startTime?: number
+  ref?: React.Ref<AdaptiveVideoPlayerHandle>
+  captions?: CaptionTrackSource[]
+  watermark?: PlaybackWatermark | null
+  chapters?: PlayerChapter[]
+  /** WebVTT track of sprite-sheet tiles (`sprite.jpg#xywh=x,y,w,h`) for seek bar previews */
+  thumbnailTrack?: string
+  /** Questions still waiting for an answer; playback stops at each until it is answered */
+  questions?: PlayerQuestion[]
+  onAnswerQuestion?: (questionId: string, answer: unknown) => Promise<QuestionAnswerResult>
 }
 
 export default function AdaptiveVideoPlayer({
@@ -34,7 +154,20 @@ export default function AdaptiveVideoPlayer({
   onTimeUpdate,
   onDurationChange,
   onEnded,
+  onHeartbeat,
+  heartbeatIntervalMs = 15000,
+  onQualityReport,
+  qualityReportIntervalMs = 30000,
+  startTime = 0,
+  ref,
+  captions = [],
+  watermark,
+  chapters = [],
+  thumbnailTrack,
+  questions = [],
+  onAnswerQuestion,
 }: AdaptiveVideoPlayerProps) {
+  const containerRef = useRef<HTMLDivElement>(null)
   const videoRef = useRef<HTMLVideoElement>(null)
   const hlsRef = useRef<Hls | null>(null)
   const [isPlaying, setIsPlaying] = useState(false)
@@ -50,9 +183,32 @@ export default function AdaptiveVideoPlayer({
     name: string
   }>>([])
   const [currentQuality, setCurrentQuality] = useState<number>(-1) // -1 for auto
+  const [textTracks, setTextTracks] = useState<Array<{ index: number; label: string; language: string }>>([])
+  const [activeTextTrack, setActiveTextTrack] = useState<number>(-1) // -1 for off
   const [showControls, setShowControls] = useState(true)
   const [loading, setLoading] = useState(true)
+  const thumbnailTrackRef = useRef<HTMLTrackElement>(null)
+  const [activeQuestion, setActiveQuestion] = useState<PlayerQuestion | null>(null)
+  // Last playhead position the question check has seen
+  const questionClockRef = useRef(0)
+  const [seekPreview, setSeekPreview] = useState<{ left: number; time: number; tile: SpriteTile | null } | null>(null)
   const [error, setError] = useState<string | null>(null)
+  const onHeartbeatRef = useRef(onHeartbeat)
+  onHeartbeatRef.current = onHeartbeat
+  const onQualityReportRef = useRef(onQualityReport)
+  onQualityReportRef.current = onQualityReport
+  const qualityRef = useRef<QualityCollector | null>(null)
+  const startTimeRef = useRef(startTime)
+  startTimeRef.current = startTime
+
+  useImperativeHandle(ref, () => ({
+    seek: (time: number) => {
+      const video = videoRef.current
+      if (!video) return
+      video.currentTime = Math.max(0, Number.isFinite(video.duration) ? Math.min(time, video.duration) : time)
+    },
+    getCurrentTime: () => videoRef.current?.currentTime ?? 0,
+  }), [])
 
  useEffect(() => {
   const video = videoRef.current
@@ -61,10 +217,12 @@ export default function AdaptiveVideoPlayer({
   setLoading(true)
   setError(null)
 
-  // ✅ ONLY use HLS for .m3u8
-  if (src.endsWith(".m3u8")) {
+  // ✅ ONLY use HLS for .m3u8 (signed playback URLs carry a ?token= query)
+  if (/\.m3u8(\?|$)/.test(src)) {
     if (Hls.isSupported()) {
-      const hls = new Hls()
+      // Subtitle renditions in the manifest become native text tracks, so the
+      // captions menu lists them next to side-loaded <track> files
+      const hls = new Hls({ renderTextTracksNatively: true })
 
       hls.loadSource(src)
       hls.attachMedia(video)
@@ -75,9 +233,19 @@ export default function AdaptiveVideoPlayer({
         if (autoPlay) video.play().catch(console.error)
       })
 
+      // The first switch is the initial rendition being picked, not a change
+      hls.on(Hls.Events.LEVEL_SWITCHED, (_event, data) => {
+        const quality = qualityRef.current
+        if (!quality) return
+        if (quality.report.bitrate !== null) quality.report.bitrateSwitches++
+        quality.report.bitrate = hls.levels[data.level]?.bitrate ?? null
+        quality.changed = true
+      })
+
       hls.on(Hls.Events.ERROR, (event, data) => {
         console.error("HLS Error:", data)
         if (data.fatal) {
+          noteFatalError(qualityRef.current, data.type, data.details)
           setError("Video streaming error")
           hls.destroy()
         }
@@ -144,6 +312,282 @@ export default function AdaptiveVideoPlayer({
     }
   }, [onTimeUpdate, onDurationChange, onEnded])
 
+  // Mirror the element's subtitle tracks (side-loaded and from HLS) for the captions menu
+  useEffect(() => {
+    const video = videoRef.current
+    if (!video) return
+
+    const syncTracks = () => {
+      const tracks = Array.from(video.textTracks)
+      const listed = tracks
+        .map((track, index) => ({ track, index }))
+        .filter(({ track }) => track.kind === 'subtitles' || track.kind === 'captions')
+      setTextTracks(listed.map(({ track, index }) => ({
+        index,
+        label: track.label || track.language || `Track ${index + 1}`,
+        language: track.language,
+      })))
+      setActiveTextTrack(listed.find(({ track }) => track.mode === 'showing')?.index ?? -1)
+    }
+
+    syncTracks()
+    video.textTracks.addEventListener('addtrack', syncTracks)
+    video.textTracks.addEventListener('removetrack', syncTracks)
+    video.textTracks.addEventListener('change', syncTracks)
+    return () => {
+      video.textTracks.removeEventListener('addtrack', syncTracks)
+      video.textTracks.removeEventListener('removetrack', syncTracks)
+      video.textTracks.removeEventListener('change', syncTracks)
+    }
+  }, [src])
+
+  // Resume from the saved position once per source, unless it is right at the end
+  useEffect(() => {
+    const video = videoRef.current
+    if (!video) return
+
+    const seekToStart = () => {
+      const start = startTimeRef.current
+      if (start > 0 && (!Number.isFinite(video.duration) || start < video.duration - 5)) {
+        video.currentTime = start
+        // Resuming doesn't replay questions before the saved position
+        questionClockRef.current = start
+      }
+    }
+
+    if (video.readyState >= 1) {
+      seekToStart()
+      return
+    }
+    video.addEventListener('loadedmetadata', seekToStart, { once: true })
+    return () => video.removeEventListener('loadedmetadata', seekToStart)
+  }, [src])
+
+  // Stop at the first pending question the playhead reaches, including by seeking past it
+  useEffect(() => {
+    const video = videoRef.current
+    if (!video || questions.length === 0 || !onAnswerQuestion) return
+
+    const handleTimeUpdate = () => {
+      const previous = questionClockRef.current
+      const now = video.currentTime
+      questionClockRef.current = now
+      if (now <= previous) return
+      const due = questions.find((q) => q.at > previous && q.at <= now)
+      if (!due) return
+      video.pause()
+      video.currentTime = due.at
+      questionClockRef.current = due.at
+      setActiveQuestion(due)
+    }
+
+    video.addEventListener('timeupdate', handleTimeUpdate)
+    return () => video.removeEventListener('timeupdate', handleTimeUpdate)
+  }, [questions, onAnswerQuestion])
+
+  const continueAfterQuestion = () => {
+    setActiveQuestion(null)
+    videoRef.current?.play().catch(console.error)
+  }
+
+  // Heartbeats: collect what was actually played, not where the playhead ended up
+  useEffect(() => {
+    const video = videoRef.current
+    if (!video) return
+
+    let segmentStart: number | null = null
+    let lastTime = video.currentTime
+    let pending: PlaybackHeartbeat['segments'] = []
+
+    const closeSegment = (end: number) => {
+      if (segmentStart !== null && end > segmentStart) {
+        pending.push({ start: segmentStart, end })
+      }
+      segmentStart = null
+    }
+
+    const emit = (keepalive: boolean) => {
+      if (pending.length === 0) return
+      const duration = Number.isFinite(video.duration) ? video.duration : 0
+      if (duration > 0) {
+        onHeartbeatRef.current?.({ segments: pending, position: video.currentTime, duration }, { keepalive })
+      }
+      pending = []
+    }
+
+    const handleTimeUpdate = () => {
+      const t = video.currentTime
+      if (!video.paused && !video.seeking) {
+        const delta = t - lastTime
+        // timeupdate fires a few times a second; a larger jump is a seek
+        const continuous = delta >= 0 && delta <= 2 * Math.max(1, video.playbackRate)
+        if (segmentStart === null) {
+          segmentStart = t
+        } else if (!continuous) {
+          closeSegment(lastTime)
+          segmentStart = t
+        }
+      }
+      lastTime = t
+    }
+
+    const handleSeeking = () => closeSegment(lastTime)
+    const handlePause = () => {
+      closeSegment(video.currentTime)
+      emit(false)
+    }
+    const handleEnded = () => {
+      closeSegment(video.duration)
+      emit(false)
+    }
+    const flushNow = (keepalive: boolean) => {
+      if (segmentStart !== null) {
+        const t = video.currentTime
+        closeSegment(t)
+        if (!video.paused) segmentStart = t
+      }
+      emit(keepalive)
+    }
+    const handleVisibility = () => {
+      if (document.visibilityState === 'hidden') flushNow(true)
+    }
+    const handlePageHide = () => flushNow(true)
+
+    const timer = window.setInterval(() => flushNow(false), heartbeatIntervalMs)
+    video.addEventListener('timeupdate', handleTimeUpdate)
+    video.addEventListener('seeking', handleSeeking)
+    video.addEventListener('pause', handlePause)
+    video.addEventListener('ended', handleEnded)
+    document.addEventListener('visibilitychange', handleVisibility)
+    window.addEventListener('pagehide', handlePageHide)
+
+    return () => {
+      flushNow(true)
+      window.clearInterval(timer)
+      video.removeEventListener('timeupdate', handleTimeUpdate)
+      video.removeEventListener('seeking', handleSeeking)
+      video.removeEventListener('pause', handlePause)
+      video.removeEventListener('ended', handleEnded)
+      document.removeEventListener('visibilitychange', handleVisibility)
+      window.removeEventListener('pagehide', handlePageHide)
+    }
+  }, [src, heartbeatIntervalMs])
+
+  // Quality of experience: startup time, stalls and bitrate, reported as running totals
+  useEffect(() => {
+    const video = videoRef.current
+    if (!video) return
+
+    const quality: QualityCollector = {
+      report: {
+        sessionId: newSessionId(),
+        delivery: deliveryFor(src),
+        startupMs: null,
+        watchMs: 0,
+        rebufferMs: 0,
+        rebufferCount: 0,
+        bitrateSwitches: 0,
+        bitrate: null,
+      },
+      errors: [],
+      playRequestedAt: null,
+      playingSince: null,
+      stalledSince: null,
+      changed: false,
+    }
+    qualityRef.current = quality
+
+    // Adds the time since the running clocks started; they restart at `restartAt` if given
+    const settle = (now: number, restartAt: number | null = null) => {
+      if (quality.playingSince !== null) {
+        quality.report.watchMs += now - quality.playingSince
+        quality.playingSince = restartAt
+        quality.changed = true
+      }
+      if (quality.stalledSince !== null) {
+        quality.report.rebufferMs += now - quality.stalledSince
+        quality.stalledSince = restartAt
+        quality.changed = true
+      }
+    }
+
+    const handlePlay = () => {
+      if (quality.playRequestedAt !== null) return
+      quality.playRequestedAt = performance.now()
+      quality.changed = true
+    }
+    const handlePlaying = () => {
+      const now = performance.now()
+      settle(now)
+      if (quality.report.startupMs === null && quality.playRequestedAt !== null) {
+        quality.report.startupMs = Math.round(now - quality.playRequestedAt)
+      }
+      quality.playingSince = now
+      quality.changed = true
+    }
+    const handleWaiting = () => {
+      const now = performance.now()
+      settle(now)
+      // Waiting before the first frame is startup, and waiting after a seek is expected
+      if (quality.report.startupMs !== null && !video.seeking) {
+        quality.stalledSince = now
+        quality.report.rebufferCount++
+      }
+    }
+    const handleStop = () => settle(performance.now())
+    const handleError = () => {
+      // hls.js reports its own fatal errors
+      if (quality.report.delivery === 'hls') return
+      noteFatalError(quality, 'mediaError', video.error?.message || `code ${video.error?.code ?? 'unknown'}`)
+    }
+
+    const emit = (keepalive: boolean) => {
+      const now = performance.now()
+      settle(now, now)
+      // Nothing to say about a video that was never played and never failed
+      if (!quality.changed || (quality.playRequestedAt === null && quality.errors.length === 0)) return
+      onQualityReportRef.current?.(
+        {
+          ...quality.report,
+          watchMs: Math.round(quality.report.watchMs),
+          rebufferMs: Math.round(quality.report.rebufferMs),
+          fatalErrors: quality.errors,
+        },
+        { keepalive }
+      )
+      quality.errors = []
+      quality.changed = false
+    }
+    const handleVisibility = () => {
+      if (document.visibilityState === 'hidden') emit(true)
+    }
+    const handlePageHide = () => emit(true)
+
+    const timer = window.setInterval(() => emit(false), qualityReportIntervalMs)
+    video.addEventListener('play', handlePlay)
+    video.addEventListener('playing', handlePlaying)
+    video.addEventListener('waiting', handleWaiting)
+    video.addEventListener('pause', handleStop)
+    video.addEventListener('ended', handleStop)
+    video.addEventListener('error', handleError)
+    document.addEventListener('visibilitychange', handleVisibility)
+    window.addEventListener('pagehide', handlePageHide)
+
+    return () => {
+      emit(true)
+      if (qualityRef.current === quality) qualityRef.current = null
+      window.clearInterval(timer)
+      video.removeEventListener('play', handlePlay)
+      video.removeEventListener('playing', handlePlaying)
+      video.removeEventListener('waiting', handleWaiting)
+      video.removeEventListener('pause', handleStop)
+      video.removeEventListener('ended', handleStop)
+      video.removeEventListener('error', handleError)
+      document.removeEventListener('visibilitychange', handleVisibility)
+      window.removeEventListener('pagehide', handlePageHide)
+    }
+  }, [src, qualityReportIntervalMs])
+
   const togglePlay = () => {
     const video = videoRef.current
     if (!video) return
@@ -189,13 +633,31 @@ export default function AdaptiveVideoPlayer({
     setCurrentQuality(level)
   }
 
-  const toggleFullscreen = () => {
+  const changeTextTrack = (index: number) => {
     const video = videoRef.current
     if (!video) return
 
+    Array.from(video.textTracks).forEach((track, i) => {
+      if (track.kind !== 'subtitles' && track.kind !== 'captions') return
+      track.mode = i === index ? 'showing' : 'disabled'
+    })
+    setActiveTextTrack(index)
+  }
+
+  // Fullscreen the whole player rather than the <video> so overlays stay on screen
+  useEffect(() => {
+    const handleChange = () => setIsFullscreen(document.fullscreenElement === containerRef.current)
+    document.addEventListener('fullscreenchange', handleChange)
+    return () => document.removeEventListener('fullscreenchange', handleChange)
+  }, [])
+
+  const toggleFullscreen = () => {
+    const container = containerRef.current
+    if (!container) return
+
     if (!isFullscreen) {
-      if (video.requestFullscreen) {
-        video.requestFullscreen()
+      if (container.requestFullscreen) {
+        container.requestFullscreen()
       }
     } else {
       if (document.exitFullscreen) {
@@ -204,12 +666,52 @@ export default function AdaptiveVideoPlayer({
     }
   }
 
+  // Metadata tracks only load their cues once they are at least hidden
+  useEffect(() => {
+    const track = thumbnailTrackRef.current?.track
+    if (track) track.mode = 'hidden'
+  }, [thumbnailTrack])
+
+  const spriteTileAt = (time: number): SpriteTile | null => {
+    const element = thumbnailTrackRef.current
+    const cues = element?.track.cues
+    if (!element || !cues) return null
+    for (let i = 0; i < cues.length; i++) {
+      const cue = cues[i] as VTTCue
+      if (time < cue.startTime || time >= cue.endTime) continue
+      const [file, hash = ''] = cue.text.trim().split('#xywh=')
+      const [x, y, w, h] = hash.split(',').map(Number)
+      if (![x, y, w, h].every(Number.isFinite)) return null
+      // Tile paths are relative to the track file
+      return { url: new URL(file, element.src).toString(), x, y, w, h }
+    }
+    return null
+  }
+
+  const handleSeekHover = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (!duration) return
+    const rect = e.currentTarget.getBoundingClientRect()
+    const ratio = Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width))
+    const time = ratio * duration
+    setSeekPreview({ left: ratio * 100, time, tile: spriteTileAt(time) })
+  }
+
+  const chapterAt = (time: number) => {
+    let current: PlayerChapter | undefined
+    for (const chapter of chapters) {
+      if (chapter.start <= time) current = chapter
+    }
+    return current
+  }
+
   const formatTime = (time: number) => {
     const minutes = Math.floor(time / 60)
     const seconds = Math.floor(time % 60)
     return `${minutes}:${seconds.toString().padStart(2, '0')}`
   }
 
+  const hoverChapter = seekPreview ? chapterAt(seekPreview.time) : undefined
+
   if (error) {
     return (
       <div className={`relative bg-black rounded-lg overflow-hidden ${className}`}>
@@ -225,6 +727,7 @@ export default function AdaptiveVideoPlayer({
 
   return (
     <div 
+      ref={containerRef}
       className={`relative bg-black rounded-lg overflow-hidden group ${className}`}
       onMouseEnter={() => setShowControls(true)}
       onMouseLeave={() => setShowControls(false)}
@@ -236,7 +739,30 @@ export default function AdaptiveVideoPlayer({
         preload="metadata"
         playsInline
         onClick={togglePlay}
-      />
+      >
+        {captions.map((track) => (
+          <track
+            key={track.srcLang}
+            kind="subtitles"
+            src={track.src}
+            srcLang={track.srcLang}
+            label={track.label}
+            default={track.default}
+          />
+        ))}
+        {thumbnailTrack && <track ref={thumbnailTrackRef} kind="metadata" src={thumbnailTrack} />}
+      </video>
+
+      {watermark && <MovingWatermark text={watermark.text} opacity={watermark.opacity} />}
+
+      {activeQuestion && onAnswerQuestion && (
+        <VideoQuestionOverlay
+          key={activeQuestion._id}
+          question={activeQuestion}
+          onAnswer={(answer) => onAnswerQuestion(activeQuestion._id, answer)}
+          onContinue={continueAfterQuestion}
+        />
+      )}
 
       {loading && (
         <div className="absolute inset-0 flex items-center justify-center bg-black bg-opacity-50">
@@ -252,13 +778,47 @@ export default function AdaptiveVideoPlayer({
         >
           {/* Progress Bar */}
           <div className="mb-4">
-            <Slider
-              value={[currentTime]}
-              max={duration || 100}
-              step={1}
-              onValueChange={handleSeek}
-              className="w-full"
-            />
+            <div className="relative" onMouseMove={handleSeekHover} onMouseLeave={() => setSeekPreview(null)}>
+              <Slider
+                value={[currentTime]}
+                max={duration || 100}
+                step={1}
+                onValueChange={handleSeek}
+                className="w-full"
+              />
+              {duration > 0 &&
+                chapters
+                  .filter((chapter) => chapter.start > 0 && chapter.start < duration)
+                  .map((chapter) => (
+                    <span
+                      key={chapter.start}
+                      className="pointer-events-none absolute top-1/2 h-2 w-0.5 -translate-y-1/2 bg-white/80"
+                      style={{ left: `${(chapter.start / duration) * 100}%` }}
+                    />
+                  ))}
+              {seekPreview && (
+                <div
+                  className="pointer-events-none absolute bottom-full mb-3 flex -translate-x-1/2 flex-col items-center gap-1"
+                  style={{ left: `${seekPreview.left}%` }}
+                >
+                  {seekPreview.tile && (
+                    <div
+                      className="rounded border border-white/60 bg-black"
+                      style={{
+                        width: seekPreview.tile.w,
+                        height: seekPreview.tile.h,
+                        backgroundImage: `url(${seekPreview.tile.url})`,
+                        backgroundPosition: `-${seekPreview.tile.x}px -${seekPreview.tile.y}px`,
+                      }}
+                    />
+                  )}
+                  <span className="whitespace-nowrap rounded bg-black/80 px-1.5 py-0.5 text-xs text-white">
+                    {hoverChapter && `${hoverChapter.title} · `}
+                    {formatTime(seekPreview.time)}
+                  </span>
+                </div>
+              )}
+            </div>
             <div className="flex justify-between text-xs text-white mt-1">
               <span>{formatTime(currentTime)}</span>
               <span>{formatTime(duration)}</span>
@@ -305,6 +865,35 @@ export default function AdaptiveVideoPlayer({
             </div>
 
             <div className="flex items-center space-x-2">
+              {/* Captions */}
+              {textTracks.length > 0 && (
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className={`text-white hover:bg-white/20 ${activeTextTrack !== -1 ? 'bg-white/20' : ''}`}
+                      aria-label="Captions"
+                    >
+                      <Captions size={20} />
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent>
+                    <DropdownMenuItem onClick={() => changeTextTrack(-1)}>
+                      Off {activeTextTrack === -1 && '✓'}
+                    </DropdownMenuItem>
+                    {textTracks.map((track) => (
+                      <DropdownMenuItem
+                        key={track.index}
+                        onClick={() => changeTextTrack(track.index)}
+                      >
+                        {track.label} {activeTextTrack === track.index && '✓'}
+                      </DropdownMenuItem>
+                    ))}
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              )}
+
               {/* Quality Settings */}
               {availableQualities.length > 0 && (
                 <DropdownMenu>
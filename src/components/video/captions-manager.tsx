@@ -0,0 +1,308 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Textarea } from "@/components/ui/textarea"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog"
+import { Loader2, Plus, Trash2 } from "lucide-react"
+import { toast } from "sonner"
+import { formatTimestamp } from "@/lib/utils"
+
+interface CaptionTrack {
+  language: string
+  label: string
+  isDefault: boolean
+  cueCount: number
+  src: string
+}
+
+interface Cue {
+  start: number
+  end: number
+  text: string
+}
+
+interface CaptionsManagerProps {
+  videoId: string
+  videoTitle: string
+}
+
+function CueEditor({
+  videoId,
+  track,
+  onClose,
+  onSaved,
+}: {
+  videoId: string
+  track: CaptionTrack
+  onClose: () => void
+  onSaved: (tracks: CaptionTrack[]) => void
+}) {
+  const [cues, setCues] = useState<Cue[] | null>(null)
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    fetch(`/api/videos/${videoId}/captions/${track.language}?format=json`)
+      .then(async (res) => {
+        const data = await res.json()
+        if (!res.ok) throw new Error(data.error || "Failed to load cues")
+        setCues(data.track.cues)
+      })
+      .catch((e) => toast.error(e instanceof Error ? e.message : "Failed to load cues"))
+  }, [videoId, track.language])
+
+  const updateCue = (index: number, patch: Partial<Cue>) =>
+    setCues((prev) => prev && prev.map((cue, i) => (i === index ? { ...cue, ...patch } : cue)))
+
+  const addCue = () =>
+    setCues((prev) => {
+      const last = prev?.[prev.length - 1]
+      const start = last ? last.end : 0
+      return [...(prev || []), { start, end: start + 3, text: "" }]
+    })
+
+  const handleSave = async () => {
+    if (!cues) return
+    const invalid = cues.findIndex((cue) => !cue.text.trim() || cue.end <= cue.start)
+    if (invalid !== -1) {
+      toast.error(`Cue ${invalid + 1} needs text and an end after its start`)
+      return
+    }
+    setSaving(true)
+    try {
+      const res = await fetch(`/api/videos/${videoId}/captions/${track.language}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ cues }),
+      })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || "Failed to save captions")
+      toast.success(data.message)
+      onSaved(data.tracks)
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : "Failed to save captions")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <p className="font-medium">
+          Editing {track.label} ({track.language})
+        </p>
+        <Button variant="ghost" size="sm" onClick={onClose}>
+          Back
+        </Button>
+      </div>
+
+      {!cues ? (
+        <Loader2 className="h-5 w-5 animate-spin" />
+      ) : (
+        <div className="max-h-[50vh] space-y-2 overflow-y-auto pr-1">
+          {cues.map((cue, index) => (
+            <div key={index} className="grid grid-cols-[6rem_6rem_1fr_auto] items-start gap-2">
+              <div>
+                <Input
+                  type="number"
+                  step={0.1}
+                  min={0}
+                  value={cue.start}
+                  onChange={(e) => updateCue(index, { start: Number(e.target.value) })}
+                  aria-label="Start (seconds)"
+                />
+                <span className="text-xs text-muted-foreground">{formatTimestamp(cue.start)}</span>
+              </div>
+              <div>
+                <Input
+                  type="number"
+                  step={0.1}
+                  min={0}
+                  value={cue.end}
+                  onChange={(e) => updateCue(index, { end: Number(e.target.value) })}
+                  aria-label="End (seconds)"
+                />
+                <span className="text-xs text-muted-foreground">{formatTimestamp(cue.end)}</span>
+              </div>
+              <Textarea
+                rows={2}
+                value={cue.text}
+                onChange={(e) => updateCue(index, { text: e.target.value })}
+              />
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => setCues((prev) => prev && prev.filter((_, i) => i !== index))}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex justify-between">
+        <Button variant="outline" size="sm" onClick={addCue} disabled={!cues}>
+          <Plus className="h-4 w-4 mr-1" />
+          Add cue
+        </Button>
+        <Button size="sm" onClick={handleSave} disabled={!cues || saving}>
+          {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : "Save cues"}
+        </Button>
+      </div>
+    </div>
+  )
+}
+
+export default function CaptionsManager({ videoId, videoTitle }: CaptionsManagerProps) {
+  const [open, setOpen] = useState(false)
+  const [tracks, setTracks] = useState<CaptionTrack[]>([])
+  const [file, setFile] = useState<File | null>(null)
+  const [language, setLanguage] = useState("en")
+  const [label, setLabel] = useState("English")
+  const [isDefault, setIsDefault] = useState(false)
+  const [uploading, setUploading] = useState(false)
+  const [editing, setEditing] = useState<CaptionTrack | null>(null)
+
+  const fetchTracks = useCallback(async () => {
+    const res = await fetch(`/api/videos/${videoId}/captions`)
+    const data = await res.json()
+    if (!res.ok) return toast.error(data.error || "Failed to load captions")
+    setTracks(data.tracks)
+  }, [videoId])
+
+  useEffect(() => {
+    if (open) fetchTracks()
+  }, [open, fetchTracks])
+
+  const handleUpload = async () => {
+    if (!file) return toast.error("Choose an .srt or .vtt file")
+    setUploading(true)
+    try {
+      const formData = new FormData()
+      formData.append("file", file)
+      formData.append("language", language)
+      formData.append("label", label)
+      formData.append("isDefault", String(isDefault))
+      const res = await fetch(`/api/videos/${videoId}/captions`, { method: "POST", body: formData })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || "Failed to upload captions")
+      toast.success(`${data.message} (${data.cueCount} cues)`)
+      setTracks(data.tracks)
+      setFile(null)
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : "Failed to upload captions")
+    } finally {
+      setUploading(false)
+    }
+  }
+
+  const handleMakeDefault = async (track: CaptionTrack) => {
+    const res = await fetch(`/api/videos/${videoId}/captions/${track.language}`, {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ isDefault: true }),
+    })
+    const data = await res.json()
+    if (!res.ok) return toast.error(data.error || "Failed to update captions")
+    setTracks(data.tracks)
+  }
+
+  const handleDelete = async (track: CaptionTrack) => {
+    if (!confirm(`Delete the ${track.label} captions?`)) return
+    const res = await fetch(`/api/videos/${videoId}/captions/${track.language}`, { method: "DELETE" })
+    const data = await res.json()
+    if (!res.ok) return toast.error(data.error || "Failed to delete captions")
+    setTracks(data.tracks)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button size="sm" variant="outline">
+          Captions
+        </Button>
+      </DialogTrigger>
+
+      <DialogContent className="sm:max-w-[720px]">
+        <DialogHeader>
+          <DialogTitle>Captions for {videoTitle}</DialogTitle>
+        </DialogHeader>
+
+        {editing ? (
+          <CueEditor
+            videoId={videoId}
+            track={editing}
+            onClose={() => setEditing(null)}
+            onSaved={(updated) => {
+              setTracks(updated)
+              setEditing(null)
+            }}
+          />
+        ) : (
+          <div className="space-y-6">
+            <div className="space-y-2">
+              {tracks.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No captions yet.</p>
+              ) : (
+                tracks.map((track) => (
+                  <div key={track.language} className="flex items-center gap-2 rounded border p-2 text-sm">
+                    <span className="flex-1">
+                      {track.label} <span className="text-muted-foreground">({track.language})</span>
+                    </span>
+                    <span className="text-xs text-muted-foreground">{track.cueCount} cues</span>
+                    {track.isDefault ? (
+                      <Badge>Default</Badge>
+                    ) : (
+                      <Button variant="ghost" size="sm" onClick={() => handleMakeDefault(track)}>
+                        Make default
+                      </Button>
+                    )}
+                    <Button variant="ghost" size="sm" onClick={() => setEditing(track)}>
+                      Edit cues
+                    </Button>
+                    <Button asChild variant="ghost" size="sm">
+                      <a href={track.src} download={`${track.language}.vtt`}>
+                        .vtt
+                      </a>
+                    </Button>
+                    <Button variant="ghost" size="icon" onClick={() => handleDelete(track)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))
+              )}
+            </div>
+
+            <div className="space-y-3 rounded border p-3">
+              <p className="font-medium">Upload SRT or WebVTT</p>
+              <Input type="file" accept=".srt,.vtt,text/vtt" onChange={(e) => setFile(e.target.files?.[0] || null)} />
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-1">
+                  <Label htmlFor={`caption-lang-${videoId}`}>Language code</Label>
+                  <Input id={`caption-lang-${videoId}`} value={language} onChange={(e) => setLanguage(e.target.value)} />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor={`caption-label-${videoId}`}>Label</Label>
+                  <Input id={`caption-label-${videoId}`} value={label} onChange={(e) => setLabel(e.target.value)} />
+                </div>
+              </div>
+              <label className="flex items-center gap-2 text-sm">
+                <input type="checkbox" checked={isDefault} onChange={(e) => setIsDefault(e.target.checked)} />
+                Show by default
+              </label>
+              <p className="text-xs text-muted-foreground">Uploading a language that already exists replaces it.</p>
+              <Button onClick={handleUpload} disabled={uploading || !file}>
+                {uploading ? <Loader2 className="h-4 w-4 animate-spin" /> : "Upload"}
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
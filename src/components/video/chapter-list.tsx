@@ -0,0 +1,43 @@
+"use client"
+
+import { ListOrdered } from "lucide-react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { formatTimestamp } from "@/lib/utils"
+import type { PlayerChapter } from "@/components/video/adaptive-video-player"
+
+interface ChapterListProps {
+  chapters: PlayerChapter[]
+  currentTime: number
+  onSeek: (time: number) => void
+}
+
+/** The video's chapters with the one playing highlighted; clicking jumps to it. */
+export default function ChapterList({ chapters, currentTime, onSeek }: ChapterListProps) {
+  const activeIndex = chapters.reduce((active, chapter, index) => (chapter.start <= currentTime ? index : active), -1)
+
+  return (
+    <Card className="h-full">
+      <CardHeader className="pb-2">
+        <CardTitle className="flex items-center gap-2 text-base">
+          <ListOrdered className="h-4 w-4" />
+          Chapters
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="max-h-[60vh] space-y-1 overflow-y-auto">
+        {chapters.map((chapter, index) => (
+          <button
+            key={chapter.start}
+            type="button"
+            onClick={() => onSeek(chapter.start)}
+            className={`flex w-full gap-3 rounded px-2 py-1.5 text-left text-sm hover:bg-muted ${
+              index === activeIndex ? "bg-muted font-medium" : ""
+            }`}
+          >
+            <span className="w-14 shrink-0 font-mono text-xs text-primary">{formatTimestamp(chapter.start)}</span>
+            <span>{chapter.title}</span>
+          </button>
+        ))}
+      </CardContent>
+    </Card>
+  )
+}
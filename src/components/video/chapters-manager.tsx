@@ -0,0 +1,135 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog"
+import { Loader2, Plus, Trash2 } from "lucide-react"
+import { toast } from "sonner"
+import { formatTimestamp } from "@/lib/utils"
+
+interface Chapter {
+  title: string
+  start: number
+}
+
+interface ChaptersManagerProps {
+  videoId: string
+  videoTitle: string
+}
+
+// Accepts "90", "1:30" or "1:02:30"
+function parseTimestamp(value: string) {
+  const parts = value.trim().split(":").map(Number)
+  if (parts.length === 0 || parts.length > 3 || parts.some((n) => !Number.isFinite(n) || n < 0)) return NaN
+  return parts.reduce((total, n) => total * 60 + n, 0)
+}
+
+export default function ChaptersManager({ videoId, videoTitle }: ChaptersManagerProps) {
+  const [open, setOpen] = useState(false)
+  const [chapters, setChapters] = useState<(Chapter & { time: string })[] | null>(null)
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    if (!open) return
+    fetch(`/api/videos/${videoId}/chapters`)
+      .then(async (res) => {
+        const data = await res.json()
+        if (!res.ok) throw new Error(data.error || "Failed to load chapters")
+        setChapters(data.chapters.map((c: Chapter) => ({ ...c, time: formatTimestamp(c.start) })))
+      })
+      .catch((e) => toast.error(e instanceof Error ? e.message : "Failed to load chapters"))
+  }, [open, videoId])
+
+  const updateChapter = (index: number, patch: Partial<Chapter & { time: string }>) =>
+    setChapters((prev) => prev && prev.map((c, i) => (i === index ? { ...c, ...patch } : c)))
+
+  const addChapter = () =>
+    setChapters((prev) => {
+      const next = prev?.length ? "" : "0:00"
+      return [...(prev || []), { title: "", start: 0, time: next }]
+    })
+
+  const handleSave = async () => {
+    if (!chapters) return
+    const parsed = chapters.map((c) => ({ title: c.title.trim(), start: parseTimestamp(c.time) }))
+    const invalid = parsed.findIndex((c) => !c.title || !Number.isFinite(c.start))
+    if (invalid !== -1) {
+      toast.error(`Chapter ${invalid + 1} needs a title and a time like 1:30`)
+      return
+    }
+    setSaving(true)
+    try {
+      const res = await fetch(`/api/videos/${videoId}/chapters`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ chapters: parsed }),
+      })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || "Failed to save chapters")
+      toast.success(data.message)
+      setChapters(data.chapters.map((c: Chapter) => ({ ...c, time: formatTimestamp(c.start) })))
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : "Failed to save chapters")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button size="sm" variant="outline">
+          Chapters
+        </Button>
+      </DialogTrigger>
+
+      <DialogContent className="sm:max-w-[560px]">
+        <DialogHeader>
+          <DialogTitle>Chapters for {videoTitle}</DialogTitle>
+        </DialogHeader>
+
+        {!chapters ? (
+          <Loader2 className="h-5 w-5 animate-spin" />
+        ) : (
+          <div className="space-y-3">
+            {chapters.length === 0 && <p className="text-sm text-muted-foreground">No chapters yet.</p>}
+            <div className="max-h-[50vh] space-y-2 overflow-y-auto pr-1">
+              {chapters.map((chapter, index) => (
+                <div key={index} className="grid grid-cols-[6rem_1fr_auto] items-center gap-2">
+                  <Input
+                    value={chapter.time}
+                    onChange={(e) => updateChapter(index, { time: e.target.value })}
+                    placeholder="1:30"
+                    aria-label="Start time"
+                  />
+                  <Input
+                    value={chapter.title}
+                    onChange={(e) => updateChapter(index, { title: e.target.value })}
+                    placeholder="Chapter title"
+                  />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setChapters((prev) => prev && prev.filter((_, i) => i !== index))}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+            <div className="flex justify-between">
+              <Button variant="outline" size="sm" onClick={addChapter}>
+                <Plus className="h-4 w-4 mr-1" />
+                Add chapter
+              </Button>
+              <Button size="sm" onClick={handleSave} disabled={saving}>
+                {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : "Save chapters"}
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -1,7 +1,23 @@
 "use client"
 
-import AdaptiveVideoPlayer from "@/components/video/adaptive-video-player"
-import { useCallback, useEffect, useRef } from "react"
+import AdaptiveVideoPlayer, {
+  type AdaptiveVideoPlayerHandle,
+  type CaptionTrackSource,
+  type PlaybackHeartbeat,
+  type PlaybackQualityReport,
+  type PlaybackWatermark,
+  type PlayerChapter,
+} from "@/components/video/adaptive-video-player"
+import VideoNotesPanel from "@/components/video/video-notes-panel"
+import TranscriptPanel from "@/components/video/transcript-panel"
+import ChapterList from "@/components/video/chapter-list"
+import type { PlayerQuestion, QuestionAnswerResult } from "@/components/video/video-question-overlay"
+import LessonDiscussion from "@/components/courses/lesson-discussion"
+import { useCallback, useEffect, useMemo, useRef, useState } from "react"
+import Link from "next/link"
+import { CalendarClock, Lock } from "lucide-react"
+import { toast } from "sonner"
+import type { VideoLock } from "@/lib/video-access"
 
 interface Props {
   src: string
@@ -9,18 +25,80 @@ interface Props {
   poster?: string
   courseId: string
   videoId: string
+  /** Drip/prerequisite state; a locked video is never given a playable `src` */
+  lock?: VideoLock
+  /** Saved position to resume from, in seconds */
+  startAt?: number
+  /** Show the student's timestamped notes under the player */
+  showNotes?: boolean
+  /** Show the lesson's Q&A threads under the player */
+  showDiscussion?: boolean
+  /** Show the searchable transcript built from the captions */
+  showTranscript?: boolean
+  /** Stop at the video's in-video questions; only students answer them */
+  showQuestions?: boolean
+  captions?: CaptionTrackSource[]
+  /** Per-viewer overlay for students, as configured on the course */
+  watermark?: PlaybackWatermark | null
+  /** Listed beside the player and marked on its seek bar */
+  chapters?: PlayerChapter[]
+  /** WebVTT sprite track for seek bar previews */
+  thumbnailTrack?: string
 }
 
-function postProgress(courseId: string, videoId: string, currentTime: number, duration: number, keepalive?: boolean) {
-  const body = JSON.stringify({
-    videoId,
-    currentTime,
-    duration,
+function LockedVideo({ courseId, lock }: { courseId: string; lock: VideoLock }) {
+  return (
+    <div className="w-full h-full flex items-center justify-center bg-muted p-6">
+      <div className="max-w-md text-center space-y-3">
+        <Lock className="h-12 w-12 mx-auto text-muted-foreground" />
+        <p className="text-lg font-medium">This video is locked</p>
+        {lock.unlockAt ? (
+          <p className="text-sm text-muted-foreground flex items-center justify-center gap-2">
+            <CalendarClock className="h-4 w-4" />
+            Unlocks on {new Date(lock.unlockAt).toLocaleString()}
+          </p>
+        ) : (
+          lock.missing.length === 0 && <p className="text-sm text-muted-foreground">Not released yet</p>
+        )}
+        {lock.missing.length > 0 && (
+          <div className="text-sm text-muted-foreground space-y-1">
+            <p>Finish these first:</p>
+            <ul className="space-y-1">
+              {lock.missing.map((item) => (
+                <li key={`${item.type}-${item.refId}`}>
+                  {item.type === "video" ? (
+                    <Link href={`/courses/${courseId}/learn/${item.refId}`} className="text-primary hover:underline">
+                      Watch &ldquo;{item.title}&rdquo;
+                    </Link>
+                  ) : (
+                    <Link href={`/courses/${courseId}#quiz-${item.refId}`} className="text-primary hover:underline">
+                      Pass &ldquo;{item.title}&rdquo;
+                    </Link>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
+
+function postHeartbeat(courseId: string, videoId: string, beat: PlaybackHeartbeat, keepalive?: boolean) {
+  return fetch(`/api/student/progress/${courseId}/heartbeat`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ videoId, ...beat }),
+    keepalive: !!keepalive,
   })
-  return fetch(`/api/student/progress/${courseId}`, {
+}
+
+function postQualityReport(videoId: string, report: PlaybackQualityReport, keepalive?: boolean) {
+  return fetch(`/api/videos/${videoId}/quality`, {
     method: "POST",
     headers: { "Content-Type": "application/json" },
-    body,
+    body: JSON.stringify(report),
     keepalive: !!keepalive,
   })
 }
@@ -31,70 +109,141 @@ export default function LearnVideoClient({
   poster,
   courseId,
   videoId,
+  lock,
+  startAt = 0,
+  showNotes = false,
+  showDiscussion = false,
+  showTranscript = false,
+  showQuestions = false,
+  captions,
+  watermark,
+  chapters = [],
+  thumbnailTrack,
 }: Props) {
-  const durationRef = useRef(0)
-  const lastSentRef = useRef(0)
-  const currentTimeRef = useRef(0)
+  const locked = !!lock?.locked
+  const playerRef = useRef<AdaptiveVideoPlayerHandle>(null)
+  const [currentTime, setCurrentTime] = useState(startAt)
+  const [questions, setQuestions] = useState<(PlayerQuestion & { response: { correct: boolean } | null })[]>([])
+
+  // Remember the last opened video; watch time itself comes from heartbeats
+  useEffect(() => {
+    if (locked) return
+    fetch(`/api/student/progress/${courseId}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ videoId }),
+    }).catch(() => {})
+  }, [courseId, videoId, locked])
+
+  useEffect(() => {
+    if (locked || !showQuestions) return
+    fetch(`/api/videos/${videoId}/questions`)
+      .then((res) => (res.ok ? res.json() : { questions: [] }))
+      .then((data) => setQuestions(data.questions || []))
+      .catch(() => {})
+  }, [videoId, locked, showQuestions])
+
+  // Answered questions are not asked again, unless they count toward progress and were missed
+  const pendingQuestions = useMemo(
+    () => questions.filter((q) => !q.response || (q.countsTowardProgress && !q.response.correct)),
+    [questions]
+  )
 
-  const flush = useCallback(
-    (opts?: { keepalive?: boolean }) => {
-      const t = currentTimeRef.current
-      const d = durationRef.current
-      if (d <= 0 && t <= 0) return Promise.resolve()
-      return postProgress(courseId, videoId, t, d, opts?.keepalive).catch(() => {})
+  const handleAnswerQuestion = useCallback(
+    async (questionId: string, answer: unknown): Promise<QuestionAnswerResult> => {
+      const res = await fetch(`/api/videos/${videoId}/questions/${questionId}/answer`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ answer }),
+      })
+      const data = await res.json()
+      if (!res.ok) {
+        toast.error(data.error || "Failed to submit answer")
+        throw new Error(data.error)
+      }
+      setQuestions((prev) => prev.map((q) => (q._id === questionId ? { ...q, response: { correct: data.correct } } : q)))
+      return { correct: data.correct, explanation: data.explanation }
     },
-    [courseId, videoId]
+    [videoId]
   )
 
-  const handleTimeUpdate = (time: number) => {
-    currentTimeRef.current = time
-    if (time - lastSentRef.current >= 10) {
-      lastSentRef.current = time
-      flush()
-    }
-  }
+  const handleHeartbeat = useCallback(
+    (beat: PlaybackHeartbeat, options: { keepalive: boolean }) => {
+      postHeartbeat(courseId, videoId, beat, options.keepalive).catch(() => {})
+    },
+    [courseId, videoId]
+  )
 
-  const handleDurationChange = (duration: number) => {
-    durationRef.current = duration
-  }
+  const handleQualityReport = useCallback(
+    (report: PlaybackQualityReport, options: { keepalive: boolean }) => {
+      postQualityReport(videoId, report, options.keepalive).catch(() => {})
+    },
+    [videoId]
+  )
 
-  const handleEnded = () => {
-    flush()
+  if (lock?.locked) {
+    return (
+      <div className="aspect-video bg-black rounded-lg overflow-hidden shadow-lg">
+        <LockedVideo courseId={courseId} lock={lock} />
+      </div>
+    )
   }
 
-  useEffect(() => {
-    lastSentRef.current = 0
-    currentTimeRef.current = 0
-    durationRef.current = 0
-    flush().catch(() => {})
-  }, [courseId, videoId, flush])
-
-  useEffect(() => {
-    const onVisibility = () => {
-      if (document.visibilityState === "hidden") {
-        flush({ keepalive: true })
-      }
-    }
-    const onPageHide = () => flush({ keepalive: true })
-    document.addEventListener("visibilitychange", onVisibility)
-    window.addEventListener("pagehide", onPageHide)
-    return () => {
-      document.removeEventListener("visibilitychange", onVisibility)
-      window.removeEventListener("pagehide", onPageHide)
-    }
-  }, [flush])
+  const player = (
+    <div className="aspect-video bg-black rounded-lg overflow-hidden shadow-lg">
+      <AdaptiveVideoPlayer
+        ref={playerRef}
+        src={src}
+        title={title}
+        className="w-full h-full"
+        autoPlay={false}
+        controls
+        poster={poster}
+        onHeartbeat={handleHeartbeat}
+        onQualityReport={handleQualityReport}
+        startTime={startAt}
+        captions={captions}
+        watermark={watermark}
+        chapters={chapters}
+        thumbnailTrack={thumbnailTrack}
+        onTimeUpdate={setCurrentTime}
+        questions={pendingQuestions}
+        onAnswerQuestion={showQuestions ? handleAnswerQuestion : undefined}
+      />
+    </div>
+  )
 
   return (
-    <AdaptiveVideoPlayer
-      src={src}
-      title={title}
-      className="w-full h-full"
-      autoPlay={false}
-      controls
-      poster={poster}
-      onTimeUpdate={handleTimeUpdate}
-      onDurationChange={handleDurationChange}
-      onEnded={handleEnded}
-    />
+    <div className="space-y-4">
+      {chapters.length > 0 ? (
+        <div className="grid gap-4 xl:grid-cols-[1fr_18rem]">
+          {player}
+          <ChapterList
+            chapters={chapters}
+            currentTime={currentTime}
+            onSeek={(time) => playerRef.current?.seek(time)}
+          />
+        </div>
+      ) : (
+        player
+      )}
+      {showTranscript && <TranscriptPanel videoId={videoId} onSeek={(time) => playerRef.current?.seek(time)} />}
+      {showNotes && (
+        <VideoNotesPanel
+          courseId={courseId}
+          videoId={videoId}
+          getCurrentTime={() => playerRef.current?.getCurrentTime() ?? 0}
+          onSeek={(time) => playerRef.current?.seek(time)}
+        />
+      )}
+      {showDiscussion && (
+        <LessonDiscussion
+          lessonType="video"
+          lessonId={videoId}
+          getCurrentTime={() => playerRef.current?.getCurrentTime() ?? 0}
+          onSeek={(time) => playerRef.current?.seek(time)}
+        />
+      )}
+    </div>
   )
 }
@@ -0,0 +1,111 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { toast } from "sonner"
+import { FileText, Search, X } from "lucide-react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { formatTimestamp } from "@/lib/utils"
+
+type Segment = {
+  start: number
+  end: number
+  text: string
+}
+
+interface TranscriptPanelProps {
+  videoId: string
+  onSeek: (time: number) => void
+}
+
+export default function TranscriptPanel({ videoId, onSeek }: TranscriptPanelProps) {
+  const [segments, setSegments] = useState<Segment[]>([])
+  const [query, setQuery] = useState("")
+  const [hits, setHits] = useState<Segment[] | null>(null)
+  const [searching, setSearching] = useState(false)
+
+  useEffect(() => {
+    fetch(`/api/videos/${videoId}/transcript`)
+      .then(async (res) => {
+        const data = await res.json()
+        if (!res.ok) throw new Error(data.error || "Failed to load transcript")
+        setSegments(data.segments)
+      })
+      .catch((e) => toast.error(e instanceof Error ? e.message : "Failed to load transcript"))
+  }, [videoId])
+
+  const handleSearch = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!query.trim()) return setHits(null)
+    setSearching(true)
+    try {
+      const res = await fetch(`/api/videos/${videoId}/transcript?q=${encodeURIComponent(query.trim())}`)
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || "Search failed")
+      setHits(data.hits)
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : "Search failed")
+    } finally {
+      setSearching(false)
+    }
+  }
+
+  const shown = hits ?? segments
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <FileText className="h-5 w-5" />
+          Transcript
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <form onSubmit={handleSearch} className="flex gap-2">
+          <Input value={query} onChange={(e) => setQuery(e.target.value)} placeholder="Search this lesson" />
+          <Button type="submit" variant="outline" size="icon" disabled={searching}>
+            <Search className="h-4 w-4" />
+          </Button>
+          {hits && (
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              onClick={() => {
+                setHits(null)
+                setQuery("")
+              }}
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          )}
+        </form>
+
+        {hits && (
+          <p className="text-xs text-muted-foreground">
+            {hits.length} {hits.length === 1 ? "moment" : "moments"} matching &ldquo;{query.trim()}&rdquo;
+          </p>
+        )}
+
+        <div className="max-h-80 space-y-1 overflow-y-auto pr-1">
+          {shown.length === 0 ? (
+            <p className="text-sm text-muted-foreground">{hits ? "No matches." : "No transcript yet."}</p>
+          ) : (
+            shown.map((segment, index) => (
+              <button
+                key={`${segment.start}-${index}`}
+                type="button"
+                onClick={() => onSeek(segment.start)}
+                className="flex w-full gap-3 rounded px-2 py-1 text-left text-sm hover:bg-muted"
+              >
+                <span className="w-14 shrink-0 font-mono text-xs text-primary">{formatTimestamp(segment.start)}</span>
+                <span>{segment.text}</span>
+              </button>
+            ))
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,193 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import ReactMarkdown from "react-markdown"
+import remarkGfm from "remark-gfm"
+import { toast } from "sonner"
+import { Download, Pencil, StickyNote, Trash2 } from "lucide-react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Textarea } from "@/components/ui/textarea"
+import { formatTimestamp } from "@/lib/utils"
+
+type Note = {
+  _id: string
+  timestamp: number
+  body: string
+}
+
+interface VideoNotesPanelProps {
+  courseId: string
+  videoId: string
+  getCurrentTime: () => number
+  onSeek: (time: number) => void
+}
+
+const byTimestamp = (a: Note, b: Note) => a.timestamp - b.timestamp
+
+export default function VideoNotesPanel({ courseId, videoId, getCurrentTime, onSeek }: VideoNotesPanelProps) {
+  const [notes, setNotes] = useState<Note[]>([])
+  const [draft, setDraft] = useState("")
+  // Pinned when the student starts typing, so the note marks what they were watching
+  const [draftTime, setDraftTime] = useState<number | null>(null)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [editBody, setEditBody] = useState("")
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    fetch(`/api/videos/${videoId}/notes`)
+      .then(async (res) => {
+        const data = await res.json()
+        if (!res.ok) throw new Error(data.error || "Failed to load notes")
+        setNotes(data.notes)
+      })
+      .catch((e) => toast.error(e instanceof Error ? e.message : "Failed to load notes"))
+  }, [videoId])
+
+  const handleAdd = async () => {
+    if (!draft.trim()) return
+    setSaving(true)
+    try {
+      const res = await fetch(`/api/videos/${videoId}/notes`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ timestamp: draftTime ?? getCurrentTime(), body: draft }),
+      })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || "Failed to save note")
+      setNotes((prev) => [...prev, data.note].sort(byTimestamp))
+      setDraft("")
+      setDraftTime(null)
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : "Failed to save note")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleUpdate = async (noteId: string) => {
+    if (!editBody.trim()) return
+    try {
+      const res = await fetch(`/api/videos/${videoId}/notes/${noteId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ body: editBody }),
+      })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || "Failed to update note")
+      setNotes((prev) => prev.map((n) => (n._id === noteId ? data.note : n)))
+      setEditingId(null)
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : "Failed to update note")
+    }
+  }
+
+  const handleDelete = async (noteId: string) => {
+    try {
+      const res = await fetch(`/api/videos/${videoId}/notes/${noteId}`, { method: "DELETE" })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || "Failed to delete note")
+      setNotes((prev) => prev.filter((n) => n._id !== noteId))
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : "Failed to delete note")
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <StickyNote className="h-5 w-5" />
+          My notes
+        </CardTitle>
+        <div className="flex gap-2">
+          <Button asChild variant="outline" size="sm">
+            <a href={`/api/student/notes/${courseId}/export?format=md`}>
+              <Download className="h-4 w-4 mr-1" />
+              Markdown
+            </a>
+          </Button>
+          <Button asChild variant="outline" size="sm">
+            <a href={`/api/student/notes/${courseId}/export?format=pdf`}>
+              <Download className="h-4 w-4 mr-1" />
+              PDF
+            </a>
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Textarea
+            value={draft}
+            placeholder="Write a note (Markdown supported)…"
+            onChange={(e) => {
+              if (draftTime === null) setDraftTime(getCurrentTime())
+              setDraft(e.target.value)
+            }}
+            rows={3}
+          />
+          <div className="flex items-center justify-between">
+            <span className="text-xs text-muted-foreground">
+              {draftTime !== null ? `At ${formatTimestamp(draftTime)}` : "Pinned to the current time when you start typing"}
+            </span>
+            <Button size="sm" onClick={handleAdd} disabled={saving || !draft.trim()}>
+              {saving ? "Saving…" : "Add note"}
+            </Button>
+          </div>
+        </div>
+
+        {notes.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No notes on this video yet.</p>
+        ) : (
+          <ul className="space-y-3">
+            {notes.map((note) => (
+              <li key={note._id} className="rounded-lg border p-3 space-y-2">
+                <div className="flex items-center justify-between">
+                  <button
+                    type="button"
+                    className="text-sm font-medium text-primary hover:underline"
+                    onClick={() => onSeek(note.timestamp)}
+                  >
+                    {formatTimestamp(note.timestamp)}
+                  </button>
+                  <div className="flex gap-1">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => {
+                        setEditingId(note._id)
+                        setEditBody(note.body)
+                      }}
+                    >
+                      <Pencil className="h-3 w-3" />
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => handleDelete(note._id)}>
+                      <Trash2 className="h-3 w-3" />
+                    </Button>
+                  </div>
+                </div>
+                {editingId === note._id ? (
+                  <div className="space-y-2">
+                    <Textarea value={editBody} onChange={(e) => setEditBody(e.target.value)} rows={3} />
+                    <div className="flex justify-end gap-2">
+                      <Button variant="outline" size="sm" onClick={() => setEditingId(null)}>
+                        Cancel
+                      </Button>
+                      <Button size="sm" onClick={() => handleUpdate(note._id)} disabled={!editBody.trim()}>
+                        Save
+                      </Button>
+                    </div>
+                  </div>
+                ) : (
+                  <div className="prose prose-sm max-w-none">
+                    <ReactMarkdown remarkPlugins={[remarkGfm]}>{note.body}</ReactMarkdown>
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
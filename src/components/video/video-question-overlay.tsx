@@ -0,0 +1,134 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { CheckCircle2, HelpCircle, Loader2, XCircle } from 'lucide-react'
+
+/** An in-video question as the player receives it: no answer key */
+export interface PlayerQuestion {
+  _id: string
+  at: number // seconds
+  type: string
+  prompt: string
+  options: string[]
+  countsTowardProgress: boolean
+}
+
+export type QuestionAnswerResult = { correct: boolean; explanation: string | null }
+
+interface VideoQuestionOverlayProps {
+  question: PlayerQuestion
+  onAnswer: (answer: unknown) => Promise<QuestionAnswerResult>
+  onContinue: () => void
+}
+
+function hasAnswer(type: string, answer: unknown) {
+  if (type === 'multi_select') return Array.isArray(answer) && answer.length > 0
+  if (type === 'numeric' || type === 'short_answer') return typeof answer === 'string' && answer.trim() !== ''
+  return answer !== undefined
+}
+
+// Covers the picture and controls so playback can't resume until the question is dealt with
+export default function VideoQuestionOverlay({ question, onAnswer, onContinue }: VideoQuestionOverlayProps) {
+  const [answer, setAnswer] = useState<unknown>(question.type === 'multi_select' ? [] : undefined)
+  const [submitting, setSubmitting] = useState(false)
+  const [result, setResult] = useState<QuestionAnswerResult | null>(null)
+
+  const handleSubmit = async () => {
+    setSubmitting(true)
+    try {
+      const payload = question.type === 'numeric' ? Number(answer) : answer
+      setResult(await onAnswer(payload))
+    } catch {
+      // onAnswer reports its own errors; stay on the question
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const toggleOption = (index: number) =>
+    setAnswer((prev: unknown) => {
+      const picked = Array.isArray(prev) ? (prev as number[]) : []
+      return picked.includes(index) ? picked.filter((i) => i !== index) : [...picked, index]
+    })
+
+  const choices =
+    question.type === 'true_false'
+      ? [
+          { label: 'True', value: true },
+          { label: 'False', value: false },
+        ]
+      : question.options.map((label, index) => ({ label, value: index }))
+
+  const isPicked = (value: unknown) =>
+    question.type === 'multi_select' ? Array.isArray(answer) && answer.includes(value) : answer === value
+
+  return (
+    <div className="absolute inset-0 z-20 flex items-center justify-center bg-black/80 p-4">
+      <div className="w-full max-w-lg space-y-4 rounded-lg bg-background p-5 text-foreground shadow-xl">
+        <div className="flex items-start gap-2">
+          <HelpCircle className="mt-0.5 h-5 w-5 shrink-0 text-primary" />
+          <p className="font-medium">{question.prompt}</p>
+        </div>
+
+        {question.type === 'numeric' || question.type === 'short_answer' ? (
+          <Input
+            type={question.type === 'numeric' ? 'number' : 'text'}
+            value={typeof answer === 'string' ? answer : ''}
+            onChange={(e) => setAnswer(e.target.value)}
+            disabled={!!result?.correct}
+            placeholder="Your answer"
+          />
+        ) : (
+          <div className="space-y-2">
+            {choices.map((choice) => (
+              <button
+                key={String(choice.value)}
+                type="button"
+                disabled={!!result?.correct}
+                onClick={() =>
+                  question.type === 'multi_select' ? toggleOption(choice.value as number) : setAnswer(choice.value)
+                }
+                className={`w-full rounded border px-3 py-2 text-left text-sm transition-colors ${
+                  isPicked(choice.value) ? 'border-primary bg-primary/10' : 'hover:bg-muted'
+                }`}
+              >
+                {choice.label}
+              </button>
+            ))}
+            {question.type === 'multi_select' && (
+              <p className="text-xs text-muted-foreground">Select all that apply.</p>
+            )}
+          </div>
+        )}
+
+        {result && (
+          <div className={`flex items-start gap-2 text-sm ${result.correct ? 'text-green-600' : 'text-destructive'}`}>
+            {result.correct ? <CheckCircle2 className="h-4 w-4 shrink-0" /> : <XCircle className="h-4 w-4 shrink-0" />}
+            <div>
+              <p>{result.correct ? 'Correct!' : 'Not quite.'}</p>
+              {result.explanation && <p className="text-muted-foreground">{result.explanation}</p>}
+              {!result.correct && question.countsTowardProgress && (
+                <p className="text-muted-foreground">Answer this correctly to complete the lesson.</p>
+              )}
+            </div>
+          </div>
+        )}
+
+        <div className="flex justify-end gap-2">
+          {result && (
+            <Button variant={result.correct ? 'default' : 'outline'} onClick={onContinue}>
+              Continue watching
+            </Button>
+          )}
+          {!result?.correct && (
+            <Button onClick={handleSubmit} disabled={submitting || !hasAnswer(question.type, answer)}>
+              {submitting ? <Loader2 className="h-4 w-4 animate-spin" /> : result ? 'Try again' : 'Submit'}
+            </Button>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
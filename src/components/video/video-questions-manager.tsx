@@ -0,0 +1,370 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Textarea } from "@/components/ui/textarea"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Loader2, Plus, Trash2 } from "lucide-react"
+import { toast } from "sonner"
+import { formatTimestamp } from "@/lib/utils"
+
+type QuestionType = "multiple_choice" | "multi_select" | "true_false" | "numeric" | "short_answer"
+
+const TYPE_LABELS: Record<QuestionType, string> = {
+  multiple_choice: "Multiple choice",
+  multi_select: "Multiple answers",
+  true_false: "True / false",
+  numeric: "Number",
+  short_answer: "Short answer",
+}
+
+interface VideoQuestion {
+  _id: string
+  at: number
+  type: QuestionType
+  prompt: string
+  options?: string[]
+  countsTowardProgress: boolean
+}
+
+interface QuestionStats {
+  questionId: string
+  responses: number
+  firstAttemptCorrectPercent: number
+  eventuallyCorrectPercent: number
+  averageAttempts: number
+  optionCounts: number[] | null
+}
+
+interface VideoQuestionsManagerProps {
+  videoId: string
+  videoTitle: string
+}
+
+const emptyDraft = {
+  type: "multiple_choice" as QuestionType,
+  time: "",
+  prompt: "",
+  options: ["", ""],
+  correctOptionIndexes: [] as number[],
+  correctBoolean: true,
+  numericMin: "",
+  numericMax: "",
+  acceptedAnswers: "",
+  explanation: "",
+  countsTowardProgress: false,
+}
+
+// Accepts "90", "1:30" or "1:02:30"
+function parseTimestamp(value: string) {
+  const parts = value.trim().split(":").map(Number)
+  if (!value.trim() || parts.length > 3 || parts.some((n) => !Number.isFinite(n) || n < 0)) return NaN
+  return parts.reduce((total, n) => total * 60 + n, 0)
+}
+
+function QuestionStatsLine({ question, stats }: { question: VideoQuestion; stats?: QuestionStats }) {
+  if (!stats || stats.responses === 0) return <p className="text-xs text-muted-foreground">No answers yet</p>
+  return (
+    <div className="space-y-1 text-xs text-muted-foreground">
+      <p>
+        {stats.responses} answered · {stats.firstAttemptCorrectPercent}% right first time ·{" "}
+        {stats.eventuallyCorrectPercent}% right eventually · {stats.averageAttempts} attempts on average
+      </p>
+      {stats.optionCounts && (
+        <ul className="space-y-0.5">
+          {(question.options || []).map((option, index) => (
+            <li key={index}>
+              {option}: {stats.optionCounts?.[index] ?? 0}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
+
+export default function VideoQuestionsManager({ videoId, videoTitle }: VideoQuestionsManagerProps) {
+  const [open, setOpen] = useState(false)
+  const [questions, setQuestions] = useState<VideoQuestion[]>([])
+  const [stats, setStats] = useState<QuestionStats[]>([])
+  const [draft, setDraft] = useState(emptyDraft)
+  const [saving, setSaving] = useState(false)
+
+  const fetchQuestions = useCallback(async () => {
+    const res = await fetch(`/api/videos/${videoId}/questions`)
+    const data = await res.json()
+    if (!res.ok) return toast.error(data.error || "Failed to load questions")
+    setQuestions(data.questions)
+    setStats(data.stats || [])
+  }, [videoId])
+
+  useEffect(() => {
+    if (open) fetchQuestions()
+  }, [open, fetchQuestions])
+
+  const isChoice = draft.type === "multiple_choice" || draft.type === "multi_select"
+
+  const toggleCorrect = (index: number) =>
+    setDraft((prev) => ({
+      ...prev,
+      correctOptionIndexes:
+        prev.type === "multiple_choice"
+          ? [index]
+          : prev.correctOptionIndexes.includes(index)
+            ? prev.correctOptionIndexes.filter((i) => i !== index)
+            : [...prev.correctOptionIndexes, index],
+    }))
+
+  const handleAdd = async () => {
+    const at = parseTimestamp(draft.time)
+    if (!Number.isFinite(at)) return toast.error("Enter when the question appears, like 1:30")
+
+    const body = {
+      type: draft.type,
+      at,
+      prompt: draft.prompt,
+      points: 1,
+      explanation: draft.explanation.trim() || undefined,
+      countsTowardProgress: draft.countsTowardProgress,
+      ...(isChoice && {
+        options: draft.options.map((o) => o.trim()),
+        ...(draft.type === "multiple_choice"
+          ? { correctOptionIndex: draft.correctOptionIndexes[0] }
+          : { correctOptionIndexes: draft.correctOptionIndexes }),
+      }),
+      ...(draft.type === "true_false" && { correctBoolean: draft.correctBoolean }),
+      ...(draft.type === "numeric" && { numericMin: Number(draft.numericMin), numericMax: Number(draft.numericMax) }),
+      ...(draft.type === "short_answer" && {
+        acceptedAnswers: draft.acceptedAnswers
+          .split("\n")
+          .map((a) => a.trim())
+          .filter(Boolean),
+      }),
+    }
+
+    setSaving(true)
+    try {
+      const res = await fetch(`/api/videos/${videoId}/questions`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || "Failed to add question")
+      toast.success(data.message)
+      setDraft(emptyDraft)
+      fetchQuestions()
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : "Failed to add question")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDelete = async (question: VideoQuestion) => {
+    if (!confirm("Delete this question and its answers?")) return
+    const res = await fetch(`/api/videos/${videoId}/questions/${question._id}`, { method: "DELETE" })
+    const data = await res.json()
+    if (!res.ok) return toast.error(data.error || "Failed to delete question")
+    fetchQuestions()
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button size="sm" variant="outline">
+          Questions
+        </Button>
+      </DialogTrigger>
+
+      <DialogContent className="sm:max-w-[720px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>In-video questions for {videoTitle}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <div className="space-y-2">
+            {questions.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No questions yet.</p>
+            ) : (
+              questions.map((question) => (
+                <div key={question._id} className="flex items-start gap-3 rounded border p-2 text-sm">
+                  <span className="w-14 shrink-0 font-mono text-xs text-primary">{formatTimestamp(question.at)}</span>
+                  <div className="flex-1 space-y-1">
+                    <p className="font-medium">{question.prompt}</p>
+                    <div className="flex gap-1">
+                      <Badge variant="secondary">{TYPE_LABELS[question.type]}</Badge>
+                      {question.countsTowardProgress && <Badge>Counts toward progress</Badge>}
+                    </div>
+                    <QuestionStatsLine question={question} stats={stats.find((s) => s.questionId === question._id)} />
+                  </div>
+                  <Button variant="ghost" size="icon" onClick={() => handleDelete(question)}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))
+            )}
+          </div>
+
+          <div className="space-y-3 rounded border p-3">
+            <p className="font-medium">Add a question</p>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label htmlFor={`vq-time-${videoId}`}>Appears at</Label>
+                <Input
+                  id={`vq-time-${videoId}`}
+                  value={draft.time}
+                  onChange={(e) => setDraft((prev) => ({ ...prev, time: e.target.value }))}
+                  placeholder="1:30"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label>Type</Label>
+                <Select
+                  value={draft.type}
+                  onValueChange={(type) => setDraft((prev) => ({ ...prev, type: type as QuestionType, correctOptionIndexes: [] }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(TYPE_LABELS) as QuestionType[]).map((type) => (
+                      <SelectItem key={type} value={type}>
+                        {TYPE_LABELS[type]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor={`vq-prompt-${videoId}`}>Question</Label>
+              <Textarea
+                id={`vq-prompt-${videoId}`}
+                rows={2}
+                value={draft.prompt}
+                onChange={(e) => setDraft((prev) => ({ ...prev, prompt: e.target.value }))}
+              />
+            </div>
+
+            {isChoice && (
+              <div className="space-y-2">
+                <Label>Options (tick the correct {draft.type === "multi_select" ? "ones" : "one"})</Label>
+                {draft.options.map((option, index) => (
+                  <div key={index} className="flex items-center gap-2">
+                    <input
+                      type={draft.type === "multiple_choice" ? "radio" : "checkbox"}
+                      checked={draft.correctOptionIndexes.includes(index)}
+                      onChange={() => toggleCorrect(index)}
+                    />
+                    <Input
+                      value={option}
+                      onChange={(e) =>
+                        setDraft((prev) => ({
+                          ...prev,
+                          options: prev.options.map((o, i) => (i === index ? e.target.value : o)),
+                        }))
+                      }
+                    />
+                    {draft.options.length > 2 && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() =>
+                          setDraft((prev) => ({
+                            ...prev,
+                            options: prev.options.filter((_, i) => i !== index),
+                            correctOptionIndexes: prev.correctOptionIndexes
+                              .filter((i) => i !== index)
+                              .map((i) => (i > index ? i - 1 : i)),
+                          }))
+                        }
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                ))}
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setDraft((prev) => ({ ...prev, options: [...prev.options, ""] }))}
+                >
+                  <Plus className="h-4 w-4 mr-1" />
+                  Add option
+                </Button>
+              </div>
+            )}
+
+            {draft.type === "true_false" && (
+              <label className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={draft.correctBoolean}
+                  onChange={(e) => setDraft((prev) => ({ ...prev, correctBoolean: e.target.checked }))}
+                />
+                The statement is true
+              </label>
+            )}
+
+            {draft.type === "numeric" && (
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-1">
+                  <Label>Lowest accepted</Label>
+                  <Input
+                    type="number"
+                    value={draft.numericMin}
+                    onChange={(e) => setDraft((prev) => ({ ...prev, numericMin: e.target.value }))}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label>Highest accepted</Label>
+                  <Input
+                    type="number"
+                    value={draft.numericMax}
+                    onChange={(e) => setDraft((prev) => ({ ...prev, numericMax: e.target.value }))}
+                  />
+                </div>
+              </div>
+            )}
+
+            {draft.type === "short_answer" && (
+              <div className="space-y-1">
+                <Label>Accepted answers (one per line)</Label>
+                <Textarea
+                  rows={2}
+                  value={draft.acceptedAnswers}
+                  onChange={(e) => setDraft((prev) => ({ ...prev, acceptedAnswers: e.target.value }))}
+                />
+              </div>
+            )}
+
+            <div className="space-y-1">
+              <Label>Explanation (shown after a correct answer)</Label>
+              <Textarea
+                rows={2}
+                value={draft.explanation}
+                onChange={(e) => setDraft((prev) => ({ ...prev, explanation: e.target.value }))}
+              />
+            </div>
+            <label className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={draft.countsTowardProgress}
+                onChange={(e) => setDraft((prev) => ({ ...prev, countsTowardProgress: e.target.checked }))}
+              />
+              Must be answered correctly to complete the video
+            </label>
+            <Button onClick={handleAdd} disabled={saving || draft.prompt.trim().length < 3}>
+              {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : "Add question"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,8 @@
+// Runs once when the Next.js server boots
+export async function register() {
+  // Resume persisted video processing jobs; set VIDEO_WORKER=off on web-only instances
+  if (process.env.NEXT_RUNTIME === "nodejs" && process.env.VIDEO_WORKER !== "off") {
+    const { videoProcessingQueue } = await import("@/lib/video-streaming")
+    videoProcessingQueue.startWorker()
+  }
+}
@@ -0,0 +1,83 @@
+import type { SubmissionGradeInput } from "@/models/submission"
+
+function toIdString(id: unknown) {
+  if (typeof id === "string") return id
+  if (id && typeof (id as { toString?: unknown }).toString === "function") return (id as { toString: () => string }).toString()
+  return ""
+}
+
+export type RubricCriterion = {
+  _id: unknown
+  title: string
+  description?: string
+  levels: { _id?: unknown; label: string; description?: string; points: number }[]
+}
+
+export type SubmissionVersion = {
+  version: number
+  fileUrl: string
+  submittedAt: Date
+  graded?: boolean
+  grade?: number
+  rubricScores?: unknown[]
+  feedback?: string
+  annotations?: unknown[]
+  gradedAt?: Date
+  gradedBy?: unknown
+}
+
+type SubmissionLike = {
+  fileUrl?: string
+  createdAt?: Date
+  graded?: boolean
+  grade?: number
+  versions?: SubmissionVersion[]
+}
+
+export function criterionMaxPoints(criterion: RubricCriterion) {
+  return criterion.levels.reduce((max, level) => Math.max(max, level.points), 0)
+}
+
+export function rubricMaxPoints(rubric: RubricCriterion[]) {
+  return rubric.reduce((sum, c) => sum + criterionMaxPoints(c), 0)
+}
+
+/**
+ * Checks per-criterion scores against the rubric: every criterion scored once,
+ * within its best level. Returns the total or the first problem found.
+ */
+export function scoreRubric(rubric: RubricCriterion[], scores: NonNullable<SubmissionGradeInput["rubricScores"]>) {
+  const byCriterion = new Map(scores.map((s) => [s.criterionId, s]))
+  if (byCriterion.size !== scores.length) return { error: "Each criterion can only be scored once" }
+
+  let total = 0
+  for (const criterion of rubric) {
+    const score = byCriterion.get(toIdString(criterion._id))
+    if (!score) return { error: `Score missing for "${criterion.title}"` }
+    if (score.points > criterionMaxPoints(criterion)) {
+      return { error: `"${criterion.title}" is worth at most ${criterionMaxPoints(criterion)} points` }
+    }
+    if (score.levelId && !criterion.levels.some((l) => toIdString(l._id) === score.levelId)) {
+      return { error: `Unknown level for "${criterion.title}"` }
+    }
+    total += score.points
+  }
+  if (scores.length > rubric.length) return { error: "Scores reference criteria that are not on the rubric" }
+
+  return { total, maxPoints: rubricMaxPoints(rubric) }
+}
+
+/** Version history; submissions made before versioning count as version 1. */
+export function getSubmissionVersions(submission: SubmissionLike): SubmissionVersion[] {
+  if (submission.versions && submission.versions.length > 0) return submission.versions
+  if (!submission.fileUrl) return []
+  return [
+    {
+      version: 1,
+      fileUrl: submission.fileUrl,
+      submittedAt: submission.createdAt || new Date(),
+      graded: !!submission.graded,
+      grade: submission.grade,
+    },
+  ]
+}
@@ -0,0 +1,80 @@
+import type { LatePolicyMode } from "@/models/assignment"
+
+function toIdString(id: unknown) {
+  if (typeof id === "string") return id
+  if (id && typeof (id as { toString?: unknown }).toString === "function") return (id as { toString: () => string }).toString()
+  return ""
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const HOUR_MS = 60 * 60 * 1000
+
+export type LatePolicy = {
+  mode?: LatePolicyMode
+  penaltyPercentPerDay?: number
+  maxPenaltyPercent?: number
+  graceHours?: number
+}
+
+export type AssignmentForTiming = {
+  dueDate?: Date | string | null
+  latePolicy?: LatePolicy | null
+  extensions?: { studentId: unknown; dueDate: Date | string }[]
+}
+
+export type SubmissionTiming = {
+  accepted: boolean
+  lateStatus: "on_time" | "late"
+  daysLate: number
+  penaltyPercent: number
+  dueDateApplied: Date | null
+}
+
+/** The student's due date: their extension if one was granted, otherwise the assignment's. */
+export function getEffectiveDueDate(assignment: AssignmentForTiming, studentId: string) {
+  const extension = (assignment.extensions || []).find((e) => toIdString(e.studentId) === studentId)
+  if (extension) return new Date(extension.dueDate)
+  return assignment.dueDate ? new Date(assignment.dueDate) : null
+}
+
+/**
+ * Classifies a submission against the late policy. Partial days count as a full
+ * day late for the per-day penalty.
+ */
+export function evaluateSubmissionTiming(
+  assignment: AssignmentForTiming,
+  studentId: string,
+  submittedAt: Date
+): SubmissionTiming {
+  const dueDate = getEffectiveDueDate(assignment, studentId)
+  const lateMs = dueDate ? submittedAt.getTime() - dueDate.getTime() : 0
+  if (!dueDate || lateMs <= 0) {
+    return { accepted: true, lateStatus: "on_time", daysLate: 0, penaltyPercent: 0, dueDateApplied: dueDate }
+  }
+
+  const policy = assignment.latePolicy || {}
+  const daysLate = Math.ceil(lateMs / DAY_MS)
+  const late = { lateStatus: "late" as const, daysLate, dueDateApplied: dueDate }
+
+  // No policy means late work is accepted without a penalty, as before policies existed
+  switch (policy.mode ?? "penalty") {
+    case "penalty": {
+      const penaltyPercent = Math.min(
+        policy.maxPenaltyPercent ?? 100,
+        daysLate * (policy.penaltyPercentPerDay ?? 0)
+      )
+      return { ...late, accepted: true, penaltyPercent }
+    }
+    case "grace":
+      return { ...late, accepted: lateMs <= (policy.graceHours ?? 0) * HOUR_MS, penaltyPercent: 0 }
+    case "hard_close":
+    default:
+      return { ...late, accepted: false, penaltyPercent: 0 }
+  }
+}
+
+/** Final grade after the late deduction, rounded to two decimals. */
+export function applyLatePenalty(rawGrade: number, penaltyPercent: number) {
+  const factor = Math.max(0, 1 - (penaltyPercent || 0) / 100)
+  return Math.round(rawGrade * factor * 100) / 100
+}
@@ -0,0 +1,115 @@
+import { Video } from "@/models/video"
+import { VideoCaption, type CaptionCue } from "@/models/video-caption"
+
+export type SubtitleFormat = "srt" | "vtt"
+
+// 00:01:02.500, 01:02.500 (WebVTT may drop the hours) or 00:01:02,500 (SRT)
+const TIMING_LINE = /^\s*((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})\s*-->\s*((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})/
+
+function parseCueTimestamp(value: string) {
+  const [clock, fraction = "0"] = value.replace(",", ".").split(".")
+  const parts = clock.split(":").map(Number)
+  const [h, m, s] = parts.length === 3 ? parts : [0, parts[0], parts[1]]
+  return h * 3600 + m * 60 + s + Number(fraction.padEnd(3, "0").slice(0, 3)) / 1000
+}
+
+export function formatVttTimestamp(totalSeconds: number) {
+  const ms = Math.round(Math.max(0, totalSeconds) * 1000)
+  const h = Math.floor(ms / 3600000)
+  const m = Math.floor((ms % 3600000) / 60000)
+  const s = Math.floor((ms % 60000) / 1000)
+  const pad = (n: number, width = 2) => String(n).padStart(width, "0")
+  return `${pad(h)}:${pad(m)}:${pad(s)}.${pad(ms % 1000, 3)}`
+}
+
+export function detectSubtitleFormat(text: string, fileName?: string): SubtitleFormat {
+  if (text.replace(/^\uFEFF/, "").trimStart().startsWith("WEBVTT")) return "vtt"
+  if (fileName?.toLowerCase().endsWith(".vtt")) return "vtt"
+  return "srt"
+}
+
+/**
+ * Reads the cues out of an SRT or WebVTT file. Cue identifiers, settings and
+ * WebVTT NOTE/STYLE/REGION blocks are dropped; the cue text is kept as is.
+ */
+export function parseSubtitles(text: string): CaptionCue[] {
+  const blocks = text
+    .replace(/^\uFEFF/, "")
+    .replace(/\r\n?/g, "\n")
+    .split(/\n{2,}/)
+
+  const cues: CaptionCue[] = []
+  for (const block of blocks) {
+    const lines = block.replace(/^\n+/, "").split("\n")
+    const timingIndex = lines.findIndex((line) => TIMING_LINE.test(line))
+    // Headers and NOTE/STYLE blocks have no timing line; identifiers sit above it
+    if (timingIndex === -1 || timingIndex > 1) continue
+
+    const [, start, end] = lines[timingIndex].match(TIMING_LINE) as RegExpMatchArray
+    const cueText = lines
+      .slice(timingIndex + 1)
+      .join("\n")
+      .trim()
+    const cue = { start: parseCueTimestamp(start), end: parseCueTimestamp(end), text: cueText }
+    if (cue.text && cue.end > cue.start) cues.push(cue)
+  }
+  return cues.sort((a, b) => a.start - b.start)
+}
+
+export function serializeWebVtt(cues: CaptionCue[]) {
+  const body = cues
+    .map((cue) => `${formatVttTimestamp(cue.start)} --> ${formatVttTimestamp(cue.end)}\n${cue.text}`)
+    .join("\n\n")
+  return `WEBVTT\n\n${body}\n`
+}
+
+export function captionTrackUrl(videoId: string, language: string) {
+  return `/api/videos/${videoId}/captions/${language}`
+}
+
+export type CaptionTrackSummary = {
+  language: string
+  label: string
+  isDefault: boolean
+  cueCount: number
+  src: string
+  updatedAt?: Date
+}
+
+export async function listCaptionTracks(videoId: string): Promise<CaptionTrackSummary[]> {
+  const tracks = await VideoCaption.find({ video: videoId })
+    .select({ language: 1, label: 1, isDefault: 1, updatedAt: 1, cueCount: { $size: "$cues" } })
+    .sort({ isDefault: -1, label: 1 })
+    .lean<{ language: string; label: string; isDefault?: boolean; cueCount?: number; updatedAt?: Date }[]>()
+
+  return tracks.map((t) => ({
+    language: t.language,
+    label: t.label,
+    isDefault: !!t.isDefault,
+    cueCount: t.cueCount || 0,
+    src: captionTrackUrl(videoId, t.language),
+    updatedAt: t.updatedAt,
+  }))
+}
+
+/**
+ * Keeps a single default track per video and points the legacy
+ * `Video.captionsUrl` at it, falling back to the first track.
+ */
+export async function syncDefaultCaption(videoId: string, defaultLanguage?: string) {
+  if (defaultLanguage) {
+    await VideoCaption.updateMany(
+      { video: videoId, language: { $ne: defaultLanguage } },
+      { $set: { isDefault: false } }
+    )
+  }
+
+  const track =
+    (await VideoCaption.findOne({ video: videoId, isDefault: true }).select("language").lean()) ||
+    (await VideoCaption.findOne({ video: videoId }).sort({ createdAt: 1 }).select("language").lean())
+
+  await Video.updateOne(
+    { _id: videoId },
+    track ? { $set: { captionsUrl: captionTrackUrl(videoId, track.language) } } : { $unset: { captionsUrl: 1 } }
+  )
+}
@@ -1,8 +1,10 @@
+import type { Model } from "mongoose"
 import { Course } from "@/models/course"
 import { CourseProgress } from "@/models/course-progress"
 import { Video } from "@/models/video"
-import { Assignment } from "@/models/assignment"
+import { Assignment, type IAssignment } from "@/models/assignment"
 import { Quiz } from "@/models/quiz"
+import { getCourseCurriculum, getSectionProgress, loadLessonCompletion } from "@/lib/curriculum"
 
 function toIdString(id: unknown) {
   if (typeof id === "string") return id
@@ -16,12 +18,67 @@ type ProgressWeights = {
   quizzes: number
 }
 
-const DEFAULT_WEIGHTS: ProgressWeights = {
+export const DEFAULT_WEIGHTS: ProgressWeights = {
   lessons: 40,
   quizzes: 30,
   assignments: 30,
 }
 
+export type CompletionCriteria = {
+  minVideoWatchPercent: number
+  minAverageQuizScore: number
+  optionalVideos: Set<string>
+  optionalAssignments: Set<string>
+}
+
+export const DEFAULT_MIN_VIDEO_WATCH_PERCENT = 80
+
+export function getCompletionCriteria(course: { completionCriteria?: Record<string, unknown> } | null): CompletionCriteria {
+  const c = (course?.completionCriteria || {}) as {
+    minVideoWatchPercent?: number
+    minAverageQuizScore?: number
+    optionalVideos?: unknown[]
+    optionalAssignments?: unknown[]
+  }
+  return {
+    minVideoWatchPercent: c.minVideoWatchPercent ?? DEFAULT_MIN_VIDEO_WATCH_PERCENT,
+    minAverageQuizScore: c.minAverageQuizScore ?? 0,
+    optionalVideos: new Set((c.optionalVideos || []).map(toIdString)),
+    optionalAssignments: new Set((c.optionalAssignments || []).map(toIdString)),
+  }
+}
+
+type WatchProgress = {
+  videoWatchDetails?: Record<string, { percentWatched?: number; completed?: boolean }>
+  completedVideos?: unknown[]
+  markModified?: (path: string) => void
+}
+
+/**
+ * Re-applies the watch threshold to recorded watch percentages so a changed
+ * threshold takes effect. Videos completed before percentages were tracked stay completed.
+ */
+function applyWatchThreshold(progress: WatchProgress, minVideoWatchPercent: number) {
+  const details = progress.videoWatchDetails || {}
+  const completed = new Set<string>((progress.completedVideos || []).map(toIdString))
+  let changed = false
+
+  for (const [videoId, detail] of Object.entries(details)) {
+    if (typeof detail?.percentWatched !== "number") continue
+    const done = detail.percentWatched >= minVideoWatchPercent
+    if (done !== completed.has(videoId) || done !== !!detail.completed) changed = true
+    if (done) completed.add(videoId)
+    else completed.delete(videoId)
+    details[videoId] = { ...detail, completed: done }
+  }
+
+  if (changed) {
+    progress.completedVideos = Array.from(completed)
+    progress.videoWatchDetails = { ...details }
+    progress.markModified?.("videoWatchDetails")
+  }
+}
+
 function normalizeWeights(weights: ProgressWeights, totals: { lessons: number; assignments: number; quizzes: number }): ProgressWeights {
   const active: ProgressWeights = { ...weights }
   if (totals.lessons <= 0) active.lessons = 0
@@ -42,19 +99,33 @@ function normalizeWeights(weights: ProgressWeights, totals: { lessons: number; a
 }
 
 export async function recalculateAndSaveCourseProgress(studentId: string, courseId: string) {
-  const course = await (Course as any).findById(courseId).lean()
+  const course = await Course.findById(courseId).lean()
   if (!course) throw new Error("Course not found")
 
-  const [totalVideos, assignmentIds, requiredQuizIds] = await Promise.all([
-    (Video as any).countDocuments({ course: courseId }),
-    (Assignment as any).find({ courseId }).select("_id").lean(),
-    (Quiz as any).find({ course: courseId, published: true, requiredForCertificate: true }).select("_id").lean(),
+  const criteria = getCompletionCriteria(course)
+
+  const [videoIds, assignmentIds, requiredQuizIds, curriculum] = await Promise.all([
+    Video.find({ course: courseId }).select("_id").lean(),
+    (Assignment as Model<IAssignment>).find({ courseId }).select("_id").lean(),
+    Quiz.find({ course: courseId, published: true, requiredForCertificate: true }).select("_id").lean(),
+    getCourseCurriculum(courseId),
   ])
 
+  // Optional videos and assignments still show in section progress but not in the overall percentage
+  const videoSet = new Set<string>(
+    videoIds.map((v: unknown) => toIdString((v as { _id?: unknown })?._id)).filter((id: string) => id && !criteria.optionalVideos.has(id))
+  )
+  const assignmentSet = new Set<string>(
+    assignmentIds
+      .map((a: unknown) => toIdString((a as { _id?: unknown })?._id))
+      .filter((id: string) => id && !criteria.optionalAssignments.has(id))
+  )
+  const requiredQuizSet = new Set<string>(requiredQuizIds.map((q: unknown) => toIdString((q as { _id?: unknown })?._id)).filter(Boolean))
+
   const totals = {
-    lessons: totalVideos,
-    assignments: assignmentIds.length,
-    quizzes: requiredQuizIds.length,
+    lessons: videoSet.size,
+    assignments: assignmentSet.size,
+    quizzes: requiredQuizSet.size,
   }
 
   const configuredWeights: ProgressWeights = {
@@ -80,14 +151,14 @@ export async function recalculateAndSaveCourseProgress(studentId: string, course
     })
   }
 
-  const completedVideos = new Set((progress.completedVideos || []).map(toIdString).filter(Boolean))
-  const submittedAssignments = new Set((progress.submittedAssignments || []).map(toIdString).filter(Boolean))
-  const passedQuizzes = new Set((progress.passedQuizzes || []).map(toIdString).filter(Boolean))
+  applyWatchThreshold(progress, criteria.minVideoWatchPercent)
 
-  const assignmentSet = new Set(assignmentIds.map((a: unknown) => toIdString((a as { _id?: unknown })?._id)).filter(Boolean))
-  const requiredQuizSet = new Set(requiredQuizIds.map((q: unknown) => toIdString((q as { _id?: unknown })?._id)).filter(Boolean))
+  const completion = await loadLessonCompletion(studentId, courseId, progress)
+  const completedVideos = completion.videos
+  const passedQuizzes = completion.quizzes
+  const submittedAssignments = completion.assignments
 
-  const lessonsCompleted = completedVideos.size
+  const lessonsCompleted = Array.from(completedVideos).filter((id) => videoSet.has(id)).length
   const assignmentsCompleted = Array.from(submittedAssignments).filter((id) => assignmentSet.has(id)).length
   const quizzesCompleted = Array.from(passedQuizzes).filter((id) => requiredQuizSet.has(id)).length
 
@@ -100,10 +171,23 @@ export async function recalculateAndSaveCourseProgress(studentId: string, course
     Math.round((lessonsPercent + assignmentsPercent + quizzesPercent) * 100) / 100
   )
 
+  // Best score per required quiz; unattempted quizzes count as 0
+  const bestScores = new Map<string, number>(
+    ((progress.quizProgress || []) as { quiz?: unknown; bestScorePercent?: number }[]).map((q) => [
+      toIdString(q.quiz),
+      q.bestScorePercent ?? 0,
+    ])
+  )
+  const averageQuizScore =
+    totals.quizzes > 0
+      ? Math.round((Array.from(requiredQuizSet).reduce((sum, id) => sum + (bestScores.get(id) ?? 0), 0) / totals.quizzes) * 100) / 100
+      : 0
+
   const isComplete =
     (totals.lessons <= 0 || lessonsCompleted >= totals.lessons) &&
     (totals.assignments <= 0 || assignmentsCompleted >= totals.assignments) &&
     (totals.quizzes <= 0 || quizzesCompleted >= totals.quizzes) &&
+    (totals.quizzes <= 0 || averageQuizScore >= criteria.minAverageQuizScore) &&
     percentageCompleted >= 100
 
   progress.percentageCompleted = percentageCompleted
@@ -130,6 +214,8 @@ export async function recalculateAndSaveCourseProgress(studentId: string, course
       percent: totals.quizzes > 0 ? Math.round(((quizzesCompleted / totals.quizzes) * weights.quizzes) * 100) / 100 : 0,
     },
   }
+  progress.averageQuizScore = averageQuizScore
+  progress.sectionProgress = curriculum ? getSectionProgress(curriculum.sections, completion) : []
   progress.isComplete = isComplete
   progress.updatedAt = new Date()
 
@@ -137,3 +223,21 @@ export async function recalculateAndSaveCourseProgress(studentId: string, course
   return progress
 }
 
+/**
+ * Recomputes progress for every enrolled student after the course's progress
+ * settings change. Runs one student at a time; failures are logged and skipped.
+ */
+export async function recalculateCourseProgressForAll(courseId: string) {
+  const course = await Course.findById(courseId).select("studentsPurchased").lean()
+  const studentIds: string[] = (course?.studentsPurchased || []).map(toIdString)
+  let updated = 0
+  for (const studentId of studentIds) {
+    try {
+      await recalculateAndSaveCourseProgress(studentId, courseId)
+      updated++
+    } catch (error) {
+      console.error(`Progress recalculation failed for student ${studentId}:`, error)
+    }
+  }
+  return { updated, total: studentIds.length }
+}
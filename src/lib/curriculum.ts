@@ -0,0 +1,264 @@
+import type { Model } from "mongoose"
+import { Course, type CourseSection, type LessonType } from "@/models/course"
+import { Video } from "@/models/video"
+import { Quiz } from "@/models/quiz"
+import { Assignment, type IAssignment } from "@/models/assignment"
+import { LiveClass, type ILiveClass } from "@/models/live-class"
+import { Submission, type ISubmission } from "@/models/submission"
+import { videosAwaitingAnswers } from "@/lib/video-questions"
+
+function toIdString(id: unknown) {
+  if (typeof id === "string") return id
+  if (id && typeof (id as { toString?: unknown }).toString === "function") return (id as { toString: () => string }).toString()
+  return ""
+}
+
+export type CurriculumLesson = {
+  _id: string
+  title: string
+  type: LessonType
+  refId?: string
+  materialUrl?: string
+  /** Where the learner opens the lesson */
+  href: string
+  /** Short secondary line: video length, due date, class date */
+  detail?: string
+}
+
+export type CurriculumSection = {
+  _id: string
+  title: string
+  description?: string
+  lessons: CurriculumLesson[]
+}
+
+export type CourseCurriculum = {
+  /** False for courses without a saved curriculum; their videos form one section */
+  structured: boolean
+  sections: CurriculumSection[]
+}
+
+export type LessonCompletion = {
+  videos: Set<string>
+  quizzes: Set<string>
+  assignments: Set<string>
+  liveClasses: Set<string>
+  lessons: Set<string>
+}
+
+export type SectionProgress = {
+  sectionId: string
+  title: string
+  completed: number
+  total: number
+  percent: number
+}
+
+type ContentDoc = {
+  _id: unknown
+  title?: string
+  duration?: string | number
+  position?: number
+  dueDate?: Date
+  scheduledDate?: Date
+}
+
+export const LEGACY_SECTION_ID = "all-videos"
+
+function lessonHref(courseId: string, type: LessonType, refId: string, materialUrl?: string) {
+  switch (type) {
+    case "video":
+      return `/courses/${courseId}/learn/${refId}`
+    case "material":
+      // Older lessons were saved before links were validated
+      return materialUrl && /^https?:\/\//i.test(materialUrl) ? materialUrl : `/courses/${courseId}`
+    case "quiz":
+      return `/courses/${courseId}#quiz-${refId}`
+    case "assignment":
+      return `/courses/${courseId}#assignment-${refId}`
+    case "live_class":
+      return "/student/live-classes"
+  }
+}
+
+function lessonDetail(type: LessonType, doc?: ContentDoc) {
+  if (!doc) return undefined
+  if (type === "video" && doc.duration) return String(doc.duration)
+  if (type === "assignment" && doc.dueDate) return `Due ${new Date(doc.dueDate).toLocaleDateString()}`
+  if (type === "live_class" && doc.scheduledDate) return new Date(doc.scheduledDate).toLocaleString()
+  return undefined
+}
+
+export type CurriculumContentOption = { type: Exclude<LessonType, "material">; refId: string; title: string }
+
+function loadCourseContent(courseId: string, includeUnpublished: boolean) {
+  return Promise.all([
+    Video.find({ course: courseId }).select("title duration position").sort({ position: 1 }).lean<ContentDoc[]>(),
+    Quiz.find({ course: courseId, ...(includeUnpublished ? {} : { published: true }) })
+      .select("title")
+      .lean<ContentDoc[]>(),
+    (Assignment as Model<IAssignment>).find({ courseId }).select("title dueDate").lean<ContentDoc[]>(),
+    (LiveClass as Model<ILiveClass>).find({ course: courseId }).select("title scheduledDate").lean<ContentDoc[]>(),
+  ])
+}
+
+/** Course content a teacher can place in the curriculum (study material comes from the file list). */
+export async function getCurriculumContentOptions(courseId: string): Promise<CurriculumContentOption[]> {
+  const [videos, quizzes, assignments, liveClasses] = await loadCourseContent(courseId, true)
+  const toOptions = (type: CurriculumContentOption["type"], docs: ContentDoc[]) =>
+    docs.map((d) => ({ type, refId: toIdString(d._id), title: d.title || "Untitled" }))
+  return [
+    ...toOptions("video", videos),
+    ...toOptions("quiz", quizzes),
+    ...toOptions("assignment", assignments),
+    ...toOptions("live_class", liveClasses),
+  ]
+}
+
+/**
+ * Resolves a course's sections and lessons against the content that still exists.
+ * Lessons whose video, quiz, assignment or live class was deleted are dropped, and
+ * so are unpublished quizzes unless `includeUnpublished` is set for the teacher.
+ */
+export async function getCourseCurriculum(
+  courseId: string,
+  { includeUnpublished = false }: { includeUnpublished?: boolean } = {}
+): Promise<CourseCurriculum | null> {
+  const course = await Course.findById(courseId).select("curriculum").lean<{ curriculum?: CourseSection[] }>()
+  if (!course) return null
+
+  const [videos, quizzes, assignments, liveClasses] = await loadCourseContent(courseId, includeUnpublished)
+
+  const stored = course.curriculum || []
+  if (stored.length === 0) {
+    return {
+      structured: false,
+      sections: [
+        {
+          _id: LEGACY_SECTION_ID,
+          title: "Course content",
+          lessons: videos.map((v) => ({
+            _id: toIdString(v._id),
+            title: v.title || "Untitled video",
+            type: "video" as const,
+            refId: toIdString(v._id),
+            href: lessonHref(courseId, "video", toIdString(v._id)),
+            detail: lessonDetail("video", v),
+          })),
+        },
+      ],
+    }
+  }
+
+  const byType: Record<Exclude<LessonType, "material">, Map<string, ContentDoc>> = {
+    video: new Map(videos.map((d) => [toIdString(d._id), d])),
+    quiz: new Map(quizzes.map((d) => [toIdString(d._id), d])),
+    assignment: new Map(assignments.map((d) => [toIdString(d._id), d])),
+    live_class: new Map(liveClasses.map((d) => [toIdString(d._id), d])),
+  }
+
+  return {
+    structured: true,
+    sections: stored.map((section) => ({
+      _id: toIdString(section._id),
+      title: section.title,
+      description: section.description,
+      lessons: (section.lessons || []).flatMap((lesson) => {
+        const refId = toIdString(lesson.refId)
+        const doc = lesson.type === "material" ? undefined : byType[lesson.type].get(refId)
+        if (lesson.type !== "material" && !doc) return []
+        return [
+          {
+            _id: toIdString(lesson._id),
+            title: lesson.title,
+            type: lesson.type,
+            refId: refId || undefined,
+            materialUrl: lesson.materialUrl,
+            href: lessonHref(courseId, lesson.type, refId, lesson.materialUrl),
+            detail: lessonDetail(lesson.type, doc),
+          },
+        ]
+      }),
+    })),
+  }
+}
+
+/** The curriculum as shown to visitors who can't open its lessons: study material links stay private. */
+export function withoutMaterialLinks(courseId: string, curriculum: CourseCurriculum): CourseCurriculum {
+  return {
+    ...curriculum,
+    sections: curriculum.sections.map((section) => ({
+      ...section,
+      lessons: section.lessons.map((lesson) =>
+        lesson.type === "material"
+          ? { ...lesson, materialUrl: undefined, href: lessonHref(courseId, "material", "") }
+          : lesson
+      ),
+    })),
+  }
+}
+
+type ProgressForCompletion = {
+  completedVideos?: unknown[]
+  passedQuizzes?: unknown[]
+  submittedAssignments?: unknown[]
+  completedLessons?: unknown[]
+} | null
+
+/**
+ * Everything a student has finished in a course. Submissions are the source of
+ * truth for assignments; `submittedAssignments` only covers older records.
+ */
+export async function loadLessonCompletion(
+  studentId: string,
+  courseId: string,
+  progress: ProgressForCompletion
+): Promise<LessonCompletion> {
+  const assignmentIds = (await (Assignment as Model<IAssignment>).find({ courseId }).select("_id").lean()).map((a) => a._id)
+  const [submissions, attendedClasses, awaitingAnswers] = await Promise.all([
+    (Submission as Model<ISubmission>).find({ studentId, assignmentId: { $in: assignmentIds } }).select("assignmentId").lean(),
+    (LiveClass as Model<ILiveClass>).find({ course: courseId, attendees: studentId }).select("_id").lean(),
+    videosAwaitingAnswers(studentId, courseId),
+  ])
+
+  const ids = (list?: unknown[]) => (list || []).map(toIdString).filter(Boolean)
+  return {
+    // A watched video still needs its progress-counting in-video questions answered
+    videos: new Set(ids(progress?.completedVideos).filter((id) => !awaitingAnswers.has(id))),
+    quizzes: new Set(ids(progress?.passedQuizzes)),
+    assignments: new Set([...ids(progress?.submittedAssignments), ...submissions.map((s) => toIdString(s.assignmentId))]),
+    liveClasses: new Set(attendedClasses.map((c) => toIdString(c._id))),
+    lessons: new Set(ids(progress?.completedLessons)),
+  }
+}
+
+/** Lessons with their own activity record complete through it; the rest through `completedLessons`. */
+export function isLessonComplete(lesson: CurriculumLesson, completion: LessonCompletion) {
+  const refId = lesson.refId || ""
+  switch (lesson.type) {
+    case "video":
+      return completion.videos.has(refId)
+    case "quiz":
+      return completion.quizzes.has(refId)
+    case "assignment":
+      return completion.assignments.has(refId)
+    case "live_class":
+      return completion.liveClasses.has(refId) || completion.lessons.has(lesson._id)
+    case "material":
+      return completion.lessons.has(lesson._id)
+  }
+}
+
+export function getSectionProgress(sections: CurriculumSection[], completion: LessonCompletion): SectionProgress[] {
+  return sections.map((section) => {
+    const total = section.lessons.length
+    const completed = section.lessons.filter((lesson) => isLessonComplete(lesson, completion)).length
+    return {
+      sectionId: section._id,
+      title: section.title,
+      completed,
+      total,
+      percent: total > 0 ? Math.round((completed / total) * 10000) / 100 : 0,
+    }
+  })
+}
@@ -0,0 +1,231 @@
+import type { HydratedDocument, Model } from "mongoose"
+import { Course } from "@/models/course"
+import { Video } from "@/models/video"
+import { Assignment, type IAssignment } from "@/models/assignment"
+import { Student } from "@/models/student"
+import { Teacher } from "@/models/teacher"
+import {
+  DiscussionReply,
+  DiscussionThread,
+  type DiscussionLessonType,
+  type IDiscussionReply,
+  type IDiscussionThread,
+} from "@/models/discussion"
+import { notifyUser } from "@/lib/notifications"
+import { emitToUser } from "@/lib/socket-server"
+
+function toIdString(id: unknown) {
+  if (typeof id === "string") return id
+  if (id && typeof (id as { toString?: unknown }).toString === "function") return (id as { toString: () => string }).toString()
+  return ""
+}
+
+export type DiscussionViewer = { id: string; role: string }
+
+export type LessonAccess = {
+  courseId: string
+  teacherId: string
+  lessonType: DiscussionLessonType
+  lessonId: string
+  lessonTitle: string
+  isCourseTeacher: boolean
+}
+
+type AccessResult =
+  | { access: LessonAccess; error?: undefined; status?: undefined }
+  | { access?: undefined; error: string; status: number }
+
+type AuthoredDoc = { _id: unknown; author: unknown; authorRole: "student" | "teacher"; upvotes?: unknown[] }
+
+export type ThreadDoc = AuthoredDoc & {
+  lessonType: DiscussionLessonType
+  lessonId: unknown
+  title: string
+  body: string
+  videoTimestamp?: number
+  acceptedReply?: unknown
+  replyCount?: number
+  lastActivityAt: Date
+  createdAt: Date
+}
+
+export type ReplyDoc = AuthoredDoc & {
+  thread: unknown
+  body: string
+  videoTimestamp?: number
+  endorsedBy?: unknown
+  createdAt: Date
+}
+
+type ThreadResult =
+  | { thread: HydratedDocument<IDiscussionThread>; access: LessonAccess; error?: undefined; status?: undefined }
+  | { thread?: undefined; access?: undefined; error: string; status: number }
+
+export function lessonLink(courseId: string, lessonType: DiscussionLessonType, lessonId: string) {
+  return lessonType === "video" ? `/courses/${courseId}/learn/${lessonId}` : `/courses/${courseId}#assignment-${lessonId}`
+}
+
+/**
+ * The course behind a video or assignment, if the viewer may take part in its
+ * discussion: enrolled students, the course teacher and admins.
+ */
+export async function resolveLessonAccess(
+  lessonType: DiscussionLessonType,
+  lessonId: string,
+  viewer: DiscussionViewer
+): Promise<AccessResult> {
+  const lesson =
+    lessonType === "video"
+      ? await Video.findById(lessonId).select("course title").lean()
+      : await (Assignment as Model<IAssignment>).findById(lessonId).select("courseId title").lean()
+  if (!lesson) return { error: "Lesson not found", status: 404 }
+
+  const courseId = toIdString("course" in lesson ? lesson.course : lesson.courseId)
+  const course = await Course.findById(courseId).select("teacher").lean()
+  if (!course) return { error: "Course not found", status: 404 }
+
+  const teacherId = toIdString(course.teacher)
+  const isCourseTeacher = viewer.role === "teacher" && viewer.id === teacherId
+
+  if (viewer.role === "student") {
+    const student = await Student.findById(viewer.id).select("purchasedCourses").lean()
+    const enrolled = (student?.purchasedCourses || []).some((id) => toIdString(id) === courseId)
+    if (!enrolled) return { error: "Enroll in the course to join the discussion", status: 403 }
+  } else if (!isCourseTeacher && viewer.role !== "admin") {
+    return { error: "You do not have access to this discussion", status: 403 }
+  }
+
+  return {
+    access: {
+      courseId,
+      teacherId,
+      lessonType,
+      lessonId,
+      lessonTitle: lesson.title || (lessonType === "video" ? "Video" : "Assignment"),
+      isCourseTeacher,
+    },
+  }
+}
+
+/** A thread together with the viewer's access to its lesson. */
+export async function loadThreadForViewer(threadId: string, viewer: DiscussionViewer): Promise<ThreadResult> {
+  const thread = await DiscussionThread.findById(threadId)
+  if (!thread) return { error: "Thread not found", status: 404 }
+
+  const result = await resolveLessonAccess(thread.lessonType, toIdString(thread.lessonId), viewer)
+  if (result.error !== undefined) return { error: result.error, status: result.status }
+  return { thread, access: result.access }
+}
+
+/** Display names for the authors of threads and replies, keyed by author id. */
+export async function loadAuthorNames(docs: AuthoredDoc[]) {
+  const idsByRole = (role: string) => docs.filter((d) => d.authorRole === role).map((d) => d.author)
+  const [students, teachers] = await Promise.all([
+    Student.find({ _id: { $in: idsByRole("student") } }).select("name").lean(),
+    Teacher.find({ _id: { $in: idsByRole("teacher") } }).select("name").lean(),
+  ])
+  return new Map([...students, ...teachers].map((u) => [toIdString(u._id), u.name || "Unknown"]))
+}
+
+function serializeAuthored(doc: AuthoredDoc, names: Map<string, string>, viewerId: string) {
+  const upvotes = (doc.upvotes || []).map(toIdString)
+  return {
+    _id: toIdString(doc._id),
+    author: { _id: toIdString(doc.author), name: names.get(toIdString(doc.author)) || "Unknown", role: doc.authorRole },
+    upvoteCount: upvotes.length,
+    upvoted: upvotes.includes(viewerId),
+    isMine: toIdString(doc.author) === viewerId,
+  }
+}
+
+export function serializeThread(thread: ThreadDoc, names: Map<string, string>, viewerId: string) {
+  return {
+    ...serializeAuthored(thread, names, viewerId),
+    lessonType: thread.lessonType,
+    lessonId: toIdString(thread.lessonId),
+    title: thread.title,
+    body: thread.body,
+    videoTimestamp: thread.videoTimestamp,
+    acceptedReply: thread.acceptedReply ? toIdString(thread.acceptedReply) : null,
+    replyCount: thread.replyCount || 0,
+    lastActivityAt: thread.lastActivityAt,
+    createdAt: thread.createdAt,
+  }
+}
+
+export function serializeReply(reply: ReplyDoc, names: Map<string, string>, viewerId: string) {
+  return {
+    ...serializeAuthored(reply, names, viewerId),
+    thread: toIdString(reply.thread),
+    body: reply.body,
+    videoTimestamp: reply.videoTimestamp,
+    endorsed: !!reply.endorsedBy,
+    createdAt: reply.createdAt,
+  }
+}
+
+/** Adds or removes the viewer's upvote; authors cannot upvote their own posts. */
+export async function toggleUpvote<T extends IDiscussionThread | IDiscussionReply>(
+  model: Model<T>,
+  doc: AuthoredDoc,
+  viewerId: string
+) {
+  if (toIdString(doc.author) === viewerId) return { error: "You cannot upvote your own post", status: 400 }
+  const upvoted = (doc.upvotes || []).some((id) => toIdString(id) === viewerId)
+  const updated = await model.findByIdAndUpdate(
+    doc._id,
+    upvoted ? { $pull: { upvotes: viewerId } } : { $addToSet: { upvotes: viewerId } },
+    { new: true }
+  )
+  return { upvoted: !upvoted, upvoteCount: (updated?.upvotes || []).length }
+}
+
+/** Tells the course teacher about a new question on one of their lessons. */
+export async function notifyNewThread(thread: ThreadDoc, access: LessonAccess, actor: DiscussionViewer) {
+  if (actor.id === access.teacherId) return
+  await notifyUser({
+    userId: access.teacherId,
+    userRole: "teacher",
+    type: "discussion_question",
+    title: `New question on "${access.lessonTitle}"`,
+    body: thread.title,
+    link: lessonLink(access.courseId, access.lessonType, access.lessonId),
+    courseId: access.courseId,
+    data: { threadId: toIdString(thread._id) },
+  })
+}
+
+/**
+ * Sends a new reply to everyone in the thread: the asker, earlier repliers and
+ * the course teacher, except whoever wrote it. Open threads update through the
+ * `discussion:reply` socket event; everyone also gets a notification.
+ */
+export async function notifyThreadParticipants(
+  thread: ThreadDoc,
+  reply: ReturnType<typeof serializeReply>,
+  access: LessonAccess,
+  actor: DiscussionViewer
+) {
+  const replies = await DiscussionReply.find({ thread: thread._id }).select("author authorRole").lean()
+
+  const participants = new Map<string, "student" | "teacher">([[access.teacherId, "teacher"]])
+  participants.set(toIdString(thread.author), thread.authorRole)
+  for (const r of replies) participants.set(toIdString(r.author), r.authorRole)
+  participants.delete(actor.id)
+
+  await Promise.all(
+    [...participants].map(([userId, userRole]) => {
+      emitToUser(userId, "discussion:reply", reply)
+      return notifyUser({
+        userId,
+        userRole,
+        type: "discussion_reply",
+        title: `New reply in "${thread.title}"`,
+        body: reply.body.slice(0, 140),
+        link: lessonLink(access.courseId, access.lessonType, access.lessonId),
+        courseId: access.courseId,
+        data: { threadId: toIdString(thread._id), replyId: reply._id },
+      })
+    })
+  )
+}
@@ -25,10 +25,13 @@ export type NotificationType =
   | "material_uploaded"
   | "quiz_graded"
   | "assignment_graded"
+  | "peer_review_assigned"
   | "payment_confirmation"
   | "announcement"
   | "certificate_eligible"
   | "message"
+  | "discussion_question"
+  | "discussion_reply"
 
 export async function notifyUser(params: {
   userId: string
@@ -0,0 +1,75 @@
+function toIdString(id: unknown) {
+  if (typeof id === "string") return id
+  if (id && typeof (id as { toString?: unknown }).toString === "function") return (id as { toString: () => string }).toString()
+  return ""
+}
+
+/** A review further than this share of the rubric's points from the median is an outlier. */
+const OUTLIER_SHARE_OF_MAX = 0.2
+
+export type ReviewPairing = { submissionId: string; authorId: string; reviewerId: string }
+
+function shuffle<T>(items: T[]): T[] {
+  const out = [...items]
+  for (let i = out.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1))
+    ;[out[i], out[j]] = [out[j], out[i]]
+  }
+  return out
+}
+
+/**
+ * Pairs each submission with up to `reviewsPerSubmission` enrolled students other
+ * than its author, always picking the least-loaded reviewers so work is spread evenly.
+ */
+export function assignReviewers(
+  submissions: { submissionId: string; authorId: string }[],
+  reviewerIds: string[],
+  reviewsPerSubmission: number
+): ReviewPairing[] {
+  const load = new Map(reviewerIds.map((id) => [id, 0]))
+  const pairings: ReviewPairing[] = []
+
+  for (const submission of shuffle(submissions)) {
+    const candidates = shuffle(reviewerIds.filter((id) => id !== submission.authorId)).sort(
+      (a, b) => (load.get(a) ?? 0) - (load.get(b) ?? 0)
+    )
+    for (const reviewerId of candidates.slice(0, reviewsPerSubmission)) {
+      load.set(reviewerId, (load.get(reviewerId) ?? 0) + 1)
+      pairings.push({ ...submission, reviewerId })
+    }
+  }
+  return pairings
+}
+
+function median(values: number[]) {
+  const sorted = [...values].sort((a, b) => a - b)
+  const mid = Math.floor(sorted.length / 2)
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2
+}
+
+/** Median of submitted peer totals, and which reviews sit far from it. */
+export function summarizePeerReviews(
+  reviews: { _id: unknown; status?: string; totalPoints?: number }[],
+  maxPoints: number
+) {
+  const submitted = reviews.filter((r) => r.status === "submitted" && typeof r.totalPoints === "number")
+  if (submitted.length === 0) {
+    return { consensusGrade: null, submittedCount: 0, assignedCount: reviews.length, outlierReviewIds: [] as string[] }
+  }
+
+  const consensus = median(submitted.map((r) => r.totalPoints as number))
+  const threshold = Math.max(1, maxPoints * OUTLIER_SHARE_OF_MAX)
+  // With two reviews the median sits between them, so neither can be singled out
+  const outlierReviewIds =
+    submitted.length >= 3
+      ? submitted.filter((r) => Math.abs((r.totalPoints as number) - consensus) > threshold).map((r) => toIdString(r._id))
+      : []
+
+  return {
+    consensusGrade: Math.round(consensus * 100) / 100,
+    submittedCount: submitted.length,
+    assignedCount: reviews.length,
+    outlierReviewIds,
+  }
+}
@@ -0,0 +1,260 @@
+import { Course } from "@/models/course"
+import { Video } from "@/models/video"
+import {
+  MAX_STORED_PLAYBACK_ERRORS,
+  PlaybackQuality,
+  type PlaybackQualityReportInput,
+} from "@/models/playback-quality"
+
+function toIdString(id: unknown) {
+  if (typeof id === "string") return id
+  if (id && typeof (id as { toString?: unknown }).toString === "function") return (id as { toString: () => string }).toString()
+  return ""
+}
+
+export const PLAYBACK_QUALITY_WINDOW_DAYS = 30
+
+/** Reporting window from a `?days=` query value, falling back to the default. */
+export function parseWindowDays(value: string | null) {
+  const days = Number(value)
+  return Number.isInteger(days) && days >= 1 && days <= 365 ? days : PLAYBACK_QUALITY_WINDOW_DAYS
+}
+
+/** Below this many sessions a lesson is not flagged; a single bad connection says little. */
+const MIN_SESSIONS_FOR_FLAGS = 5
+
+// Thresholds in line with common streaming QoE targets
+const SLOW_STARTUP_MS = 3000
+const HIGH_REBUFFER_PERCENT = 2
+const HIGH_ERROR_PERCENT = 5
+const HIGH_START_FAILURE_PERCENT = 5
+
+export type PlaybackQualityFlag = "slow_startup" | "rebuffering" | "fatal_errors" | "start_failures"
+
+export type PlaybackQualitySummary = {
+  sessions: number
+  /** Sessions that never showed a frame: loading failed or the viewer gave up waiting */
+  startFailurePercent: number
+  medianStartupMs: number | null
+  p90StartupMs: number | null
+  /** Share of viewing time spent stalled after startup */
+  rebufferPercent: number
+  stallsPerSession: number
+  bitrateSwitchesPerSession: number
+  averageBitrateKbps: number | null
+  /** Sessions that hit at least one unrecoverable error */
+  fatalErrorPercent: number
+  watchHours: number
+  flags: PlaybackQualityFlag[]
+}
+
+export type CoursePlaybackQuality = {
+  courseId: string
+  days: number
+  summary: PlaybackQualitySummary
+  videos: (PlaybackQualitySummary & { videoId: string; title: string })[]
+}
+
+export type VideoPlaybackQuality = {
+  videoId: string
+  title: string
+  days: number
+  summary: PlaybackQualitySummary
+  daily: (PlaybackQualitySummary & { date: string })[]
+  errors: { type: string; details: string; count: number; lastSeen: string }[]
+  delivery: { delivery: string; sessions: number }[]
+}
+
+type QualityDoc = {
+  video: unknown
+  delivery: string
+  startupMs?: number
+  watchMs?: number
+  rebufferMs?: number
+  rebufferCount?: number
+  bitrateSwitches?: number
+  bitrate?: number
+  fatalErrorCount?: number
+  fatalErrors?: { type: string; details?: string; at?: Date }[]
+  createdAt: Date
+}
+
+type Viewer = { id: string; role: string }
+
+/**
+ * Stores a player report. Totals only ever grow, so a late or repeated report
+ * can't roll a session back; errors are appended as they arrive.
+ */
+export async function recordPlaybackQualityReport(
+  report: PlaybackQualityReportInput,
+  viewer: Viewer,
+  video: { _id: unknown; course: unknown },
+  userAgent?: string
+) {
+  const update: Record<string, unknown> = {
+    $max: {
+      watchMs: report.watchMs,
+      rebufferMs: report.rebufferMs,
+      rebufferCount: report.rebufferCount,
+      bitrateSwitches: report.bitrateSwitches,
+    },
+    $setOnInsert: {
+      userRole: viewer.role,
+      course: video.course,
+      delivery: report.delivery,
+      userAgent,
+    },
+  }
+
+  const set: Record<string, number> = {}
+  if (report.startupMs !== null) set.startupMs = report.startupMs
+  if (report.bitrate !== null) set.bitrate = report.bitrate
+  if (Object.keys(set).length > 0) update.$set = set
+
+  if (report.fatalErrors.length > 0) {
+    const at = new Date()
+    update.$push = {
+      fatalErrors: { $each: report.fatalErrors.map((e) => ({ ...e, at })), $slice: -MAX_STORED_PLAYBACK_ERRORS },
+    }
+    update.$inc = { fatalErrorCount: report.fatalErrors.length }
+  }
+
+  await PlaybackQuality.updateOne(
+    { sessionId: report.sessionId, user: viewer.id, video: video._id },
+    update,
+    { upsert: true }
+  )
+}
+
+const round1 = (n: number) => Math.round(n * 10) / 10
+
+function percentile(sorted: number[], p: number) {
+  if (sorted.length === 0) return null
+  const index = Math.min(sorted.length - 1, Math.ceil((p / 100) * sorted.length) - 1)
+  return Math.round(sorted[Math.max(0, index)])
+}
+
+function summarize(docs: QualityDoc[]): PlaybackQualitySummary {
+  const sessions = docs.length
+  const startups = docs
+    .map((d) => d.startupMs)
+    .filter((ms): ms is number => typeof ms === "number")
+    .sort((a, b) => a - b)
+  const watchMs = docs.reduce((sum, d) => sum + (d.watchMs ?? 0), 0)
+  const rebufferMs = docs.reduce((sum, d) => sum + (d.rebufferMs ?? 0), 0)
+  const bitrates = docs.map((d) => d.bitrate).filter((b): b is number => typeof b === "number" && b > 0)
+  const perSession = (total: number) => (sessions ? round1(total / sessions) : 0)
+  const percentOfSessions = (count: number) => (sessions ? round1((count / sessions) * 100) : 0)
+
+  const summary: PlaybackQualitySummary = {
+    sessions,
+    startFailurePercent: percentOfSessions(sessions - startups.length),
+    medianStartupMs: percentile(startups, 50),
+    p90StartupMs: percentile(startups, 90),
+    rebufferPercent: watchMs + rebufferMs > 0 ? round1((rebufferMs / (watchMs + rebufferMs)) * 100) : 0,
+    stallsPerSession: perSession(docs.reduce((sum, d) => sum + (d.rebufferCount ?? 0), 0)),
+    bitrateSwitchesPerSession: perSession(docs.reduce((sum, d) => sum + (d.bitrateSwitches ?? 0), 0)),
+    averageBitrateKbps: bitrates.length
+      ? Math.round(bitrates.reduce((sum, b) => sum + b, 0) / bitrates.length / 1000)
+      : null,
+    fatalErrorPercent: percentOfSessions(docs.filter((d) => (d.fatalErrorCount ?? 0) > 0).length),
+    watchHours: round1(watchMs / 3600000),
+    flags: [],
+  }
+
+  if (sessions >= MIN_SESSIONS_FOR_FLAGS) {
+    if ((summary.medianStartupMs ?? 0) > SLOW_STARTUP_MS) summary.flags.push("slow_startup")
+    if (summary.rebufferPercent > HIGH_REBUFFER_PERCENT) summary.flags.push("rebuffering")
+    if (summary.fatalErrorPercent > HIGH_ERROR_PERCENT) summary.flags.push("fatal_errors")
+    if (summary.startFailurePercent > HIGH_START_FAILURE_PERCENT) summary.flags.push("start_failures")
+  }
+  return summary
+}
+
+// Teachers previewing their own lessons aren't representative of what students get
+function loadReports(filter: Record<string, unknown>, days: number) {
+  return PlaybackQuality.find({ ...filter, userRole: "student", createdAt: { $gte: new Date(Date.now() - days * 86400000) } })
+    .select("video delivery startupMs watchMs rebufferMs rebufferCount bitrateSwitches bitrate fatalErrorCount fatalErrors createdAt")
+    .lean<QualityDoc[]>()
+}
+
+/** Delivery quality per video of a teacher's course; lessons with problems come first. */
+export async function getCoursePlaybackQuality(
+  teacherId: string,
+  courseId: string,
+  days = PLAYBACK_QUALITY_WINDOW_DAYS
+): Promise<CoursePlaybackQuality | null> {
+  const course = await Course.findOne({ _id: courseId, teacher: teacherId }).select("_id").lean()
+  if (!course) return null
+
+  const [videos, reports] = await Promise.all([
+    Video.find({ course: courseId }).select("title position").sort({ position: 1 }).lean<{ _id: unknown; title?: string }[]>(),
+    loadReports({ course: courseId }, days),
+  ])
+
+  const byVideo = new Map<string, QualityDoc[]>()
+  for (const report of reports) {
+    const id = toIdString(report.video)
+    const list = byVideo.get(id) || []
+    list.push(report)
+    byVideo.set(id, list)
+  }
+
+  const rows = videos.map((v) => {
+    const videoId = toIdString(v._id)
+    return { videoId, title: v.title || "Untitled video", ...summarize(byVideo.get(videoId) || []) }
+  })
+  // Stable sort keeps curriculum order within each group
+  rows.sort((a, b) => b.flags.length - a.flags.length)
+
+  return { courseId, days, summary: summarize(reports), videos: rows }
+}
+
+/** Day-by-day quality and the errors seen for one video of a teacher's course. */
+export async function getVideoPlaybackQuality(
+  teacherId: string,
+  courseId: string,
+  videoId: string,
+  days = PLAYBACK_QUALITY_WINDOW_DAYS
+): Promise<VideoPlaybackQuality | null> {
+  const course = await Course.findOne({ _id: courseId, teacher: teacherId }).select("_id").lean()
+  if (!course) return null
+
+  const video = await Video.findOne({ _id: videoId, course: courseId }).select("title").lean()
+  if (!video) return null
+
+  const reports = await loadReports({ video: videoId }, days)
+
+  const byDay = new Map<string, QualityDoc[]>()
+  const byDelivery = new Map<string, number>()
+  const errors = new Map<string, { type: string; details: string; count: number; lastSeen: Date }>()
+  for (const report of reports) {
+    const date = new Date(report.createdAt).toISOString().slice(0, 10)
+    const day = byDay.get(date) || []
+    day.push(report)
+    byDay.set(date, day)
+    byDelivery.set(report.delivery, (byDelivery.get(report.delivery) || 0) + 1)
+    for (const e of report.fatalErrors || []) {
+      const key = `${e.type}:${e.details || ""}`
+      const seen = e.at ? new Date(e.at) : new Date(report.createdAt)
+      const entry = errors.get(key) || { type: e.type, details: e.details || "", count: 0, lastSeen: seen }
+      entry.count++
+      if (seen > entry.lastSeen) entry.lastSeen = seen
+      errors.set(key, entry)
+    }
+  }
+
+  return {
+    videoId: toIdString(video._id),
+    title: video.title || "Untitled video",
+    days,
+    summary: summarize(reports),
+    daily: [...byDay.entries()]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([date, docs]) => ({ date, ...summarize(docs) })),
+    errors: [...errors.values()]
+      .sort((a, b) => b.count - a.count)
+      .map((e) => ({ ...e, lastSeen: e.lastSeen.toISOString() })),
+    delivery: [...byDelivery.entries()].map(([delivery, sessions]) => ({ delivery, sessions })),
+  }
+}
@@ -0,0 +1,138 @@
+import crypto from "crypto"
+import jwt from "jsonwebtoken"
+import { PlaybackSession } from "@/models/playback-session"
+import { PlaybackLog } from "@/models/playback-log"
+import { hlsAssetUrl } from "@/lib/video-storage"
+import { canWatchCourse } from "@/lib/video-access"
+
+const ISSUER = "edulearn-playback"
+const AUDIENCE = "edulearn-player"
+
+// Long enough to finish a lesson in one sitting; reloading the page issues a fresh token
+export const PLAYBACK_TOKEN_TTL_SECONDS = Number(process.env.PLAYBACK_TOKEN_TTL_SECONDS) || 2 * 60 * 60
+
+export interface PlaybackTokenPayload {
+  videoId: string
+  courseId: string
+  userId: string
+  role: string
+  sessionId: string
+  iat?: number
+  nbf?: number
+  exp?: number
+}
+
+function signingSecret() {
+  if (!process.env.JWT_SECRET) {
+    throw new Error("JWT_SECRET environment variable is required")
+  }
+  return process.env.JWT_SECRET
+}
+
+/** Short code shown in the watermark that maps a recording back to its playback log entry. */
+export function watermarkCodeFor(sessionId: string) {
+  return sessionId.replace(/-/g, "").slice(0, 8).toUpperCase()
+}
+
+/**
+ * Signs a token for one video, records its session so it can be revoked and
+ * logs the viewing for forensic lookup by its watermark code. Null when the user
+ * may not watch the course (not its teacher, not enrolled, or blocked).
+ */
+export async function issuePlaybackToken(
+  grant: {
+    videoId: string
+    courseId: string
+    userId: string
+    role: string
+  },
+  client?: { ipAddress?: string | null; userAgent?: string | null }
+) {
+  if (!(await canWatchCourse(grant.courseId, { id: grant.userId, role: grant.role }))) return null
+
+  const sessionId = crypto.randomUUID()
+  const watermarkCode = watermarkCodeFor(sessionId)
+  const now = Math.floor(Date.now() / 1000)
+  const expiresAt = new Date((now + PLAYBACK_TOKEN_TTL_SECONDS) * 1000)
+  const owner = {
+    sessionId,
+    user: grant.userId,
+    userRole: grant.role,
+    video: grant.videoId,
+    course: grant.courseId,
+  }
+
+  await Promise.all([
+    PlaybackSession.create({ ...owner, expiresAt }),
+    PlaybackLog.create({
+      ...owner,
+      watermarkCode,
+      ipAddress: client?.ipAddress || undefined,
+      userAgent: client?.userAgent || undefined,
+    }),
+  ])
+
+  const payload: PlaybackTokenPayload = { ...grant, sessionId, iat: now, nbf: now, exp: now + PLAYBACK_TOKEN_TTL_SECONDS }
+  const token = jwt.sign(payload, signingSecret(), { algorithm: "HS256", issuer: ISSUER, audience: AUDIENCE })
+  return { token, expiresAt, watermarkCode }
+}
+
+/** The token's claims if it is valid for this video and its session has not been revoked. */
+export async function verifyPlaybackToken(token: string | null, videoId: string): Promise<PlaybackTokenPayload | null> {
+  if (!token) return null
+  let decoded: PlaybackTokenPayload
+  try {
+    decoded = jwt.verify(token, signingSecret(), {
+      algorithms: ["HS256"],
+      issuer: ISSUER,
+      audience: AUDIENCE,
+    }) as PlaybackTokenPayload
+  } catch {
+    return null
+  }
+  if (decoded.videoId !== videoId) return null
+
+  const session = await PlaybackSession.findOne({ sessionId: decoded.sessionId, revokedAt: { $exists: false } })
+    .select("_id")
+    .lean()
+  return session ? decoded : null
+}
+
+/** Ends a user's outstanding playback tokens, for one course or all of them. */
+export async function revokePlaybackTokens(userId: string, courseId?: string) {
+  await PlaybackSession.updateMany(
+    { user: userId, ...(courseId ? { course: courseId } : {}), revokedAt: { $exists: false } },
+    { $set: { revokedAt: new Date() } }
+  )
+}
+
+/**
+ * Signed URLs for a video: the HLS master playlist once it has been processed,
+ * otherwise the proxied source file. `downloadUrl` always points at the source.
+ */
+export function signedPlaybackUrls(videoId: string, token: string, processed: boolean) {
+  const query = `token=${encodeURIComponent(token)}`
+  const stream = `/api/videos/${videoId}/stream?${query}`
+  return {
+    src: processed ? `${hlsAssetUrl(videoId, "master.m3u8")}?${query}` : stream,
+    downloadUrl: `${stream}&download=1`,
+  }
+}
+
+export type PlaybackWatermarkSettings = { enabled: boolean; opacity: number }
+
+export const DEFAULT_PLAYBACK_WATERMARK: PlaybackWatermarkSettings = { enabled: true, opacity: 0.25 }
+
+/**
+ * The overlay a viewer sees: their email and the session's watermark code, at the
+ * course's opacity. Only students are marked; null when the course turned it off.
+ */
+export function playbackWatermarkFor(
+  course: { playbackWatermark?: Partial<PlaybackWatermarkSettings> } | null | undefined,
+  viewer: { email?: string | null; id: string; role: string },
+  watermarkCode: string
+) {
+  const settings = { ...DEFAULT_PLAYBACK_WATERMARK, ...course?.playbackWatermark }
+  if (!settings.enabled || viewer.role !== "student") return null
+  return { text: `${viewer.email || viewer.id} · ${watermarkCode}`, opacity: settings.opacity }
+}
@@ -0,0 +1,150 @@
+import { recordGradedQuizAttempt } from "@/lib/quiz-progress"
+import { gradeQuestion } from "@/lib/quiz-grading"
+import { getVariantQuestions, toOriginalAnswer, type QuizForVariant, type VariantEntry, type VariantQuestion } from "@/lib/quiz-variants"
+
+/** Late submissions within this window after the deadline are still accepted (network latency, slow clocks). */
+export const QUIZ_SUBMIT_GRACE_SECONDS = 30
+
+function toIdString(id: unknown) {
+  if (typeof id === "string") return id
+  if (id && typeof (id as { toString?: unknown }).toString === "function") return (id as { toString: () => string }).toString()
+  return ""
+}
+
+type IncomingAnswer =
+  | { questionId: string; answer: unknown }
+  | { questionId: string; value: unknown }
+
+type QuizForAttempt = QuizForVariant & {
+  course: unknown
+  passingScorePercent?: number
+}
+
+/** The subset of a QuizAttempt document the finalizer reads and writes. */
+type OpenAttempt = {
+  student: unknown
+  variant?: VariantEntry[]
+  draftAnswers?: { questionId: unknown; answer: unknown }[]
+  startedAt?: Date | null
+  set: (values: Record<string, unknown>) => unknown
+  save: () => Promise<unknown>
+}
+
+export function getAttemptDeadline(startedAt: Date, timeLimitSeconds?: number | null) {
+  if (typeof timeLimitSeconds !== "number" || timeLimitSeconds <= 0) return null
+  return new Date(startedAt.getTime() + timeLimitSeconds * 1000)
+}
+
+/** True once the deadline plus grace has passed; attempts without a deadline never expire. */
+export function isAttemptExpired(deadlineAt: Date | string | null | undefined, now = new Date()) {
+  if (!deadlineAt) return false
+  return now.getTime() > new Date(deadlineAt).getTime() + QUIZ_SUBMIT_GRACE_SECONDS * 1000
+}
+
+/** Maps answers by questionId; accepts legacy array answers by displayed question index. */
+export function buildAnswerMap(incomingAnswers: unknown, variantQuestions: VariantQuestion[]) {
+  const answerMap = new Map<string, unknown>()
+  if (!Array.isArray(incomingAnswers) || incomingAnswers.length === 0) return answerMap
+
+  if (typeof incomingAnswers[0] === "number" || incomingAnswers[0] === null) {
+    // legacy index-based MCQ answers
+    variantQuestions.forEach(({ question }, idx) => {
+      answerMap.set(question._id.toString(), (incomingAnswers as unknown[])[idx])
+    })
+  } else {
+    ;(incomingAnswers as IncomingAnswer[]).forEach((a) => {
+      const qid = (a as { questionId?: unknown }).questionId
+      const val = (a as { answer?: unknown; value?: unknown }).answer ?? (a as { value?: unknown }).value
+      if (typeof qid === "string") answerMap.set(qid, val)
+    })
+  }
+  return answerMap
+}
+
+/**
+ * Grades an in-progress attempt and records progress when fully auto-graded.
+ * Pass `answers` from the submit body, or null to use the autosaved draft (auto-submit).
+ */
+export async function finalizeQuizAttempt(
+  quiz: QuizForAttempt,
+  quizId: string,
+  attempt: OpenAttempt,
+  answers: unknown,
+  submittedAt = new Date()
+) {
+  const variantQuestions = getVariantQuestions(quiz, attempt.variant)
+  const autoSubmitted = answers === null
+  const answerMap = buildAnswerMap(
+    autoSubmitted
+      ? (attempt.draftAnswers || []).map((d) => ({ questionId: toIdString(d.questionId), answer: d.answer }))
+      : answers,
+    variantQuestions
+  )
+
+  const answersToStore: {
+    questionId: unknown
+    answer: unknown
+    earnedPoints: number
+    maxPoints: number
+    needsManualGrading: boolean
+  }[] = []
+
+  let maxPoints = 0
+  let earnedPoints = 0
+  let needsManual = false
+
+  for (const variantQuestion of variantQuestions) {
+    const q = variantQuestion.question
+    const qid = q._id.toString()
+    // Stored answers use original option indexes, whatever order the student saw
+    const rawAnswer = toOriginalAnswer(variantQuestion, answerMap.has(qid) ? answerMap.get(qid) : null)
+    const grade = gradeQuestion(q, rawAnswer)
+    answersToStore.push({
+      questionId: q._id,
+      answer: rawAnswer,
+      earnedPoints: grade.earnedPoints,
+      maxPoints: grade.maxPoints,
+      needsManualGrading: grade.needsManualGrading,
+    })
+    maxPoints += grade.maxPoints
+    earnedPoints += grade.earnedPoints
+    if (grade.needsManualGrading) needsManual = true
+  }
+
+  const scorePercent = maxPoints > 0 ? Math.round((earnedPoints / maxPoints) * 10000) / 100 : 0
+  const passingScorePercent = typeof quiz.passingScorePercent === "number" ? quiz.passingScorePercent : 60
+  const passed = !needsManual && scorePercent >= passingScorePercent
+
+  const status = needsManual ? "pending_manual_grading" : "graded"
+
+  attempt.set({
+    status,
+    answers: answersToStore,
+    draftAnswers: [],
+    earnedPoints,
+    maxPoints,
+    scorePercent,
+    passed,
+    submittedAt,
+    autoSubmitted,
+    durationSeconds: attempt.startedAt
+      ? Math.round((submittedAt.getTime() - new Date(attempt.startedAt).getTime()) / 1000)
+      : undefined,
+    gradedAt: status === "graded" ? submittedAt : undefined,
+  })
+  await attempt.save()
+
+  // Attempts with free-text answers wait in the grading queue; progress is recorded once graded
+  if (status === "graded") {
+    await recordGradedQuizAttempt(
+      toIdString(attempt.student),
+      toIdString(quiz.course),
+      quizId,
+      scorePercent,
+      passed,
+      submittedAt
+    )
+  }
+
+  return { status, autoSubmitted }
+}
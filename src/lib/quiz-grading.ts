@@ -0,0 +1,106 @@
+import type { QuestionKind } from "@/models/quiz"
+
+/** A quiz question as stored (lean), including legacy four-option questions. */
+export type StoredQuestion = Record<string, unknown> & {
+  _id: { toString: () => string }
+  type?: QuestionKind
+  prompt?: string
+  questionText?: string
+  options?: string[]
+  correctOptionIndex?: number
+  correctAnswerIndex?: number
+  correctOptionIndexes?: number[]
+  correctBoolean?: boolean
+  numericMin?: number
+  numericMax?: number
+  acceptedAnswers?: string[]
+  correctText?: string
+  points?: number
+  requiresManualGrading?: boolean
+}
+
+export type QuestionGrade = {
+  earnedPoints: number
+  maxPoints: number
+  correct: boolean
+  needsManualGrading: boolean
+}
+
+export function getQuestionType(q: StoredQuestion): QuestionKind {
+  return q.type || "multiple_choice"
+}
+
+export function getQuestionPrompt(q: StoredQuestion) {
+  return q.prompt || q.questionText || ""
+}
+
+function normalizeTextAnswer(value: unknown) {
+  if (typeof value !== "string") return ""
+  return value.trim().toLowerCase().replace(/\s+/g, " ")
+}
+
+function toNumber(value: unknown) {
+  if (typeof value === "number") return Number.isFinite(value) ? value : null
+  if (typeof value === "string" && value.trim() !== "") {
+    const n = Number(value)
+    return Number.isFinite(n) ? n : null
+  }
+  return null
+}
+
+function sameNumberSet(a: number[], b: number[]) {
+  if (a.length !== b.length) return false
+  const set = new Set(a)
+  return set.size === b.length && b.every((n) => set.has(n))
+}
+
+function isCorrectAnswer(q: StoredQuestion, answer: unknown): boolean {
+  switch (getQuestionType(q)) {
+    case "multiple_choice": {
+      const correct = typeof q.correctOptionIndex === "number" ? q.correctOptionIndex : q.correctAnswerIndex
+      return typeof correct === "number" && answer === correct
+    }
+    case "multi_select":
+      return (
+        Array.isArray(answer) &&
+        answer.every((a) => typeof a === "number") &&
+        sameNumberSet(answer as number[], q.correctOptionIndexes || [])
+      )
+    case "true_false":
+      return typeof q.correctBoolean === "boolean" && answer === q.correctBoolean
+    case "numeric": {
+      const value = toNumber(answer)
+      if (value === null || typeof q.numericMin !== "number" || typeof q.numericMax !== "number") return false
+      return value >= q.numericMin && value <= q.numericMax
+    }
+    case "short_answer": {
+      const actual = normalizeTextAnswer(answer)
+      if (!actual) return false
+      const accepted = [...(q.acceptedAnswers || []), ...(q.correctText ? [q.correctText] : [])]
+      return accepted.some((a) => normalizeTextAnswer(a) === actual)
+    }
+    case "ordering": {
+      // Options are stored in the correct order, so the answer must be 0..n-1.
+      const count = (q.options || []).length
+      return Array.isArray(answer) && answer.length === count && answer.every((a, idx) => a === idx)
+    }
+    default:
+      return false
+  }
+}
+
+/** Whether a question can only be scored by a teacher. */
+export function requiresManualGrading(q: StoredQuestion) {
+  if (getQuestionType(q) !== "short_answer") return false
+  return !!q.requiresManualGrading || (!(q.acceptedAnswers || []).length && !q.correctText)
+}
+
+/** Scores a single answer. Questions that need a teacher earn 0 until graded. */
+export function gradeQuestion(q: StoredQuestion, answer: unknown): QuestionGrade {
+  const maxPoints = typeof q.points === "number" ? q.points : 1
+  if (requiresManualGrading(q)) {
+    return { earnedPoints: 0, maxPoints, correct: false, needsManualGrading: true }
+  }
+  const correct = isCorrectAnswer(q, answer)
+  return { earnedPoints: correct ? maxPoints : 0, maxPoints, correct, needsManualGrading: false }
+}
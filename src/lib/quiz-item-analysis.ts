@@ -0,0 +1,184 @@
+import { Course } from "@/models/course"
+import { Quiz, type QuestionKind } from "@/models/quiz"
+import { QuizAttempt } from "@/models/QuizAttempt"
+import { getQuestionPrompt, getQuestionType, gradeQuestion, type StoredQuestion } from "@/lib/quiz-grading"
+
+function toIdString(id: unknown) {
+  if (typeof id === "string") return id
+  if (id && typeof (id as { toString?: unknown }).toString === "function") return (id as { toString: () => string }).toString()
+  return ""
+}
+
+/** Share of respondents in each of the upper and lower scoring groups (classic 27% split). */
+const GROUP_FRACTION = 0.27
+
+/** Below this, the upper/lower groups are too small to say anything. */
+const MIN_RESPONDENTS_FOR_DISCRIMINATION = 4
+
+export type ItemFlag = "top_scorers_wrong" | "negative_discrimination"
+
+export type QuizItemAnalysis = {
+  quizId: string
+  title: string
+  /** Students whose first completed attempt is analysed */
+  respondents: number
+  items: {
+    questionId: string
+    position: number
+    type: QuestionKind
+    prompt: string
+    /** Students who were shown this question (pools draw subsets) */
+    respondents: number
+    /** Mean share of points earned, 0-1; higher means easier */
+    difficultyIndex: number | null
+    /** Upper-group minus lower-group difficulty, -1 to 1 */
+    discriminationIndex: number | null
+    upperGroupCorrectPercent: number | null
+    options: {
+      index: number
+      text: string
+      isCorrect: boolean
+      count: number
+      percent: number
+    }[]
+    noAnswerCount: number
+    flags: ItemFlag[]
+  }[]
+}
+
+type AttemptLean = {
+  student: unknown
+  scorePercent?: number
+  submittedAt?: Date
+  answers?: { questionId: unknown; answer: unknown; earnedPoints?: number; maxPoints?: number }[]
+}
+
+type ItemResponse = { scorePercent: number; answer: unknown; credit: number }
+
+function round(n: number, digits = 2) {
+  const f = 10 ** digits
+  return Math.round(n * f) / f
+}
+
+function mean(values: number[]) {
+  return values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : 0
+}
+
+/** Options a student picks from, with the original index the stored answer uses. */
+function choiceOptions(q: StoredQuestion) {
+  const type = getQuestionType(q)
+  if (type === "true_false") {
+    return [
+      { index: 1, text: "True", isCorrect: q.correctBoolean === true },
+      { index: 0, text: "False", isCorrect: q.correctBoolean === false },
+    ]
+  }
+  if (type !== "multiple_choice" && type !== "multi_select") return []
+  const correct =
+    type === "multi_select"
+      ? new Set(q.correctOptionIndexes || [])
+      : new Set([typeof q.correctOptionIndex === "number" ? q.correctOptionIndex : q.correctAnswerIndex])
+  return (q.options || []).map((text, index) => ({ index, text, isCorrect: correct.has(index) }))
+}
+
+/** Original option indexes a stored answer selected; booleans map to 1 (true) / 0 (false). */
+function selectedIndexes(answer: unknown): number[] {
+  if (typeof answer === "boolean") return [answer ? 1 : 0]
+  if (typeof answer === "number") return [answer]
+  if (Array.isArray(answer)) return answer.filter((a): a is number => typeof a === "number")
+  return []
+}
+
+function analyseItem(q: StoredQuestion, position: number, responses: ItemResponse[]) {
+  const ranked = [...responses].sort((a, b) => b.scorePercent - a.scorePercent)
+  const groupSize = Math.max(1, Math.round(ranked.length * GROUP_FRACTION))
+  const hasGroups = ranked.length >= MIN_RESPONDENTS_FOR_DISCRIMINATION
+  const upper = hasGroups ? mean(ranked.slice(0, groupSize).map((r) => r.credit)) : null
+  const lower = hasGroups ? mean(ranked.slice(-groupSize).map((r) => r.credit)) : null
+
+  const options = choiceOptions(q).map((opt) => {
+    const count = responses.filter((r) => selectedIndexes(r.answer).includes(opt.index)).length
+    return { ...opt, count, percent: responses.length > 0 ? round((count / responses.length) * 100) : 0 }
+  })
+  const noAnswerCount = responses.filter(
+    (r) => r.answer === null || r.answer === undefined || r.answer === "" || (Array.isArray(r.answer) && r.answer.length === 0)
+  ).length
+
+  const discriminationIndex = upper !== null && lower !== null ? round(upper - lower) : null
+  const flags: ItemFlag[] = []
+  if (upper !== null && upper < 0.5) flags.push("top_scorers_wrong")
+  if (discriminationIndex !== null && discriminationIndex < 0) flags.push("negative_discrimination")
+
+  return {
+    questionId: q._id.toString(),
+    position,
+    type: getQuestionType(q),
+    prompt: getQuestionPrompt(q),
+    respondents: responses.length,
+    difficultyIndex: responses.length > 0 ? round(mean(responses.map((r) => r.credit))) : null,
+    discriminationIndex,
+    upperGroupCorrectPercent: upper !== null ? round(upper * 100) : null,
+    options,
+    noAnswerCount,
+    flags,
+  }
+}
+
+/**
+ * Per-question statistics for a teacher's quiz, from each student's first completed
+ * attempt (later attempts are practised and would inflate difficulty).
+ */
+export async function getQuizItemAnalysis(
+  teacherId: string,
+  courseId: string,
+  quizId: string
+): Promise<QuizItemAnalysis | null> {
+  const course = await Course.findOne({ _id: courseId, teacher: teacherId }).select("_id").lean()
+  if (!course) return null
+
+  const quiz = await Quiz.findOne({ _id: quizId, course: courseId }).lean()
+  if (!quiz) return null
+
+  // Attempts still awaiting manual grading have provisional scores, so they are left out
+  const attempts = await QuizAttempt.find({ quiz: quizId, status: { $in: ["submitted", "graded"] } })
+    .sort({ submittedAt: 1 })
+    .select("student scorePercent submittedAt answers")
+    .lean<AttemptLean[]>()
+
+  const firstAttempts = new Map<string, AttemptLean>()
+  for (const attempt of attempts) {
+    const sid = toIdString(attempt.student)
+    if (!firstAttempts.has(sid)) firstAttempts.set(sid, attempt)
+  }
+
+  const questions = (quiz.questions || []) as StoredQuestion[]
+  const questionById = new Map(questions.map((q) => [q._id.toString(), q]))
+
+  const responsesByQuestion = new Map<string, ItemResponse[]>()
+  for (const attempt of firstAttempts.values()) {
+    for (const a of attempt.answers || []) {
+      const qid = toIdString(a.questionId)
+      const question = questionById.get(qid)
+      if (!question) continue
+      // Attempts from before per-answer points were stored are re-graded
+      const { earnedPoints, maxPoints } =
+        typeof a.maxPoints === "number" && a.maxPoints > 0
+          ? { earnedPoints: a.earnedPoints ?? 0, maxPoints: a.maxPoints }
+          : gradeQuestion(question, a.answer)
+      const list = responsesByQuestion.get(qid) || []
+      list.push({
+        scorePercent: attempt.scorePercent ?? 0,
+        answer: a.answer,
+        credit: maxPoints > 0 ? earnedPoints / maxPoints : 0,
+      })
+      responsesByQuestion.set(qid, list)
+    }
+  }
+
+  return {
+    quizId: toIdString(quiz._id),
+    title: quiz.title || "Quiz",
+    respondents: firstAttempts.size,
+    items: questions.map((q, i) => analyseItem(q, i + 1, responsesByQuestion.get(q._id.toString()) || [])),
+  }
+}
@@ -1,4 +1,6 @@
 import { CourseProgress } from "@/models/course-progress"
+import { recalculateAndSaveCourseProgress } from "@/lib/course-progress"
+import { ensureCertificateIssued } from "@/lib/certificate-service"
 
 function toIdString(id: unknown) {
   if (typeof id === "string") return id
@@ -18,7 +20,7 @@ type QuizProgressEntry = {
 
 /**
  * Records quiz activity on course progress: completed on any submission;
- * keeps best score, attempt count, and passed once true.
+ * keeps best score, attempt count, and passed once true (also in passedQuizzes).
  */
 export async function upsertCourseQuizProgress(
   studentId: string,
@@ -60,6 +62,31 @@ export async function upsertCourseQuizProgress(
   if (idx >= 0) arr[idx] = entry
   else arr.push(entry)
   progress.quizProgress = arr as typeof progress.quizProgress
+  if (passed && !(progress.passedQuizzes || []).some((id: unknown) => toIdString(id) === quizId)) {
+    progress.passedQuizzes = [...(progress.passedQuizzes || []), quizId]
+  }
   progress.updatedAt = new Date()
   await progress.save()
 }
+
+/**
+ * Applies a fully graded attempt to course progress: quiz rollup, overall
+ * percentage, and certificate issuance once the course is complete.
+ */
+export async function recordGradedQuizAttempt(
+  studentId: string,
+  courseId: string,
+  quizId: string,
+  scorePercent: number,
+  passed: boolean,
+  submittedAt: Date
+) {
+  await upsertCourseQuizProgress(studentId, courseId, quizId, scorePercent, passed, submittedAt)
+
+  // Failed attempts still change the quiz scores the course grade is built from
+  const progress = await recalculateAndSaveCourseProgress(studentId, courseId)
+  if (progress?.isComplete) {
+    await ensureCertificateIssued(studentId, courseId)
+  }
+  return progress
+}
@@ -0,0 +1,132 @@
+import { getQuestionPrompt, getQuestionType, type StoredQuestion } from "@/lib/quiz-grading"
+
+/** One drawn question as stored on a QuizAttempt, in the order the student saw it. */
+export type VariantEntry = {
+  questionId: unknown
+  /** Original option indexes in display order (empty when options are not shown) */
+  optionOrder: number[]
+}
+
+export type QuizForVariant = {
+  questions?: unknown[]
+  questionPools?: { name?: string; questionIds?: unknown[]; drawCount?: number }[]
+  shuffleQuestions?: boolean
+  shuffleOptions?: boolean
+}
+
+export type VariantQuestion = {
+  question: StoredQuestion
+  optionOrder: number[]
+}
+
+function toIdString(id: unknown) {
+  if (typeof id === "string") return id
+  if (id && typeof (id as { toString?: unknown }).toString === "function") return (id as { toString: () => string }).toString()
+  return ""
+}
+
+function shuffle<T>(items: T[]): T[] {
+  const out = [...items]
+  for (let i = out.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1))
+    ;[out[i], out[j]] = [out[j], out[i]]
+  }
+  return out
+}
+
+function hasDisplayedOptions(q: StoredQuestion) {
+  const type = getQuestionType(q)
+  return type === "multiple_choice" || type === "multi_select" || type === "ordering"
+}
+
+/**
+ * Draws a per-student variant: questions outside every pool are always included,
+ * each pool contributes `drawCount` random questions. Ordering items are always
+ * shuffled; choice options only when `shuffleOptions` is on.
+ */
+export function drawQuizVariant(quiz: QuizForVariant): VariantEntry[] {
+  const questions = (quiz.questions || []) as StoredQuestion[]
+  const byId = new Map(questions.map((q) => [q._id.toString(), q]))
+
+  const pooled = new Set<string>()
+  const drawn = new Set<string>()
+  for (const pool of quiz.questionPools || []) {
+    const ids = (pool.questionIds || []).map(toIdString).filter((id) => byId.has(id) && !pooled.has(id))
+    ids.forEach((id) => pooled.add(id))
+    const count = Math.min(ids.length, Math.max(0, pool.drawCount ?? ids.length))
+    shuffle(ids)
+      .slice(0, count)
+      .forEach((id) => drawn.add(id))
+  }
+
+  // Keep the authored order unless question shuffling is on
+  let selected = questions.filter((q) => {
+    const id = q._id.toString()
+    return !pooled.has(id) || drawn.has(id)
+  })
+  if (quiz.shuffleQuestions) selected = shuffle(selected)
+
+  return selected.map((q) => {
+    const indexes = (q.options || []).map((_, i) => i)
+    if (!hasDisplayedOptions(q)) return { questionId: q._id, optionOrder: [] }
+    const shouldShuffle = getQuestionType(q) === "ordering" || !!quiz.shuffleOptions
+    return { questionId: q._id, optionOrder: shouldShuffle ? shuffle(indexes) : indexes }
+  })
+}
+
+/** Resolves an attempt's variant to quiz questions; legacy attempts without a variant get every question. */
+export function getVariantQuestions(quiz: QuizForVariant, variant?: VariantEntry[] | null): VariantQuestion[] {
+  const questions = (quiz.questions || []) as StoredQuestion[]
+  if (!variant || variant.length === 0) {
+    return questions.map((q) => ({ question: q, optionOrder: (q.options || []).map((_, i) => i) }))
+  }
+  const byId = new Map(questions.map((q) => [q._id.toString(), q]))
+  return variant.flatMap((entry) => {
+    const question = byId.get(toIdString(entry.questionId))
+    if (!question) return []
+    const optionOrder = entry.optionOrder?.length ? entry.optionOrder : (question.options || []).map((_, i) => i)
+    return [{ question, optionOrder }]
+  })
+}
+
+/** Maps an answer given against displayed options back to original option indexes. */
+export function toOriginalAnswer({ question, optionOrder }: VariantQuestion, answer: unknown): unknown {
+  const type = getQuestionType(question)
+  const original = (displayed: unknown) =>
+    typeof displayed === "number" && displayed >= 0 && displayed < optionOrder.length ? optionOrder[displayed] : null
+
+  if (type === "multiple_choice") return original(answer)
+  if (type === "multi_select" || type === "ordering") {
+    return Array.isArray(answer) ? answer.map(original).filter((i): i is number => i !== null) : answer
+  }
+  return answer
+}
+
+/** Explanations of the attempt's questions by question id, for reviewing a submitted attempt. */
+export function variantExplanations(quiz: QuizForVariant, variant?: VariantEntry[] | null) {
+  const explanations: Record<string, string> = {}
+  for (const { question } of getVariantQuestions(quiz, variant)) {
+    if (typeof question.explanation === "string" && question.explanation) {
+      explanations[question._id.toString()] = question.explanation
+    }
+  }
+  return explanations
+}
+
+/** Student-safe question: no answer keys, options in the variant's display order. */
+export function serializeVariantQuestion({ question, optionOrder }: VariantQuestion) {
+  const type = getQuestionType(question)
+  const options = question.options || []
+  return {
+    _id: question._id.toString(),
+    type,
+    prompt: getQuestionPrompt(question),
+    options: type === "multiple_choice" || type === "multi_select" ? optionOrder.map((i) => options[i]) : undefined,
+    // Items are identified by display position; their original index is the answer key
+    orderingItems:
+      type === "ordering" ? optionOrder.map((original, index) => ({ index, text: options[original] })) : undefined,
+    points: question.points,
+    // Explanations give answers away; they are only sent with the submitted attempt
+    requiresManualGrading: question.requiresManualGrading,
+  }
+}
@@ -0,0 +1,146 @@
+import { Video } from "@/models/video"
+import { VideoWatch } from "@/models/video-watch"
+import { CourseProgress } from "@/models/course-progress"
+import { getCourseCurriculum, isLessonComplete, loadLessonCompletion } from "@/lib/curriculum"
+import { getVideoLocks, type AccessViewer } from "@/lib/video-access"
+
+function toIdString(id: unknown) {
+  if (typeof id === "string") return id
+  if (id && typeof (id as { toString?: unknown }).toString === "function") return (id as { toString: () => string }).toString()
+  return ""
+}
+
+/** Positions this close to the start or end restart the video instead */
+const RESUME_MARGIN_SECONDS = 10
+
+export type ResumeTarget = {
+  /** "in_progress" resumes the last video; "next_lesson" is the first unfinished lesson */
+  reason: "in_progress" | "next_lesson"
+  href: string
+  title: string
+  type: string
+  videoId?: string
+  position: number
+}
+
+export type ContinueLearningItem = {
+  courseId: string
+  videoId: string
+  title: string
+  percentWatched: number
+  lastWatchedAt: string
+  href: string
+}
+
+type WatchDoc = { video: unknown; lastPosition?: number; duration?: number; completed?: boolean }
+
+function resumablePosition(watch?: WatchDoc | null) {
+  if (!watch || watch.completed) return 0
+  const position = watch.lastPosition || 0
+  const duration = watch.duration || 0
+  if (position < RESUME_MARGIN_SECONDS) return 0
+  if (duration > 0 && position > duration - RESUME_MARGIN_SECONDS) return 0
+  return Math.floor(position)
+}
+
+/** Where playback of a video should start for the student, in seconds. */
+export async function getResumePosition(studentId: string, videoId: string) {
+  const watch = await VideoWatch.findOne({ student: studentId, video: videoId })
+    .select("video lastPosition duration completed")
+    .lean()
+  return resumablePosition(watch)
+}
+
+/**
+ * The lesson a student should land on: the last opened video if it is still
+ * unfinished, otherwise the first incomplete lesson in curriculum order.
+ * Locked videos are skipped; null once everything is done.
+ */
+export async function getResumeTarget(courseId: string, viewer: AccessViewer & { id: string }): Promise<ResumeTarget | null> {
+  const [progress, curriculum, locks, watches] = await Promise.all([
+    CourseProgress.findOne({ student: viewer.id, course: courseId }).lean(),
+    getCourseCurriculum(courseId),
+    getVideoLocks(courseId, viewer),
+    VideoWatch.find({ student: viewer.id, course: courseId }).select("video lastPosition duration completed").lean(),
+  ])
+  if (!curriculum) return null
+
+  const watchByVideo = new Map(watches.map((w) => [toIdString(w.video), w]))
+
+  const lastVideoId = toIdString(progress?.lastAccessedVideo)
+  const lastWatch = watchByVideo.get(lastVideoId)
+  if (lastVideoId && !locks.get(lastVideoId)?.locked && resumablePosition(lastWatch) > 0) {
+    const video = await Video.findById(lastVideoId).select("title").lean()
+    if (video) {
+      return {
+        reason: "in_progress",
+        href: `/courses/${courseId}/learn/${lastVideoId}`,
+        title: video.title,
+        type: "video",
+        videoId: lastVideoId,
+        position: resumablePosition(lastWatch),
+      }
+    }
+  }
+
+  const completion = await loadLessonCompletion(viewer.id, courseId, progress)
+  const next = curriculum.sections
+    .flatMap((s) => s.lessons)
+    .find(
+      (lesson) =>
+        !isLessonComplete(lesson, completion) && !(lesson.type === "video" && locks.get(lesson.refId || "")?.locked)
+    )
+  if (!next) return null
+
+  const videoId = next.type === "video" ? next.refId : undefined
+  return {
+    reason: "next_lesson",
+    href: next.href,
+    title: next.title,
+    type: next.type,
+    videoId,
+    position: videoId ? resumablePosition(watchByVideo.get(videoId)) : 0,
+  }
+}
+
+/**
+ * Recently watched, unfinished videos across the given course progress rows,
+ * newest first, from their `videoWatchDetails`.
+ */
+export async function getContinueLearningItems(
+  rows: { course?: unknown; videoWatchDetails?: unknown }[],
+  limit = 6
+): Promise<ContinueLearningItem[]> {
+  const recent = rows
+    .flatMap((row) =>
+      Object.entries((row.videoWatchDetails || {}) as Record<string, { percentWatched?: number; lastWatchedAt?: unknown; completed?: boolean }>)
+        .filter(([, detail]) => detail && !detail.completed && detail.lastWatchedAt)
+        .map(([videoId, detail]) => ({
+          courseId: toIdString(row.course),
+          videoId,
+          percentWatched: detail.percentWatched || 0,
+          lastWatchedAt: new Date(detail.lastWatchedAt as string | Date),
+        }))
+    )
+    .filter((item) => !Number.isNaN(item.lastWatchedAt.getTime()))
+    .sort((a, b) => b.lastWatchedAt.getTime() - a.lastWatchedAt.getTime())
+    .slice(0, limit)
+
+  if (recent.length === 0) return []
+
+  const videos = await Video.find({ _id: { $in: recent.map((r) => r.videoId) } })
+    .select("title")
+    .lean()
+  const titles = new Map(videos.map((v) => [toIdString(v._id), v.title || "Untitled video"]))
+
+  return recent
+    .filter((item) => titles.has(item.videoId))
+    .map((item) => ({
+      courseId: item.courseId,
+      videoId: item.videoId,
+      title: titles.get(item.videoId) as string,
+      percentWatched: item.percentWatched,
+      lastWatchedAt: item.lastWatchedAt.toISOString(),
+      href: `/courses/${item.courseId}/learn/${item.videoId}`,
+    }))
+}
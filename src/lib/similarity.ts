@@ -0,0 +1,230 @@
+import { inflateSync } from "zlib"
+
+export type DocumentKind = "text" | "code" | "pdf"
+
+/** A normalized token and where it sits in the extracted text. */
+type Token = { value: string; start: number; end: number }
+
+/** Winnowed k-gram hashes and the char range each one covers in the text. */
+export type Fingerprint = { hashes: number[]; starts: number[]; ends: number[] }
+
+export type MatchedPassage = { text: string; matchedText: string }
+
+// k-gram size in tokens: prose needs a run of words, code a run of symbols
+const K_BY_KIND: Record<DocumentKind, number> = { text: 6, pdf: 6, code: 12 }
+const WINNOW_WINDOW = 4
+const MAX_TEXT_CHARS = 200_000
+// Cap on one inflated PDF stream, so a deflate bomb can't exhaust memory
+const MAX_INFLATED_STREAM_BYTES = 8 * 1024 * 1024
+const MAX_PASSAGES = 5
+const MAX_PASSAGE_CHARS = 400
+
+const CODE_EXTENSIONS = new Set([
+  "js", "jsx", "ts", "tsx", "py", "java", "c", "h", "cpp", "hpp", "cc", "cs", "go", "rb", "php", "rs", "kt", "swift", "scala", "sql", "m",
+])
+const TEXT_EXTENSIONS = new Set(["txt", "md", "markdown", "csv", "html", "htm", "xml", "json", "rtf", "tex"])
+
+/** Picks the extraction path from the file extension; `null` for formats we cannot read. */
+export function detectDocumentKind(fileUrl: string, contentType?: string | null): DocumentKind | null {
+  const ext = (fileUrl.split("?")[0].split(".").pop() || "").toLowerCase()
+  if (ext === "pdf" || contentType?.includes("application/pdf")) return "pdf"
+  if (CODE_EXTENSIONS.has(ext)) return "code"
+  if (TEXT_EXTENSIONS.has(ext) || contentType?.startsWith("text/")) return "text"
+  return null
+}
+
+function decodePdfString(raw: string) {
+  return raw.replace(/\\([nrtbf()\\]|[0-7]{1,3})/g, (_, esc: string) => {
+    switch (esc) {
+      case "n":
+      case "r":
+        return "\n"
+      case "t":
+        return " "
+      case "b":
+      case "f":
+        return ""
+      case "(":
+      case ")":
+      case "\\":
+        return esc
+      default:
+        return String.fromCharCode(parseInt(esc, 8))
+    }
+  })
+}
+
+/**
+ * Best-effort text from a PDF's content streams: inflates Flate streams and reads
+ * literal strings shown by Tj/TJ. PDFs with custom font encodings come out empty.
+ * Streams that inflate past the size cap are skipped, and reading stops once
+ * enough text has been collected.
+ */
+export function extractPdfText(buffer: Buffer) {
+  const source = buffer.toString("latin1")
+  const streamPattern = /<<([\s\S]*?)>>\s*stream\r?\n/g
+  const chunks: string[] = []
+  let length = 0
+
+  let match: RegExpExecArray | null
+  while (length < MAX_TEXT_CHARS && (match = streamPattern.exec(source))) {
+    const dataStart = match.index + match[0].length
+    const dataEnd = source.indexOf("endstream", dataStart)
+    if (dataEnd < 0) break
+    streamPattern.lastIndex = dataEnd
+
+    let content = source.slice(dataStart, dataEnd)
+    if (/\/FlateDecode/.test(match[1])) {
+      try {
+        const inflated = inflateSync(Buffer.from(content, "latin1"), { maxOutputLength: MAX_INFLATED_STREAM_BYTES })
+        content = inflated.toString("latin1")
+      } catch {
+        // Corrupt data, or a RangeError for output over the cap
+        continue
+      }
+    } else if (/\/Filter/.test(match[1])) {
+      continue
+    }
+    if (!/T[Jj]/.test(content)) continue
+
+    const textOps = /\[((?:\\.|[^\]\\])*)\]\s*TJ|\(((?:\\.|[^)\\])*)\)\s*(?:Tj|'|")|(T\*|Td|TD|ET)/g
+    let op: RegExpExecArray | null
+    while (length < MAX_TEXT_CHARS && (op = textOps.exec(content))) {
+      let chunk: string
+      if (op[3]) {
+        chunk = "\n"
+      } else if (op[2] !== undefined) {
+        chunk = decodePdfString(op[2])
+      } else {
+        const parts = op[1].match(/\((?:\\.|[^)\\])*\)/g) || []
+        chunk = parts.map((p) => decodePdfString(p.slice(1, -1))).join("")
+      }
+      chunks.push(chunk)
+      length += chunk.length
+    }
+  }
+
+  return chunks.join("").replace(/[ \t]+/g, " ").replace(/\n{3,}/g, "\n\n").trim()
+}
+
+export function extractDocumentText(buffer: Buffer, kind: DocumentKind) {
+  const text = kind === "pdf" ? extractPdfText(buffer) : buffer.toString("utf8")
+  return text.slice(0, MAX_TEXT_CHARS)
+}
+
+// Comments are blanked rather than removed so token offsets still point into the original text
+function blankCodeComments(text: string) {
+  return text.replace(/\/\*[\s\S]*?\*\/|\/\/[^\n]*|(^|\s)#[^\n]*/g, (m) => m.replace(/[^\n]/g, " "))
+}
+
+function tokenize(text: string, kind: DocumentKind): Token[] {
+  const source = kind === "code" ? blankCodeComments(text) : text
+  const pattern = kind === "code" ? /[A-Za-z_$][\w$]*|\d+(?:\.\d+)?|[^\s\w]/g : /[\p{L}\p{N}]+/gu
+  const tokens: Token[] = []
+  for (const m of source.matchAll(pattern)) {
+    const start = m.index ?? 0
+    tokens.push({ value: m[0].toLowerCase(), start, end: start + m[0].length })
+  }
+  return tokens
+}
+
+// FNV-1a, 32-bit
+function hashKGram(tokens: Token[], from: number, k: number) {
+  let hash = 0x811c9dc5
+  for (let i = from; i < from + k; i++) {
+    const value = tokens[i].value
+    for (let j = 0; j < value.length; j++) {
+      hash ^= value.charCodeAt(j)
+      hash = Math.imul(hash, 0x01000193)
+    }
+    hash ^= 0x20
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
+
+/**
+ * Winnowing (Schleimer et al.): hash every k-gram of tokens and keep the minimum
+ * hash of each window, so any shared run of k + w - 1 tokens yields a shared fingerprint.
+ */
+export function fingerprintText(text: string, kind: DocumentKind): Fingerprint {
+  const k = K_BY_KIND[kind]
+  const tokens = tokenize(text, kind)
+  const fingerprint: Fingerprint = { hashes: [], starts: [], ends: [] }
+  if (tokens.length < k) return fingerprint
+
+  const grams = Array.from({ length: tokens.length - k + 1 }, (_, i) => hashKGram(tokens, i, k))
+  const windowSize = Math.min(WINNOW_WINDOW, grams.length)
+  let lastPicked = -1
+  for (let w = 0; w + windowSize <= grams.length; w++) {
+    // rightmost minimum, so an unchanged minimum is not picked twice
+    let minIndex = w
+    for (let i = w; i < w + windowSize; i++) {
+      if (grams[i] <= grams[minIndex]) minIndex = i
+    }
+    if (minIndex !== lastPicked) {
+      fingerprint.hashes.push(grams[minIndex])
+      fingerprint.starts.push(tokens[minIndex].start)
+      fingerprint.ends.push(tokens[minIndex + k - 1].end)
+      lastPicked = minIndex
+    }
+  }
+  return fingerprint
+}
+
+function snippet(text: string, start: number, end: number) {
+  const raw = text.slice(start, end).replace(/\s+/g, " ").trim()
+  return raw.length > MAX_PASSAGE_CHARS ? `${raw.slice(0, MAX_PASSAGE_CHARS)}…` : raw
+}
+
+/**
+ * Share of `source`'s fingerprints that also occur in `other` (0-100), and the
+ * longest overlapping passages as they read in each text.
+ */
+export function compareFingerprints(
+  source: { text: string; fingerprint: Fingerprint },
+  other: { text: string; fingerprint: Fingerprint }
+): { score: number; passages: MatchedPassage[] } {
+  const { hashes } = source.fingerprint
+  if (hashes.length === 0) return { score: 0, passages: [] }
+
+  const otherPositions = new Map<number, number>()
+  other.fingerprint.hashes.forEach((h, i) => {
+    if (!otherPositions.has(h)) otherPositions.set(h, i)
+  })
+
+  const pairs: { start: number; end: number; otherStart: number; otherEnd: number }[] = []
+  const shared = new Set<number>()
+  hashes.forEach((h, i) => {
+    const j = otherPositions.get(h)
+    if (j === undefined) return
+    shared.add(h)
+    pairs.push({
+      start: source.fingerprint.starts[i],
+      end: source.fingerprint.ends[i],
+      otherStart: other.fingerprint.starts[j],
+      otherEnd: other.fingerprint.ends[j],
+    })
+  })
+  const score = Math.round((shared.size / new Set(hashes).size) * 1000) / 10
+
+  // Overlapping k-gram ranges in the source merge into one passage
+  const merged: typeof pairs = []
+  for (const pair of pairs.sort((a, b) => a.start - b.start)) {
+    const last = merged[merged.length - 1]
+    if (last && pair.start <= last.end) {
+      last.end = Math.max(last.end, pair.end)
+      last.otherStart = Math.min(last.otherStart, pair.otherStart)
+      last.otherEnd = Math.max(last.otherEnd, pair.otherEnd)
+    } else {
+      merged.push({ ...pair })
+    }
+  }
+
+  const passages = merged
+    .sort((a, b) => b.end - b.start - (a.end - a.start))
+    .slice(0, MAX_PASSAGES)
+    .map((p) => ({ text: snippet(source.text, p.start, p.end), matchedText: snippet(other.text, p.otherStart, p.otherEnd) }))
+
+  return { score, passages }
+}
@@ -0,0 +1,201 @@
+import { Submission } from "@/models/submission"
+import { SubmissionFingerprint } from "@/models/submission-fingerprint"
+import { Assignment } from "@/models/assignment"
+import { Course } from "@/models/course"
+import {
+  compareFingerprints,
+  detectDocumentKind,
+  extractDocumentText,
+  fingerprintText,
+  type Fingerprint,
+} from "@/lib/similarity"
+import { isUploadedFileUrl } from "@/lib/uploads"
+
+/** Matches below this share of fingerprints are noise (shared headings, boilerplate). */
+const MIN_MATCH_SCORE = 5
+const MAX_MATCHES = 10
+const MAX_FILE_BYTES = 10 * 1024 * 1024
+
+function toIdString(id: unknown) {
+  if (typeof id === "string") return id
+  if (id && typeof (id as { toString?: unknown }).toString === "function") return (id as { toString: () => string }).toString()
+  return ""
+}
+
+type FingerprintLean = {
+  submissionId: unknown
+  version: number
+  assignmentId: unknown
+  studentId: unknown
+  status: "ok" | "unsupported" | "failed"
+  text: string
+  hashes: number[]
+  starts: number[]
+  ends: number[]
+}
+
+type SubmissionLean = {
+  _id: unknown
+  assignmentId: unknown
+  studentId?: unknown
+  fileUrl?: string
+  currentVersion?: number
+}
+
+type AssignmentLean = { _id: unknown; courseId: unknown; title?: string }
+
+// Only our own uploads are fetched; older submissions may still hold arbitrary URLs
+async function downloadFile(fileUrl: string) {
+  if (!isUploadedFileUrl(fileUrl)) throw new Error("File is not hosted by the upload provider")
+  const res = await fetch(fileUrl, { redirect: "error" })
+  if (!res.ok) throw new Error(`Download failed with ${res.status}`)
+  if (Number(res.headers.get("content-length") || 0) > MAX_FILE_BYTES) throw new Error("File is too large to check")
+  const buffer = Buffer.from(await res.arrayBuffer())
+  if (buffer.length > MAX_FILE_BYTES) throw new Error("File is too large to check")
+  return { buffer, contentType: res.headers.get("content-type") }
+}
+
+/** Extracts and stores the fingerprint of a submission's current file, once per version. */
+async function ensureFingerprint(submission: SubmissionLean, assignment: AssignmentLean, teacherId: unknown) {
+  const version = submission.currentVersion || 1
+  const existing = await SubmissionFingerprint.findOne({ submissionId: submission._id, version }).lean<FingerprintLean>()
+  // A failed download is retried; an unsupported format stays unsupported
+  if (existing && existing.status !== "failed") return existing
+
+  const base = {
+    submissionId: submission._id,
+    version,
+    assignmentId: assignment._id,
+    courseId: assignment.courseId,
+    teacherId,
+    assignmentKey: (assignment.title || "").trim().toLowerCase(),
+    studentId: submission.studentId,
+    fileUrl: submission.fileUrl,
+  }
+
+  let fields: Record<string, unknown>
+  try {
+    const { buffer, contentType } = await downloadFile(submission.fileUrl || "")
+    const kind = detectDocumentKind(submission.fileUrl || "", contentType)
+    if (!kind) {
+      fields = { status: "unsupported" }
+    } else {
+      const text = extractDocumentText(buffer, kind)
+      const fingerprint = fingerprintText(text, kind)
+      fields = fingerprint.hashes.length > 0 ? { kind, status: "ok", text, ...fingerprint } : { kind, status: "unsupported" }
+    }
+  } catch (error) {
+    fields = { status: "failed", error: error instanceof Error ? error.message : String(error) }
+  }
+
+  const saved = await SubmissionFingerprint.findOneAndUpdate(
+    { submissionId: submission._id, version },
+    { $set: { ...base, ...fields } },
+    { upsert: true, new: true }
+  ).lean<FingerprintLean>()
+  return saved as FingerprintLean
+}
+
+// Only the latest fingerprinted version of each other submission counts
+function latestPerSubmission(fingerprints: FingerprintLean[]) {
+  const latest = new Map<string, FingerprintLean>()
+  for (const fp of fingerprints) {
+    const key = toIdString(fp.submissionId)
+    const current = latest.get(key)
+    if (!current || fp.version > current.version) latest.set(key, fp)
+  }
+  return [...latest.values()]
+}
+
+const asFingerprint = (fp: FingerprintLean): { text: string; fingerprint: Fingerprint } => ({
+  text: fp.text,
+  fingerprint: { hashes: fp.hashes, starts: fp.starts, ends: fp.ends },
+})
+
+/**
+ * Compares a submission's current file with the other submissions of the same
+ * assignment and with the same-titled assignment in the teacher's earlier runs
+ * of the course, and stores the result on `submission.similarity`.
+ */
+export async function checkSubmissionSimilarity(submissionId: string) {
+  const submission = (await Submission.findById(submissionId).lean()) as SubmissionLean | null
+  if (!submission?.fileUrl || !submission.studentId) return null
+
+  const assignment = (await Assignment.findById(submission.assignmentId).select("courseId title").lean()) as
+    | AssignmentLean
+    | null
+  if (!assignment) return null
+  const course = await Course.findById(assignment.courseId).select("teacher").lean()
+
+  const own = await ensureFingerprint(submission, assignment, course?.teacher)
+  if (own.status !== "ok") {
+    await Submission.updateOne(
+      { _id: submission._id },
+      { $set: { similarity: { status: own.status, checkedAt: new Date(), matches: [] } } }
+    )
+    return { status: own.status, score: 0, matches: [] }
+  }
+
+  const studentId = toIdString(submission.studentId)
+  const assignmentKey = (assignment.title || "").trim().toLowerCase()
+  const candidates = await SubmissionFingerprint.find({
+    status: "ok",
+    submissionId: { $ne: submission._id },
+    studentId: { $ne: submission.studentId },
+    $or: [
+      { assignmentId: assignment._id },
+      ...(course?.teacher && assignmentKey ? [{ teacherId: course.teacher, assignmentKey }] : []),
+    ],
+  }).lean<FingerprintLean[]>()
+
+  const matches = latestPerSubmission(candidates)
+    .filter((fp) => toIdString(fp.studentId) !== studentId)
+    .map((fp) => {
+      const { score, passages } = compareFingerprints(asFingerprint(own), asFingerprint(fp))
+      const sameAssignment = toIdString(fp.assignmentId) === toIdString(assignment._id)
+      return {
+        submissionId: fp.submissionId,
+        studentId: fp.studentId,
+        assignmentId: fp.assignmentId,
+        source: sameAssignment ? ("same_assignment" as const) : ("previous_run" as const),
+        score,
+        passages,
+      }
+    })
+    .filter((m) => m.score >= MIN_MATCH_SCORE)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_MATCHES)
+
+  const similarity = {
+    status: "checked" as const,
+    score: matches[0]?.score ?? 0,
+    checkedAt: new Date(),
+    matches,
+  }
+  await Submission.updateOne({ _id: submission._id }, { $set: { similarity } })
+  return similarity
+}
+
+/**
+ * Runs after a (re)submission. Earlier submissions it overlaps with are re-checked
+ * too, since their reports were computed before this file existed.
+ */
+export async function checkNewSubmissionSimilarity(submissionId: string) {
+  const result = await checkSubmissionSimilarity(submissionId)
+  const affected = (result?.matches || []).filter((m) => m.source === "same_assignment")
+  for (const match of affected) {
+    await checkSubmissionSimilarity(toIdString(match.submissionId))
+  }
+  return result
+}
+
+/** Re-checks every submission of an assignment, one at a time. */
+export async function checkAssignmentSimilarity(assignmentId: string) {
+  const submissions = (await Submission.find({ assignmentId }).select("_id").lean()) as { _id: unknown }[]
+  let checked = 0
+  for (const sub of submissions) {
+    const result = await checkSubmissionSimilarity(toIdString(sub._id))
+    if (result?.status === "checked") checked++
+  }
+  return { total: submissions.length, checked }
+}
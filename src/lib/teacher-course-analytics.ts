@@ -65,7 +65,7 @@ export async function getTeacherCourseAnalytics(teacherId: string, courseId: str
     .filter(Boolean)
 
   const attemptStages = [
-    { $match: { course: course._id } },
+    { $match: { course: course._id, status: { $ne: "in_progress" } } },
     {
       $group: {
         _id: "$quiz",
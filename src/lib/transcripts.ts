@@ -0,0 +1,148 @@
+import { Video } from "@/models/video"
+import { VideoCaption } from "@/models/video-caption"
+import { TranscriptSegment } from "@/models/transcript-segment"
+
+function toIdString(id: unknown) {
+  if (typeof id === "string") return id
+  if (id && typeof (id as { toString?: unknown }).toString === "function") return (id as { toString: () => string }).toString()
+  return ""
+}
+
+// Languages MongoDB text search can stem, by ISO 639-1 code
+const TEXT_SEARCH_LANGUAGES = new Set(["da", "de", "en", "es", "fi", "fr", "hu", "it", "nb", "nl", "pt", "ro", "ru", "sv", "tr"])
+
+const MAX_QUERY_LENGTH = 200
+
+export type TranscriptHit = { start: number; end: number; text: string }
+
+export type CourseTranscriptHits = { videoId: string; title: string; hits: TranscriptHit[] }
+
+type SegmentDoc = { video: unknown; language: string; start: number; end: number; text: string }
+
+function textLanguageFor(language: string) {
+  const primary = language.split("-")[0].toLowerCase()
+  return TEXT_SEARCH_LANGUAGES.has(primary) ? primary : "none"
+}
+
+/** Multi-word queries match as a phrase, single words through the text index. */
+function textQuery(q: string) {
+  const cleaned = q.replace(/["\\]/g, " ").trim().slice(0, MAX_QUERY_LENGTH)
+  return /\s/.test(cleaned) ? `"${cleaned}"` : cleaned
+}
+
+const toHit = (s: SegmentDoc): TranscriptHit => ({ start: s.start, end: s.end, text: s.text })
+
+/** Rebuilds a video's transcript segments from all of its caption tracks. */
+export async function syncVideoTranscript(videoId: string) {
+  const video = await Video.findById(videoId).select("course").lean()
+  await TranscriptSegment.deleteMany({ video: videoId })
+  if (!video) return 0
+
+  const tracks = await VideoCaption.find({ video: videoId }).select("language cues").lean()
+  const segments = tracks.flatMap((track) =>
+    (track.cues || []).map((cue) => ({
+      video: videoId,
+      course: video.course,
+      language: track.language,
+      textLanguage: textLanguageFor(track.language),
+      start: cue.start,
+      end: cue.end,
+      // Cue markup such as <i> or <v Speaker> is not part of what was said
+      text: cue.text.replace(/<[^>]+>/g, "").replace(/\s+/g, " ").trim(),
+    }))
+  ).filter((segment) => segment.text)
+
+  if (segments.length > 0) await TranscriptSegment.insertMany(segments)
+  return segments.length
+}
+
+/** Indexes captioned videos of a course that predate transcript search. */
+export async function ensureCourseTranscripts(courseId: string) {
+  const videoIds = (await Video.find({ course: courseId }).select("_id").lean()).map((v) => v._id)
+  const [captioned, indexed] = await Promise.all([
+    VideoCaption.distinct("video", { video: { $in: videoIds } }),
+    TranscriptSegment.distinct("video", { course: courseId }),
+  ])
+
+  const indexedIds = new Set(indexed.map(toIdString))
+  for (const videoId of captioned.map(toIdString).filter((id) => !indexedIds.has(id))) {
+    await syncVideoTranscript(videoId)
+  }
+}
+
+/** The language to show: the requested one if present, else the default caption track's. */
+async function pickLanguage(videoId: string, language?: string | null) {
+  const tracks = await VideoCaption.find({ video: videoId })
+    .select("language isDefault")
+    .sort({ isDefault: -1, createdAt: 1 })
+    .lean()
+  if (language && tracks.some((t) => t.language === language)) return language
+  return tracks[0]?.language || null
+}
+
+/** Full transcript of a video in one language, in playback order. */
+export async function getVideoTranscript(videoId: string, language?: string | null) {
+  const lang = await pickLanguage(videoId, language)
+  if (!lang) return { language: null, segments: [] as TranscriptHit[] }
+
+  const count = await TranscriptSegment.countDocuments({ video: videoId })
+  if (count === 0) await syncVideoTranscript(videoId)
+
+  const segments = await TranscriptSegment.find({ video: videoId, language: lang })
+    .select("start end text")
+    .sort({ start: 1 })
+    .lean<SegmentDoc[]>()
+  return { language: lang, segments: segments.map(toHit) }
+}
+
+/** Moments in one video where the phrase is spoken, in playback order. */
+export async function searchVideoTranscript(videoId: string, q: string, language?: string | null) {
+  const lang = await pickLanguage(videoId, language)
+  if (!lang || !q.trim()) return []
+
+  const segments = await TranscriptSegment.find({ video: videoId, language: lang, $text: { $search: textQuery(q) } })
+    .select("start end text")
+    .sort({ start: 1 })
+    .limit(200)
+    .lean<SegmentDoc[]>()
+  return segments.map(toHit)
+}
+
+/**
+ * Transcript hits across a course, grouped by video in course order. Only the
+ * given videos are searched so locked lessons stay hidden.
+ */
+export async function searchCourseTranscripts(
+  courseId: string,
+  q: string,
+  videoIds: string[],
+  limit = 100
+): Promise<CourseTranscriptHits[]> {
+  if (!q.trim() || videoIds.length === 0) return []
+  await ensureCourseTranscripts(courseId)
+
+  const segments = await TranscriptSegment.find({
+    course: courseId,
+    video: { $in: videoIds },
+    $text: { $search: textQuery(q) },
+  })
+    .select({ video: 1, start: 1, end: 1, text: 1, score: { $meta: "textScore" } })
+    .sort({ score: { $meta: "textScore" } })
+    .limit(limit)
+    .lean<SegmentDoc[]>()
+  if (segments.length === 0) return []
+
+  const videos = await Video.find({ _id: { $in: [...new Set(segments.map((s) => toIdString(s.video)))] } })
+    .select("title position")
+    .sort({ position: 1 })
+    .lean<{ _id: unknown; title?: string }[]>()
+
+  return videos.map((video) => ({
+    videoId: toIdString(video._id),
+    title: video.title || "Untitled video",
+    hits: segments
+      .filter((s) => toIdString(s.video) === toIdString(video._id))
+      .sort((a, b) => a.start - b.start)
+      .map(toHit),
+  }))
+}
@@ -0,0 +1,25 @@
+/** Host that serves files uploaded through the Cloudinary widgets */
+const CLOUDINARY_DELIVERY_HOST = "res.cloudinary.com"
+
+function cloudName() {
+  return (process.env.CLOUDINARY_CLOUD_NAME || process.env.NEXT_PUBLIC_CLOUDINARY_CLOUD_NAME || "").trim()
+}
+
+/**
+ * Whether a URL points at a file in our own Cloudinary account. Client-supplied file
+ * URLs are checked against this before they are stored or fetched by the server.
+ */
+export function isUploadedFileUrl(value: unknown): value is string {
+  if (typeof value !== "string") return false
+  let url: URL
+  try {
+    url = new URL(value)
+  } catch {
+    return false
+  }
+  if (url.protocol !== "https:" || url.hostname !== CLOUDINARY_DELIVERY_HOST || url.username || url.password || url.port) {
+    return false
+  }
+  const name = cloudName()
+  return !name || url.pathname.startsWith(`/${name}/`)
+}
@@ -61,3 +61,12 @@ export function rateLimit(options: RateLimitOptions) {
     }
   }
 }
+
+/** Seconds as m:ss, or h:mm:ss past the hour */
+export function formatTimestamp(totalSeconds: number) {
+  const seconds = Math.max(0, Math.floor(totalSeconds))
+  const h = Math.floor(seconds / 3600)
+  const m = Math.floor((seconds % 3600) / 60)
+  const s = String(seconds % 60).padStart(2, "0")
+  return h > 0 ? `${h}:${String(m).padStart(2, "0")}:${s}` : `${m}:${s}`
+}
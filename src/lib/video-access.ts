@@ -0,0 +1,203 @@
+import type { Model } from "mongoose"
+import { Video, type VideoRelease } from "@/models/video"
+import { Quiz } from "@/models/quiz"
+import { Course } from "@/models/course"
+import { CourseProgress } from "@/models/course-progress"
+import { Payment, type IPayment } from "@/models/payment"
+import { Student } from "@/models/student"
+import { Teacher } from "@/models/teacher"
+
+function toIdString(id: unknown) {
+  if (typeof id === "string") return id
+  if (id && typeof (id as { toString?: unknown }).toString === "function") return (id as { toString: () => string }).toString()
+  return ""
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export type MissingPrerequisite = {
+  type: "video" | "quiz"
+  refId: string
+  title: string
+}
+
+export type VideoLock = {
+  locked: boolean
+  /** Set while the release date is still ahead */
+  unlockAt?: string
+  /** Prerequisites the student has not finished yet */
+  missing: MissingPrerequisite[]
+}
+
+export type AccessViewer = {
+  id?: string
+  role?: string
+}
+
+type RuledVideo = {
+  _id: unknown
+  title?: string
+  release?: VideoRelease
+  prerequisites?: { type: "video" | "quiz"; refId: unknown }[]
+}
+
+const UNLOCKED: VideoLock = { locked: false, missing: [] }
+
+type GatingProgress = {
+  _id: { getTimestamp: () => Date }
+  enrolledAt?: Date
+  completedVideos?: unknown[]
+  passedQuizzes?: unknown[]
+}
+
+/** Stamps the start of the drip schedule; later enrollments keep the first date. */
+export async function recordEnrollment(studentId: string, courseId: string) {
+  await CourseProgress.updateOne(
+    { student: studentId, course: courseId },
+    { $setOnInsert: { enrolledAt: new Date() } },
+    { upsert: true }
+  )
+  await CourseProgress.updateOne(
+    { student: studentId, course: courseId, enrolledAt: { $exists: false } },
+    { $set: { enrolledAt: new Date() } }
+  )
+}
+
+/**
+ * Older enrollments predate `enrolledAt`; fall back to the first completed payment,
+ * then to when the progress record was created.
+ */
+async function resolveEnrollmentDate(
+  studentId: string,
+  courseId: string,
+  progress: GatingProgress | null
+): Promise<Date | null> {
+  if (progress?.enrolledAt) return new Date(progress.enrolledAt)
+  const payment = await (Payment as Model<IPayment>)
+    .findOne({ student: studentId, course: courseId, status: "completed" })
+    .sort({ createdAt: 1 })
+    .select("createdAt")
+    .lean()
+  if (payment?.createdAt) return new Date(payment.createdAt)
+  if (progress) return progress._id.getTimestamp()
+  return null
+}
+
+/** `undefined` when released, `null` when the date is not known yet (no enrollment) */
+function pendingRelease(release: VideoRelease | undefined, enrolledAt: Date | null, now: number): Date | null | undefined {
+  if (!release || release.mode === "immediate") return undefined
+  if (release.mode === "date") {
+    return release.date && new Date(release.date).getTime() > now ? new Date(release.date) : undefined
+  }
+  if (!enrolledAt) return null
+  const releaseAt = new Date(enrolledAt.getTime() + (release.daysAfterEnrollment || 0) * DAY_MS)
+  return releaseAt.getTime() > now ? releaseAt : undefined
+}
+
+/**
+ * Lock state of every video in a course for the viewer. The course teacher and
+ * admins see everything; anyone else is held to release dates and prerequisites.
+ */
+export async function getVideoLocks(courseId: string, viewer: AccessViewer): Promise<Map<string, VideoLock>> {
+  const videos = await Video.find({ course: courseId }).select("title release prerequisites").lean<RuledVideo[]>()
+  const locks = new Map<string, VideoLock>(videos.map((v) => [toIdString(v._id), UNLOCKED]))
+
+  const hasRules = videos.some((v) => (v.release && v.release.mode !== "immediate") || (v.prerequisites || []).length > 0)
+  if (!hasRules || viewer.role === "admin") return locks
+
+  if (viewer.role === "teacher" && viewer.id) {
+    const course = await Course.findById(courseId).select("teacher").lean()
+    if (toIdString(course?.teacher) === viewer.id) return locks
+  }
+
+  const progress = viewer.id
+    ? await CourseProgress.findOne({ student: viewer.id, course: courseId })
+        .select("enrolledAt completedVideos passedQuizzes")
+        .lean<GatingProgress>()
+    : null
+  const enrolledAt = viewer.id ? await resolveEnrollmentDate(viewer.id, courseId, progress) : null
+  const completedVideos = new Set<string>((progress?.completedVideos || []).map(toIdString))
+  const passedQuizzes = new Set<string>((progress?.passedQuizzes || []).map(toIdString))
+
+  const quizIds = videos.flatMap((v) => (v.prerequisites || []).filter((p) => p.type === "quiz").map((p) => p.refId))
+  const quizzes = quizIds.length
+    ? await Quiz.find({ _id: { $in: quizIds } }).select("title").lean()
+    : []
+  const titles = new Map<string, string>([
+    ...videos.map((v) => [toIdString(v._id), v.title || "Untitled video"] as [string, string]),
+    ...quizzes.map((q) => [toIdString(q._id), q.title || "Untitled quiz"] as [string, string]),
+  ])
+
+  const now = Date.now()
+  for (const video of videos) {
+    const releaseAt = pendingRelease(video.release, enrolledAt, now)
+    const missing = (video.prerequisites || [])
+      .map((p) => ({ type: p.type, refId: toIdString(p.refId) }))
+      .filter((p) => (p.type === "video" ? !completedVideos.has(p.refId) : !passedQuizzes.has(p.refId)))
+      .map((p) => ({ ...p, title: titles.get(p.refId) || (p.type === "video" ? "A video" : "A quiz") }))
+
+    locks.set(toIdString(video._id), {
+      locked: releaseAt !== undefined || missing.length > 0,
+      unlockAt: releaseAt ? releaseAt.toISOString() : undefined,
+      missing,
+    })
+  }
+  return locks
+}
+
+export async function getVideoLock(courseId: string, videoId: string, viewer: AccessViewer): Promise<VideoLock> {
+  return (await getVideoLocks(courseId, viewer)).get(videoId) || UNLOCKED
+}
+
+/**
+ * Whether a user may watch a course's videos at all: admins, the course's own
+ * teacher and enrolled students, none of them blocked. Read from the database
+ * rather than the login session, so blocking or unenrolling takes effect at once.
+ */
+export async function canWatchCourse(courseId: string, viewer: AccessViewer & { id: string }): Promise<boolean> {
+  if (viewer.role === "admin") return true
+
+  if (viewer.role === "teacher") {
+    const [course, teacher] = await Promise.all([
+      Course.findById(courseId).select("teacher").lean(),
+      Teacher.findById(viewer.id).select("isBlocked").lean(),
+    ])
+    return !!teacher && !teacher.isBlocked && String(course?.teacher) === viewer.id
+  }
+
+  if (viewer.role !== "student") return false
+  const student = await Student.findById(viewer.id).select("purchasedCourses isBlocked").lean()
+  if (!student || student.isBlocked) return false
+  return (student.purchasedCourses || []).some((id) => String(id) === courseId)
+}
+
+type VideoAccess =
+  | { video: { _id: unknown; course: unknown }; canManage: boolean; error?: undefined; status?: undefined }
+  | { video?: undefined; canManage?: undefined; error: string; status: number }
+
+/**
+ * Who may load a video's media, captions and transcript: anyone who may watch it
+ * (enrolled students once it is unlocked, the course teacher, admins). Only the
+ * teacher and admins may change them.
+ */
+export async function resolveVideoAccess(videoId: string, viewer: AccessViewer & { id: string }): Promise<VideoAccess> {
+  const video = await Video.findById(videoId).select("course").lean()
+  if (!video) return { error: "Video not found", status: 404 }
+  const courseId = String(video.course)
+
+  if (viewer.role === "admin") return { video, canManage: true }
+
+  if (viewer.role === "teacher") {
+    const course = await Course.findById(courseId).select("teacher").lean()
+    if (String(course?.teacher) === viewer.id) return { video, canManage: true }
+    return { error: "You can only access videos of your own courses", status: 403 }
+  }
+
+  const student = await Student.findById(viewer.id).select("purchasedCourses").lean()
+  const enrolled = (student?.purchasedCourses || []).some((id) => String(id) === courseId)
+  if (!enrolled) return { error: "Enroll in the course to watch this video", status: 403 }
+
+  const lock = await getVideoLock(courseId, videoId, viewer)
+  if (lock.locked) return { error: "This video is locked", status: 403 }
+  return { video, canManage: false }
+}
@@ -0,0 +1,72 @@
+import { Video } from "@/models/video"
+import { VideoNote } from "@/models/video-note"
+import { renderPdfBuffer } from "@/lib/certificate-pdf"
+import { formatTimestamp } from "@/lib/utils"
+
+function toIdString(id: unknown) {
+  if (typeof id === "string") return id
+  if (id && typeof (id as { toString?: unknown }).toString === "function") return (id as { toString: () => string }).toString()
+  return ""
+}
+
+export type ExportedNote = { timestamp: number; body: string }
+
+export type VideoNotesGroup = {
+  videoId: string
+  title: string
+  notes: ExportedNote[]
+}
+
+/** A student's notes for a course, grouped by video in course order and by time within each video. */
+export async function loadCourseNotes(studentId: string, courseId: string): Promise<VideoNotesGroup[]> {
+  const notes = await VideoNote.find({ student: studentId, course: courseId })
+    .select("video timestamp body")
+    .sort({ timestamp: 1 })
+    .lean()
+  if (notes.length === 0) return []
+
+  const videos = await Video.find({ _id: { $in: notes.map((n) => n.video) } })
+    .select("title position")
+    .sort({ position: 1 })
+    .lean()
+
+  return videos
+    .map((video) => ({
+      videoId: toIdString(video._id),
+      title: video.title || "Untitled video",
+      notes: notes
+        .filter((n) => toIdString(n.video) === toIdString(video._id))
+        .map((n) => ({ timestamp: n.timestamp, body: n.body })),
+    }))
+    .filter((group) => group.notes.length > 0)
+}
+
+export function buildNotesMarkdown(courseName: string, groups: VideoNotesGroup[]) {
+  const lines = [`# Notes: ${courseName}`, ""]
+  for (const group of groups) {
+    lines.push(`## ${group.title}`, "")
+    for (const note of group.notes) {
+      lines.push(`### [${formatTimestamp(note.timestamp)}]`, "", note.body.trim(), "")
+    }
+  }
+  return lines.join("\n")
+}
+
+export async function generateNotesPdfBuffer(courseName: string, groups: VideoNotesGroup[]): Promise<Buffer> {
+  return renderPdfBuffer((doc) => {
+    doc.fillColor("#111827").fontSize(22).font("Helvetica-Bold").text(`Notes: ${courseName}`)
+    doc.moveDown(0.3)
+    doc.fontSize(10).font("Helvetica").fillColor("#6B7280").text(`Exported ${new Date().toDateString()}`)
+
+    for (const group of groups) {
+      doc.moveDown(1.2)
+      doc.fontSize(15).font("Helvetica-Bold").fillColor("#111827").text(group.title)
+
+      for (const note of group.notes) {
+        doc.moveDown(0.6)
+        doc.fontSize(10).font("Helvetica-Bold").fillColor("#2563EB").text(formatTimestamp(note.timestamp))
+        doc.fontSize(11).font("Helvetica").fillColor("#374151").text(note.body.trim())
+      }
+    }
+  })
+}
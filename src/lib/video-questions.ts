@@ -0,0 +1,149 @@
+import { VideoQuestion, VideoQuestionResponse } from "@/models/video-question"
+import { gradeQuestion, getQuestionPrompt, getQuestionType, type StoredQuestion } from "@/lib/quiz-grading"
+
+function toIdString(id: unknown) {
+  if (typeof id === "string") return id
+  if (id && typeof (id as { toString?: unknown }).toString === "function") return (id as { toString: () => string }).toString()
+  return ""
+}
+
+export type StoredVideoQuestion = StoredQuestion & {
+  video: unknown
+  course: unknown
+  at: number
+  explanation?: string
+  countsTowardProgress?: boolean
+}
+
+type ResponseDoc = {
+  question: unknown
+  student: unknown
+  correct: boolean
+  firstAnswer?: unknown
+  firstAttemptCorrect: boolean
+  attempts?: number
+}
+
+/** What a student is shown: the question without its answer key, plus how they did so far. */
+export type StudentVideoQuestion = {
+  _id: string
+  at: number
+  type: string
+  prompt: string
+  options: string[]
+  points: number
+  countsTowardProgress: boolean
+  response: { correct: boolean; attempts: number } | null
+}
+
+export async function listStudentVideoQuestions(videoId: string, studentId: string): Promise<StudentVideoQuestion[]> {
+  const [questions, responses] = await Promise.all([
+    VideoQuestion.find({ video: videoId }).sort({ at: 1 }).lean<StoredVideoQuestion[]>(),
+    VideoQuestionResponse.find({ video: videoId, student: studentId }).lean<ResponseDoc[]>(),
+  ])
+
+  const byQuestion = new Map(responses.map((r) => [toIdString(r.question), r]))
+  return questions.map((q) => {
+    const response = byQuestion.get(toIdString(q._id))
+    return {
+      _id: toIdString(q._id),
+      at: q.at,
+      type: getQuestionType(q),
+      prompt: getQuestionPrompt(q),
+      options: q.options || [],
+      points: typeof q.points === "number" ? q.points : 1,
+      countsTowardProgress: !!q.countsTowardProgress,
+      response: response ? { correct: response.correct, attempts: response.attempts ?? 1 } : null,
+    }
+  })
+}
+
+/**
+ * Grades an answer and records it. Retries overwrite the latest answer but keep the
+ * first one, which is what the teacher's stats are based on.
+ */
+export async function recordVideoQuestionAnswer(question: StoredVideoQuestion, studentId: string, answer: unknown) {
+  const { correct } = gradeQuestion(question, answer)
+  const response = await VideoQuestionResponse.findOneAndUpdate(
+    { question: question._id, student: studentId },
+    {
+      $set: { answer, correct },
+      $inc: { attempts: 1 },
+      $setOnInsert: {
+        video: question.video,
+        course: question.course,
+        firstAnswer: answer,
+        firstAttemptCorrect: correct,
+      },
+    },
+    { upsert: true, new: true, setDefaultsOnInsert: false }
+  )
+  return {
+    correct,
+    attempts: response?.attempts ?? 1,
+    // The explanation gives the answer away, so it waits until the student has it right
+    explanation: correct ? question.explanation || null : null,
+  }
+}
+
+/** Videos in the course whose progress-counting questions the student has not all answered correctly. */
+export async function videosAwaitingAnswers(studentId: string, courseId: string): Promise<Set<string>> {
+  const questions = await VideoQuestion.find({ course: courseId, countsTowardProgress: true })
+    .select("_id video")
+    .lean<{ _id: unknown; video: unknown }[]>()
+  if (questions.length === 0) return new Set()
+
+  const answered = await VideoQuestionResponse.find({ student: studentId, question: { $in: questions.map((q) => q._id) }, correct: true })
+    .select("question")
+    .lean<{ question: unknown }[]>()
+  const answeredIds = new Set(answered.map((r) => toIdString(r.question)))
+
+  return new Set(questions.filter((q) => !answeredIds.has(toIdString(q._id))).map((q) => toIdString(q.video)))
+}
+
+export type VideoQuestionStats = {
+  questionId: string
+  responses: number
+  firstAttemptCorrectPercent: number
+  eventuallyCorrectPercent: number
+  averageAttempts: number
+  /** How often each option was picked on the first attempt; choice questions only */
+  optionCounts: number[] | null
+}
+
+const round1 = (n: number) => Math.round(n * 10) / 10
+
+/** Per-question response stats for the teacher, based on students' first attempts. */
+export async function getVideoQuestionStats(videoId: string): Promise<VideoQuestionStats[]> {
+  const [questions, responses] = await Promise.all([
+    VideoQuestion.find({ video: videoId }).sort({ at: 1 }).lean<StoredVideoQuestion[]>(),
+    VideoQuestionResponse.find({ video: videoId }).lean<ResponseDoc[]>(),
+  ])
+
+  return questions.map((q) => {
+    const id = toIdString(q._id)
+    const own = responses.filter((r) => toIdString(r.question) === id)
+    const total = own.length
+    const type = getQuestionType(q)
+
+    let optionCounts: number[] | null = null
+    if (type === "multiple_choice" || type === "multi_select") {
+      optionCounts = (q.options || []).map(() => 0)
+      for (const r of own) {
+        const picked = Array.isArray(r.firstAnswer) ? r.firstAnswer : [r.firstAnswer]
+        for (const index of picked) {
+          if (typeof index === "number" && index >= 0 && index < optionCounts.length) optionCounts[index]++
+        }
+      }
+    }
+
+    return {
+      questionId: id,
+      responses: total,
+      firstAttemptCorrectPercent: total ? round1((own.filter((r) => r.firstAttemptCorrect).length / total) * 100) : 0,
+      eventuallyCorrectPercent: total ? round1((own.filter((r) => r.correct).length / total) * 100) : 0,
+      averageAttempts: total ? round1(own.reduce((sum, r) => sum + (r.attempts ?? 1), 0) / total) : 0,
+      optionCounts,
+    }
+  })
+}
@@ -0,0 +1,167 @@
+import { createReadStream, promises as fs } from "fs"
+import path from "path"
+import { Readable } from "stream"
+import { v2 as cloudinary } from "cloudinary"
+
+export const VIDEO_STORAGE_DRIVERS = ["local", "cloudinary"] as const
+export type VideoStorageDriver = (typeof VIDEO_STORAGE_DRIVERS)[number]
+
+export type StoredFile = {
+  body: ReadableStream<Uint8Array>
+  contentType: string
+  size?: number
+}
+
+/**
+ * Where packaged HLS output (playlists, segments, thumbnails, previews) lives.
+ * Keys are slash-separated paths such as `hls/<videoId>/720p/segment_000.ts`;
+ * files are only ever served through the authenticated HLS route.
+ */
+export interface VideoStorage {
+  readonly driver: VideoStorageDriver
+  /** Uploads every file under `localDir`, keyed by its relative path below `prefix`. */
+  putDirectory(localDir: string, prefix: string): Promise<string[]>
+  read(key: string): Promise<StoredFile | null>
+  deletePrefix(prefix: string): Promise<void>
+}
+
+const CONTENT_TYPES: Record<string, string> = {
+  ".m3u8": "application/vnd.apple.mpegurl",
+  ".ts": "video/mp2t",
+  ".m4s": "video/iso.segment",
+  ".mp4": "video/mp4",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".png": "image/png",
+  ".vtt": "text/vtt; charset=utf-8",
+}
+
+export function contentTypeFor(key: string) {
+  return CONTENT_TYPES[path.extname(key).toLowerCase()] || "application/octet-stream"
+}
+
+/** Rejects empty, absolute and `..` segments so a key can never leave its prefix. */
+export function isSafeStorageKey(key: string) {
+  const parts = key.split("/")
+  return parts.length > 0 && parts.every((p) => p !== "" && p !== "." && p !== ".." && !p.includes("\\"))
+}
+
+async function listFiles(dir: string): Promise<string[]> {
+  const entries = await fs.readdir(dir, { withFileTypes: true })
+  const nested = await Promise.all(
+    entries.map((entry) => {
+      const full = path.join(dir, entry.name)
+      return entry.isDirectory() ? listFiles(full) : Promise.resolve([full])
+    })
+  )
+  return nested.flat()
+}
+
+const toKey = (prefix: string, localDir: string, file: string) =>
+  `${prefix}/${path.relative(localDir, file).split(path.sep).join("/")}`
+
+class LocalVideoStorage implements VideoStorage {
+  readonly driver = "local" as const
+
+  constructor(private readonly rootDir: string) {}
+
+  private resolve(key: string) {
+    if (!isSafeStorageKey(key)) throw new Error(`Invalid storage key: ${key}`)
+    return path.join(this.rootDir, ...key.split("/"))
+  }
+
+  async putDirectory(localDir: string, prefix: string) {
+    const files = await listFiles(localDir)
+    const keys: string[] = []
+    for (const file of files) {
+      const key = toKey(prefix, localDir, file)
+      const target = this.resolve(key)
+      await fs.mkdir(path.dirname(target), { recursive: true })
+      await fs.copyFile(file, target)
+      keys.push(key)
+    }
+    return keys
+  }
+
+  async read(key: string): Promise<StoredFile | null> {
+    const file = this.resolve(key)
+    const stat = await fs.stat(file).catch(() => null)
+    if (!stat?.isFile()) return null
+    return {
+      body: Readable.toWeb(createReadStream(file)) as ReadableStream<Uint8Array>,
+      contentType: contentTypeFor(key),
+      size: stat.size,
+    }
+  }
+
+  async deletePrefix(prefix: string) {
+    await fs.rm(this.resolve(prefix), { recursive: true, force: true })
+  }
+}
+
+// Files are stored as raw resources with the key as public id
+class CloudinaryVideoStorage implements VideoStorage {
+  readonly driver = "cloudinary" as const
+
+  constructor() {
+    cloudinary.config({
+      cloud_name: process.env.CLOUDINARY_CLOUD_NAME,
+      api_key: process.env.CLOUDINARY_API_KEY,
+      api_secret: process.env.CLOUDINARY_API_SECRET,
+    })
+  }
+
+  async putDirectory(localDir: string, prefix: string) {
+    const files = await listFiles(localDir)
+    const keys: string[] = []
+    for (const file of files) {
+      const key = toKey(prefix, localDir, file)
+      await cloudinary.uploader.upload(file, { resource_type: "raw", public_id: key, overwrite: true, type: "authenticated" })
+      keys.push(key)
+    }
+    return keys
+  }
+
+  async read(key: string): Promise<StoredFile | null> {
+    if (!isSafeStorageKey(key)) return null
+    const url = cloudinary.url(key, { resource_type: "raw", type: "authenticated", sign_url: true, secure: true })
+    const res = await fetch(url)
+    if (!res.ok || !res.body) return null
+    const size = Number(res.headers.get("content-length"))
+    return { body: res.body, contentType: contentTypeFor(key), size: Number.isFinite(size) && size > 0 ? size : undefined }
+  }
+
+  async deletePrefix(prefix: string) {
+    await cloudinary.api.delete_resources_by_prefix(`${prefix}/`, { resource_type: "raw", type: "authenticated" })
+  }
+}
+
+const instances = new Map<VideoStorageDriver, VideoStorage>()
+
+/**
+ * The storage backend for a driver, defaulting to `VIDEO_STORAGE_DRIVER` (local
+ * unless set). Local files go under `VIDEO_STORAGE_DIR`, by default `./storage`.
+ */
+export function getVideoStorage(driver?: VideoStorageDriver): VideoStorage {
+  const configured = process.env.VIDEO_STORAGE_DRIVER as VideoStorageDriver | undefined
+  const name = driver || (configured && VIDEO_STORAGE_DRIVERS.includes(configured) ? configured : "local")
+
+  let storage = instances.get(name)
+  if (!storage) {
+    storage =
+      name === "cloudinary"
+        ? new CloudinaryVideoStorage()
+        : new LocalVideoStorage(process.env.VIDEO_STORAGE_DIR || path.join(process.cwd(), "storage"))
+    instances.set(name, storage)
+  }
+  return storage
+}
+
+export function hlsStoragePrefix(videoId: string) {
+  return `hls/${videoId}`
+}
+
+/** Public URL of a packaged file; served by `/api/videos/[id]/hls/[...path]`. */
+export function hlsAssetUrl(videoId: string, relativePath: string) {
+  return `/api/videos/${videoId}/hls/${relativePath}`
+}
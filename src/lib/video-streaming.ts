@@ -3,7 +3,14 @@ import path from 'path'
 import crypto from 'crypto'
 import { EventEmitter } from 'events'
 import { spawn, ChildProcess } from 'child_process'
+import os from 'os'
 import axios from 'axios'
+import mongoose from 'mongoose'
+import { dbConnect } from '@/lib/dbConnect'
+import { Video } from '@/models/video'
+import { VideoProcessingJob, type ProcessingJobStatus as ProcessingJobStatusName } from '@/models/video-processing-job'
+import { getVideoStorage, hlsAssetUrl, hlsStoragePrefix } from '@/lib/video-storage'
+import { formatVttTimestamp } from '@/lib/captions'
 
 export interface StreamConfig {
   inputUrl: string
@@ -144,6 +151,8 @@ export class FFmpegProcessor {
       audioCodec?: string
       audioBitrate?: string
       onProgress?: (progress: number, timeProcessed: number) => void
+      /** Aborting kills the FFmpeg process */
+      signal?: AbortSignal
     } = {}
   ): Promise<void> {
     const isAvailable = await this.checkFFmpegAvailability()
@@ -205,7 +214,7 @@ export class FFmpegProcessor {
 
       args.push(outputPath)
 
-      const ffmpeg = spawn('ffmpeg', args)
+      const ffmpeg = spawn('ffmpeg', args, { signal: options.signal })
       let totalDuration = 0
 
       // Get total duration for progress calculation
@@ -255,7 +264,8 @@ export class FFmpegProcessor {
   static async generateThumbnails(
     inputPath: string,
     outputDir: string,
-    count: number = 5
+    count: number = 5,
+    signal?: AbortSignal
   ): Promise<string[]> {
     const info = await this.probe(inputPath)
     const duration = info.duration
@@ -274,7 +284,7 @@ export class FFmpegProcessor {
           '-q:v', '2',
           '-y',
           outputPath
-        ])
+        ], { signal })
 
         ffmpeg.on('close', (code) => {
           if (code === 0) {
@@ -292,10 +302,72 @@ export class FFmpegProcessor {
     return thumbnails
   }
 
+  /**
+   * Tiles a frame every `interval` seconds into sprite sheets and writes a WebVTT
+   * track whose cues point at each tile (`sprite_001.jpg#xywh=x,y,w,h`), which the
+   * player reads to show previews while hovering the seek bar.
+   */
+  static async generateSpriteThumbnails(
+    inputPath: string,
+    outputDir: string,
+    options: {
+      duration: number
+      width: number
+      height: number
+      tileWidth?: number
+      columns?: number
+      rows?: number
+      signal?: AbortSignal
+    }
+  ): Promise<string> {
+    const { duration, tileWidth = 160, columns = 10, rows = 10, signal } = options
+    // Keep long lectures to a few hundred tiles
+    const interval = Math.max(5, Math.ceil(duration / 300))
+    const tileHeight = Math.round((tileWidth * (options.height || 9)) / (options.width || 16) / 2) * 2
+    const perSheet = columns * rows
+
+    await new Promise<void>((resolve, reject) => {
+      const ffmpeg = spawn('ffmpeg', [
+        '-i', inputPath,
+        '-vf', `fps=1/${interval},scale=${tileWidth}:${tileHeight},tile=${columns}x${rows}`,
+        '-q:v', '5',
+        '-y',
+        path.join(outputDir, 'sprite_%03d.jpg')
+      ], { signal })
+
+      ffmpeg.on('close', (code) => {
+        if (code === 0) {
+          resolve()
+        } else {
+          reject(new Error(`Sprite sheet generation failed with code ${code}`))
+        }
+      })
+
+      ffmpeg.on('error', reject)
+    })
+
+    let vtt = 'WEBVTT\n'
+    const tiles = Math.ceil(duration / interval)
+    for (let i = 0; i < tiles; i++) {
+      const sheet = Math.floor(i / perSheet) + 1
+      const x = (i % columns) * tileWidth
+      const y = Math.floor((i % perSheet) / columns) * tileHeight
+      const start = i * interval
+      const end = Math.min(duration, start + interval)
+      const file = `sprite_${String(sheet).padStart(3, '0')}.jpg`
+      vtt += `\n${formatVttTimestamp(start)} --> ${formatVttTimestamp(end)}\n${file}#xywh=${x},${y},${tileWidth},${tileHeight}\n`
+    }
+
+    const trackPath = path.join(outputDir, 'thumbnails.vtt')
+    await fs.writeFile(trackPath, vtt)
+    return trackPath
+  }
+
   static async createHLSPlaylist(
     inputPath: string,
     outputDir: string,
-    variants: VideoVariant[]
+    variants: VideoVariant[],
+    signal?: AbortSignal
   ): Promise<string> {
     // Create master playlist
     const masterPlaylistPath = path.join(outputDir, 'master.m3u8')
@@ -321,7 +393,7 @@ export class FFmpegProcessor {
           '-hls_segment_filename', path.join(variantDir, 'segment_%03d.ts'),
           '-y',
           playlistPath
-        ])
+        ], { signal })
 
         ffmpeg.on('close', (code) => {
           if (code === 0) {
@@ -404,23 +476,27 @@ export async function processVideoWithAdaptiveStreaming(
     thumbnailCount?: number
     generatePreview?: boolean
     previewDuration?: number
+    generateSpriteThumbnails?: boolean
     watermark?: {
       enabled: boolean
       text?: string
       position?: string
       opacity?: number
-    }
+    } | null
     onProgress?: (progress: number, stage: string) => void
+    /** Aborting kills the FFmpeg process of the running stage */
+    signal?: AbortSignal
   } = {}
 ): Promise<{
   hlsPlaylist: string
   thumbnails: string[]
+  thumbnailTrack?: string
   preview?: string
   variants: VideoVariant[]
 }> {
   await fs.mkdir(outputDir, { recursive: true })
   
-  const { onProgress = () => {} } = options
+  const { onProgress = () => {}, signal } = options
 
   try {
     // Step 1: Probe video information
@@ -440,11 +516,26 @@ export async function processVideoWithAdaptiveStreaming(
       thumbnails = await FFmpegProcessor.generateThumbnails(
         inputPath,
         thumbnailDir,
-        options.thumbnailCount || 5
+        options.thumbnailCount || 5,
+        signal
       )
     }
 
-    // Step 4: Generate preview clip
+    // Step 4: Sprite sheets for seek bar previews
+    let thumbnailTrack: string | undefined
+    if (options.generateSpriteThumbnails !== false && videoInfo.duration > 0) {
+      onProgress(25, 'Generating seek previews')
+      const spriteDir = path.join(outputDir, 'sprites')
+      await fs.mkdir(spriteDir, { recursive: true })
+      thumbnailTrack = await FFmpegProcessor.generateSpriteThumbnails(inputPath, spriteDir, {
+        duration: videoInfo.duration,
+        width: videoInfo.width,
+        height: videoInfo.height,
+        signal,
+      })
+    }
+
+    // Step 5: Generate preview clip
     let preview: string | undefined
     if (options.generatePreview) {
       onProgress(30, 'Creating preview clip')
@@ -455,20 +546,22 @@ export async function processVideoWithAdaptiveStreaming(
         crf: 23,
         width: Math.min(videoInfo.width, 640),
         height: Math.min(videoInfo.height, 360),
-        format: 'mp4'
+        format: 'mp4',
+        signal
       })
       preview = previewPath
     }
 
-    // Step 5: Create HLS variants
+    // Step 6: Create HLS variants
     onProgress(40, 'Creating adaptive streaming variants')
-    const hlsPlaylist = await FFmpegProcessor.createHLSPlaylist(inputPath, outputDir, variants)
+    const hlsPlaylist = await FFmpegProcessor.createHLSPlaylist(inputPath, outputDir, variants, signal)
     
     onProgress(100, 'Processing complete')
 
     return {
       hlsPlaylist,
       thumbnails,
+      thumbnailTrack,
       preview,
       variants
     }
@@ -478,16 +571,137 @@ export async function processVideoWithAdaptiveStreaming(
   }
 }
 
+/**
+ * Copies a finished processing run into video storage under a per-job prefix and
+ * returns the URLs the player and UI use. Everything is served through the
+ * authenticated HLS route, never straight from disk or the storage provider.
+ */
+export async function publishProcessedVideo(
+  videoId: string,
+  jobId: string,
+  outputDir: string,
+  result: Awaited<ReturnType<typeof processVideoWithAdaptiveStreaming>>
+) {
+  const storage = getVideoStorage()
+  const prefix = `${hlsStoragePrefix(videoId)}/${jobId}`
+  await storage.putDirectory(outputDir, prefix)
+
+  const urlFor = (file: string) => hlsAssetUrl(videoId, path.relative(outputDir, file).split(path.sep).join('/'))
+  return {
+    hlsPlaylist: urlFor(result.hlsPlaylist),
+    thumbnails: result.thumbnails.map(urlFor),
+    thumbnailTrack: result.thumbnailTrack ? urlFor(result.thumbnailTrack) : undefined,
+    preview: result.preview ? urlFor(result.preview) : undefined,
+    variants: result.variants.map((v) => ({
+      quality: v.name,
+      url: hlsAssetUrl(videoId, `${v.name}/index.m3u8`),
+      bitrate: v.bitrate,
+      resolution: `${v.width}x${v.height}`,
+    })),
+    storage: { driver: storage.driver, prefix },
+  }
+}
+
 // Processing queue management
+export interface ProcessingJobOptions {
+  generateThumbnails?: boolean
+  thumbnailCount?: number
+  generatePreview?: boolean
+  previewDuration?: number
+  generateSpriteThumbnails?: boolean
+  watermark?: {
+    enabled: boolean
+    text?: string
+    position?: string
+    opacity?: number
+  } | null
+}
+
+export interface ProcessingJobStatus {
+  id: string
+  videoId: string
+  status: ProcessingJobStatusName
+  progress: number
+  stage?: string
+  attempts: number
+  maxAttempts: number
+  nextRunAt?: Date
+  error?: string
+  result?: {
+    hlsPlaylist?: string
+    thumbnails?: string[]
+    thumbnailTrack?: string
+    preview?: string
+    variants?: { name: string; width: number; height: number; bitrate: number }[]
+  }
+  startTime?: Date
+  completedAt?: Date
+}
+
+// Fields of a stored VideoProcessingJob the worker reads
+type ProcessingJobDoc = {
+  _id: mongoose.Types.ObjectId
+  video: mongoose.Types.ObjectId
+  inputUrl: string
+  outputDir: string
+  options?: ProcessingJobOptions
+  status: ProcessingJobStatusName
+  progress?: number
+  stage?: string
+  attempts: number
+  maxAttempts: number
+  runAt: Date
+  lastError?: string
+  result?: ProcessingJobStatus['result']
+  startedAt?: Date
+  completedAt?: Date
+}
+
+class JobCancelledError extends Error {
+  constructor() {
+    super('Processing cancelled')
+    this.name = 'JobCancelledError'
+  }
+}
+
+const POLL_INTERVAL_MS = 5000
+const LOCK_REFRESH_MS = 30 * 1000
+// A processing job whose lock has not been refreshed for this long belongs to a dead worker
+const STALE_LOCK_MS = 10 * 60 * 1000
+const RETRY_BASE_DELAY_MS = 30 * 1000
+
+/** Delay before the next attempt: 30s, 1m, 2m, ... capped at 30 minutes. */
+export function retryDelayMs(attempts: number) {
+  return Math.min(RETRY_BASE_DELAY_MS * 2 ** Math.max(0, attempts - 1), 30 * 60 * 1000)
+}
+
+function toJobStatus(job: ProcessingJobDoc): ProcessingJobStatus {
+  return {
+    id: String(job._id),
+    videoId: String(job.video),
+    status: job.status,
+    progress: job.progress || 0,
+    stage: job.stage,
+    attempts: job.attempts || 0,
+    maxAttempts: job.maxAttempts,
+    nextRunAt: job.status === 'queued' ? job.runAt : undefined,
+    error: job.lastError,
+    result: job.result?.hlsPlaylist ? job.result : undefined,
+    startTime: job.startedAt,
+    completedAt: job.completedAt,
+  }
+}
+
+/**
+ * Video processing jobs persisted in MongoDB. Any process may enqueue or cancel;
+ * each worker claims one job at a time with an atomic update, so several server
+ * processes can share the queue and jobs survive restarts.
+ */
 class VideoProcessingQueue {
   private static instance: VideoProcessingQueue
-  private queue: Map<string, {
-    status: 'queued' | 'processing' | 'completed' | 'error'
-    progress: number
-    result?: any
-    error?: string
-    startTime?: number
-  }> = new Map()
+  private readonly workerId = `${os.hostname()}:${process.pid}:${crypto.randomBytes(4).toString('hex')}`
+  private timer: NodeJS.Timeout | null = null
+  private busy = false
 
   static getInstance(): VideoProcessingQueue {
     if (!VideoProcessingQueue.instance) {
@@ -496,81 +710,284 @@ class VideoProcessingQueue {
     return VideoProcessingQueue.instance
   }
 
+  /** Queues a job and links it from `Video.processingJobId`. Returns the job id. */
   async addJob(
-    jobId: string,
-    inputPath: string,
-    outputDir: string,
-    options: any = {}
-  ): Promise<void> {
-    this.queue.set(jobId, {
-      status: 'queued',
-      progress: 0,
-      startTime: Date.now()
+    videoId: string,
+    inputUrl: string,
+    options: ProcessingJobOptions = {},
+    requestedBy?: string
+  ): Promise<string> {
+    await dbConnect()
+    const _id = new mongoose.Types.ObjectId()
+    const jobId = String(_id)
+    await VideoProcessingJob.create({
+      _id,
+      video: videoId,
+      inputUrl,
+      // Scratch space for FFmpeg; the output is published to video storage afterwards
+      outputDir: path.join(os.tmpdir(), 'lms-video-processing', jobId),
+      options,
+      requestedBy,
     })
-
-    // Process in background
-    this.processJob(jobId, inputPath, outputDir, options).catch(error => {
-      this.queue.set(jobId, {
-        ...this.queue.get(jobId)!,
-        status: 'error',
-        error: error.message
-      })
+    await Video.findByIdAndUpdate(videoId, {
+      processingJobId: jobId,
+      processingStatus: 'queued',
+      $unset: { processingError: 1 },
     })
+
+    this.startWorker()
+    setImmediate(() => this.tick())
+    return jobId
   }
 
-  private async processJob(
-    jobId: string,
-    inputPath: string,
-    outputDir: string,
-    options: any
-  ): Promise<void> {
+  async getJobStatus(jobId: string): Promise<ProcessingJobStatus | null> {
+    if (!mongoose.isValidObjectId(jobId)) return null
+    await dbConnect()
+    const job = await VideoProcessingJob.findById(jobId).lean()
+    return job ? toJobStatus(job) : null
+  }
+
+  /**
+   * Queued jobs are cancelled right away. A running job is flagged; its worker sees
+   * the flag at the next lock refresh, kills FFmpeg and marks the job cancelled.
+   */
+  async cancelJob(jobId: string): Promise<boolean> {
+    if (!mongoose.isValidObjectId(jobId)) return false
+    await dbConnect()
+    const queued = await VideoProcessingJob.findOneAndUpdate(
+      { _id: jobId, status: 'queued' },
+      { $set: { status: 'cancelled', cancelRequested: true, completedAt: new Date() } },
+      { new: true }
+    )
+    if (queued) {
+      await Video.updateOne(
+        { _id: queued.video, processingJobId: jobId },
+        { processingStatus: 'cancelled' }
+      )
+      return true
+    }
+
+    const running = await VideoProcessingJob.updateOne(
+      { _id: jobId, status: 'processing' },
+      { $set: { cancelRequested: true } }
+    )
+    return running.modifiedCount > 0
+  }
+
+  /** Starts polling for jobs in this process; safe to call more than once. */
+  startWorker() {
+    if (this.timer) return
+    this.timer = setInterval(() => this.tick(), POLL_INTERVAL_MS)
+    this.timer.unref?.()
+  }
+
+  stopWorker() {
+    if (this.timer) clearInterval(this.timer)
+    this.timer = null
+  }
+
+  private async tick() {
+    if (this.busy) return
+    this.busy = true
     try {
-      this.queue.set(jobId, {
-        ...this.queue.get(jobId)!,
-        status: 'processing'
-      })
+      await dbConnect()
+      await this.settleAbandonedJobs()
+      let job = await this.claimNextJob()
+      while (job) {
+        await this.runJob(job)
+        job = await this.claimNextJob()
+      }
+    } catch (error) {
+      console.error('Video processing worker error:', error)
+    } finally {
+      this.busy = false
+    }
+  }
 
-      const result = await processVideoWithAdaptiveStreaming(
-        inputPath,
-        outputDir,
-        {
-          ...options,
-          onProgress: (progress: number, stage: string) => {
-            this.queue.set(jobId, {
-              ...this.queue.get(jobId)!,
-              progress,
-              status: 'processing'
-            })
-          }
-        }
+  /**
+   * Closes jobs left behind by a crashed worker that must not run again: those
+   * cancelled while running and those that already used up their attempts.
+   */
+  private async settleAbandonedJobs() {
+    const stale = { status: 'processing', lockedAt: { $lt: new Date(Date.now() - STALE_LOCK_MS) } }
+    const abandoned = await VideoProcessingJob
+      .find({ ...stale, $or: [{ cancelRequested: true }, { $expr: { $gte: ['$attempts', '$maxAttempts'] } }] })
+      .select('video cancelRequested lockedAt')
+      .lean()
+
+    const lastError = 'Worker stopped responding on the last attempt'
+    for (const job of abandoned) {
+      const jobId = String(job._id)
+      const update = job.cancelRequested ? { status: 'cancelled' } : { status: 'failed', lastError }
+      // Matching the lock we read keeps this from racing another worker doing the same
+      const settled = await VideoProcessingJob.updateOne(
+        { _id: job._id, status: 'processing', lockedAt: job.lockedAt },
+        { $set: { ...update, completedAt: new Date() }, $unset: { lockedBy: 1, lockedAt: 1 } }
+      )
+      if (settled.modifiedCount === 0) continue
+
+      await Video.updateOne(
+        { _id: job.video, processingJobId: jobId },
+        job.cancelRequested
+          ? { processingStatus: 'cancelled' }
+          : { processingStatus: 'failed', processingError: lastError }
       )
+    }
+  }
+
+  /** Atomically takes the oldest due job, or one abandoned by a crashed worker with attempts left. */
+  private async claimNextJob(): Promise<ProcessingJobDoc | null> {
+    const now = new Date()
+    return VideoProcessingJob.findOneAndUpdate(
+      {
+        cancelRequested: false,
+        $or: [
+          { status: 'queued', runAt: { $lte: now } },
+          {
+            status: 'processing',
+            lockedAt: { $lt: new Date(now.getTime() - STALE_LOCK_MS) },
+            $expr: { $lt: ['$attempts', '$maxAttempts'] },
+          },
+        ],
+      },
+      {
+        $set: { status: 'processing', lockedBy: this.workerId, lockedAt: now, startedAt: now, progress: 0 },
+        $inc: { attempts: 1 },
+      },
+      { sort: { runAt: 1 }, new: true }
+    )
+  }
 
-      this.queue.set(jobId, {
-        ...this.queue.get(jobId)!,
-        status: 'completed',
-        progress: 100,
-        result
+  private async runJob(job: ProcessingJobDoc) {
+    const jobId = String(job._id)
+    const owned = { _id: job._id, lockedBy: this.workerId }
+    let cancelRequested = false
+    const abort = new AbortController()
+
+    // Keep the lock fresh during long stages and pick up cancellation requests
+    const lockRefresher = setInterval(async () => {
+      try {
+        const current = await VideoProcessingJob.findOneAndUpdate(
+          owned,
+          { $set: { lockedAt: new Date() } },
+          { new: true, projection: { cancelRequested: 1 } }
+        )
+        if (!current || current.cancelRequested) {
+          cancelRequested = true
+          abort.abort()
+        }
+      } catch (error) {
+        console.error(`Lock refresh failed for job ${jobId}:`, error)
+      }
+    }, LOCK_REFRESH_MS)
+
+    await Video.updateOne({ _id: job.video, processingJobId: jobId }, { processingStatus: 'processing' })
+
+    try {
+      const result = await processVideoWithAdaptiveStreaming(job.inputUrl, job.outputDir, {
+        ...(job.options || {}),
+        signal: abort.signal,
+        onProgress: (progress: number, stage: string) => {
+          if (cancelRequested) throw new JobCancelledError()
+          this.saveProgress(owned, progress, stage)
+        },
       })
-    } catch (error) {
-      this.queue.set(jobId, {
-        ...this.queue.get(jobId)!,
-        status: 'error',
-        error: (error as Error).message
+
+      const published = await publishProcessedVideo(String(job.video), jobId, job.outputDir, result)
+      const variants = result.variants.map((v) => ({ name: v.name, width: v.width, height: v.height, bitrate: v.bitrate }))
+      await VideoProcessingJob.updateOne(owned, {
+        $set: {
+          status: 'completed',
+          progress: 100,
+          stage: 'Processing complete',
+          completedAt: new Date(),
+          result: {
+            hlsPlaylist: published.hlsPlaylist,
+            thumbnails: published.thumbnails,
+            thumbnailTrack: published.thumbnailTrack,
+            preview: published.preview,
+            variants,
+          },
+        },
+        $unset: { lockedBy: 1, lockedAt: 1 },
       })
+
+      const previous = await Video
+        .findOneAndUpdate(
+          { _id: job.video, processingJobId: jobId },
+          {
+            processingStatus: 'completed',
+            isProcessed: true,
+            hlsUrl: published.hlsPlaylist,
+            hlsPlaylist: published.hlsPlaylist,
+            variants: published.variants,
+            thumbnails: published.thumbnails,
+            thumbnailTrack: published.thumbnailTrack,
+            preview: published.preview,
+            availableQualities: variants.map((v) => v.name),
+            hlsStorage: published.storage,
+            processedAt: new Date(),
+            $unset: { processingError: 1, ...(published.thumbnailTrack ? {} : { thumbnailTrack: 1 }) },
+          }
+        )
+        .select('hlsStorage')
+        .lean()
+
+      // Drop the output nobody points at any more: the previous run's, or this one if a newer job took over
+      const stale = previous ? previous.hlsStorage : published.storage
+      if (stale?.prefix && (!previous || stale.prefix !== published.storage.prefix)) {
+        await getVideoStorage(stale.driver).deletePrefix(stale.prefix).catch(console.error)
+      }
+    } catch (error) {
+      await this.handleFailure(job, error as Error, cancelRequested || error instanceof JobCancelledError)
+    } finally {
+      clearInterval(lockRefresher)
+      await fs.rm(job.outputDir, { recursive: true, force: true }).catch(() => {})
     }
   }
 
-  getJobStatus(jobId: string) {
-    return this.queue.get(jobId)
+  private saveProgress(owned: { _id: unknown; lockedBy: string }, progress: number, stage: string) {
+    VideoProcessingJob
+      .updateOne(owned, { $set: { progress: Math.round(progress), stage, lockedAt: new Date() } })
+      .catch(console.error)
   }
 
-  cancelJob(jobId: string): boolean {
-    const job = this.queue.get(jobId)
-    if (job && job.status === 'queued') {
-      this.queue.delete(jobId)
-      return true
+  private async handleFailure(job: ProcessingJobDoc, error: Error, cancelled: boolean) {
+    const jobId = String(job._id)
+    const owned = { _id: job._id, lockedBy: this.workerId }
+    const release = { $unset: { lockedBy: 1, lockedAt: 1 } }
+
+    if (cancelled) {
+      await VideoProcessingJob.updateOne(owned, {
+        $set: { status: 'cancelled', completedAt: new Date() },
+        ...release,
+      })
+      await Video.updateOne({ _id: job.video, processingJobId: jobId }, { processingStatus: 'cancelled' })
+      return
     }
-    return false
+
+    console.error(`Video processing job ${jobId} failed (attempt ${job.attempts}):`, error)
+    if (job.attempts < job.maxAttempts) {
+      await VideoProcessingJob.updateOne(owned, {
+        $set: {
+          status: 'queued',
+          lastError: error.message,
+          runAt: new Date(Date.now() + retryDelayMs(job.attempts)),
+        },
+        ...release,
+      })
+      await Video.updateOne({ _id: job.video, processingJobId: jobId }, { processingStatus: 'queued' })
+      return
+    }
+
+    await VideoProcessingJob.updateOne(owned, {
+      $set: { status: 'failed', lastError: error.message, completedAt: new Date() },
+      ...release,
+    })
+    await Video.updateOne(
+      { _id: job.video, processingJobId: jobId },
+      { processingStatus: 'failed', processingError: error.message }
+    )
   }
 }
 
@@ -0,0 +1,149 @@
+import mongoose from "mongoose"
+import { Course } from "@/models/course"
+import { CourseProgress } from "@/models/course-progress"
+import { Video } from "@/models/video"
+import { VideoWatch, type Heartbeat } from "@/models/video-watch"
+import { getCompletionCriteria, recalculateAndSaveCourseProgress } from "@/lib/course-progress"
+
+export type WatchInterval = { start: number; end: number }
+
+/**
+ * Fastest playback rate the player offers; heartbeats cannot cover more than this
+ * per real second. It also absorbs timer drift at normal speed.
+ */
+const MAX_PLAYBACK_RATE = 2
+/** Budget for a first heartbeat, or one after a long gap */
+const MAX_HEARTBEAT_SECONDS = 120
+
+/** Sorts and joins overlapping or touching intervals. */
+export function mergeIntervals(intervals: WatchInterval[]): WatchInterval[] {
+  const sorted = intervals.filter((i) => i.end > i.start).sort((a, b) => a.start - b.start)
+  const merged: WatchInterval[] = []
+  for (const interval of sorted) {
+    const last = merged[merged.length - 1]
+    if (last && interval.start <= last.end) {
+      last.end = Math.max(last.end, interval.end)
+    } else {
+      merged.push({ start: interval.start, end: interval.end })
+    }
+  }
+  return merged
+}
+
+export function coveredSeconds(intervals: WatchInterval[]) {
+  return intervals.reduce((sum, i) => sum + (i.end - i.start), 0)
+}
+
+/**
+ * Keeps the reported segments within the video and within the real time that
+ * passed since the previous heartbeat, dropping whatever exceeds the budget.
+ */
+export function limitSegments(segments: WatchInterval[], duration: number, budgetSeconds: number): WatchInterval[] {
+  const limited: WatchInterval[] = []
+  let remaining = budgetSeconds
+  for (const segment of segments) {
+    if (remaining <= 0) break
+    const start = Math.max(0, Math.min(segment.start, duration))
+    const end = Math.min(Math.max(segment.end, start), duration, start + remaining)
+    if (end > start) {
+      limited.push({ start, end })
+      remaining -= end - start
+    }
+  }
+  return limited
+}
+
+/**
+ * Applies one heartbeat: merges the played segments into the student's watch
+ * record, re-evaluates completion against the course threshold and mirrors the
+ * result onto course progress.
+ */
+export async function recordHeartbeat(studentId: string, courseId: string, beat: Heartbeat) {
+  const [video, course] = await Promise.all([
+    Video.findOne({ _id: beat.videoId, course: courseId }).select("duration").lean(),
+    Course.findById(courseId).select("completionCriteria").lean(),
+  ])
+  if (!video) return null
+
+  const { minVideoWatchPercent } = getCompletionCriteria(course)
+
+  const watch =
+    (await VideoWatch.findOne({ student: studentId, video: beat.videoId })) ||
+    new VideoWatch({ student: studentId, course: courseId, video: beat.videoId })
+
+  // Prefer the stored duration; the client's value can only ever lengthen it
+  const storedDuration = Number(video.duration)
+  const duration =
+    Number.isFinite(storedDuration) && storedDuration > 0 ? storedDuration : Math.max(watch.duration || 0, beat.duration)
+
+  const now = new Date()
+  const elapsed = watch.lastHeartbeatAt ? (now.getTime() - new Date(watch.lastHeartbeatAt).getTime()) / 1000 : Infinity
+  const budget = Math.min(elapsed * MAX_PLAYBACK_RATE, MAX_HEARTBEAT_SECONDS)
+
+  const intervals = mergeIntervals([
+    ...(watch.intervals || []).map((i) => ({ start: i.start, end: i.end })),
+    ...limitSegments(beat.segments, duration, budget),
+  ])
+  const uniqueSeconds = Math.round(coveredSeconds(intervals) * 100) / 100
+  const percentWatched = duration > 0 ? Math.min(100, Math.round((uniqueSeconds / duration) * 10000) / 100) : 0
+  const completed = percentWatched >= minVideoWatchPercent
+
+  watch.intervals = intervals
+  watch.uniqueSeconds = uniqueSeconds
+  watch.duration = duration
+  watch.percentWatched = percentWatched
+  if (completed && !watch.completed) watch.completedAt = now
+  watch.completed = completed
+  watch.lastPosition = Math.min(beat.position, duration)
+  watch.lastHeartbeatAt = now
+  await watch.save()
+
+  await syncCourseProgress(studentId, courseId, beat.videoId, watch)
+  const progress = await recalculateAndSaveCourseProgress(studentId, courseId)
+
+  return { watch, progress }
+}
+
+/** Keeps the older per-video progress fields in step with the watch record. */
+async function syncCourseProgress(
+  studentId: string,
+  courseId: string,
+  videoId: string,
+  watch: { uniqueSeconds: number; percentWatched: number; completed: boolean; lastHeartbeatAt?: Date }
+) {
+  const progress =
+    (await CourseProgress.findOne({ student: studentId, course: courseId })) ||
+    new CourseProgress({
+      student: studentId,
+      course: courseId,
+      completedVideos: [],
+      submittedAssignments: [],
+      passedQuizzes: [],
+      quizProgress: [],
+      videoProgress: {},
+      videoWatchDetails: {},
+    })
+
+  progress.set(`videoProgress.${videoId}`, Math.floor(watch.uniqueSeconds))
+
+  progress.videoWatchDetails = {
+    ...(typeof progress.videoWatchDetails === "object" && progress.videoWatchDetails !== null
+      ? progress.videoWatchDetails
+      : {}),
+    [videoId]: {
+      percentWatched: watch.percentWatched,
+      watchDurationSeconds: watch.uniqueSeconds,
+      lastWatchedAt: watch.lastHeartbeatAt,
+      completed: watch.completed,
+    },
+  }
+  progress.markModified("videoWatchDetails")
+
+  const alreadyCompleted = (progress.completedVideos || []).some((id) => String(id) === videoId)
+  if (watch.completed && !alreadyCompleted) {
+    progress.completedVideos.push(new mongoose.Types.ObjectId(videoId))
+  }
+  progress.set("lastAccessedVideo", videoId)
+  progress.updatedAt = new Date()
+  await progress.save()
+}
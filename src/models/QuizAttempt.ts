@@ -3,7 +3,31 @@ import mongoose from "mongoose"
 const QuizAttemptAnswerSchema = new mongoose.Schema(
   {
     questionId: { type: mongoose.Schema.Types.ObjectId, required: true },
-    answer: { type: mongoose.Schema.Types.Mixed }, // number | boolean | string | null
+    answer: { type: mongoose.Schema.Types.Mixed }, // number | boolean | string | number[] | null
+    earnedPoints: { type: Number, default: 0 },
+    maxPoints: { type: Number, default: 0 },
+    needsManualGrading: { type: Boolean, default: false },
+    // set by the teacher when a manual answer is scored
+    feedback: { type: String },
+    gradedAt: { type: Date },
+  },
+  { _id: false }
+)
+
+// Drawn question (and option display order) exactly as shown to the student
+const QuizAttemptVariantSchema = new mongoose.Schema(
+  {
+    questionId: { type: mongoose.Schema.Types.ObjectId, required: true },
+    optionOrder: { type: [Number], default: [] },
+  },
+  { _id: false }
+)
+
+// Autosaved answer as the student gave it (displayed option indexes), restored on resume
+const QuizAttemptDraftAnswerSchema = new mongoose.Schema(
+  {
+    questionId: { type: mongoose.Schema.Types.ObjectId, required: true },
+    answer: { type: mongoose.Schema.Types.Mixed },
   },
   { _id: false }
 )
@@ -17,12 +41,15 @@ const AttemptSchema = new mongoose.Schema(
     attemptNumber: { type: Number, required: true, default: 1 },
     status: {
       type: String,
-      enum: ["submitted", "pending_manual_grading", "graded"],
+      enum: ["in_progress", "submitted", "pending_manual_grading", "graded"],
       default: "submitted",
       index: true,
     },
 
+    variant: { type: [QuizAttemptVariantSchema], default: [] },
     answers: { type: [QuizAttemptAnswerSchema], default: [] },
+    draftAnswers: { type: [QuizAttemptDraftAnswerSchema], default: [] },
+    lastSavedAt: { type: Date },
 
     earnedPoints: { type: Number, required: true, default: 0 },
     maxPoints: { type: Number, required: true, default: 0 },
@@ -30,8 +57,12 @@ const AttemptSchema = new mongoose.Schema(
     passed: { type: Boolean, required: true, default: false, index: true },
 
     startedAt: { type: Date },
+    // server deadline (startedAt + time limit); null when the quiz is untimed
+    deadlineAt: { type: Date, default: null },
     submittedAt: { type: Date, default: Date.now },
     durationSeconds: { type: Number },
+    // graded from the autosaved draft after the deadline passed
+    autoSubmitted: { type: Boolean, default: false },
 
     gradedAt: { type: Date },
     gradedBy: { type: mongoose.Schema.Types.ObjectId, ref: "Teacher" },
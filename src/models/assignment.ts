@@ -1,4 +1,84 @@
-import mongoose from "mongoose"
+import mongoose, { Document } from "mongoose"
+import { z } from "zod"
+
+// A criterion is scored by picking one of its levels (or any points up to the best level)
+const rubricCriterionSchema = new mongoose.Schema(
+  {
+    title: { type: String, required: true },
+    description: { type: String },
+    levels: [
+      {
+        label: { type: String, required: true },
+        description: { type: String },
+        points: { type: Number, required: true, min: 0 },
+      },
+    ],
+  },
+  { _id: true }
+)
+
+export const LATE_POLICY_MODES = ["hard_close", "penalty", "grace"] as const
+
+export type LatePolicyMode = (typeof LATE_POLICY_MODES)[number]
+
+// Per-student due date override granted by the teacher
+const extensionSchema = new mongoose.Schema(
+  {
+    studentId: { type: mongoose.Schema.Types.ObjectId, ref: "Student", required: true },
+    dueDate: { type: Date, required: true },
+    reason: { type: String },
+    grantedBy: { type: mongoose.Schema.Types.ObjectId, ref: "Teacher" },
+    grantedAt: { type: Date, default: Date.now },
+  },
+  { _id: false }
+)
+
+interface RubricLevel {
+  _id: mongoose.Types.ObjectId
+  label: string
+  description?: string
+  points: number
+}
+
+interface RubricCriterion {
+  _id: mongoose.Types.ObjectId
+  title: string
+  description?: string
+  levels: RubricLevel[]
+}
+
+interface AssignmentExtension {
+  studentId: mongoose.Types.ObjectId
+  dueDate: Date
+  reason?: string
+  grantedBy?: mongoose.Types.ObjectId
+  grantedAt: Date
+}
+
+export interface IAssignment extends Document {
+  courseId: mongoose.Types.ObjectId
+  title?: string
+  description?: string
+  dueDate?: Date
+  fileUrl?: string
+  rubric: RubricCriterion[]
+  resubmissionLimit: number
+  latePolicy: {
+    mode: LatePolicyMode
+    penaltyPercentPerDay: number
+    maxPenaltyPercent: number
+    graceHours: number
+  }
+  extensions: AssignmentExtension[]
+  peerReview: {
+    enabled: boolean
+    reviewsPerSubmission: number
+    assignedAt?: Date
+  }
+  submissions: mongoose.Types.ObjectId[]
+  createdAt: Date
+  updatedAt: Date
+}
 
 const assignmentSchema = new mongoose.Schema(
   {
@@ -12,6 +92,28 @@ const assignmentSchema = new mongoose.Schema(
     dueDate: Date,
     fileUrl: String,
 
+    rubric: { type: [rubricCriterionSchema], default: [] },
+    // extra submissions allowed after the first one
+    resubmissionLimit: { type: Number, default: 0, min: 0 },
+
+    // hard_close: nothing after the due date; penalty: late work loses a share per day;
+    // grace: late work accepted without penalty for graceHours, then closed.
+    // Assignments from before late policies accept late work unpenalised, as they always did
+    latePolicy: {
+      mode: { type: String, enum: LATE_POLICY_MODES, default: "penalty" },
+      penaltyPercentPerDay: { type: Number, default: 0, min: 0 },
+      maxPenaltyPercent: { type: Number, default: 100, min: 0, max: 100 },
+      graceHours: { type: Number, default: 0, min: 0 },
+    },
+    extensions: { type: [extensionSchema], default: [] },
+
+    // After the due date each submission is scored anonymously by reviewsPerSubmission classmates
+    peerReview: {
+      enabled: { type: Boolean, default: false },
+      reviewsPerSubmission: { type: Number, default: 3, min: 1 },
+      assignedAt: { type: Date },
+    },
+
     submissions: [
       {
         type: mongoose.Schema.Types.ObjectId,
@@ -24,4 +126,56 @@ const assignmentSchema = new mongoose.Schema(
 
 export const Assignment =
   mongoose.models.Assignment ||
-  mongoose.model("Assignment", assignmentSchema)
\ No newline at end of file
+  mongoose.model("Assignment", assignmentSchema)
+
+// --------------------
+// Zod Validation Schemas
+// --------------------
+export const rubricCriterionValidationSchema = z.object({
+  title: z.string().trim().min(1, "Criterion title is required"),
+  description: z.string().optional(),
+  levels: z
+    .array(
+      z.object({
+        label: z.string().trim().min(1, "Level label is required"),
+        description: z.string().optional(),
+        points: z.number().min(0),
+      })
+    )
+    .min(1, "A criterion needs at least one level"),
+})
+
+export const assignmentValidationSchema = z.object({
+  courseId: z.string().min(1, "Course is required"),
+  title: z.string().trim().min(1, "Title is required"),
+  description: z.string().optional(),
+  dueDate: z.string().min(1, "Due date is required"),
+  fileUrl: z.string().nullable().optional(),
+  rubric: z.array(rubricCriterionValidationSchema).default([]),
+  resubmissionLimit: z.number().int().min(0).default(0),
+  latePolicy: z
+    .object({
+      mode: z.enum(LATE_POLICY_MODES).default("penalty"),
+      penaltyPercentPerDay: z.number().min(0).max(100).default(0),
+      maxPenaltyPercent: z.number().min(0).max(100).default(100),
+      graceHours: z.number().min(0).default(0),
+    })
+    .optional(),
+  peerReview: z
+    .object({
+      enabled: z.boolean().default(false),
+      reviewsPerSubmission: z.number().int().min(1).max(10).default(3),
+    })
+    .optional(),
+}).refine((val) => !val.peerReview?.enabled || val.rubric.length > 0, {
+  path: ["rubric"],
+  message: "Peer review needs a rubric to score against",
+})
+
+export const assignmentExtensionValidationSchema = z.object({
+  studentId: z.string().min(1, "Student is required"),
+  dueDate: z.string().min(1, "New due date is required"),
+  reason: z.string().optional(),
+})
+
+export type RubricCriterionInput = z.infer<typeof rubricCriterionValidationSchema>
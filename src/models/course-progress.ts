@@ -1,6 +1,55 @@
-import mongoose from "mongoose"
+import mongoose, { Model, Document } from "mongoose"
 import { z } from "zod"
 
+export interface QuizProgressEntry {
+  quiz: mongoose.Types.ObjectId
+  bestScorePercent: number
+  latestScorePercent: number
+  attemptCount: number
+  passed: boolean
+  completed: boolean
+  lastSubmittedAt?: Date
+}
+
+export interface SectionProgressEntry {
+  sectionId?: string
+  title?: string
+  completed: number
+  total: number
+  percent: number
+}
+
+export interface ProgressBreakdownEntry {
+  completed: number
+  total: number
+  weight: number
+  percent: number
+}
+
+export interface ICourseProgress extends Document {
+  student: mongoose.Types.ObjectId
+  course: mongoose.Types.ObjectId
+  enrolledAt?: Date
+  completedVideos: mongoose.Types.ObjectId[]
+  lastAccessedVideo?: mongoose.Types.ObjectId
+  submittedAssignments: mongoose.Types.ObjectId[]
+  passedQuizzes: mongoose.Types.ObjectId[]
+  completedLessons: mongoose.Types.ObjectId[]
+  quizProgress: QuizProgressEntry[]
+  videoProgress: Map<string, number>
+  videoWatchDetails: Record<string, unknown>
+  breakdown: {
+    lessons: ProgressBreakdownEntry
+    assignments: ProgressBreakdownEntry
+    quizzes: ProgressBreakdownEntry
+  }
+  sectionProgress: SectionProgressEntry[]
+  averageQuizScore: number
+  isComplete: boolean
+  percentageCompleted: number
+  updatedAt: Date
+}
+
 const quizProgressEntrySchema = new mongoose.Schema(
   {
     quiz: { type: mongoose.Schema.Types.ObjectId, ref: "Quiz", required: true },
@@ -15,13 +64,29 @@ const quizProgressEntrySchema = new mongoose.Schema(
   { _id: false }
 )
 
+const sectionProgressEntrySchema = new mongoose.Schema(
+  {
+    // section _id, or "all-videos" for courses without a curriculum
+    sectionId: { type: String },
+    title: { type: String },
+    completed: { type: Number, default: 0 },
+    total: { type: Number, default: 0 },
+    percent: { type: Number, default: 0 },
+  },
+  { _id: false }
+)
+
 const courseProgressSchema = new mongoose.Schema({
   student: { type: mongoose.Schema.Types.ObjectId, ref: "Student", required: true },
   course: { type: mongoose.Schema.Types.ObjectId, ref: "Course", required: true },
+  /** Start of the drip schedule for "N days after enrollment" releases */
+  enrolledAt: { type: Date },
   completedVideos: [{ type: mongoose.Schema.Types.ObjectId, ref: "Video" }], // Which videos completed
   lastAccessedVideo: { type: mongoose.Schema.Types.ObjectId, ref: "Video" },
   submittedAssignments: [{ type: mongoose.Schema.Types.ObjectId, ref: "Assignment" }],
   passedQuizzes: [{ type: mongoose.Schema.Types.ObjectId, ref: "Quiz" }],
+  /** Curriculum lessons with no tracked activity (study material, live classes) marked done by the student */
+  completedLessons: [{ type: mongoose.Schema.Types.ObjectId }],
   /** Per-quiz rollup: updated on each submission */
   quizProgress: { type: [quizProgressEntrySchema], default: [] },
   videoProgress: {
@@ -51,12 +116,18 @@ const courseProgressSchema = new mongoose.Schema({
       percent: { type: Number, default: 0 },
     },
   },
+  /** Lesson completion per curriculum section, refreshed with the breakdown */
+  sectionProgress: { type: [sectionProgressEntrySchema], default: [] },
+  /** Mean best score over the course's required quizzes */
+  averageQuizScore: { type: Number, default: 0 },
   isComplete: { type: Boolean, default: false },
   percentageCompleted: { type: Number, default: 0 }, // Example: 25%, 50%
   updatedAt: { type: Date, default: Date.now },
 })
 
-export const CourseProgress = mongoose.models?.CourseProgress ? mongoose.models.CourseProgress : mongoose.model("CourseProgress", courseProgressSchema)
+export const CourseProgress: Model<ICourseProgress> =
+  (mongoose.models.CourseProgress as Model<ICourseProgress>) ||
+  mongoose.model<ICourseProgress>("CourseProgress", courseProgressSchema)
 
 export const courseProgressValidationSchema = z.object({
   student: z.string(),
@@ -1,6 +1,64 @@
-import mongoose from "mongoose"
+import mongoose, { Model, Document } from "mongoose"
 import { z } from "zod"
 
+export const LESSON_TYPES = ["video", "material", "quiz", "assignment", "live_class"] as const
+export type LessonType = (typeof LESSON_TYPES)[number]
+
+export interface CourseLesson {
+  _id: mongoose.Types.ObjectId
+  title: string
+  type: LessonType
+  refId?: mongoose.Types.ObjectId
+  materialUrl?: string
+}
+
+export interface CourseSection {
+  _id: mongoose.Types.ObjectId
+  title: string
+  description?: string
+  lessons: CourseLesson[]
+}
+
+export interface ICourse extends Document {
+  name: string
+  description: string
+  syllabus: string
+  price: number
+  duration: string
+  category: string
+  level: string
+  teacher: mongoose.Types.ObjectId
+  studentsPurchased: mongoose.Types.ObjectId[]
+  imageUrl?: string
+  coupon?: mongoose.Types.ObjectId
+  isPublished: boolean
+  curriculum: CourseSection[]
+  progressWeights: { lessons: number; quizzes: number; assignments: number }
+  completionCriteria: {
+    minVideoWatchPercent: number
+    minAverageQuizScore: number
+    optionalVideos: mongoose.Types.ObjectId[]
+    optionalAssignments: mongoose.Types.ObjectId[]
+  }
+  playbackWatermark: { enabled: boolean; opacity: number }
+  createdAt: Date
+  updatedAt: Date
+}
+
+// A lesson points at existing course content; study material is a file URL, not a document
+const lessonSchema = new mongoose.Schema({
+  title: { type: String, required: true },
+  type: { type: String, enum: LESSON_TYPES, required: true },
+  refId: { type: mongoose.Schema.Types.ObjectId },
+  materialUrl: { type: String },
+})
+
+const sectionSchema = new mongoose.Schema({
+  title: { type: String, required: true },
+  description: { type: String },
+  lessons: { type: [lessonSchema], default: [] },
+})
+
 const courseSchema = new mongoose.Schema({
   name: { type: String, required: true, minlength: 5 },
   description: { type: String, required: true, minlength: 10 },
@@ -14,11 +72,32 @@ const courseSchema = new mongoose.Schema({
   imageUrl: { type: String },
   coupon: { type: mongoose.Schema.Types.ObjectId, ref: "Coupon", required: false },
   isPublished: { type: Boolean, default: false },
+  // Ordered sections of ordered lessons; empty means the flat video list is the curriculum
+  curriculum: { type: [sectionSchema], default: [] },
+  // Share of overall progress per activity type; normalized to 100 over the types the course has
+  progressWeights: {
+    lessons: { type: Number, min: 0, max: 100, default: 40 },
+    quizzes: { type: Number, min: 0, max: 100, default: 30 },
+    assignments: { type: Number, min: 0, max: 100, default: 30 },
+  },
+  // What "complete" means; quizzes opt out through their own requiredForCertificate flag
+  completionCriteria: {
+    minVideoWatchPercent: { type: Number, min: 1, max: 100, default: 80 },
+    minAverageQuizScore: { type: Number, min: 0, max: 100, default: 0 },
+    optionalVideos: [{ type: mongoose.Schema.Types.ObjectId, ref: "Video" }],
+    optionalAssignments: [{ type: mongoose.Schema.Types.ObjectId, ref: "Assignment" }],
+  },
+  // Moving overlay with the viewer's email drawn over students' playback
+  playbackWatermark: {
+    enabled: { type: Boolean, default: true },
+    opacity: { type: Number, min: 0.05, max: 1, default: 0.25 },
+  },
   createdAt: { type: Date, default: Date.now },
   updatedAt: { type: Date, default: Date.now },
 })
 
-export const Course =  mongoose.models?.Course ? mongoose.models.Course : mongoose.model("Course", courseSchema)
+export const Course: Model<ICourse> =
+  (mongoose.models.Course as Model<ICourse>) || mongoose.model<ICourse>("Course", courseSchema)
 
 export const courseValidationSchema = z.object({
   name: z.string().min(5, "Course name must be at least 5 characters"),
@@ -34,3 +113,56 @@ export const courseValidationSchema = z.object({
 })
 
 export type CourseType = z.infer<typeof courseValidationSchema>
+
+const lessonValidationSchema = z
+  .object({
+    _id: z.string().optional(),
+    title: z.string().min(1, "Lesson title is required"),
+    type: z.enum(LESSON_TYPES),
+    refId: z.string().optional(),
+    // Rendered as a link, so only web URLs (no javascript: and the like)
+    materialUrl: z
+      .string()
+      .url("Study material must be a link")
+      .refine((url) => /^https?:\/\//i.test(url), "Study material must be an http(s) link")
+      .optional(),
+  })
+  .refine((l) => (l.type === "material" ? !!l.materialUrl : !!l.refId), {
+    message: "Pick the content this lesson points to",
+  })
+
+export const curriculumValidationSchema = z.object({
+  sections: z.array(
+    z.object({
+      _id: z.string().optional(),
+      title: z.string().min(1, "Section title is required"),
+      description: z.string().optional(),
+      lessons: z.array(lessonValidationSchema),
+    })
+  ),
+})
+
+export const progressSettingsValidationSchema = z.object({
+  progressWeights: z
+    .object({
+      lessons: z.number().min(0).max(100),
+      quizzes: z.number().min(0).max(100),
+      assignments: z.number().min(0).max(100),
+    })
+    .refine((w) => w.lessons + w.quizzes + w.assignments > 0, { message: "At least one weight must be above zero" }),
+  completionCriteria: z.object({
+    minVideoWatchPercent: z.number().min(1).max(100),
+    minAverageQuizScore: z.number().min(0).max(100),
+    optionalVideos: z.array(z.string()).default([]),
+    optionalAssignments: z.array(z.string()).default([]),
+  }),
+  /** Quizzes that count toward completion; the rest are optional */
+  requiredQuizzes: z.array(z.string()).optional(),
+})
+
+export const playbackSettingsValidationSchema = z.object({
+  playbackWatermark: z.object({
+    enabled: z.boolean(),
+    opacity: z.number().min(0.05).max(1),
+  }),
+})
@@ -0,0 +1,99 @@
+import mongoose, { Model, Document } from "mongoose"
+import { z } from "zod"
+
+export const DISCUSSION_LESSON_TYPES = ["video", "assignment"] as const
+export type DiscussionLessonType = (typeof DISCUSSION_LESSON_TYPES)[number]
+
+export interface IDiscussionThread extends Document {
+  course: mongoose.Types.ObjectId
+  lessonType: DiscussionLessonType
+  lessonId: mongoose.Types.ObjectId
+  author: mongoose.Types.ObjectId
+  authorRole: "student" | "teacher"
+  title: string
+  body: string
+  videoTimestamp?: number
+  upvotes: mongoose.Types.ObjectId[]
+  acceptedReply?: mongoose.Types.ObjectId
+  replyCount: number
+  lastActivityAt: Date
+  createdAt: Date
+  updatedAt: Date
+}
+
+export interface IDiscussionReply extends Document {
+  thread: mongoose.Types.ObjectId
+  author: mongoose.Types.ObjectId
+  authorRole: "student" | "teacher"
+  body: string
+  videoTimestamp?: number
+  upvotes: mongoose.Types.ObjectId[]
+  endorsedBy?: mongoose.Types.ObjectId
+  endorsedAt?: Date
+  createdAt: Date
+  updatedAt: Date
+}
+
+// A question asked on one lesson. Authors can be students or the course teacher.
+const discussionThreadSchema = new mongoose.Schema(
+  {
+    course: { type: mongoose.Schema.Types.ObjectId, ref: "Course", required: true },
+    lessonType: { type: String, enum: DISCUSSION_LESSON_TYPES, required: true },
+    lessonId: { type: mongoose.Schema.Types.ObjectId, required: true },
+    author: { type: mongoose.Schema.Types.ObjectId, required: true },
+    authorRole: { type: String, enum: ["student", "teacher"], required: true },
+    title: { type: String, required: true, trim: true },
+    body: { type: String, required: true },
+    // Seconds into the video the question refers to
+    videoTimestamp: { type: Number, min: 0 },
+    upvotes: [{ type: mongoose.Schema.Types.ObjectId }],
+    acceptedReply: { type: mongoose.Schema.Types.ObjectId, ref: "DiscussionReply" },
+    replyCount: { type: Number, default: 0 },
+    lastActivityAt: { type: Date, default: Date.now },
+  },
+  { timestamps: true }
+)
+
+discussionThreadSchema.index({ lessonType: 1, lessonId: 1, lastActivityAt: -1 })
+discussionThreadSchema.index({ course: 1, lastActivityAt: -1 })
+
+const discussionReplySchema = new mongoose.Schema(
+  {
+    thread: { type: mongoose.Schema.Types.ObjectId, ref: "DiscussionThread", required: true },
+    author: { type: mongoose.Schema.Types.ObjectId, required: true },
+    authorRole: { type: String, enum: ["student", "teacher"], required: true },
+    body: { type: String, required: true },
+    videoTimestamp: { type: Number, min: 0 },
+    upvotes: [{ type: mongoose.Schema.Types.ObjectId }],
+    // Set when the course teacher vouches for the answer
+    endorsedBy: { type: mongoose.Schema.Types.ObjectId, ref: "Teacher" },
+    endorsedAt: { type: Date },
+  },
+  { timestamps: true }
+)
+
+discussionReplySchema.index({ thread: 1, createdAt: 1 })
+
+export const DiscussionThread: Model<IDiscussionThread> =
+  (mongoose.models.DiscussionThread as Model<IDiscussionThread>) ||
+  mongoose.model<IDiscussionThread>("DiscussionThread", discussionThreadSchema)
+
+export const DiscussionReply: Model<IDiscussionReply> =
+  (mongoose.models.DiscussionReply as Model<IDiscussionReply>) ||
+  mongoose.model<IDiscussionReply>("DiscussionReply", discussionReplySchema)
+
+export const discussionThreadValidationSchema = z.object({
+  lessonType: z.enum(DISCUSSION_LESSON_TYPES),
+  lessonId: z.string().min(1),
+  title: z.string().trim().min(3, "Title must be at least 3 characters").max(200),
+  body: z.string().trim().min(1, "Question cannot be empty").max(10000),
+  videoTimestamp: z.number().min(0).finite().optional(),
+})
+
+export const discussionReplyValidationSchema = z.object({
+  body: z.string().trim().min(1, "Reply cannot be empty").max(10000),
+  videoTimestamp: z.number().min(0).finite().optional(),
+})
+
+export type DiscussionThreadInput = z.infer<typeof discussionThreadValidationSchema>
+export type DiscussionReplyInput = z.infer<typeof discussionReplyValidationSchema>
@@ -1,6 +1,27 @@
-import mongoose from "mongoose"
+import mongoose, { Document } from "mongoose"
 import { z } from "zod"
 
+export interface ILiveClass extends Document {
+  course: mongoose.Types.ObjectId
+  teacher: mongoose.Types.ObjectId
+  title: string
+  description?: string
+  scheduledDate: Date
+  duration: number
+  platform: "zoom"
+  meetingUrl: string
+  meetingId?: string
+  passcode?: string
+  isLive: boolean
+  startedAt?: Date
+  endedAt?: Date
+  attendees: mongoose.Types.ObjectId[]
+  recordingUrl?: string
+  status: "scheduled" | "live" | "ended" | "cancelled"
+  createdAt: Date
+  updatedAt: Date
+}
+
 const liveClassSchema = new mongoose.Schema(
   {
     course: { type: mongoose.Schema.Types.ObjectId, ref: "Course", required: true },
@@ -1,6 +1,19 @@
-import mongoose from "mongoose"
+import mongoose, { Document } from "mongoose"
 import { z } from "zod"
 
+export interface IPayment extends Document {
+  student: mongoose.Types.ObjectId
+  course: mongoose.Types.ObjectId
+  amount: number
+  razorpayPaymentId: string
+  razorpayOrderId?: string
+  couponApplied?: mongoose.Types.ObjectId
+  paymentOption?: "upi" | "card" | "netbanking" | "wallet"
+  cardBrand?: "visa" | "mastercard" | "rupay" | "amex"
+  status: "pending" | "completed" | "failed"
+  createdAt: Date
+}
+
 const paymentSchema = new mongoose.Schema({
   student: { type: mongoose.Schema.Types.ObjectId, ref: "Student", required: true },
   course: { type: mongoose.Schema.Types.ObjectId, ref: "Course", required: true },
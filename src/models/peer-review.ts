@@ -0,0 +1,56 @@
+import mongoose from "mongoose"
+import { z } from "zod"
+
+// One reviewer's rubric scoring of one submission. Reviewer and author are never
+// shown to each other; only the teacher sees both.
+const peerReviewSchema = new mongoose.Schema(
+  {
+    assignmentId: { type: mongoose.Schema.Types.ObjectId, ref: "Assignment", required: true, index: true },
+    submissionId: { type: mongoose.Schema.Types.ObjectId, ref: "Submission", required: true, index: true },
+    reviewerId: { type: mongoose.Schema.Types.ObjectId, ref: "Student", required: true, index: true },
+    authorId: { type: mongoose.Schema.Types.ObjectId, ref: "Student", required: true },
+    status: { type: String, enum: ["assigned", "submitted"], default: "assigned" },
+    rubricScores: [
+      {
+        _id: false,
+        criterionId: { type: mongoose.Schema.Types.ObjectId, required: true },
+        levelId: { type: mongoose.Schema.Types.ObjectId },
+        points: { type: Number, required: true, min: 0 },
+        comment: { type: String },
+      },
+    ],
+    totalPoints: { type: Number },
+    feedback: { type: String },
+    submittedAt: { type: Date },
+  },
+  { timestamps: true }
+)
+
+peerReviewSchema.index({ submissionId: 1, reviewerId: 1 }, { unique: true })
+
+export const PeerReview =
+  mongoose.models.PeerReview ||
+  mongoose.model("PeerReview", peerReviewSchema)
+
+// --------------------
+// Zod Validation Schemas
+// --------------------
+export const peerReviewValidationSchema = z.object({
+  rubricScores: z
+    .array(
+      z.object({
+        criterionId: z.string().min(1),
+        levelId: z.string().optional(),
+        points: z.number().min(0),
+        comment: z.string().optional(),
+      })
+    )
+    .min(1, "Score the rubric before submitting"),
+  feedback: z.string().optional(),
+})
+
+export const peerReviewFinalizeValidationSchema = z.object({
+  submissionId: z.string().min(1),
+  /** Omit to accept the peer consensus */
+  grade: z.number().min(0).optional(),
+})
@@ -0,0 +1,36 @@
+import mongoose, { Model, Document } from "mongoose"
+
+export interface IPlaybackLog extends Document {
+  sessionId: string
+  watermarkCode: string
+  user: mongoose.Types.ObjectId
+  userRole: "student" | "teacher" | "admin"
+  video: mongoose.Types.ObjectId
+  course: mongoose.Types.ObjectId
+  ipAddress?: string
+  userAgent?: string
+  createdAt: Date
+  updatedAt: Date
+}
+
+// Forensic trail of who opened which video and when. Unlike playback sessions these
+// are kept, so the code burned into a leaked recording can be traced to a viewer.
+const playbackLogSchema = new mongoose.Schema(
+  {
+    sessionId: { type: String, required: true, unique: true },
+    watermarkCode: { type: String, required: true },
+    user: { type: mongoose.Schema.Types.ObjectId, required: true },
+    userRole: { type: String, enum: ["student", "teacher", "admin"], required: true },
+    video: { type: mongoose.Schema.Types.ObjectId, ref: "Video", required: true },
+    course: { type: mongoose.Schema.Types.ObjectId, ref: "Course", required: true },
+    ipAddress: { type: String },
+    userAgent: { type: String },
+  },
+  { timestamps: true }
+)
+
+playbackLogSchema.index({ course: 1, watermarkCode: 1 })
+playbackLogSchema.index({ course: 1, user: 1, createdAt: -1 })
+
+export const PlaybackLog: Model<IPlaybackLog> =
+  (mongoose.models.PlaybackLog as Model<IPlaybackLog>) || mongoose.model<IPlaybackLog>("PlaybackLog", playbackLogSchema)
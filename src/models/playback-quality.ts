@@ -0,0 +1,99 @@
+import mongoose, { Model, Document } from "mongoose"
+import { z } from "zod"
+
+export const PLAYBACK_DELIVERY_TYPES = ["hls", "native_hls", "progressive"] as const
+
+// Only the most recent fatal errors of a session are kept; the count covers all of them
+export const MAX_STORED_PLAYBACK_ERRORS = 20
+
+export interface PlaybackError {
+  type: string
+  details: string
+  at: Date
+}
+
+export interface IPlaybackQuality extends Document {
+  sessionId: string
+  user: mongoose.Types.ObjectId
+  userRole: "student" | "teacher" | "admin"
+  video: mongoose.Types.ObjectId
+  course: mongoose.Types.ObjectId
+  delivery: (typeof PLAYBACK_DELIVERY_TYPES)[number]
+  startupMs?: number
+  watchMs: number
+  rebufferMs: number
+  rebufferCount: number
+  bitrateSwitches: number
+  bitrate?: number
+  fatalErrorCount: number
+  fatalErrors: PlaybackError[]
+  userAgent?: string
+  createdAt: Date
+  updatedAt: Date
+}
+
+// --------------------
+// Mongoose Schema
+// --------------------
+// Delivery quality of one player session: a single load of one video by one viewer.
+// The player reports running totals, so the latest report supersedes earlier ones.
+const playbackQualitySchema = new mongoose.Schema(
+  {
+    sessionId: { type: String, required: true, unique: true },
+    user: { type: mongoose.Schema.Types.ObjectId, required: true },
+    userRole: { type: String, enum: ["student", "teacher", "admin"], required: true },
+    video: { type: mongoose.Schema.Types.ObjectId, ref: "Video", required: true },
+    course: { type: mongoose.Schema.Types.ObjectId, ref: "Course", required: true },
+    delivery: { type: String, enum: PLAYBACK_DELIVERY_TYPES, required: true },
+    // From pressing play to the first frame; unset if playback never started
+    startupMs: { type: Number, min: 0 },
+    watchMs: { type: Number, default: 0, min: 0 },
+    // Stalls after startup; buffering caused by seeking is not counted
+    rebufferMs: { type: Number, default: 0, min: 0 },
+    rebufferCount: { type: Number, default: 0, min: 0 },
+    bitrateSwitches: { type: Number, default: 0, min: 0 },
+    // Rendition playing at the last report, in bits per second
+    bitrate: { type: Number, min: 0 },
+    fatalErrorCount: { type: Number, default: 0, min: 0 },
+    fatalErrors: [
+      {
+        _id: false,
+        type: { type: String, required: true },
+        details: { type: String, default: "" },
+        at: { type: Date, default: Date.now },
+      },
+    ],
+    userAgent: { type: String },
+  },
+  { timestamps: true }
+)
+
+playbackQualitySchema.index({ course: 1, createdAt: -1 })
+playbackQualitySchema.index({ video: 1, createdAt: -1 })
+
+export const PlaybackQuality: Model<IPlaybackQuality> =
+  (mongoose.models.PlaybackQuality as Model<IPlaybackQuality>) ||
+  mongoose.model<IPlaybackQuality>("PlaybackQuality", playbackQualitySchema)
+
+// --------------------
+// Zod Validation Schemas
+// --------------------
+const durationMs = z.number().int().min(0).max(24 * 60 * 60 * 1000)
+const counter = z.number().int().min(0).max(100000)
+
+export const playbackQualityReportSchema = z.object({
+  sessionId: z.string().min(8).max(64),
+  delivery: z.enum(PLAYBACK_DELIVERY_TYPES),
+  startupMs: durationMs.nullable(),
+  watchMs: durationMs,
+  rebufferMs: durationMs,
+  rebufferCount: counter,
+  bitrateSwitches: counter,
+  bitrate: z.number().min(0).max(1e9).nullable(),
+  // Only errors since the previous report; totals above are cumulative
+  fatalErrors: z
+    .array(z.object({ type: z.string().min(1).max(100), details: z.string().max(200).default("") }))
+    .max(MAX_STORED_PLAYBACK_ERRORS),
+})
+
+export type PlaybackQualityReportInput = z.infer<typeof playbackQualityReportSchema>
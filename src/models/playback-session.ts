@@ -0,0 +1,35 @@
+import mongoose, { Model, Document } from "mongoose"
+
+export interface IPlaybackSession extends Document {
+  sessionId: string
+  user: mongoose.Types.ObjectId
+  userRole: "student" | "teacher" | "admin"
+  video: mongoose.Types.ObjectId
+  course: mongoose.Types.ObjectId
+  expiresAt: Date
+  revokedAt?: Date
+  createdAt: Date
+  updatedAt: Date
+}
+
+// Backs one signed playback token. Tokens are only honoured while their session
+// exists and is not revoked; MongoDB drops sessions once they expire.
+const playbackSessionSchema = new mongoose.Schema(
+  {
+    sessionId: { type: String, required: true, unique: true },
+    user: { type: mongoose.Schema.Types.ObjectId, required: true },
+    userRole: { type: String, enum: ["student", "teacher", "admin"], required: true },
+    video: { type: mongoose.Schema.Types.ObjectId, ref: "Video", required: true },
+    course: { type: mongoose.Schema.Types.ObjectId, ref: "Course", required: true },
+    expiresAt: { type: Date, required: true },
+    revokedAt: { type: Date },
+  },
+  { timestamps: true }
+)
+
+playbackSessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 })
+playbackSessionSchema.index({ user: 1, course: 1 })
+
+export const PlaybackSession: Model<IPlaybackSession> =
+  (mongoose.models.PlaybackSession as Model<IPlaybackSession>) ||
+  mongoose.model<IPlaybackSession>("PlaybackSession", playbackSessionSchema)
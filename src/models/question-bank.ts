@@ -0,0 +1,32 @@
+import mongoose from "mongoose"
+import { z } from "zod"
+import { questionBaseValidationSchema, questionSchemaFields, refineQuestion } from "@/models/quiz"
+
+// --------------------
+// Mongoose Schema
+// --------------------
+const bankQuestionSchema = new mongoose.Schema(
+  {
+    course: { type: mongoose.Schema.Types.ObjectId, ref: "Course", required: true, index: true },
+    teacher: { type: mongoose.Schema.Types.ObjectId, ref: "Teacher", required: true },
+    ...questionSchemaFields,
+    tags: { type: [String], default: [], index: true },
+  },
+  { timestamps: true }
+)
+
+export const BankQuestion =
+  mongoose.models.BankQuestion ||
+  mongoose.model("BankQuestion", bankQuestionSchema)
+
+// --------------------
+// Zod Validation Schemas
+// --------------------
+export const bankQuestionValidationSchema = questionBaseValidationSchema
+  .extend({
+    courseId: z.string().min(1, "Course is required"),
+    tags: z.array(z.string().trim().toLowerCase().min(1)).default([]),
+  })
+  .superRefine(refineQuestion)
+
+export type BankQuestionType = z.infer<typeof bankQuestionValidationSchema>
@@ -1,21 +1,102 @@
-import mongoose from "mongoose"
+import mongoose, { Model, Document } from "mongoose"
 import { z } from "zod"
 
+export const QUESTION_TYPES = [
+  "multiple_choice",
+  "multi_select",
+  "true_false",
+  "numeric",
+  "short_answer",
+  "ordering",
+] as const
+
+export type QuestionKind = (typeof QUESTION_TYPES)[number]
+
+export interface IQuizQuestion {
+  _id: mongoose.Types.ObjectId
+  type: QuestionKind
+  prompt?: string
+  questionText?: string
+  options: string[]
+  correctOptionIndex?: number
+  correctAnswerIndex?: number
+  correctOptionIndexes: number[]
+  correctBoolean?: boolean
+  numericMin?: number
+  numericMax?: number
+  acceptedAnswers: string[]
+  correctText?: string
+  points: number
+  explanation?: string
+  requiresManualGrading: boolean
+  bankQuestion?: mongoose.Types.ObjectId
+}
+
+export interface QuestionPool {
+  _id: mongoose.Types.ObjectId
+  name?: string
+  questionIds: mongoose.Types.ObjectId[]
+  drawCount: number
+}
+
+export interface IQuiz extends Document {
+  course: mongoose.Types.ObjectId
+  teacher?: mongoose.Types.ObjectId
+  title: string
+  description?: string
+  questions: IQuizQuestion[]
+  timeLimitSeconds?: number
+  passingScorePercent: number
+  attemptLimit?: number
+  published: boolean
+  instantResults: boolean
+  showAnswersAfterSubmission: boolean
+  shuffleQuestions: boolean
+  shuffleOptions: boolean
+  questionPools: QuestionPool[]
+  requiredForCertificate: boolean
+  createdAt: Date
+}
+
 // --------------------
 // Mongoose Schema
 // --------------------
+/**
+ * Question fields shared by quiz questions and question bank items.
+ * Ordering questions store `options` in the correct order.
+ */
+export const questionSchemaFields = {
+  type: { type: String, enum: QUESTION_TYPES, default: "multiple_choice" },
+  prompt: { type: String },
+  questionText: { type: String }, // legacy quizzes (pre question types)
+  options: [{ type: String }],
+  correctOptionIndex: { type: Number }, // multiple_choice
+  correctAnswerIndex: { type: Number }, // legacy quizzes
+  correctOptionIndexes: [{ type: Number }], // multi_select
+  correctBoolean: { type: Boolean }, // true_false
+  numericMin: { type: Number }, // numeric (inclusive range)
+  numericMax: { type: Number },
+  acceptedAnswers: [{ type: String }], // short_answer, compared case-insensitively
+  correctText: { type: String }, // short_answer (legacy single answer)
+  points: { type: Number, required: true, default: 1 },
+  explanation: { type: String },
+  requiresManualGrading: { type: Boolean, default: false },
+}
+
+const quizQuestionSchema = new mongoose.Schema(
+  {
+    ...questionSchemaFields,
+    bankQuestion: { type: mongoose.Schema.Types.ObjectId, ref: "BankQuestion" }, // source item when pulled from the bank
+  },
+  { _id: true }
+)
+
 const quizSchema = new mongoose.Schema({
   course: { type: mongoose.Schema.Types.ObjectId, ref: "Course", required: true }, // Mongoose expects "course"
+  teacher: { type: mongoose.Schema.Types.ObjectId, ref: "Teacher" },
   title: { type: String, required: true },
   description: { type: String }, // optional
-  questions: [
-    {
-      questionText: { type: String, required: true },
-      options: [{ type: String, required: true }],
-      correctAnswerIndex: { type: Number, required: true },
-      points: { type: Number, required: true, default: 1 },
-    },
-  ],
+  questions: { type: [quizQuestionSchema], default: [] },
   timeLimitSeconds: { type: Number },
   passingScorePercent: { type: Number, required: true, default: 60 },
   attemptLimit: { type: Number },
@@ -23,43 +104,147 @@ const quizSchema = new mongoose.Schema({
   instantResults: { type: Boolean, default: true },
   showAnswersAfterSubmission: { type: Boolean, default: false },
   shuffleQuestions: { type: Boolean, default: false },
+  shuffleOptions: { type: Boolean, default: false },
+  // Each pool contributes drawCount random questions; questions outside pools are always asked
+  questionPools: {
+    type: [
+      {
+        name: { type: String },
+        questionIds: [{ type: mongoose.Schema.Types.ObjectId }],
+        drawCount: { type: Number, required: true, min: 1 },
+      },
+    ],
+    default: [],
+  },
   requiredForCertificate: { type: Boolean, default: true },
   createdAt: { type: Date, default: Date.now },
 })
 
-export const Quiz = mongoose.models?.Quiz ? mongoose.models.Quiz : mongoose.model("Quiz", quizSchema)
+export const Quiz: Model<IQuiz> = (mongoose.models.Quiz as Model<IQuiz>) || mongoose.model<IQuiz>("Quiz", quizSchema)
 
 // --------------------
 // Zod Validation Schemas
 // --------------------
-export const questionValidationSchema = z.object({
-  questionText: z.string().min(3, "Question must be at least 3 characters"),
-  options: z
-    .array(z.string().min(1, "Option cannot be empty"))
-    .length(4, "Must have exactly 4 options"),
-  correctAnswerIndex: z.number().min(0).max(3),
+export const questionBaseValidationSchema = z.object({
+  type: z.enum(QUESTION_TYPES).default("multiple_choice"),
+  prompt: z.string().min(3, "Question must be at least 3 characters"),
+  options: z.array(z.string().min(1, "Option cannot be empty")).optional(),
+  correctOptionIndex: z.number().int().min(0).optional(),
+  correctOptionIndexes: z.array(z.number().int().min(0)).optional(),
+  correctBoolean: z.boolean().optional(),
+  numericMin: z.number().optional(),
+  numericMax: z.number().optional(),
+  acceptedAnswers: z.array(z.string().min(1)).optional(),
   points: z.number().min(1, "Points must be at least 1"),
+  explanation: z.string().optional(),
+  requiresManualGrading: z.boolean().default(false),
 })
 
-export const quizValidationSchema = z.object({
-  courseId: z.string().min(1, "Course is required"), // frontend uses courseId
-  title: z.string().min(3, "Title must be at least 3 characters"),
-  description: z.string().optional(),
-  questions: z
-    .array(questionValidationSchema)
-    .min(1, "At least one question is required"),
-  timeLimitSeconds: z.number().optional(),
-  passingScorePercent: z.number().min(0).max(100),
-  attemptLimit: z.number().optional(),
-  published: z.boolean(),
-  instantResults: z.boolean(),
-  showAnswersAfterSubmission: z.boolean(),
-  shuffleQuestions: z.boolean(),
-  requiredForCertificate: z.boolean(),
+type QuestionInput = z.infer<typeof questionBaseValidationSchema>
+
+/** Per-type rules: each type must carry the answer key its grader reads. */
+export function refineQuestion(val: QuestionInput, ctx: z.RefinementCtx) {
+  const options = val.options || []
+  const issue = (path: string, message: string) => ctx.addIssue({ code: z.ZodIssueCode.custom, path: [path], message })
+
+  switch (val.type) {
+    case "multiple_choice":
+      if (options.length < 2) issue("options", "At least 2 options are required")
+      if (typeof val.correctOptionIndex !== "number" || val.correctOptionIndex >= options.length) {
+        issue("correctOptionIndex", "Pick the correct option")
+      }
+      break
+    case "multi_select":
+      if (options.length < 2) issue("options", "At least 2 options are required")
+      if (!val.correctOptionIndexes?.length || val.correctOptionIndexes.some((i) => i >= options.length)) {
+        issue("correctOptionIndexes", "Pick at least one correct option")
+      }
+      break
+    case "true_false":
+      if (typeof val.correctBoolean !== "boolean") issue("correctBoolean", "correctBoolean is required for true/false")
+      break
+    case "numeric":
+      if (typeof val.numericMin !== "number" || typeof val.numericMax !== "number") {
+        issue("numericMin", "A numeric range is required")
+      } else if (val.numericMin > val.numericMax) {
+        issue("numericMax", "Maximum must not be below minimum")
+      }
+      break
+    case "short_answer":
+      if (!val.requiresManualGrading && !val.acceptedAnswers?.some((a) => a.trim().length > 0)) {
+        issue("acceptedAnswers", "Add an accepted answer or enable manual grading")
+      }
+      break
+    case "ordering":
+      if (options.length < 2) issue("options", "At least 2 items are required")
+      break
+  }
+}
+
+export const questionValidationSchema = questionBaseValidationSchema.superRefine(refineQuestion)
+
+/** Inline quiz question that can optionally be saved to the course question bank. */
+export const quizQuestionInputSchema = questionBaseValidationSchema
+  .extend({
+    saveToBank: z.boolean().optional(),
+    tags: z.array(z.string().trim().toLowerCase().min(1)).optional(),
+  })
+  .superRefine(refineQuestion)
+
+export const questionPoolValidationSchema = z.object({
+  name: z.string().optional(),
+  questionIndexes: z.array(z.number().int().min(0)).min(1, "A pool needs at least one question"),
+  drawCount: z.number().int().min(1, "Draw at least one question"),
 })
 
+export const quizValidationSchema = z
+  .object({
+    courseId: z.string().min(1, "Course is required"), // frontend uses courseId
+    title: z.string().min(3, "Title must be at least 3 characters"),
+    description: z.string().optional(),
+    questions: z.array(quizQuestionInputSchema).default([]),
+    /** Question bank items copied into the quiz on create */
+    bankQuestionIds: z.array(z.string()).default([]),
+    timeLimitSeconds: z.number().optional(),
+    passingScorePercent: z.number().min(0).max(100),
+    attemptLimit: z.number().optional(),
+    published: z.boolean(),
+    instantResults: z.boolean(),
+    showAnswersAfterSubmission: z.boolean(),
+    shuffleQuestions: z.boolean(),
+    shuffleOptions: z.boolean().default(false),
+    /** Pools reference questions by position: inline questions first, then bank questions */
+    questionPools: z.array(questionPoolValidationSchema).default([]),
+    requiredForCertificate: z.boolean(),
+  })
+  .refine((val) => val.questions.length + val.bankQuestionIds.length > 0, {
+    path: ["questions"],
+    message: "At least one question is required",
+  })
+  .superRefine((val, ctx) => {
+    const total = val.questions.length + val.bankQuestionIds.length
+    const seen = new Set<number>()
+    val.questionPools.forEach((pool, i) => {
+      if (pool.questionIndexes.some((idx) => idx >= total || seen.has(idx))) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["questionPools", i],
+          message: "A question can belong to only one pool",
+        })
+      }
+      pool.questionIndexes.forEach((idx) => seen.add(idx))
+      if (pool.drawCount > pool.questionIndexes.length) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["questionPools", i, "drawCount"],
+          message: "A pool cannot draw more questions than it contains",
+        })
+      }
+    })
+  })
+
 // --------------------
 // Typescript Types
 // --------------------
 export type QuizType = z.infer<typeof quizValidationSchema>
-export type QuestionType = z.infer<typeof questionValidationSchema>
\ No newline at end of file
+export type QuestionType = z.infer<typeof questionValidationSchema>
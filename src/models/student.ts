@@ -1,4 +1,4 @@
-import mongoose from "mongoose"
+import mongoose, { Model, Document } from "mongoose"
 import { z } from "zod"
 
 // Enhanced password validation schema
@@ -10,6 +10,30 @@ const passwordValidation = z
   .regex(/\d/, "Password must contain at least one number")
   .regex(/[!@#$%^&*(),.?":{}|<>]/, "Password must contain at least one special character")
 
+export interface IStudent extends Document {
+  name: string
+  email: string
+  password?: string
+  purchasedCourses: mongoose.Types.ObjectId[]
+  wishlist: mongoose.Types.ObjectId[]
+  progress: mongoose.Types.ObjectId[]
+  certificates: mongoose.Types.ObjectId[]
+  isBlocked: boolean
+  isGoogleUser: boolean
+  loginAttempts: number
+  lockUntil: Date | null
+  lastLogin: Date | null
+  resetToken: string | null
+  resetTokenExpiry: Date | null
+  bio: string
+  phone: string
+  website: string
+  profileImage: string
+  isLocked: boolean
+  createdAt: Date
+  updatedAt: Date
+}
+
 // Define the student schema with all necessary fields
 const studentSchema = new mongoose.Schema(
   {
@@ -50,7 +74,8 @@ studentSchema.virtual("isLocked").get(function () {
 })
 
 // Create the Student model
-export const Student = mongoose.models?.Student ? mongoose.models.Student : mongoose.model("Student", studentSchema)
+export const Student: Model<IStudent> =
+  (mongoose.models.Student as Model<IStudent>) || mongoose.model<IStudent>("Student", studentSchema)
 
 // Zod validation schema
 export const studentValidationSchema = z.object({
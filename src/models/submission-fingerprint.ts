@@ -0,0 +1,32 @@
+import mongoose from "mongoose"
+
+// Extracted text and winnowed fingerprints of one submitted file version. Kept
+// apart from Submission so later runs of a course can still be compared against it.
+const submissionFingerprintSchema = new mongoose.Schema(
+  {
+    submissionId: { type: mongoose.Schema.Types.ObjectId, ref: "Submission", required: true },
+    version: { type: Number, default: 1 },
+    assignmentId: { type: mongoose.Schema.Types.ObjectId, ref: "Assignment", required: true, index: true },
+    courseId: { type: mongoose.Schema.Types.ObjectId, ref: "Course", required: true },
+    teacherId: { type: mongoose.Schema.Types.ObjectId, ref: "Teacher" },
+    // lower-cased assignment title; the same assignment in a re-run course shares it
+    assignmentKey: { type: String, required: true },
+    studentId: { type: mongoose.Schema.Types.ObjectId, ref: "Student", required: true },
+    fileUrl: { type: String, required: true },
+    kind: { type: String, enum: ["text", "code", "pdf"] },
+    status: { type: String, enum: ["ok", "unsupported", "failed"], default: "ok" },
+    error: { type: String },
+    text: { type: String, default: "" },
+    hashes: { type: [Number], default: [] },
+    starts: { type: [Number], default: [] },
+    ends: { type: [Number], default: [] },
+  },
+  { timestamps: true }
+)
+
+submissionFingerprintSchema.index({ submissionId: 1, version: 1 }, { unique: true })
+submissionFingerprintSchema.index({ teacherId: 1, assignmentKey: 1 })
+
+export const SubmissionFingerprint =
+  mongoose.models.SubmissionFingerprint ||
+  mongoose.model("SubmissionFingerprint", submissionFingerprintSchema)
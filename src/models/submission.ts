@@ -1,4 +1,132 @@
-import mongoose from "mongoose"
+import mongoose, { Document } from "mongoose"
+import { z } from "zod"
+
+interface RubricScore {
+  criterionId: mongoose.Types.ObjectId
+  levelId?: mongoose.Types.ObjectId
+  points: number
+  comment?: string
+}
+
+interface SubmissionAnnotation {
+  _id: mongoose.Types.ObjectId
+  location?: string
+  quote?: string
+  comment: string
+}
+
+interface SubmissionVersion {
+  version: number
+  fileUrl: string
+  submittedAt: Date
+  lateStatus: "on_time" | "late"
+  daysLate: number
+  penaltyPercent: number
+  dueDateApplied?: Date
+  graded: boolean
+  rawGrade?: number
+  grade?: number
+  rubricScores: RubricScore[]
+  feedback?: string
+  annotations: SubmissionAnnotation[]
+  gradedAt?: Date
+  gradedBy?: mongoose.Types.ObjectId
+}
+
+interface SimilarityMatch {
+  submissionId?: mongoose.Types.ObjectId
+  studentId?: mongoose.Types.ObjectId
+  assignmentId?: mongoose.Types.ObjectId
+  source: "same_assignment" | "previous_run"
+  score: number
+  passages: { text: string; matchedText: string }[]
+}
+
+export interface ISubmission extends Document {
+  assignmentId: mongoose.Types.ObjectId
+  studentId?: mongoose.Types.ObjectId
+  fileUrl?: string
+  graded: boolean
+  rawGrade?: number
+  grade?: number
+  maxGrade?: number
+  lateStatus: "on_time" | "late"
+  daysLate: number
+  penaltyPercent: number
+  dueDateApplied?: Date
+  gradeSource: "teacher" | "peer_consensus" | "peer_override"
+  peerConsensusGrade?: number
+  rubricScores: RubricScore[]
+  feedback?: string
+  annotations: SubmissionAnnotation[]
+  gradedAt?: Date
+  similarity?: {
+    status?: "pending" | "checked" | "unsupported" | "failed"
+    score?: number
+    checkedAt?: Date
+    matches?: SimilarityMatch[]
+  }
+  currentVersion: number
+  versions: SubmissionVersion[]
+  createdAt: Date
+  updatedAt: Date
+}
+
+const rubricScoreSchema = new mongoose.Schema(
+  {
+    criterionId: { type: mongoose.Schema.Types.ObjectId, required: true },
+    levelId: { type: mongoose.Schema.Types.ObjectId },
+    points: { type: Number, required: true, min: 0 },
+    comment: { type: String },
+  },
+  { _id: false }
+)
+
+// Inline feedback anchored to a spot in the submitted file (e.g. "p. 3", "line 42")
+const annotationSchema = new mongoose.Schema(
+  {
+    location: { type: String },
+    quote: { type: String },
+    comment: { type: String, required: true },
+  },
+  { _id: true }
+)
+
+// One uploaded file and the grade it received; the latest is mirrored at the top level
+const submissionVersionSchema = new mongoose.Schema(
+  {
+    version: { type: Number, required: true },
+    fileUrl: { type: String, required: true },
+    submittedAt: { type: Date, default: Date.now },
+    // timing against the student's effective due date when this version arrived
+    lateStatus: { type: String, enum: ["on_time", "late"], default: "on_time" },
+    daysLate: { type: Number, default: 0 },
+    penaltyPercent: { type: Number, default: 0 },
+    dueDateApplied: { type: Date },
+    graded: { type: Boolean, default: false },
+    rawGrade: { type: Number },
+    grade: { type: Number },
+    rubricScores: { type: [rubricScoreSchema], default: [] },
+    feedback: { type: String },
+    annotations: { type: [annotationSchema], default: [] },
+    gradedAt: { type: Date },
+    gradedBy: { type: mongoose.Schema.Types.ObjectId, ref: "Teacher" },
+  },
+  { _id: false }
+)
+
+// Overlap with one other submission, from the local similarity engine
+const similarityMatchSchema = new mongoose.Schema(
+  {
+    submissionId: { type: mongoose.Schema.Types.ObjectId, ref: "Submission" },
+    studentId: { type: mongoose.Schema.Types.ObjectId, ref: "Student" },
+    assignmentId: { type: mongoose.Schema.Types.ObjectId, ref: "Assignment" },
+    source: { type: String, enum: ["same_assignment", "previous_run"], required: true },
+    score: { type: Number, required: true },
+    passages: [{ _id: false, text: String, matchedText: String }],
+  },
+  { _id: false }
+)
 
 const submissionSchema = new mongoose.Schema(
   {
@@ -16,11 +144,66 @@ const submissionSchema = new mongoose.Schema(
       type: Boolean,
       default: false,
     },
+    // grade = rawGrade minus the late penalty; both kept so the deduction is auditable
+    rawGrade: Number,
     grade: Number,
+    maxGrade: Number,
+    lateStatus: { type: String, enum: ["on_time", "late"], default: "on_time" },
+    daysLate: { type: Number, default: 0 },
+    penaltyPercent: { type: Number, default: 0 },
+    dueDateApplied: Date,
+    // "teacher" unless the grade came from peer review (consensus or a teacher override of it)
+    gradeSource: { type: String, enum: ["teacher", "peer_consensus", "peer_override"], default: "teacher" },
+    peerConsensusGrade: Number,
+    rubricScores: { type: [rubricScoreSchema], default: [] },
+    feedback: String,
+    annotations: { type: [annotationSchema], default: [] },
+    gradedAt: Date,
+
+    // Teacher-only: stripped from the student assignment view
+    similarity: {
+      status: { type: String, enum: ["pending", "checked", "unsupported", "failed"] },
+      score: Number,
+      checkedAt: Date,
+      matches: { type: [similarityMatchSchema], default: undefined },
+    },
+
+    currentVersion: { type: Number, default: 1 },
+    versions: { type: [submissionVersionSchema], default: [] },
   },
   { timestamps: true }
 )
 
 export const Submission =
   mongoose.models.Submission ||
-  mongoose.model("Submission", submissionSchema)
\ No newline at end of file
+  mongoose.model("Submission", submissionSchema)
+
+// --------------------
+// Zod Validation Schemas
+// --------------------
+export const submissionGradeValidationSchema = z.object({
+  rubricScores: z
+    .array(
+      z.object({
+        criterionId: z.string().min(1),
+        levelId: z.string().optional(),
+        points: z.number().min(0),
+        comment: z.string().optional(),
+      })
+    )
+    .optional(),
+  /** Used when the assignment has no rubric */
+  grade: z.number().min(0).optional(),
+  feedback: z.string().optional(),
+  annotations: z
+    .array(
+      z.object({
+        location: z.string().optional(),
+        quote: z.string().optional(),
+        comment: z.string().trim().min(1, "Comment cannot be empty"),
+      })
+    )
+    .optional(),
+})
+
+export type SubmissionGradeInput = z.infer<typeof submissionGradeValidationSchema>
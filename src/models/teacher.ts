@@ -1,4 +1,4 @@
-import mongoose from "mongoose"
+import mongoose, { Model, Document } from "mongoose"
 import { z } from "zod"
 
 // Enhanced password validation schema
@@ -10,6 +10,31 @@ const passwordValidation = z
   .regex(/\d/, "Password must contain at least one number")
   .regex(/[!@#$%^&*(),.?":{}|<>]/, "Password must contain at least one special character")
 
+export interface ITeacher extends Document {
+  name: string
+  email: string
+  password: string
+  upiId: string
+  age?: number
+  coursesCreated: mongoose.Types.ObjectId[]
+  totalEarnings: number
+  ratings: mongoose.Types.ObjectId[]
+  averageRating: number
+  isBlocked: boolean
+  loginAttempts: number
+  lockUntil: Date | null
+  lastLogin: Date | null
+  resetToken: string | null
+  resetTokenExpiry: Date | null
+  bio: string
+  phone: string
+  website: string
+  profileImage: string
+  isLocked: boolean
+  createdAt: Date
+  updatedAt: Date
+}
+
 // Define the teacher schema with all necessary fields
 const teacherSchema = new mongoose.Schema(
   {
@@ -51,7 +76,8 @@ teacherSchema.virtual("isLocked").get(function () {
 })
 
 // Create the Teacher model
-export const Teacher = mongoose.models?.Teacher ? mongoose.models.Teacher : mongoose.model("Teacher", teacherSchema)
+export const Teacher: Model<ITeacher> =
+  (mongoose.models.Teacher as Model<ITeacher>) || mongoose.model<ITeacher>("Teacher", teacherSchema)
 
 // Zod validation schema
 export const teacherValidationSchema = z.object({
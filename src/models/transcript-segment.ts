@@ -0,0 +1,38 @@
+import mongoose, { Model, Document } from "mongoose"
+
+export interface ITranscriptSegment extends Document {
+  video: mongoose.Types.ObjectId
+  course: mongoose.Types.ObjectId
+  language: string
+  textLanguage: string
+  start: number
+  end: number
+  text: string
+}
+
+// One caption cue of a video, copied out of its caption tracks so transcripts can
+// be searched with a text index. Rebuilt whenever the captions change.
+const transcriptSegmentSchema = new mongoose.Schema(
+  {
+    video: { type: mongoose.Schema.Types.ObjectId, ref: "Video", required: true },
+    course: { type: mongoose.Schema.Types.ObjectId, ref: "Course", required: true },
+    language: { type: String, required: true }, // caption track language, e.g. "en", "pt-BR"
+    // Stemming language for the text index; "none" when MongoDB does not support it
+    textLanguage: { type: String, default: "none" },
+    start: { type: Number, required: true },
+    end: { type: Number, required: true },
+    text: { type: String, required: true },
+  },
+  { timestamps: false }
+)
+
+transcriptSegmentSchema.index(
+  { text: "text" },
+  { default_language: "none", language_override: "textLanguage", name: "transcript_text" }
+)
+transcriptSegmentSchema.index({ video: 1, language: 1, start: 1 })
+transcriptSegmentSchema.index({ course: 1, video: 1 })
+
+export const TranscriptSegment: Model<ITranscriptSegment> =
+  (mongoose.models.TranscriptSegment as Model<ITranscriptSegment>) ||
+  mongoose.model<ITranscriptSegment>("TranscriptSegment", transcriptSegmentSchema)
@@ -0,0 +1,71 @@
+import mongoose, { Model, Document } from "mongoose"
+import { z } from "zod"
+
+const captionCueSchema = new mongoose.Schema(
+  {
+    start: { type: Number, required: true, min: 0 },
+    end: { type: Number, required: true, min: 0 },
+    text: { type: String, required: true },
+  },
+  { _id: false }
+)
+
+export interface ICaptionCue {
+  start: number
+  end: number
+  text: string
+}
+
+export interface IVideoCaption extends Document {
+  video: mongoose.Types.ObjectId
+  language: string
+  label: string
+  isDefault: boolean
+  cues: ICaptionCue[]
+  sourceFormat: "srt" | "vtt"
+  updatedBy?: mongoose.Types.ObjectId
+  createdAt: Date
+  updatedAt: Date
+}
+
+// One subtitle track per video and language. Uploaded SRT/WebVTT files are parsed
+// into cues; the WebVTT the player loads is generated from them.
+const videoCaptionSchema = new mongoose.Schema(
+  {
+    video: { type: mongoose.Schema.Types.ObjectId, ref: "Video", required: true },
+    language: { type: String, required: true, trim: true }, // BCP 47 tag, e.g. "en", "pt-BR"
+    label: { type: String, required: true, trim: true },
+    isDefault: { type: Boolean, default: false },
+    cues: { type: [captionCueSchema], default: [] },
+    sourceFormat: { type: String, enum: ["srt", "vtt"], default: "vtt" },
+    updatedBy: { type: mongoose.Schema.Types.ObjectId, ref: "Teacher" },
+  },
+  { timestamps: true }
+)
+
+videoCaptionSchema.index({ video: 1, language: 1 }, { unique: true })
+
+export const VideoCaption: Model<IVideoCaption> =
+  (mongoose.models.VideoCaption as Model<IVideoCaption>) ||
+  mongoose.model<IVideoCaption>("VideoCaption", videoCaptionSchema)
+
+export const captionLanguageSchema = z
+  .string()
+  .trim()
+  .regex(/^[a-zA-Z]{2,3}(-[a-zA-Z0-9]{2,8})*$/, "Use a language code such as en or pt-BR")
+
+export const captionCueValidationSchema = z
+  .object({
+    start: z.number().min(0).finite(),
+    end: z.number().min(0).finite(),
+    text: z.string().trim().min(1, "Cue text cannot be empty").max(1000),
+  })
+  .refine((cue) => cue.end > cue.start, { message: "Cue end must be after its start" })
+
+export const captionTrackUpdateSchema = z.object({
+  label: z.string().trim().min(1).max(60).optional(),
+  isDefault: z.boolean().optional(),
+  cues: z.array(captionCueValidationSchema).max(5000).optional(),
+})
+
+export type CaptionCue = z.infer<typeof captionCueValidationSchema>
@@ -0,0 +1,39 @@
+import mongoose, { Model, Document } from "mongoose"
+import { z } from "zod"
+
+export interface IVideoNote extends Document {
+  student: mongoose.Types.ObjectId
+  course: mongoose.Types.ObjectId
+  video: mongoose.Types.ObjectId
+  timestamp: number
+  body: string
+  createdAt: Date
+  updatedAt: Date
+}
+
+// A student's private note pinned to a moment in a video; the body is Markdown
+const videoNoteSchema = new mongoose.Schema(
+  {
+    student: { type: mongoose.Schema.Types.ObjectId, ref: "Student", required: true },
+    course: { type: mongoose.Schema.Types.ObjectId, ref: "Course", required: true },
+    video: { type: mongoose.Schema.Types.ObjectId, ref: "Video", required: true },
+    timestamp: { type: Number, required: true, min: 0 },
+    body: { type: String, required: true },
+  },
+  { timestamps: true }
+)
+
+videoNoteSchema.index({ student: 1, video: 1, timestamp: 1 })
+videoNoteSchema.index({ student: 1, course: 1 })
+
+export const VideoNote: Model<IVideoNote> =
+  (mongoose.models.VideoNote as Model<IVideoNote>) || mongoose.model<IVideoNote>("VideoNote", videoNoteSchema)
+
+export const videoNoteValidationSchema = z.object({
+  timestamp: z.number().min(0).finite(),
+  body: z.string().trim().min(1, "Note cannot be empty").max(5000, "Note is too long"),
+})
+
+export const videoNoteUpdateSchema = videoNoteValidationSchema.partial()
+
+export type VideoNoteInput = z.infer<typeof videoNoteValidationSchema>
@@ -0,0 +1,73 @@
+import mongoose, { Model, Document } from "mongoose"
+
+export const PROCESSING_JOB_STATUSES = ["queued", "processing", "completed", "failed", "cancelled"] as const
+export type ProcessingJobStatus = (typeof PROCESSING_JOB_STATUSES)[number]
+
+export interface ProcessingJobResult {
+  hlsPlaylist?: string
+  thumbnails?: string[]
+  thumbnailTrack?: string
+  preview?: string
+  variants?: { name: string; width: number; height: number; bitrate: number }[]
+}
+
+export interface IVideoProcessingJob extends Document {
+  video: mongoose.Types.ObjectId
+  inputUrl: string
+  outputDir: string
+  options: Record<string, unknown>
+  status: ProcessingJobStatus
+  progress: number
+  stage?: string
+  attempts: number
+  maxAttempts: number
+  runAt: Date
+  lockedBy?: string
+  lockedAt?: Date
+  cancelRequested: boolean
+  lastError?: string
+  result?: ProcessingJobResult
+  requestedBy?: mongoose.Types.ObjectId
+  startedAt?: Date
+  completedAt?: Date
+}
+
+// One HLS processing run for a video. Workers claim queued jobs by flipping them to
+// "processing" with their id in `lockedBy`; `lockedAt` is refreshed while they run so
+// jobs of a crashed worker can be picked up again once the lock goes stale.
+const videoProcessingJobSchema = new mongoose.Schema(
+  {
+    video: { type: mongoose.Schema.Types.ObjectId, ref: "Video", required: true },
+    inputUrl: { type: String, required: true },
+    outputDir: { type: String, required: true },
+    options: { type: mongoose.Schema.Types.Mixed, default: {} },
+    status: { type: String, enum: PROCESSING_JOB_STATUSES, default: "queued" },
+    progress: { type: Number, default: 0, min: 0, max: 100 },
+    stage: { type: String },
+    attempts: { type: Number, default: 0 },
+    maxAttempts: { type: Number, default: 3 },
+    runAt: { type: Date, default: Date.now }, // Not claimed before this; pushed back between retries
+    lockedBy: { type: String },
+    lockedAt: { type: Date },
+    cancelRequested: { type: Boolean, default: false },
+    lastError: { type: String },
+    result: {
+      hlsPlaylist: { type: String },
+      thumbnails: [{ type: String }],
+      thumbnailTrack: { type: String },
+      preview: { type: String },
+      variants: [{ _id: false, name: String, width: Number, height: Number, bitrate: Number }],
+    },
+    requestedBy: { type: mongoose.Schema.Types.ObjectId },
+    startedAt: { type: Date },
+    completedAt: { type: Date },
+  },
+  { timestamps: true }
+)
+
+videoProcessingJobSchema.index({ status: 1, runAt: 1 })
+videoProcessingJobSchema.index({ video: 1, createdAt: -1 })
+
+export const VideoProcessingJob: Model<IVideoProcessingJob> =
+  (mongoose.models.VideoProcessingJob as Model<IVideoProcessingJob>) ||
+  mongoose.model<IVideoProcessingJob>("VideoProcessingJob", videoProcessingJobSchema)
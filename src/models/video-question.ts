@@ -0,0 +1,101 @@
+import mongoose, { Model, Document } from "mongoose"
+import { z } from "zod"
+import { questionBaseValidationSchema, questionSchemaFields, refineQuestion, type IQuizQuestion } from "@/models/quiz"
+
+// Ordering needs a drag list and manual grading a teacher; neither fits a quick in-video check
+export const VIDEO_QUESTION_TYPES = ["multiple_choice", "multi_select", "true_false", "numeric", "short_answer"] as const
+
+export interface IVideoQuestion extends Document, Omit<IQuizQuestion, "_id" | "bankQuestion"> {
+  video: mongoose.Types.ObjectId
+  course: mongoose.Types.ObjectId
+  at: number
+  countsTowardProgress: boolean
+  createdAt: Date
+  updatedAt: Date
+}
+
+export interface IVideoQuestionResponse extends Document {
+  question: mongoose.Types.ObjectId
+  video: mongoose.Types.ObjectId
+  course: mongoose.Types.ObjectId
+  student: mongoose.Types.ObjectId
+  answer?: unknown
+  correct: boolean
+  firstAnswer?: unknown
+  firstAttemptCorrect: boolean
+  attempts: number
+  createdAt: Date
+  updatedAt: Date
+}
+
+// --------------------
+// Mongoose Schema
+// --------------------
+// A quiz-style question that pauses playback at `at` seconds until the student answers
+const videoQuestionSchema = new mongoose.Schema(
+  {
+    video: { type: mongoose.Schema.Types.ObjectId, ref: "Video", required: true },
+    course: { type: mongoose.Schema.Types.ObjectId, ref: "Course", required: true },
+    at: { type: Number, required: true, min: 0 },
+    ...questionSchemaFields,
+    // The video only counts as completed once these are answered correctly
+    countsTowardProgress: { type: Boolean, default: false },
+  },
+  { timestamps: true }
+)
+
+videoQuestionSchema.index({ video: 1, at: 1 })
+videoQuestionSchema.index({ course: 1, countsTowardProgress: 1 })
+
+export const VideoQuestion: Model<IVideoQuestion> =
+  (mongoose.models.VideoQuestion as Model<IVideoQuestion>) ||
+  mongoose.model<IVideoQuestion>("VideoQuestion", videoQuestionSchema)
+
+// One per student and question; the first attempt is kept for teacher stats
+const videoQuestionResponseSchema = new mongoose.Schema(
+  {
+    question: { type: mongoose.Schema.Types.ObjectId, ref: "VideoQuestion", required: true },
+    video: { type: mongoose.Schema.Types.ObjectId, ref: "Video", required: true },
+    course: { type: mongoose.Schema.Types.ObjectId, ref: "Course", required: true },
+    student: { type: mongoose.Schema.Types.ObjectId, ref: "Student", required: true },
+    answer: { type: mongoose.Schema.Types.Mixed },
+    correct: { type: Boolean, required: true },
+    firstAnswer: { type: mongoose.Schema.Types.Mixed },
+    firstAttemptCorrect: { type: Boolean, required: true },
+    attempts: { type: Number, default: 1 },
+  },
+  { timestamps: true }
+)
+
+videoQuestionResponseSchema.index({ question: 1, student: 1 }, { unique: true })
+videoQuestionResponseSchema.index({ student: 1, course: 1 })
+
+export const VideoQuestionResponse: Model<IVideoQuestionResponse> =
+  (mongoose.models.VideoQuestionResponse as Model<IVideoQuestionResponse>) ||
+  mongoose.model<IVideoQuestionResponse>("VideoQuestionResponse", videoQuestionResponseSchema)
+
+// --------------------
+// Zod Validation Schemas
+// --------------------
+export const videoQuestionValidationSchema = questionBaseValidationSchema
+  .extend({
+    type: z.enum(VIDEO_QUESTION_TYPES).default("multiple_choice"),
+    at: z.number().min(0).finite(),
+    countsTowardProgress: z.boolean().default(false),
+  })
+  .superRefine((val, ctx) => {
+    refineQuestion(val, ctx)
+    if (val.type === "short_answer" && val.requiresManualGrading) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["requiresManualGrading"],
+        message: "In-video questions are graded automatically",
+      })
+    }
+  })
+
+export type VideoQuestionInput = z.infer<typeof videoQuestionValidationSchema>
+
+export const videoQuestionAnswerSchema = z.object({
+  answer: z.union([z.number(), z.boolean(), z.string().max(500), z.array(z.number().int().min(0)).max(20)]),
+})
@@ -0,0 +1,67 @@
+import mongoose, { Model, Document } from "mongoose"
+import { z } from "zod"
+
+export interface IVideoWatch extends Document {
+  student: mongoose.Types.ObjectId
+  course: mongoose.Types.ObjectId
+  video: mongoose.Types.ObjectId
+  intervals: { start: number; end: number }[]
+  uniqueSeconds: number
+  duration: number
+  percentWatched: number
+  completed: boolean
+  completedAt?: Date
+  lastPosition: number
+  lastHeartbeatAt?: Date
+  createdAt: Date
+  updatedAt: Date
+}
+
+// Merged, non-overlapping [start, end) ranges of the video a student actually played
+const watchIntervalSchema = new mongoose.Schema(
+  {
+    start: { type: Number, required: true },
+    end: { type: Number, required: true },
+  },
+  { _id: false }
+)
+
+// One record per student and video, built from player heartbeats. Completion is
+// derived from the unique seconds covered, so seeking to the end does not count.
+const videoWatchSchema = new mongoose.Schema(
+  {
+    student: { type: mongoose.Schema.Types.ObjectId, ref: "Student", required: true },
+    course: { type: mongoose.Schema.Types.ObjectId, ref: "Course", required: true },
+    video: { type: mongoose.Schema.Types.ObjectId, ref: "Video", required: true },
+    intervals: { type: [watchIntervalSchema], default: [] },
+    uniqueSeconds: { type: Number, default: 0 },
+    duration: { type: Number, default: 0 },
+    percentWatched: { type: Number, default: 0 },
+    completed: { type: Boolean, default: false },
+    completedAt: { type: Date },
+    lastPosition: { type: Number, default: 0 },
+    lastHeartbeatAt: { type: Date },
+  },
+  { timestamps: true }
+)
+
+videoWatchSchema.index({ student: 1, video: 1 }, { unique: true })
+videoWatchSchema.index({ course: 1, student: 1 })
+
+export const VideoWatch: Model<IVideoWatch> =
+  (mongoose.models.VideoWatch as Model<IVideoWatch>) || mongoose.model<IVideoWatch>("VideoWatch", videoWatchSchema)
+
+export const heartbeatValidationSchema = z.object({
+  videoId: z.string().min(1),
+  duration: z.number().positive().finite(),
+  position: z.number().min(0).finite(),
+  segments: z
+    .array(
+      z
+        .object({ start: z.number().min(0).finite(), end: z.number().min(0).finite() })
+        .refine((s) => s.end > s.start, { message: "Segment end must be after its start" })
+    )
+    .max(50),
+})
+
+export type Heartbeat = z.infer<typeof heartbeatValidationSchema>
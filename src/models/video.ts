@@ -4,6 +4,25 @@ import { z } from "zod"
 
 
 
+export const RELEASE_MODES = ["immediate", "date", "after_enrollment"] as const
+export type ReleaseMode = (typeof RELEASE_MODES)[number]
+
+export interface VideoRelease {
+  mode: ReleaseMode
+  date?: Date
+  daysAfterEnrollment?: number
+}
+
+export interface VideoPrerequisite {
+  type: "video" | "quiz"
+  refId: mongoose.Types.ObjectId
+}
+
+export interface VideoChapter {
+  title: string
+  start: number // seconds
+}
+
 export interface IVideo extends Document {
   title: string
   description?: string
@@ -17,10 +36,16 @@ export interface IVideo extends Document {
   format?: string
   fileSize?: number
   isProcessed: boolean
-  processingStatus: "pending" | "processing" | "completed" | "failed"
+  processingStatus: "pending" | "queued" | "processing" | "completed" | "failed" | "cancelled"
+  processingJobId?: string
   publicId?: string
   thumbnails?: string[]
+  thumbnailTrack?: string
+  chapters?: VideoChapter[]
   variants?: { quality: string; url: string; bitrate?: number; resolution?: string }[]
+  hlsStorage?: { driver: "local" | "cloudinary"; prefix: string }
+  release?: VideoRelease
+  prerequisites?: VideoPrerequisite[]
 }
 // Define the video schema
 const videoSchema = new mongoose.Schema(
@@ -40,10 +65,10 @@ const videoSchema = new mongoose.Schema(
     isProcessed: { type: Boolean, default: false }, // Whether video has been processed for HLS
     processingStatus: { 
       type: String, 
-      enum: ['pending', 'processing', 'completed', 'failed'], 
+      enum: ['pending', 'queued', 'processing', 'completed', 'failed', 'cancelled'], 
       default: 'pending' 
     },
-    processingJobId: { type: String }, // Processing job ID for tracking
+    processingJobId: { type: String }, // Latest VideoProcessingJob for this video
     processingError: { type: String }, // Error message if processing failed
     fileSize: { type: Number }, // File size in bytes
     format: { type: String }, // Video format (mp4, avi, etc.)
@@ -56,6 +81,7 @@ const videoSchema = new mongoose.Schema(
     bitRate: { type: Number }, // Bit rate from metadata
     frameRate: { type: Number }, // Frame rate from metadata
     thumbnails: [{ type: String }], // Array of thumbnail URLs
+    thumbnailTrack: { type: String }, // WebVTT track of sprite-sheet tiles for seek previews
     preview: { type: String }, // Preview clip URL
     availableQualities: [{ type: String }], // Available quality variants
     processedAt: { type: Date }, // When processing completed
@@ -65,6 +91,29 @@ const videoSchema = new mongoose.Schema(
       url: { type: String },
       bitrate: { type: Number },
       resolution: { type: String }
+    }],
+    // Where the packaged HLS output lives; see src/lib/video-storage.ts
+    hlsStorage: {
+      driver: { type: String, enum: ["local", "cloudinary"] },
+      prefix: { type: String },
+    },
+    // Teacher-defined sections, kept sorted by start time
+    chapters: [{
+      _id: false,
+      title: { type: String, required: true, trim: true },
+      start: { type: Number, required: true, min: 0 },
+    }],
+    // Drip scheduling: when enrolled students can open the video
+    release: {
+      mode: { type: String, enum: RELEASE_MODES, default: "immediate" },
+      date: { type: Date },
+      daysAfterEnrollment: { type: Number, min: 0 },
+    },
+    // Items the student has to finish first (watch a video, pass a quiz)
+    prerequisites: [{
+      _id: false,
+      type: { type: String, enum: ["video", "quiz"], required: true },
+      refId: { type: mongoose.Schema.Types.ObjectId, required: true },
     }]
   },
   { timestamps: true }
@@ -88,7 +137,7 @@ export const videoValidationSchema = z.object({
   resolution: z.string().optional(),
   framerate: z.number().optional(),
   isProcessed: z.boolean().optional(),
-  processingStatus: z.enum(['pending', 'processing', 'completed', 'failed']).optional(),
+  processingStatus: z.enum(['pending', 'queued', 'processing', 'completed', 'failed', 'cancelled']).optional(),
   processingError: z.string().optional(),
   fileSize: z.number().optional(),
   format: z.string().optional(),
@@ -96,6 +145,39 @@ export const videoValidationSchema = z.object({
   audioCodec: z.string().optional(),
 })
 
+export const videoAccessRulesSchema = z.object({
+  release: z
+    .object({
+      mode: z.enum(RELEASE_MODES),
+      date: z.coerce.date().optional(),
+      daysAfterEnrollment: z.number().int().min(0).max(3650).optional(),
+    })
+    .refine((r) => r.mode !== "date" || !!r.date, { message: "A release date is required", path: ["date"] })
+    .refine((r) => r.mode !== "after_enrollment" || r.daysAfterEnrollment !== undefined, {
+      message: "Days after enrollment are required",
+      path: ["daysAfterEnrollment"],
+    })
+    .optional(),
+  prerequisites: z
+    .array(z.object({ type: z.enum(["video", "quiz"]), refId: z.string().min(1) }))
+    .max(20)
+    .optional(),
+})
+
+export const videoChaptersSchema = z.object({
+  chapters: z
+    .array(
+      z.object({
+        title: z.string().trim().min(1, "Chapter title is required").max(120),
+        start: z.number().min(0),
+      })
+    )
+    .max(100)
+    .refine((chapters) => new Set(chapters.map((c) => c.start)).size === chapters.length, {
+      message: "Two chapters cannot start at the same time",
+    }),
+})
+
 export const Video: Model<IVideo> =
   (mongoose.models.Video as Model<IVideo>) ||
   mongoose.model<IVideo>("Video", videoSchema)
\ No newline at end of file